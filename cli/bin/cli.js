@@ -18,8 +18,9 @@ program.name('cf-deploy').description('CLI tool for deploying applications to Cl
  */
 program
 	.command('deploy')
-	.description('Deploy an application based on configuration file (creates a new immutable project each time)')
+	.description('Deploy an application based on configuration file (creates a new project unless --project is given)')
 	.option('-c, --config <path>', 'Path to configuration file', 'deploy.config.json')
+	.option('-p, --project <projectId>', 'Deploy a new version of an existing project instead of creating one')
 	.option('--api-token <token>', 'API token for authentication (or use CF_API_TOKEN env var)')
 	.option('--router-url <url>', 'Router URL (or use CF_ROUTER_URL env var)', 'http://127.0.0.1:8787')
 	.option('--dry-run', 'Show what would be deployed without actually deploying')
@@ -44,15 +45,24 @@ program
 
 			const client = new ApiClient(routerUrl, apiToken);
 
-			// Create a new project for each deployment (immutable deployment model)
+			// Redeploy an existing project, or create a new one
 			let projectId;
 			log.log('');
-			log.log(`📦 Creating new project: ${config.projectName}`);
-			await log.indent(async (log) => {
-				const project = await client.createProject(config.projectName);
-				projectId = project.id;
-				log.log(`✓ Project created: ${projectId}`);
-			});
+			if (options.project) {
+				log.log(`📦 Using existing project: ${options.project}`);
+				await log.indent(async (log) => {
+					const project = await client.getProject(options.project);
+					projectId = project.id;
+					log.log(`✓ Project found: ${project.name} (${projectId})`);
+				});
+			} else {
+				log.log(`📦 Creating new project: ${config.projectName}`);
+				await log.indent(async (log) => {
+					const project = await client.createProject(config.projectName, config.projectSlug);
+					projectId = project.id;
+					log.log(`✓ Project created: ${projectId}${project.slug ? ` (slug: ${project.slug})` : ''}`);
+				});
+			}
 
 			// Validate redirect limits
 			if (config.config?.redirects) {
@@ -106,6 +116,8 @@ program
 				config: config.config,
 				run_worker_first: config.run_worker_first,
 				env: config.env,
+				outbound: config.outbound,
+				errorPages: config.errorPages,
 			};
 
 			// Load assets if configured
@@ -140,8 +152,13 @@ program
 				await log.indent(async (log) => {
 					const serverDirectory = path.resolve(configDirectory, config.server.modulesDirectory);
 					deployment.server = await loadServerSideCode(serverDirectory, config.server.entrypoint, config.server.compatibilityDate);
+					deployment.server.compatibilityFlags = config.server.compatibilityFlags;
+					deployment.server.entrypointClass = config.server.entrypointClass;
+					deployment.server.crons = config.server.crons;
 					log.log(`✓ Loaded ${Object.keys(deployment.server.modules).length} modules`);
-					log.log(`📌 Entrypoint: ${deployment.server.entrypoint}`);
+					log.log(
+						`📌 Entrypoint: ${deployment.server.entrypoint}${deployment.server.entrypointClass ? ` (${deployment.server.entrypointClass})` : ''}`,
+					);
 
 					const totalServerSize = Object.values(deployment.server.modules).reduce((sum, moduleInfo) => {
 						return sum + Buffer.from(moduleInfo.content, 'base64').length;
@@ -189,6 +206,9 @@ program
 			log.log(`📊 Deployment Summary:`);
 			log.indent((log) => {
 				log.log(`- Project: ${config.projectName} (${projectId})`);
+				if (result.deployment) {
+					log.log(`- Deployment: #${result.deployment.id}`);
+				}
 				log.log(`- Assets deployed: ${result.deployedAssets || Math.max(deployment.assets.length, 0)}`);
 				if (result.newAssets !== undefined) {
 					log.log(`- New assets: ${result.newAssets}`);
@@ -260,6 +280,145 @@ program
 		}
 	});
 
+/**
+ * List deployments command
+ */
+program
+	.command('deployments <projectId>')
+	.description('List all deployments of a project')
+	.option('--api-token <token>', 'API token for authentication (or use CF_API_TOKEN env var)')
+	.option('--router-url <url>', 'Router URL (or use CF_ROUTER_URL env var)', 'http://127.0.0.1:8787')
+	.action(async (projectId, options) => {
+		try {
+			const apiToken = options.apiToken || process.env.CF_API_TOKEN;
+			const routerUrl = options.routerUrl || process.env.CF_ROUTER_URL || 'http://127.0.0.1:8787';
+
+			if (!apiToken) {
+				throw new Error('API token is required. Set CF_API_TOKEN environment variable or use --api-token flag.');
+			}
+
+			const client = new ApiClient(routerUrl, apiToken);
+			const { activeDeploymentId, deployments } = await client.listDeployments(projectId);
+
+			console.log(`\n📋 Deployments of ${projectId}:\n`);
+			for (const deployment of deployments) {
+				const marker = deployment.id === activeDeploymentId ? ' (active)' : '';
+				console.log(`  • #${deployment.id}${marker} - ${deployment.createdAt}`);
+				console.log(`    Assets: ${deployment.assetsCount || 0}, Server: ${deployment.hasServerSideCode ? 'Yes' : 'No'}`);
+			}
+
+			console.log(`\nTotal: ${deployments.length} deployment(s)`);
+		} catch (error) {
+			console.error('\n❌ Failed to list deployments:', error.message);
+			process.exit(1);
+		}
+	});
+
+/**
+ * Rollback command
+ */
+program
+	.command('rollback <projectId> <deploymentId>')
+	.description('Make an earlier deployment of a project active again (no re-upload)')
+	.option('--api-token <token>', 'API token for authentication (or use CF_API_TOKEN env var)')
+	.option('--router-url <url>', 'Router URL (or use CF_ROUTER_URL env var)', 'http://127.0.0.1:8787')
+	.action(async (projectId, deploymentId, options) => {
+		try {
+			const apiToken = options.apiToken || process.env.CF_API_TOKEN;
+			const routerUrl = options.routerUrl || process.env.CF_ROUTER_URL || 'http://127.0.0.1:8787';
+
+			if (!apiToken) {
+				throw new Error('API token is required. Set CF_API_TOKEN environment variable or use --api-token flag.');
+			}
+
+			const client = new ApiClient(routerUrl, apiToken);
+			const result = await client.rollbackDeployment(projectId, deploymentId);
+
+			console.log(`\n✅ ${result.message} (was #${result.previousDeploymentId ?? 'none'})`);
+		} catch (error) {
+			console.error('\n❌ Rollback failed:', error.message);
+			process.exit(1);
+		}
+	});
+
+/**
+ * Slug command
+ */
+program
+	.command('slug <projectId> <slug>')
+	.description('Change the slug of a project (the previous slug redirects for 7 days)')
+	.option('--api-token <token>', 'API token for authentication (or use CF_API_TOKEN env var)')
+	.option('--router-url <url>', 'Router URL (or use CF_ROUTER_URL env var)', 'http://127.0.0.1:8787')
+	.action(async (projectId, slug, options) => {
+		try {
+			const apiToken = options.apiToken || process.env.CF_API_TOKEN;
+			const routerUrl = options.routerUrl || process.env.CF_ROUTER_URL || 'http://127.0.0.1:8787';
+
+			if (!apiToken) {
+				throw new Error('API token is required. Set CF_API_TOKEN environment variable or use --api-token flag.');
+			}
+
+			const client = new ApiClient(routerUrl, apiToken);
+			const result = await client.updateSlug(projectId, slug);
+
+			console.log(`\n✅ Slug set to ${result.project.slug}${result.previousSlug ? ` (was ${result.previousSlug})` : ''}`);
+		} catch (error) {
+			console.error('\n❌ Failed to update slug:', error.message);
+			process.exit(1);
+		}
+	});
+
+/**
+ * Maintenance command
+ */
+program
+	.command('maintenance <projectId> <state>')
+	.description('Take a project offline (on) or back online (off)')
+	.option('--page <path>', 'Asset path of the maintenance page, e.g. /maintenance.html')
+	.option('--retry-after <seconds>', 'Seconds for the Retry-After header', (value) => Number.parseInt(value, 10))
+	.option('--allow-ip <ip>', 'IP address that still reaches the live site (repeatable)', (value, previous) => [...previous, value], [])
+	.option('--bypass-token <token>', 'Token that unlocks the live site when passed as ?__maintenance_bypass=<token>')
+	.option('--start <time>', 'ISO 8601 time the maintenance starts')
+	.option('--end <time>', 'ISO 8601 time the maintenance ends')
+	.option('--api-token <token>', 'API token for authentication (or use CF_API_TOKEN env var)')
+	.option('--router-url <url>', 'Router URL (or use CF_ROUTER_URL env var)', 'http://127.0.0.1:8787')
+	.action(async (projectId, state, options) => {
+		try {
+			const apiToken = options.apiToken || process.env.CF_API_TOKEN;
+			const routerUrl = options.routerUrl || process.env.CF_ROUTER_URL || 'http://127.0.0.1:8787';
+
+			if (!apiToken) {
+				throw new Error('API token is required. Set CF_API_TOKEN environment variable or use --api-token flag.');
+			}
+			if (state !== 'on' && state !== 'off') {
+				throw new Error(`State must be 'on' or 'off', got '${state}'`);
+			}
+
+			const maintenance =
+				state === 'on'
+					? {
+							enabled: true,
+							page: options.page,
+							retryAfter: options.retryAfter,
+							allowedIps: options.allowIp.length > 0 ? options.allowIp : undefined,
+							bypassToken: options.bypassToken,
+							startsAt: options.start,
+							endsAt: options.end,
+						}
+					: { enabled: false };
+
+			const client = new ApiClient(routerUrl, apiToken);
+			await client.updateProject(projectId, { maintenance });
+
+			console.log(
+				`\n✅ Maintenance ${state === 'on' ? (options.start ? `scheduled from ${options.start}` : 'enabled') : 'disabled'} for ${projectId}`,
+			);
+		} catch (error) {
+			console.error('\n❌ Failed to update maintenance mode:', error.message);
+			process.exit(1);
+		}
+	});
+
 /**
  * Init command - create example config
  */
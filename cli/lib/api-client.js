@@ -12,16 +12,17 @@ export class ApiClient {
 	/**
 	 * Create a new project
 	 * @param {string} name - Project name
+	 * @param {string} [slug] - Optional unique slug used in project URLs
 	 * @returns {Promise<Object>} Created project
 	 */
-	async createProject(name) {
+	async createProject(name, slug) {
 		const response = await fetch(`${this.routerUrl}/__api/projects`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
 				Authorization: this.apiToken,
 			},
-			body: JSON.stringify({ name }),
+			body: JSON.stringify({ name, slug }),
 		});
 
 		const result = await response.json();
@@ -71,6 +72,97 @@ export class ApiClient {
 		return result.projects;
 	}
 
+	/**
+	 * List all deployments of a project
+	 * @param {string} projectId - Project ID
+	 * @returns {Promise<Object>} Active deployment ID and deployments (newest first)
+	 */
+	async listDeployments(projectId) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/deployments`, {
+			headers: {
+				Authorization: this.apiToken,
+			},
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to list deployments: HTTP ${response.status} - ${errorText}`);
+		}
+
+		const result = await response.json();
+		return { activeDeploymentId: result.activeDeploymentId, deployments: result.deployments };
+	}
+
+	/**
+	 * Roll a project back to an earlier deployment
+	 * @param {string} projectId - Project ID
+	 * @param {string|number} deploymentId - Deployment to activate
+	 * @returns {Promise<Object>} Rollback result
+	 */
+	async rollbackDeployment(projectId, deploymentId) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/deployments/${deploymentId}/rollback`, {
+			method: 'POST',
+			headers: {
+				Authorization: this.apiToken,
+			},
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to roll back: HTTP ${response.status} - ${errorText}`);
+		}
+
+		return await response.json();
+	}
+
+	/**
+	 * Change the slug of a project. The previous slug keeps redirecting for 7 days.
+	 * @param {string} projectId - Project ID
+	 * @param {string} slug - New slug
+	 * @returns {Promise<Object>} Updated project and previous slug
+	 */
+	async updateSlug(projectId, slug) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/slug`, {
+			method: 'PUT',
+			headers: {
+				'Content-Type': 'application/json',
+				Authorization: this.apiToken,
+			},
+			body: JSON.stringify({ slug }),
+		});
+
+		const result = await response.json();
+		if (!result.success) {
+			throw new Error(`Failed to update slug: ${result.error}`);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Update the settings of a project, such as its maintenance mode
+	 * @param {string} projectId - Project ID
+	 * @param {Object} settings - Settings to change, e.g. { maintenance: { enabled: true } }
+	 * @returns {Promise<Object>} Updated project
+	 */
+	async updateProject(projectId, settings) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}`, {
+			method: 'PATCH',
+			headers: {
+				'Content-Type': 'application/json',
+				Authorization: this.apiToken,
+			},
+			body: JSON.stringify(settings),
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to update project: HTTP ${response.status} - ${errorText}`);
+		}
+
+		return await response.json();
+	}
+
 	/**
 	 * Phase 1: Create asset upload session
 	 * @param {string} projectId - Project ID
@@ -100,6 +192,73 @@ export class ApiClient {
 		return data.result;
 	}
 
+	/**
+	 * Get the progress of an upload session
+	 * @param {string} projectId - Project ID
+	 * @param {string} sessionId - Upload session ID
+	 * @returns {Promise<Object>} Session with uploaded hashes and remaining buckets
+	 */
+	async getUploadSession(projectId, sessionId) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/assets-upload-session/${sessionId}`, {
+			headers: {
+				Authorization: this.apiToken,
+			},
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to get upload session: HTTP ${response.status} - ${errorText}`);
+		}
+
+		const data = await response.json();
+		return data.session;
+	}
+
+	/**
+	 * Resume an interrupted upload session with a fresh JWT
+	 * @param {string} projectId - Project ID
+	 * @param {string} sessionId - Upload session ID
+	 * @returns {Promise<Object>} Upload session with JWT and remaining buckets
+	 */
+	async resumeUploadSession(projectId, sessionId) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/assets-upload-session/${sessionId}/resume`, {
+			method: 'POST',
+			headers: {
+				Authorization: this.apiToken,
+			},
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to resume upload session: HTTP ${response.status} - ${errorText}`);
+		}
+
+		const data = await response.json();
+		return data.result;
+	}
+
+	/**
+	 * Abort an upload session and discard its uploaded assets
+	 * @param {string} projectId - Project ID
+	 * @param {string} sessionId - Upload session ID
+	 * @returns {Promise<Object>} Cancellation result
+	 */
+	async cancelUploadSession(projectId, sessionId) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/assets-upload-session/${sessionId}`, {
+			method: 'DELETE',
+			headers: {
+				Authorization: this.apiToken,
+			},
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to cancel upload session: HTTP ${response.status} - ${errorText}`);
+		}
+
+		return response.json();
+	}
+
 	/**
 	 * Phase 2: Upload asset bucket
 	 * @param {string} projectId - Project ID
@@ -130,6 +289,37 @@ export class ApiClient {
 		return data.result;
 	}
 
+	/**
+	 * Phase 2: Upload a single asset as raw bytes (streamed into storage by the router)
+	 * @param {string} projectId - Project ID
+	 * @param {string} uploadJwt - Upload JWT
+	 * @param {string} hash - Content hash from the manifest
+	 * @param {Buffer} content - Raw file content
+	 * @returns {Promise<Object>} Upload result
+	 */
+	async uploadAsset(projectId, uploadJwt, hash, content) {
+		const response = await fetch(`${this.routerUrl}/__api/projects/${projectId}/assets/upload/${hash}`, {
+			method: 'PUT',
+			headers: {
+				Authorization: `Bearer ${uploadJwt}`,
+				'Content-Type': 'application/octet-stream',
+			},
+			body: content,
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to upload asset ${hash}: HTTP ${response.status} - ${errorText}`);
+		}
+
+		const data = await response.json();
+		if (!data.success) {
+			throw new Error(`Failed to upload asset ${hash}: ${JSON.stringify(data.errors || data.error)}`);
+		}
+
+		return data.result;
+	}
+
 	/**
 	 * Phase 3: Finalize deployment
 	 * @param {string} projectId - Project ID
@@ -151,6 +341,8 @@ export class ApiClient {
 				config: deployment.config,
 				run_worker_first: deployment.run_worker_first,
 				env: deployment.env,
+				outbound: deployment.outbound,
+				errorPages: deployment.errorPages,
 			}),
 		});
 
@@ -200,7 +392,7 @@ export class ApiClient {
 
 		// Phase 2: Upload session
 		console.log('\n🔄 Phase 2: Starting upload session...');
-		const { jwt: sessionJwt, buckets } = await this.createUploadSession(projectId, manifest);
+		const { sessionId, jwt: sessionJwt, buckets } = await this.createUploadSession(projectId, manifest);
 
 		// If no buckets, sessionJwt is already a completion token; otherwise it's an upload token
 		let completionJwt = sessionJwt;
@@ -211,28 +403,32 @@ export class ApiClient {
 			const totalFiles = buckets.flat().length;
 			console.log(`  Uploading ${buckets.length} bucket(s) with ${totalFiles} new files...`);
 
-			// Upload each bucket
-			for (let index = 0; index < buckets.length; index++) {
-				const bucket = buckets[index];
-				console.log(`  Uploading bucket ${index + 1}/${buckets.length} (${bucket.length} files)...`);
-
-				// Create payload with base64 encoded files
-				const payload = {};
-				for (const hash of bucket) {
-					// Find the asset with this hash
-					const manifestEntry = Object.entries(manifest).find(([_, data]) => data.hash === hash);
-					if (!manifestEntry) continue;
-					const [pathname] = manifestEntry;
-					const asset = deployment.assets.find((a) => a.pathname === pathname);
-					if (asset) {
-						payload[hash] = asset.content;
+			try {
+				// Upload each bucket
+				for (let index = 0; index < buckets.length; index++) {
+					const bucket = buckets[index];
+					console.log(`  Uploading bucket ${index + 1}/${buckets.length} (${bucket.length} files)...`);
+
+					// Stream each file as raw bytes; uploads are sequential because they share one session
+					for (const hash of bucket) {
+						// Find the asset with this hash
+						const manifestEntry = Object.entries(manifest).find(([_, data]) => data.hash === hash);
+						if (!manifestEntry) continue;
+						const [pathname] = manifestEntry;
+						const asset = deployment.assets.find((a) => a.pathname === pathname);
+						if (!asset) continue;
+
+						const result = await this.uploadAsset(projectId, sessionJwt, hash, Buffer.from(asset.content, 'base64'));
+						if (result.jwt) {
+							completionJwt = result.jwt;
+						}
 					}
 				}
-
-				const result = await this.uploadAssetBucket(projectId, sessionJwt, payload);
-				if (result.jwt) {
-					completionJwt = result.jwt;
-				}
+			} catch (error) {
+				// Discard the partial upload; a failed cancellation must not hide the upload error
+				console.log('  ✗ Upload failed, cancelling upload session...');
+				await this.cancelUploadSession(projectId, sessionId).catch(() => {});
+				throw error;
 			}
 
 			console.log('  ✓ All assets uploaded');
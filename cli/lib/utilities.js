@@ -55,7 +55,7 @@ export async function scanAssets(directory, patterns = ['**/*'], ignore = []) {
 		dot: false,
 	});
 
-	const MAX_ASSET_SIZE = 25 * 1024 * 1024; // 25 MiB
+	const MAX_ASSET_SIZE = 512 * 1024 * 1024; // 512 MiB
 
 	for (const file of files) {
 		const filePath = path.join(absoluteDirectory, file);
@@ -66,7 +66,7 @@ export async function scanAssets(directory, patterns = ['**/*'], ignore = []) {
 			throw new Error(
 				`Asset file '${file}' is too large: ${content.length} bytes (${(content.length / 1024 / 1024).toFixed(
 					2,
-				)} MiB). Maximum allowed is ${MAX_ASSET_SIZE} bytes (25 MiB).`,
+				)} MiB). Maximum allowed is ${MAX_ASSET_SIZE} bytes (512 MiB).`,
 			);
 		}
 
@@ -100,11 +100,14 @@ export async function loadServerSideCode(directory, entrypoint, compatibilityDat
 	}
 
 	// Scan all JavaScript/TypeScript/Python files and other module types
-	const files = await glob(['**/*.js', '**/*.cjs', '**/*.mjs', '**/*.py', '**/*.json', '**/*.txt', '**/*.html', '**/*.bin', '**/*.wasm'], {
-		cwd: absoluteDirectory,
-		nodir: true,
-		dot: false,
-	});
+	const files = await glob(
+		['**/*.js', '**/*.cjs', '**/*.mjs', '**/*.py', '**/*.json', '**/*.txt', '**/*.html', '**/*.bin', '**/*.map', '**/*.wasm'],
+		{
+			cwd: absoluteDirectory,
+			nodir: true,
+			dot: false,
+		},
+	);
 
 	const modules = {};
 	const MAX_TOTAL_SERVER_SIDE_CODE_SIZE = 10 * 1000 * 1000; // 10 MB
@@ -145,7 +148,8 @@ export async function loadServerSideCode(directory, entrypoint, compatibilityDat
 				moduleType = 'text';
 				break;
 			}
-			case '.bin': {
+			case '.bin':
+			case '.map': {
 				moduleType = 'data';
 				break;
 			}
@@ -1,4 +1,4 @@
-import { binarySearch, hashPath } from './assets-manifest';
+import { AssetsManifest, binarySearch, hashPath } from './assets-manifest';
 import { CONTENT_HASH_OFFSET, ENTRY_SIZE, HEADER_SIZE, PATH_HASH_OFFSET, PATH_HASH_SIZE } from './constants';
 import AssetManifestFixture from '../tests/fixtures/AssetManifest.bin';
 
@@ -186,6 +186,20 @@ describe('search methods', async () => {
 			}).toThrowErrorMatchingInlineSnapshot(`[TypeError: Search value should have a length of ${PATH_HASH_SIZE}]`);
 		});
 	});
+
+	describe('contentHashes()', () => {
+		it('lists the content hash of every entry', async () => {
+			const { manifest, entries } = await makeManifestOfLength(10);
+			const hashes = new AssetsManifest(new Uint8Array(manifest)).contentHashes();
+			expect(new Set(hashes)).toEqual(new Set(entries.map((entry) => entry.contentHash)));
+			expect(hashes).toHaveLength(10);
+		});
+
+		it('lists nothing for an empty manifest', async () => {
+			const { manifest } = await makeManifestOfLength(0);
+			expect(new AssetsManifest(new Uint8Array(manifest)).contentHashes()).toEqual([]);
+		});
+	});
 });
 
 /**
@@ -8,6 +8,16 @@ export class AssetsManifest {
 		const entry = binarySearch(this.data, pathHash);
 		return entry ? Uint8ToHexString(entry) : undefined;
 	}
+
+	/** Lists the content hashes of all entries, in manifest order. */
+	contentHashes(): string[] {
+		const hashes: string[] = [];
+		for (let offset = HEADER_SIZE; offset + ENTRY_SIZE <= this.data.byteLength; offset += ENTRY_SIZE) {
+			const start = this.data.byteOffset + offset + CONTENT_HASH_OFFSET;
+			hashes.push(Uint8ToHexString(new Uint8Array(this.data.buffer, start, CONTENT_HASH_SIZE)));
+		}
+		return hashes;
+	}
 }
 
 /**
@@ -11,6 +11,8 @@ interface AssetConfigBase {
 		rules: Record<string, { set?: Record<string, string>; unset?: string[] }>;
 	};
 	has_static_routing?: boolean;
+	/** Glob patterns of pathnames cached as immutable, in addition to detected fingerprinted filenames */
+	immutable_patterns?: string[];
 	debug?: boolean;
 }
 
@@ -77,6 +79,7 @@ export const normalizeConfiguration = (configuration?: AssetConfigInput): Requir
 			rules: {},
 		},
 		has_static_routing: configuration?.has_static_routing ?? false,
+		immutable_patterns: configuration?.immutable_patterns ?? [],
 		debug: configuration?.debug ?? false,
 	};
 };
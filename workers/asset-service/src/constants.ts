@@ -1,6 +1,9 @@
 // have the browser check in with the server to make sure its local cache is valid before using it
 export const CACHE_CONTROL_BROWSER = 'public, max-age=0, must-revalidate';
 
+// fingerprinted assets change their pathname whenever their content changes, so browsers can keep them for a year
+export const CACHE_CONTROL_IMMUTABLE = 'public, max-age=31536000, immutable';
+
 // Asset manifest constants
 export const HEADER_SIZE = 16;
 export const ENTRY_SIZE = 48;
@@ -8,3 +11,6 @@ export const PATH_HASH_OFFSET = 0;
 export const PATH_HASH_SIZE = 16;
 export const CONTENT_HASH_OFFSET = 16;
 export const CONTENT_HASH_SIZE = 32;
+
+// Assets larger than this are split into chunks, keeping each KV value below the 25 MiB limit
+export const MAX_CHUNK_SIZE = 20 * 1024 * 1024;
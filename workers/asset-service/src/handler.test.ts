@@ -374,6 +374,59 @@ describe('[Asset Worker] `handleRequest`', () => {
 		});
 	});
 
+	describe('cache control', () => {
+		const eTag = 'some-etag';
+
+		async function getCacheControl(pathname: string, contentType?: string, immutablePatterns?: string[]) {
+			const configuration = normalizeConfiguration({
+				html_handling: 'none',
+				not_found_handling: 'none',
+				immutable_patterns: immutablePatterns,
+			});
+			const exists = vi.fn().mockReturnValue(eTag);
+			const getByETag = vi.fn().mockReturnValue({
+				readableStream: new ReadableStream(),
+				contentType,
+				cacheStatus: 'HIT',
+			});
+
+			const response = await handleRequest(new Request(`https://example.com${pathname}`), configuration, exists, getByETag);
+			return response.headers.get('Cache-Control');
+		}
+
+		it('caches fingerprinted filenames as immutable', async () => {
+			expect(await getCacheControl('/assets/index-3f9a2c.js')).toBe('public, max-age=31536000, immutable');
+			expect(await getCacheControl('/assets/index-3f9a2c1d.js')).toBe('public, max-age=31536000, immutable');
+			expect(await getCacheControl('/static/js/main.8e1b4c7a2d.chunk.js')).toBe('public, max-age=31536000, immutable');
+		});
+
+		it('revalidates files without a fingerprint', async () => {
+			expect(await getCacheControl('/assets/app.js')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/downloads/release-20240101.zip')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/vendor/jquery-3.7.1.min.js')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/images/hero-background2.png')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/fonts/font-roboto400.woff2')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/js/app.bundle2024.js')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/js/my-UserList.js')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/images/logo-Retina2x.png')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/images/hero-Banner2x.png')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/fonts/font-Roboto12.woff2')).toBe('public, max-age=0, must-revalidate');
+			// Mixed-case hashes are not detected; they are covered by an immutable pattern instead
+			expect(await getCacheControl('/assets/index-DiwrgTda.css')).toBe('public, max-age=0, must-revalidate');
+		});
+
+		it('always revalidates HTML', async () => {
+			expect(await getCacheControl('/pages/about-3f9a2c1d.html')).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/assets/index-3f9a2c1d', 'text/html; charset=utf-8')).toBe('public, max-age=0, must-revalidate');
+		});
+
+		it('caches paths matching configured immutable patterns', async () => {
+			expect(await getCacheControl('/fonts/inter.woff2', undefined, ['/fonts/*'])).toBe('public, max-age=31536000, immutable');
+			expect(await getCacheControl('/images/logo.png', undefined, ['/fonts/*'])).toBe('public, max-age=0, must-revalidate');
+			expect(await getCacheControl('/assets/index-DiwrgTda.css', undefined, ['/assets/*'])).toBe('public, max-age=31536000, immutable');
+		});
+	});
+
 	describe('redirects', () => {
 		it('evaluates custom redirects', async () => {
 			const configuration = normalizeConfiguration({
@@ -733,6 +786,182 @@ describe('[Asset Worker] `handleRequest`', () => {
 			expect(location).not.toMatch(/^https?:\/\//);
 		});
 	});
+
+	describe('range requests', () => {
+		const eTag = 'some-etag';
+		const configuration = normalizeConfiguration({
+			html_handling: 'none',
+			not_found_handling: 'none',
+		});
+
+		function createGetByETag(content: string, withLength = true) {
+			return vi.fn().mockImplementation(() => ({
+				readableStream: new Response(content).body,
+				contentType: 'text/plain',
+				cacheStatus: 'HIT',
+				contentLength: withLength ? content.length : undefined,
+			}));
+		}
+
+		async function request(headers: Record<string, string>, getByETag = createGetByETag('abcdefghij')): Promise<Response> {
+			const exists = vi.fn().mockReturnValue(eTag);
+			return handleRequest(new Request('https://example.com/file.txt', { headers }), configuration, exists, getByETag);
+		}
+
+		it('advertises byte ranges on full responses', async () => {
+			const response = await request({});
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+			expect(await response.text()).toBe('abcdefghij');
+		});
+
+		it('returns 206 Partial Content for a single range', async () => {
+			const response = await request({ Range: 'bytes=2-5' });
+
+			expect(response.status).toBe(206);
+			expect(response.headers.get('Content-Range')).toBe('bytes 2-5/10');
+			expect(response.headers.get('Content-Length')).toBe('4');
+			expect(response.headers.get('Content-Type')).toBe('text/plain');
+			expect(response.headers.get('ETag')).toBe(`"${eTag}"`);
+			expect(await response.text()).toBe('cdef');
+		});
+
+		it('returns multipart/byteranges for several ranges', async () => {
+			const response = await request({ Range: 'bytes=0-1,-2' });
+
+			expect(response.status).toBe(206);
+			const contentType = response.headers.get('Content-Type');
+			expect(contentType).toMatch(/^multipart\/byteranges; boundary=/);
+			const text = await response.text();
+			expect(text).toContain('Content-Range: bytes 0-1/10\r\n\r\nab');
+			expect(text).toContain('Content-Range: bytes 8-9/10\r\n\r\nij');
+			expect(response.headers.get('Content-Length')).toBe(String(new TextEncoder().encode(text).byteLength));
+		});
+
+		it('returns 416 for unsatisfiable ranges', async () => {
+			const response = await request({ Range: 'bytes=20-' });
+
+			expect(response.status).toBe(416);
+			expect(response.headers.get('Content-Range')).toBe('bytes */10');
+		});
+
+		it('ignores the range when If-Range does not match the ETag', async () => {
+			const response = await request({ Range: 'bytes=2-5', 'If-Range': '"other-etag"' });
+			expect(response.status).toBe(200);
+			expect(await response.text()).toBe('abcdefghij');
+
+			const matching = await request({ Range: 'bytes=2-5', 'If-Range': `"${eTag}"` });
+			expect(matching.status).toBe(206);
+		});
+
+		it('serves ranges of assets without a known length', async () => {
+			const response = await request({ Range: 'bytes=-3' }, createGetByETag('abcdefghij', false));
+
+			expect(response.status).toBe(206);
+			expect(response.headers.get('Content-Range')).toBe('bytes 7-9/10');
+			expect(await response.text()).toBe('hij');
+		});
+
+		it('opens the asset at the first range when the storage supports it', async () => {
+			const openAt = vi.fn().mockImplementation((offset: number) => new Response('abcdefghij'.slice(offset)).body);
+			const getByETag = vi.fn().mockImplementation(() => ({
+				readableStream: new Response('abcdefghij').body,
+				contentType: 'text/plain',
+				cacheStatus: 'HIT',
+				contentLength: 10,
+				openAt,
+			}));
+
+			const response = await request({ Range: 'bytes=6-7' }, getByETag);
+
+			expect(await response.text()).toBe('gh');
+			expect(openAt).toHaveBeenCalledWith(6);
+		});
+
+		it('does not serve ranges for HEAD requests', async () => {
+			const exists = vi.fn().mockReturnValue(eTag);
+			const response = await handleRequest(
+				new Request('https://example.com/file.txt', { method: 'HEAD', headers: { Range: 'bytes=0-1' } }),
+				configuration,
+				exists,
+				createGetByETag('abcdefghij'),
+			);
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+		});
+	});
+
+	describe('precompressed variants', () => {
+		const eTag = 'some-etag';
+		const configuration = normalizeConfiguration({
+			html_handling: 'none',
+			not_found_handling: 'none',
+		});
+		const contents: Record<string, string> = {
+			[eTag]: 'original',
+			'gzip-etag': 'gzip-bytes',
+			'br-etag': 'br-bytes',
+		};
+
+		function createGetByETag(encodings?: Record<string, string>) {
+			return vi.fn().mockImplementation((requested: string) => ({
+				readableStream: new Response(contents[requested]).body,
+				contentType: requested === eTag ? 'application/javascript' : 'application/octet-stream',
+				cacheStatus: 'HIT',
+				contentLength: contents[requested]!.length,
+				encodings: requested === eTag ? encodings : undefined,
+			}));
+		}
+
+		async function request(headers: Record<string, string>, getByETag = createGetByETag({ gzip: 'gzip-etag', br: 'br-etag' })) {
+			const exists = vi.fn().mockReturnValue(eTag);
+			return handleRequest(new Request('https://example.com/app.js', { headers }), configuration, exists, getByETag);
+		}
+
+		it('serves the preferred variant the client accepts', async () => {
+			const response = await request({ 'Accept-Encoding': 'gzip, deflate, br' });
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Encoding')).toBe('br');
+			expect(response.headers.get('Content-Type')).toBe('application/javascript');
+			expect(response.headers.get('ETag')).toBe('"br-etag"');
+			expect(response.headers.get('Content-Length')).toBe('8');
+			expect(response.headers.get('Vary')).toContain('Accept-Encoding');
+			expect(await response.text()).toBe('br-bytes');
+		});
+
+		it('honours quality values', async () => {
+			const response = await request({ 'Accept-Encoding': 'br;q=0.5, gzip' });
+
+			expect(response.headers.get('Content-Encoding')).toBe('gzip');
+			expect(await response.text()).toBe('gzip-bytes');
+		});
+
+		it('serves the original content when no variant is acceptable', async () => {
+			const response = await request({ 'Accept-Encoding': 'deflate' });
+
+			expect(response.headers.has('Content-Encoding')).toBe(false);
+			expect(response.headers.get('ETag')).toBe(`"${eTag}"`);
+			expect(response.headers.get('Vary')).toContain('Accept-Encoding');
+			expect(await response.text()).toBe('original');
+		});
+
+		it('does not vary on Accept-Encoding for assets without variants', async () => {
+			const response = await request({ 'Accept-Encoding': 'gzip' }, createGetByETag());
+
+			expect(response.headers.has('Content-Encoding')).toBe(false);
+			expect(response.headers.get('Vary')).toBeNull();
+		});
+
+		it('returns 304 Not Modified for the ETag of the negotiated variant', async () => {
+			const response = await request({ 'Accept-Encoding': 'gzip', 'If-None-Match': '"gzip-etag"' });
+
+			expect(response.status).toBe(304);
+			expect(response.headers.get('Content-Encoding')).toBe('gzip');
+		});
+	});
 });
 
 describe('[Asset Worker] `canFetch`', () => {
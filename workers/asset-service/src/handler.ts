@@ -7,7 +7,9 @@
  * an in-memory map, or any other storage layer.
  */
 
+import { negotiateEncoding } from './utils/encoding';
 import { attachCustomHeaders, getAssetHeaders } from './utils/headers';
+import { createMultipartRangeBody, createRangeStream, isIfRangeSatisfied, parseRangeHeader } from './utils/range';
 import {
 	FoundResponse,
 	InternalServerErrorResponse,
@@ -17,13 +19,16 @@ import {
 	NotFoundResponse,
 	NotModifiedResponse,
 	OkResponse,
+	PartialContentResponse,
 	PermanentRedirectResponse,
+	RangeNotSatisfiableResponse,
 	SeeOtherResponse,
 	TemporaryRedirectResponse,
 } from './utils/responses';
 import { generateRedirectsMatcher, staticRedirectsMatcher } from './utils/rules-engine';
 
 import type { AssetConfig } from './configuration';
+import type { EncodingVariants } from './utils/encoding';
 
 /** Callback to check if an asset exists at the given pathname. Returns the content hash or `undefined`. */
 export type Exists = (pathname: string, request: Request) => Promise<string | undefined>;
@@ -36,8 +41,16 @@ export type GetByETag = (
 	readableStream: ReadableStream;
 	contentType: string | undefined;
 	cacheStatus: 'HIT' | 'MISS';
+	/** Length in bytes, when the stream itself does not carry it (e.g. reassembled chunked assets) */
+	contentLength?: number;
+	/** Opens the content at a byte offset, for storage that can skip ahead without reading the preceding bytes */
+	openAt?: (offset: number) => ReadableStream;
+	/** Content hashes of precompressed variants, retrievable through the same callback */
+	encodings?: EncodingVariants;
 }>;
 
+type Asset = Awaited<ReturnType<GetByETag>>;
+
 type AssetIntent = {
 	eTag: string;
 	status: typeof OkResponse.status | typeof NotFoundResponse.status;
@@ -162,16 +175,49 @@ const resolveAssetIntentToResponse = async (
 	getByETag: GetByETag,
 ): Promise<Response> => {
 	const method = request.method.toUpperCase();
-	const asset = await getByETag(assetIntent.eTag, request);
-	const headers = getAssetHeaders(assetIntent, asset.contentType, asset.cacheStatus, request, configuration);
+	let asset = await getByETag(assetIntent.eTag, request);
+	let eTag = assetIntent.eTag;
+
+	// Serve a precompressed variant if the client accepts one; each variant has its own ETag
+	const hasVariants = asset.encodings !== undefined && Object.keys(asset.encodings).length > 0;
+	const contentEncoding = hasVariants ? negotiateEncoding(request.headers.get('Accept-Encoding'), asset.encodings!) : undefined;
+	if (contentEncoding) {
+		asset.readableStream.cancel().catch(() => {});
+		eTag = asset.encodings![contentEncoding]!;
+		const variant = await getByETag(eTag, request);
+		asset = { ...variant, contentType: asset.contentType };
+	}
+
+	const headers = getAssetHeaders({ ...assetIntent, eTag }, asset.contentType, asset.cacheStatus, request, configuration);
+	if (asset.contentLength !== undefined) {
+		headers.set('Content-Length', String(asset.contentLength));
+	}
+	if (hasVariants) {
+		headers.append('Vary', 'Accept-Encoding');
+	}
+	const init: ResponseInit & { headers: Headers } = { headers };
+	if (contentEncoding) {
+		headers.set('Content-Encoding', contentEncoding);
+		// The variant is already encoded; the runtime must not compress it again
+		init.encodeBody = 'manual';
+	}
 
-	const strongETag = `"${assetIntent.eTag}"`;
+	const strongETag = `"${eTag}"`;
 	const weakETag = `W/${strongETag}`;
 	const ifNoneMatch = request.headers.get('If-None-Match') || '';
 	const eTags = new Set(ifNoneMatch.split(',').map((tag) => tag.trim()));
 	if (eTags.has(weakETag) || eTags.has(strongETag)) {
 		asset.readableStream.cancel().catch(() => {});
-		return new NotModifiedResponse(undefined, { headers });
+		return new NotModifiedResponse(undefined, init);
+	}
+
+	if (assetIntent.status === OkResponse.status && (method === 'GET' || method === 'HEAD')) {
+		headers.set('Accept-Ranges', 'bytes');
+
+		const range = request.headers.get('Range');
+		if (method === 'GET' && range !== null && isIfRangeSatisfied(request, strongETag)) {
+			return await resolveRangeRequest(asset, range, init);
+		}
 	}
 
 	let body: ReadableStream | undefined;
@@ -182,10 +228,10 @@ const resolveAssetIntentToResponse = async (
 	}
 	switch (assetIntent.status) {
 		case NotFoundResponse.status: {
-			return new NotFoundResponse(body, { headers });
+			return new NotFoundResponse(body, init);
 		}
 		case OkResponse.status: {
-			return new OkResponse(body, { headers });
+			return new OkResponse(body, init);
 		}
 		default: {
 			return new InternalServerErrorResponse(new Error(`Unexpected status: ${assetIntent.status}`));
@@ -193,6 +239,60 @@ const resolveAssetIntentToResponse = async (
 	}
 };
 
+/**
+ * Serves the byte ranges of a `Range` request as a `206 Partial Content` response
+ * (`multipart/byteranges` for several ranges), or `416` if no range is satisfiable.
+ *
+ * @param asset - The asset, with its stream not yet read
+ * @param rangeHeader - The `Range` header value
+ * @param init - The init of the full response; ranges apply to the encoded content
+ * @returns The range response, or the full asset if the header should be ignored
+ */
+const resolveRangeRequest = async (asset: Asset, rangeHeader: string, init: ResponseInit & { headers: Headers }): Promise<Response> => {
+	const { headers } = init;
+	let source: ReadableStream = asset.readableStream;
+	let size = asset.contentLength;
+	if (size === undefined) {
+		// Assets without a known length are single KV values, small enough to buffer
+		const content = await new Response(source).arrayBuffer();
+		size = content.byteLength;
+		source = new Response(content).body ?? new ReadableStream();
+		headers.set('Content-Length', String(size));
+	}
+
+	const ranges = parseRangeHeader(rangeHeader, size);
+	if (ranges === undefined) {
+		// Serve the full asset from the (possibly buffered) stream
+		return new OkResponse(source, init);
+	}
+
+	if (ranges === 'unsatisfiable') {
+		source.cancel().catch(() => {});
+		return new RangeNotSatisfiableResponse(size, init);
+	}
+
+	// Skip to the first range if the storage supports it
+	let sourceOffset = 0;
+	if (asset.openAt && ranges[0]!.start > 0) {
+		source.cancel().catch(() => {});
+		sourceOffset = ranges[0]!.start;
+		source = asset.openAt(sourceOffset);
+	}
+
+	if (ranges.length === 1) {
+		const [range] = ranges;
+		headers.set('Content-Range', `bytes ${range!.start}-${range!.end}/${size}`);
+		headers.set('Content-Length', String(range!.end - range!.start + 1));
+		return new PartialContentResponse(createRangeStream(source, ranges, sourceOffset), init);
+	}
+
+	const contentType = headers.get('Content-Type') ?? 'application/octet-stream';
+	const multipart = createMultipartRangeBody(source, ranges, size, contentType, sourceOffset);
+	headers.set('Content-Type', `multipart/byteranges; boundary=${multipart.boundary}`);
+	headers.set('Content-Length', String(multipart.length));
+	return new PartialContentResponse(multipart.body, init);
+};
+
 /**
  * Resolves the intent for a given pathname based on HTML handling configuration.
  *
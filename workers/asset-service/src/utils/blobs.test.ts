@@ -0,0 +1,145 @@
+import { env } from 'cloudflare:test';
+
+import {
+	addBlobReferences,
+	collectGarbage,
+	findAvailableBlobs,
+	getBlobChunkKey,
+	getBlobKey,
+	getGzipVariantId,
+	getProjectReferenceKey,
+	GC_GRACE_PERIOD_MS,
+	markUnreferencedBlobs,
+	releaseBlobReferences,
+} from './blobs';
+
+describe('[Asset Worker] Shared blob store', () => {
+	const kv = env.KV_ASSETS;
+	const hash = 'a'.repeat(64);
+	const otherHash = 'b'.repeat(64);
+
+	beforeEach(async () => {
+		const keys = await kv.list();
+		for (const key of keys.keys) {
+			await kv.delete(key.name);
+		}
+	});
+
+	async function listKeys(): Promise<string[]> {
+		const keys = await kv.list();
+		return keys.keys.map((key) => key.name);
+	}
+
+	describe('addBlobReferences()', () => {
+		it('records references per project and per blob', async () => {
+			expect(await addBlobReferences(kv, 'project-1', [hash, hash, otherHash])).toBe(2);
+
+			// KV lists keys in lexicographic order
+			expect(await listKeys()).toEqual([
+				getProjectReferenceKey('project-1', hash),
+				getProjectReferenceKey('project-1', otherHash),
+				`ref/${hash}/project-1`,
+				`ref/${otherHash}/project-1`,
+			]);
+		});
+
+		it('skips references the project already holds', async () => {
+			await addBlobReferences(kv, 'project-1', [hash]);
+			expect(await addBlobReferences(kv, 'project-1', [hash, otherHash])).toBe(1);
+		});
+	});
+
+	describe('findAvailableBlobs()', () => {
+		it('reports blobs that exist and are not marked for garbage collection', async () => {
+			await kv.put(getBlobKey(hash), 'content');
+			await kv.put(getBlobKey(otherHash), 'content');
+			await releaseBlobReferences(kv, 'project-1', [otherHash]);
+
+			expect(await findAvailableBlobs(kv, [hash, otherHash, 'c'.repeat(64)])).toEqual(new Set([hash]));
+		});
+	});
+
+	describe('markUnreferencedBlobs()', () => {
+		it('marks blobs without references, but not their chunks and variants', async () => {
+			await kv.put(getBlobKey(hash), 'content');
+			await kv.put(getBlobKey(getGzipVariantId(hash)), 'gzip');
+			await kv.put(getBlobKey(otherHash), 'content');
+			await addBlobReferences(kv, 'project-1', [otherHash]);
+
+			expect(await markUnreferencedBlobs(kv)).toEqual({ markedBlobs: [hash], cursor: undefined });
+			expect(await findAvailableBlobs(kv, [hash, otherHash])).toEqual(new Set([otherHash]));
+		});
+
+		it('only reports unreferenced blobs in a dry run', async () => {
+			await kv.put(getBlobKey(hash), 'content');
+
+			expect(await markUnreferencedBlobs(kv, { dryRun: true })).toEqual({ markedBlobs: [hash], cursor: undefined });
+			expect(await findAvailableBlobs(kv, [hash])).toEqual(new Set([hash]));
+		});
+
+		it('scans one page per call', async () => {
+			await kv.put(getBlobKey(hash), 'content');
+			await kv.put(getBlobKey(otherHash), 'content');
+
+			const first = await markUnreferencedBlobs(kv, { limit: 1 });
+			expect(first.markedBlobs).toEqual([hash]);
+			expect(first.cursor).toBeDefined();
+
+			expect(await markUnreferencedBlobs(kv, { limit: 1, cursor: first.cursor })).toEqual({ markedBlobs: [otherHash], cursor: undefined });
+		});
+	});
+
+	describe('collectGarbage()', () => {
+		const releasedAt = Date.now();
+		const afterGracePeriod = releasedAt + GC_GRACE_PERIOD_MS + 1;
+
+		async function storeBlob(blobHash: string): Promise<void> {
+			await kv.put(getBlobKey(blobHash), 'chunk list');
+			await kv.put(getBlobChunkKey(blobHash, 'c'.repeat(64)), 'chunk');
+			await kv.put(getBlobKey(getGzipVariantId(blobHash)), 'gzip');
+		}
+
+		it('deletes released blobs no project references, with their chunks and variants', async () => {
+			await storeBlob(hash);
+			await addBlobReferences(kv, 'project-1', [hash]);
+			await releaseBlobReferences(kv, 'project-1', [hash], releasedAt);
+			await kv.delete(getProjectReferenceKey('project-1', hash));
+
+			expect(await collectGarbage(kv, GC_GRACE_PERIOD_MS, afterGracePeriod)).toEqual({ deletedBlobs: 1, retainedBlobs: 0 });
+			expect(await listKeys()).toEqual([]);
+		});
+
+		it('keeps blobs other projects still reference', async () => {
+			await storeBlob(hash);
+			await addBlobReferences(kv, 'project-1', [hash]);
+			await addBlobReferences(kv, 'project-2', [hash]);
+			await releaseBlobReferences(kv, 'project-1', [hash], releasedAt);
+
+			expect(await collectGarbage(kv, GC_GRACE_PERIOD_MS, afterGracePeriod)).toEqual({ deletedBlobs: 0, retainedBlobs: 1 });
+			expect(await kv.get(getBlobKey(hash))).toBe('chunk list');
+			expect(await findAvailableBlobs(kv, [hash])).toEqual(new Set([hash]));
+		});
+
+		it('waits for the grace period before deleting released blobs', async () => {
+			await storeBlob(hash);
+			await releaseBlobReferences(kv, 'project-1', [hash], releasedAt);
+
+			expect(await collectGarbage(kv, GC_GRACE_PERIOD_MS, releasedAt + 1000)).toEqual({ deletedBlobs: 0, retainedBlobs: 0 });
+			expect(await kv.get(getBlobKey(hash))).toBe('chunk list');
+
+			expect(await collectGarbage(kv, GC_GRACE_PERIOD_MS, afterGracePeriod)).toEqual({ deletedBlobs: 1, retainedBlobs: 0 });
+			expect(await kv.get(getBlobKey(hash))).toBeNull();
+		});
+
+		it('keeps blobs that were referenced again after their release', async () => {
+			await storeBlob(hash);
+			await addBlobReferences(kv, 'project-1', [hash]);
+			await releaseBlobReferences(kv, 'project-1', [hash], releasedAt);
+			await kv.delete(getProjectReferenceKey('project-1', hash));
+			await addBlobReferences(kv, 'project-2', [hash]);
+
+			expect(await collectGarbage(kv, GC_GRACE_PERIOD_MS, afterGracePeriod)).toEqual({ deletedBlobs: 0, retainedBlobs: 1 });
+			expect(await kv.get(getBlobKey(hash))).toBe('chunk list');
+		});
+	});
+});
@@ -0,0 +1,187 @@
+import { batchExistsKv, deleteAllKeys, listAllKeys } from '../../../shared/kv';
+
+/*
+ * Asset content is stored once across all projects:
+ *
+ * - `blob/{hash}` - the content (or chunk list) with its metadata
+ * - `blob/{hash}/chunk/{chunkHash}` - chunks of a large blob
+ * - `blob/{hash}/gzip` - the generated gzip variant of a blob
+ * - `project/{projectId}/ref/{hash}` - a project's reference to a blob
+ * - `ref/{hash}/{projectId}` - the same reference, indexed by blob for counting
+ * - `gc/{hash}` - a blob that lost a reference and may have become garbage
+ */
+
+// Released blobs are kept at least this long, so that upload sessions which saw them
+// as existing (sessions last an hour) can still deploy and reference them
+export const GC_GRACE_PERIOD_MS = 2 * 60 * 60 * 1000;
+
+interface GarbageMarkerMetadata {
+	releasedAt: number;
+}
+
+/** Metadata of a project's reference to a blob */
+export interface BlobReferenceMetadata {
+	referencedAt: number;
+}
+
+/** Generates the key of a blob, addressed by the SHA-256 hash of its content. */
+export function getBlobKey(hash: string): string {
+	return `blob/${hash}`;
+}
+
+/** Generates the key of a chunk of a large blob. */
+export function getBlobChunkKey(hash: string, chunkHash: string): string {
+	return `blob/${hash}/chunk/${chunkHash}`;
+}
+
+/**
+ * Generates the identifier of a blob's generated gzip variant. It is used as the variant's
+ * ETag and resolves to a key inside the blob, so the variant is collected together with it.
+ */
+export function getGzipVariantId(hash: string): string {
+	return `${hash}/gzip`;
+}
+
+/** Generates the key of a project's reference to a blob. */
+export function getProjectReferenceKey(projectId: string, hash: string): string {
+	return `project/${projectId}/ref/${hash}`;
+}
+
+function getReferenceKey(hash: string, projectId: string): string {
+	return `ref/${hash}/${projectId}`;
+}
+
+function getGarbageMarkerKey(hash: string): string {
+	return `gc/${hash}`;
+}
+
+/**
+ * Records that a project references blobs. References the project already holds are not rewritten.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param projectId - The referencing project
+ * @param hashes - Content hashes of the referenced blobs
+ * @param now - The current time in milliseconds
+ * @returns The number of references added
+ */
+export async function addBlobReferences(kv: KVNamespace, projectId: string, hashes: string[], now = Date.now()): Promise<number> {
+	const metadata: BlobReferenceMetadata = { referencedAt: now };
+	const projectKeys = new Map([...new Set(hashes)].map((hash) => [getProjectReferenceKey(projectId, hash), hash]));
+	const existing = await batchExistsKv(kv, [...projectKeys.keys()]);
+	const missing = [...projectKeys].filter(([key]) => !existing.has(key)).map(([, hash]) => hash);
+
+	await Promise.all(
+		missing.flatMap((hash) => [
+			kv.put(getReferenceKey(hash, projectId), '', { metadata }),
+			kv.put(getProjectReferenceKey(projectId, hash), '', { metadata }),
+		]),
+	);
+	return missing.length;
+}
+
+/**
+ * Drops a project's references to blobs and marks the blobs for garbage collection.
+ * The project's own reference keys are left to the caller, which deletes them with the project.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param projectId - The project releasing the blobs
+ * @param hashes - Content hashes of the released blobs
+ * @param now - The current time in milliseconds
+ */
+export async function releaseBlobReferences(kv: KVNamespace, projectId: string, hashes: string[], now = Date.now()): Promise<void> {
+	const metadata: GarbageMarkerMetadata = { releasedAt: now };
+	await Promise.all(
+		hashes.flatMap((hash) => [kv.delete(getReferenceKey(hash, projectId)), kv.put(getGarbageMarkerKey(hash), '', { metadata })]),
+	);
+}
+
+/**
+ * Finds the blobs that exist and can be referenced without uploading them again.
+ * Blobs marked for garbage collection are reported missing, since they may be deleted at any time.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param hashes - Content hashes to look up
+ * @returns The hashes of the available blobs
+ */
+export async function findAvailableBlobs(kv: KVNamespace, hashes: string[]): Promise<Set<string>> {
+	const existing = await batchExistsKv(kv, [...hashes.map((hash) => getBlobKey(hash)), ...hashes.map((hash) => getGarbageMarkerKey(hash))]);
+	return new Set(hashes.filter((hash) => existing.has(getBlobKey(hash)) && !existing.has(getGarbageMarkerKey(hash))));
+}
+
+/**
+ * Marks blobs that no project references for garbage collection. Blobs normally get marked when
+ * their last reference is released; this catches blobs whose release was interrupted.
+ * Each call scans one page of blob keys, so a sweep can be spread over several invocations.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param options - The cursor returned by the previous call, the page size, and whether to only report the blobs
+ * @returns The hashes of the unreferenced blobs, and the cursor of the next page (undefined once all blobs were scanned)
+ */
+export async function markUnreferencedBlobs(
+	kv: KVNamespace,
+	options: { cursor?: string; limit?: number; dryRun?: boolean; now?: number } = {},
+): Promise<{ markedBlobs: string[]; cursor?: string }> {
+	const { cursor, limit = 100, dryRun = false, now = Date.now() } = options;
+	const page = await kv.list({ prefix: getBlobKey(''), cursor, limit });
+
+	// Chunks and variants live below their blob's key and are collected with it
+	const hashes = page.keys.map((key) => key.name.slice(getBlobKey('').length)).filter((hash) => !hash.includes('/'));
+	const marked = await batchExistsKv(
+		kv,
+		hashes.map((hash) => getGarbageMarkerKey(hash)),
+	);
+	const unreferenced = await Promise.all(
+		hashes
+			.filter((hash) => !marked.has(getGarbageMarkerKey(hash)))
+			.map(async (hash) => {
+				const references = await kv.list({ prefix: getReferenceKey(hash, ''), limit: 1 });
+				return references.keys.length === 0 ? [hash] : [];
+			}),
+	);
+	const markedBlobs = unreferenced.flat();
+
+	if (!dryRun) {
+		const metadata: GarbageMarkerMetadata = { releasedAt: now };
+		await Promise.all(markedBlobs.map((hash) => kv.put(getGarbageMarkerKey(hash), '', { metadata })));
+	}
+
+	return { markedBlobs, cursor: page.list_complete ? undefined : page.cursor };
+}
+
+/**
+ * Deletes blobs marked for garbage collection that no project references anymore,
+ * together with their chunks and generated variants. Blobs released within the grace
+ * period are left for a later run.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param gracePeriodMs - How long released blobs are kept
+ * @param now - The current time in milliseconds
+ * @returns The number of deleted blobs and of marked blobs that turned out to be referenced again
+ */
+export async function collectGarbage(
+	kv: KVNamespace,
+	gracePeriodMs = GC_GRACE_PERIOD_MS,
+	now = Date.now(),
+): Promise<{ deletedBlobs: number; retainedBlobs: number }> {
+	let deletedBlobs = 0;
+	let retainedBlobs = 0;
+
+	for await (const marker of listAllKeys<GarbageMarkerMetadata>(kv, { prefix: getGarbageMarkerKey('') })) {
+		if (marker.metadata && now - marker.metadata.releasedAt < gracePeriodMs) {
+			continue;
+		}
+
+		const hash = marker.name.slice(getGarbageMarkerKey('').length);
+		const references = await kv.list({ prefix: getReferenceKey(hash, ''), limit: 1 });
+		if (references.keys.length === 0) {
+			await deleteAllKeys(kv, { prefix: `${getBlobKey(hash)}/` });
+			await kv.delete(getBlobKey(hash));
+			deletedBlobs++;
+		} else {
+			retainedBlobs++;
+		}
+		await kv.delete(marker.name);
+	}
+
+	return { deletedBlobs, retainedBlobs };
+}
@@ -0,0 +1,77 @@
+import { vi } from 'vitest';
+
+import { cacheAsset, getAssetCacheKey, matchCachedAsset } from './cache';
+
+import type { AssetCache } from './cache';
+
+/** In-memory stand-in for a Workers cache */
+class MemoryCache implements AssetCache {
+	readonly entries = new Map<string, Response>();
+
+	async match(key: RequestInfo | URL): Promise<Response | undefined> {
+		return this.entries.get(String(key))?.clone();
+	}
+
+	async put(key: RequestInfo | URL, response: Response): Promise<void> {
+		this.entries.set(String(key), new Response(await response.arrayBuffer(), response));
+	}
+
+	async delete(key: RequestInfo | URL): Promise<boolean> {
+		return this.entries.delete(String(key));
+	}
+}
+
+function streamOf(text: string): ReadableStream {
+	return new Response(text).body!;
+}
+
+describe('[Asset Worker] Asset cache', () => {
+	const cacheKey = getAssetCacheKey('project-1', 'a'.repeat(64));
+
+	it('scopes cache keys by project and content hash', () => {
+		expect(cacheKey).toBe(`https://asset-cache.internal/project-1/${'a'.repeat(64)}`);
+		expect(getAssetCacheKey('project-1', 'b'.repeat(64))).not.toBe(cacheKey);
+		expect(getAssetCacheKey('project-2', 'a'.repeat(64))).not.toBe(cacheKey);
+	});
+
+	it('misses assets that were never cached', async () => {
+		expect(await matchCachedAsset(new MemoryCache(), cacheKey)).toBeUndefined();
+	});
+
+	it('serves the value while caching it with its metadata', async () => {
+		const cache = new MemoryCache();
+		const metadata = { contentType: 'text/css', size: 11, encodings: { gzip: 'b'.repeat(64) } };
+
+		const { value, written } = cacheAsset(cache, cacheKey, { value: streamOf('body {...}\n'), metadata });
+		expect(await new Response(value).text()).toBe('body {...}\n');
+		await written;
+
+		const cached = await matchCachedAsset(cache, cacheKey);
+		expect(cached?.metadata).toEqual(metadata);
+		expect(await new Response(cached?.value).text()).toBe('body {...}\n');
+	});
+
+	it('caches assets without metadata', async () => {
+		const cache = new MemoryCache();
+
+		const { value, written } = cacheAsset(cache, cacheKey, { value: streamOf('content') });
+		await value.cancel();
+		await written;
+
+		const cached = await matchCachedAsset(cache, cacheKey);
+		expect(cached?.metadata).toBeNull();
+		expect(await new Response(cached?.value).text()).toBe('content');
+	});
+
+	it('does not fail when the cache write fails', async () => {
+		const cache = new MemoryCache();
+		cache.put = () => Promise.reject(new Error('Cache unavailable'));
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const { value, written } = cacheAsset(cache, cacheKey, { value: streamOf('content') });
+		expect(await new Response(value).text()).toBe('content');
+		await expect(written).resolves.toBeUndefined();
+		expect(consoleError).toHaveBeenCalled();
+		consoleError.mockRestore();
+	});
+});
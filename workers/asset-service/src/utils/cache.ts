@@ -0,0 +1,69 @@
+import type { AssetMetadata } from './kv';
+
+/** Name of the Workers cache holding asset values in front of KV */
+export const ASSET_CACHE_NAME = 'assets';
+
+/** The subset of the Cache API used for assets */
+export type AssetCache = Pick<Cache, 'match' | 'put' | 'delete'>;
+
+// Cache keys must be URLs; this origin is never fetched
+const CACHE_KEY_ORIGIN = 'https://asset-cache.internal';
+const METADATA_HEADER = 'X-Asset-Metadata';
+const CACHE_TTL_SECONDS = 31_536_000;
+
+/** An asset value as stored in KV (the content or a chunk list) with its metadata */
+export interface CachedAsset {
+	value: ReadableStream;
+	metadata?: AssetMetadata | null;
+}
+
+/**
+ * Generates the cache key of an asset. Assets are content-addressed, so an entry never goes
+ * stale and deployments do not need to purge it.
+ *
+ * @param projectId - The project ID
+ * @param eTag - The content hash of the asset
+ * @returns The cache key URL
+ */
+export function getAssetCacheKey(projectId: string, eTag: string): string {
+	return `${CACHE_KEY_ORIGIN}/${encodeURIComponent(projectId)}/${eTag}`;
+}
+
+/**
+ * Looks up an asset in the cache.
+ *
+ * @param cache - The asset cache
+ * @param cacheKey - The cache key of the asset
+ * @returns The cached value and metadata, or undefined on a cache miss
+ */
+export async function matchCachedAsset(cache: AssetCache, cacheKey: string): Promise<CachedAsset | undefined> {
+	const response = await cache.match(cacheKey);
+	if (!response?.body) {
+		return undefined;
+	}
+	const metadata: AssetMetadata | null = JSON.parse(response.headers.get(METADATA_HEADER) ?? 'null');
+	return { value: response.body, metadata };
+}
+
+/**
+ * Writes an asset read from KV to the cache while it is being served. The value is
+ * teed, so the cache is filled even if the client stops reading early.
+ *
+ * @param cache - The asset cache
+ * @param cacheKey - The cache key of the asset
+ * @param asset - The value and metadata read from KV
+ * @returns The value to serve, and a promise settling once the cache write has finished
+ */
+export function cacheAsset(cache: AssetCache, cacheKey: string, asset: CachedAsset): { value: ReadableStream; written: Promise<void> } {
+	const [value, cached] = asset.value.tee();
+	const headers = new Headers({ 'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}` });
+	if (asset.metadata) {
+		headers.set(METADATA_HEADER, JSON.stringify(asset.metadata));
+	}
+	const response = new Response(cached, { headers });
+	// A failed cache write only costs a KV read on the next request
+	const written = cache.put(cacheKey, response).catch((error) => {
+		console.error(`Failed to cache ${cacheKey}:`, error);
+	});
+	return { value, written };
+}
@@ -0,0 +1,163 @@
+import { env } from 'cloudflare:test';
+import { vi } from 'vitest';
+
+import { createChunkedStream, putChunkedAsset, splitIntoChunks } from './chunks';
+
+import type { ChunkList } from './chunks';
+
+const encoder = new TextEncoder();
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const part of parts) {
+				controller.enqueue(encoder.encode(part));
+			}
+			controller.close();
+		},
+	});
+}
+
+function bufferOf(text: string): ArrayBuffer {
+	return new Uint8Array(encoder.encode(text)).buffer;
+}
+
+async function collect(content: ArrayBuffer | ReadableStream<Uint8Array>, chunkSize: number): Promise<string[]> {
+	const chunks: string[] = [];
+	for await (const chunk of splitIntoChunks(content, chunkSize)) {
+		chunks.push(new TextDecoder().decode(chunk));
+	}
+	return chunks;
+}
+
+describe('[Asset Worker] Chunked assets', () => {
+	const kv = env.KV_ASSETS;
+	const getChunkKey = (hash: string): string => `project/test/chunk/${hash}`;
+
+	beforeEach(async () => {
+		const keys = await kv.list();
+		for (const key of keys.keys) {
+			await kv.delete(key.name);
+		}
+	});
+
+	async function readChunked(assetKey: string): Promise<string> {
+		const chunkList = await kv.get<ChunkList>(assetKey, { type: 'json' });
+		expect(chunkList).not.toBeNull();
+		const stream = createChunkedStream(chunkList!, (hash) => kv.get(getChunkKey(hash), { type: 'stream' }));
+		return await new Response(stream).text();
+	}
+
+	describe('splitIntoChunks()', () => {
+		it('splits buffers into fixed-size chunks', async () => {
+			expect(await collect(bufferOf('abcdefghij'), 4)).toEqual(['abcd', 'efgh', 'ij']);
+			expect(await collect(new ArrayBuffer(0), 4)).toEqual([]);
+		});
+
+		it('regroups stream reads into fixed-size chunks', async () => {
+			expect(await collect(streamOf('ab', 'cdefg', 'h', 'ijklmn'), 4)).toEqual(['abcd', 'efgh', 'ijkl', 'mn']);
+			expect(await collect(streamOf('abcd', 'efgh'), 4)).toEqual(['abcd', 'efgh']);
+		});
+	});
+
+	describe('putChunkedAsset()', () => {
+		it('stores content that fits into one chunk directly', async () => {
+			await putChunkedAsset(kv, 'asset', streamOf('abc'), getChunkKey, { contentType: 'text/plain' }, { chunkSize: 4 });
+
+			const stored = await kv.getWithMetadata('asset', { type: 'text' });
+			expect(stored.value).toBe('abc');
+			expect(stored.metadata).toEqual({ contentType: 'text/plain', size: 3 });
+		});
+
+		it('adds extra metadata to content stored as a single value', async () => {
+			const getSingleValueMetadata = vi.fn().mockResolvedValue({ encodings: { gzip: 'gzip-hash' } });
+			await putChunkedAsset(
+				kv,
+				'small',
+				streamOf('abc'),
+				getChunkKey,
+				{ contentType: 'text/plain' },
+				{ chunkSize: 4, getSingleValueMetadata },
+			);
+			await putChunkedAsset(
+				kv,
+				'large',
+				streamOf('abcdefghij'),
+				getChunkKey,
+				{ contentType: 'text/plain' },
+				{ chunkSize: 4, getSingleValueMetadata },
+			);
+
+			const small = await kv.getWithMetadata('small');
+			expect(small.metadata).toEqual({ contentType: 'text/plain', encodings: { gzip: 'gzip-hash' }, size: 3 });
+			expect(getSingleValueMetadata).toHaveBeenCalledTimes(1);
+			const large = await kv.getWithMetadata('large');
+			expect(large.metadata).toEqual({ contentType: 'text/plain', size: 10, chunked: true });
+		});
+
+		it('stores larger content as a chunk list and reassembles it', async () => {
+			await putChunkedAsset(kv, 'asset', streamOf('abcdefghij'), getChunkKey, { contentType: 'video/mp4' }, { chunkSize: 4 });
+
+			const stored = await kv.getWithMetadata<{ chunked?: boolean }>('asset', { type: 'json' });
+			expect(stored.metadata).toEqual({ contentType: 'video/mp4', size: 10, chunked: true });
+			expect(stored.value).toEqual({ size: 10, chunkSize: 4, chunks: [expect.any(String), expect.any(String), expect.any(String)] });
+
+			expect(await readChunked('asset')).toBe('abcdefghij');
+		});
+
+		it('opens chunked content at an offset without fetching earlier chunks', async () => {
+			await putChunkedAsset(kv, 'asset', streamOf('abcdefghij'), getChunkKey, undefined, { chunkSize: 4 });
+			const chunkList = await kv.get<ChunkList>('asset', { type: 'json' });
+
+			const fetched: string[] = [];
+			const stream = createChunkedStream(
+				chunkList!,
+				(hash) => {
+					fetched.push(hash);
+					return kv.get(getChunkKey(hash), { type: 'stream' });
+				},
+				6,
+			);
+
+			expect(await new Response(stream).text()).toBe('ghij');
+			expect(fetched).toEqual(chunkList!.chunks.slice(1));
+		});
+
+		it('deduplicates identical chunks', async () => {
+			await putChunkedAsset(kv, 'asset', bufferOf('abcdabcdab'), getChunkKey, undefined, { chunkSize: 4 });
+
+			const chunkList = await kv.get<ChunkList>('asset', { type: 'json' });
+			expect(chunkList!.chunks[0]).toBe(chunkList!.chunks[1]);
+			const chunkKeys = await kv.list({ prefix: 'project/test/chunk/' });
+			expect(chunkKeys.keys).toHaveLength(2);
+
+			expect(await readChunked('asset')).toBe('abcdabcdab');
+		});
+
+		it('removes stored chunks and writes no asset when the content stream fails', async () => {
+			// A chunk another asset already uses must survive the failed upload
+			await putChunkedAsset(kv, 'other', streamOf('abcdxyzw'), getChunkKey, undefined, { chunkSize: 4 });
+			const sharedChunks = await kv.list({ prefix: 'project/test/chunk/' });
+
+			let pulls = 0;
+			const failing = new ReadableStream<Uint8Array>({
+				pull(controller) {
+					pulls++;
+					if (pulls === 1) {
+						controller.enqueue(encoder.encode('abcdefgh'));
+					} else {
+						controller.error(new Error('Content hash mismatch'));
+					}
+				},
+			});
+
+			await expect(putChunkedAsset(kv, 'asset', failing, getChunkKey, undefined, { chunkSize: 4 })).rejects.toThrow(
+				'Content hash mismatch',
+			);
+
+			expect(await kv.get('asset')).toBeNull();
+			const remainingChunks = await kv.list({ prefix: 'project/test/chunk/' });
+			expect(remainingChunks.keys.map((key) => key.name)).toEqual(sharedChunks.keys.map((key) => key.name));
+		});
+	});
+});
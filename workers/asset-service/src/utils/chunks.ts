@@ -0,0 +1,190 @@
+import { batchExistsKv } from '../../../shared/kv';
+import { MAX_CHUNK_SIZE } from '../constants';
+
+/**
+ * Record stored under an asset's key in place of its content when the asset
+ * is larger than a single KV value. Chunks are content-addressed by their SHA-256 hash.
+ */
+export interface ChunkList {
+	size: number;
+	/** Size of every chunk except the last */
+	chunkSize: number;
+	chunks: string[];
+}
+
+/**
+ * Splits asset content into chunks of exactly `chunkSize` bytes (the last chunk may be smaller).
+ * Streams are consumed incrementally, so at most one chunk is buffered at a time.
+ *
+ * @param content - The asset content
+ * @param chunkSize - The chunk size in bytes
+ * @yields The chunks in order; nothing for empty content
+ */
+export async function* splitIntoChunks(
+	content: ArrayBuffer | ReadableStream<Uint8Array>,
+	chunkSize = MAX_CHUNK_SIZE,
+): AsyncGenerator<Uint8Array> {
+	if (content instanceof ArrayBuffer) {
+		for (let offset = 0; offset < content.byteLength; offset += chunkSize) {
+			yield new Uint8Array(content, offset, Math.min(chunkSize, content.byteLength - offset));
+		}
+		return;
+	}
+
+	let buffer = new Uint8Array(chunkSize);
+	let filled = 0;
+	const reader = content.getReader();
+	try {
+		for (let result = await reader.read(); !result.done; result = await reader.read()) {
+			let value = result.value;
+			while (value.byteLength > 0) {
+				const length = Math.min(chunkSize - filled, value.byteLength);
+				buffer.set(value.subarray(0, length), filled);
+				filled += length;
+				value = value.subarray(length);
+
+				if (filled === chunkSize) {
+					yield buffer;
+					buffer = new Uint8Array(chunkSize);
+					filled = 0;
+				}
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+
+	if (filled > 0) {
+		yield buffer.subarray(0, filled);
+	}
+}
+
+/**
+ * Stores asset content in KV. Content that fits into a single chunk is stored under the
+ * asset key as before; larger content is split into chunks stored under `getChunkKey(hash)`
+ * and a {@link ChunkList} is stored under the asset key. The chunk list is written last,
+ * so the asset only becomes visible once all of its chunks are stored.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param assetKey - The key of the asset
+ * @param content - The asset content
+ * @param getChunkKey - Maps a chunk hash to its KV key
+ * @param metadata - Metadata stored with the asset key (the content size is added)
+ * @param options - The chunk size in bytes, and a callback returning extra metadata for content stored as a single value
+ */
+export async function putChunkedAsset(
+	kv: KVNamespace,
+	assetKey: string,
+	content: ArrayBuffer | ReadableStream<Uint8Array>,
+	getChunkKey: (hash: string) => string,
+	metadata: object | undefined,
+	{
+		chunkSize = MAX_CHUNK_SIZE,
+		getSingleValueMetadata,
+	}: { chunkSize?: number; getSingleValueMetadata?: (content: Uint8Array) => Promise<object | undefined> } = {},
+): Promise<void> {
+	const chunkList: ChunkList = { size: 0, chunkSize, chunks: [] };
+	const storedChunkKeys: string[] = [];
+	// Hold back the first chunk until we know whether the content needs chunking at all
+	let firstChunk: Uint8Array | undefined;
+
+	const putChunk = async (chunk: Uint8Array): Promise<void> => {
+		const hash = await hashChunk(chunk);
+		const chunkKey = getChunkKey(hash);
+		const existing = await batchExistsKv(kv, [chunkKey]);
+		if (!existing.has(chunkKey)) {
+			await kv.put(chunkKey, chunk);
+			storedChunkKeys.push(chunkKey);
+		}
+		chunkList.chunks.push(hash);
+		chunkList.size += chunk.byteLength;
+	};
+
+	try {
+		for await (const chunk of splitIntoChunks(content, chunkSize)) {
+			if (firstChunk === undefined && chunkList.chunks.length === 0) {
+				firstChunk = chunk;
+				continue;
+			}
+			if (firstChunk !== undefined) {
+				await putChunk(firstChunk);
+				firstChunk = undefined;
+			}
+			await putChunk(chunk);
+		}
+	} catch (error) {
+		// Remove chunks this upload stored; chunks that existed before may belong to other assets
+		await Promise.all(storedChunkKeys.map((key) => kv.delete(key)));
+		throw error;
+	}
+
+	if (chunkList.chunks.length === 0) {
+		const content = firstChunk ?? new Uint8Array(0);
+		const extraMetadata = await getSingleValueMetadata?.(content);
+		await kv.put(assetKey, content, { metadata: { ...metadata, ...extraMetadata, size: content.byteLength } });
+		return;
+	}
+
+	await kv.put(assetKey, JSON.stringify(chunkList), { metadata: { ...metadata, size: chunkList.size, chunked: true } });
+}
+
+/**
+ * Reassembles a chunked asset into a single stream with a known length.
+ * Chunks are fetched one at a time as the stream is read; chunks before `offset` are not fetched.
+ *
+ * @param chunkList - The chunk list of the asset
+ * @param getChunk - Retrieves a chunk's content by its hash
+ * @param offset - The byte position to start the stream at
+ * @returns The asset content stream from `offset` (its length is `chunkList.size - offset`)
+ */
+export function createChunkedStream(
+	chunkList: ChunkList,
+	getChunk: (hash: string) => Promise<ReadableStream | null>,
+	offset = 0,
+): ReadableStream {
+	let index = Math.floor(offset / chunkList.chunkSize);
+	let skip = offset - index * chunkList.chunkSize;
+	let current: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+	const stream = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			for (;;) {
+				if (!current) {
+					const hash = chunkList.chunks[index++];
+					if (hash === undefined) {
+						controller.close();
+						return;
+					}
+					const chunk = await getChunk(hash);
+					if (!chunk) {
+						throw new Error(`Chunk ${hash} of a chunked asset is missing`);
+					}
+					current = chunk.getReader();
+				}
+
+				const result = await current.read();
+				if (result.done) {
+					current = undefined;
+					continue;
+				}
+				if (skip >= result.value.byteLength) {
+					skip -= result.value.byteLength;
+					continue;
+				}
+				controller.enqueue(skip > 0 ? result.value.subarray(skip) : result.value);
+				skip = 0;
+				return;
+			}
+		},
+		async cancel(reason) {
+			await current?.cancel(reason);
+		},
+	});
+
+	return stream.pipeThrough(new FixedLengthStream(chunkList.size - offset));
+}
+
+async function hashChunk(chunk: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', chunk);
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
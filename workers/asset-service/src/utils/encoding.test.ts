@@ -0,0 +1,43 @@
+import { compressGzip, isContentEncoding, negotiateEncoding } from './encoding';
+
+describe('[Asset Worker] Content encodings', () => {
+	describe('negotiateEncoding()', () => {
+		const variants = { br: 'br-hash', gzip: 'gzip-hash' };
+
+		it('prefers brotli when both encodings are equally acceptable', () => {
+			expect(negotiateEncoding('gzip, deflate, br', variants)).toBe('br');
+			expect(negotiateEncoding('*', variants)).toBe('br');
+		});
+
+		it('ranks encodings by quality value', () => {
+			expect(negotiateEncoding('br;q=0.8, gzip;q=0.9', variants)).toBe('gzip');
+			expect(negotiateEncoding('br;q=0, *', variants)).toBe('gzip');
+		});
+
+		it('only picks encodings with a variant', () => {
+			expect(negotiateEncoding('br, gzip', { gzip: 'gzip-hash' })).toBe('gzip');
+			expect(negotiateEncoding('br', { gzip: 'gzip-hash' })).toBeUndefined();
+		});
+
+		it('serves the original content without an acceptable encoding', () => {
+			expect(negotiateEncoding(new Headers().get('Accept-Encoding'), variants)).toBeUndefined();
+			expect(negotiateEncoding('identity', variants)).toBeUndefined();
+			expect(negotiateEncoding('gzip;q=0, br;q=0', variants)).toBeUndefined();
+		});
+	});
+
+	it('recognizes supported content encodings', () => {
+		expect(isContentEncoding('br')).toBe(true);
+		expect(isContentEncoding('gzip')).toBe(true);
+		expect(isContentEncoding('deflate')).toBe(false);
+	});
+
+	it('compresses content with gzip', async () => {
+		const content = new TextEncoder().encode('hello '.repeat(500));
+		const compressed = await compressGzip(content);
+
+		expect(compressed.byteLength).toBeLessThan(content.byteLength);
+		const decompressed = new Response(new Response(compressed).body!.pipeThrough(new DecompressionStream('gzip')));
+		expect(await decompressed.text()).toBe('hello '.repeat(500));
+	});
+});
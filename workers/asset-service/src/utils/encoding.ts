@@ -0,0 +1,68 @@
+/** Content encodings served from precompressed variants, in order of preference */
+export const CONTENT_ENCODINGS = ['br', 'gzip'] as const;
+
+export type ContentEncoding = (typeof CONTENT_ENCODINGS)[number];
+
+/** Content hashes of the precompressed variants of an asset, by content encoding */
+export type EncodingVariants = Partial<Record<ContentEncoding, string>>;
+
+/**
+ * Checks whether a value names one of the supported {@link CONTENT_ENCODINGS}.
+ *
+ * @param value - The value to check
+ * @returns True if precompressed variants with this encoding can be served
+ */
+export function isContentEncoding(value: string): value is ContentEncoding {
+	const encodings: readonly string[] = CONTENT_ENCODINGS;
+	return encodings.includes(value);
+}
+
+// Assets smaller than this are not worth compressing
+export const MIN_COMPRESSIBLE_SIZE = 1024;
+
+/**
+ * Picks the variant to serve for an `Accept-Encoding` request header. Encodings are ranked by
+ * their quality value; ties are broken by {@link CONTENT_ENCODINGS} order.
+ *
+ * @param acceptEncoding - The `Accept-Encoding` header value, if present
+ * @param variants - The available variants of the asset
+ * @returns The encoding to serve, or undefined to serve the asset as-is
+ */
+export function negotiateEncoding(acceptEncoding: string | null, variants: EncodingVariants): ContentEncoding | undefined {
+	if (!acceptEncoding) {
+		return undefined;
+	}
+
+	const qualities = new Map<string, number>();
+	for (const part of acceptEncoding.split(',')) {
+		const [name, ...parameters] = part.split(';').map((token) => token.trim().toLowerCase());
+		if (!name) continue;
+		const qParameter = parameters.find((parameter) => parameter.startsWith('q='));
+		const quality = qParameter === undefined ? 1 : Number.parseFloat(qParameter.slice(2));
+		qualities.set(name, Number.isNaN(quality) ? 0 : quality);
+	}
+
+	let best: ContentEncoding | undefined;
+	let bestQuality = 0;
+	for (const encoding of CONTENT_ENCODINGS) {
+		if (!variants[encoding]) continue;
+		const quality = qualities.get(encoding) ?? qualities.get('*') ?? 0;
+		if (quality > bestQuality) {
+			best = encoding;
+			bestQuality = quality;
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Compresses content with gzip.
+ *
+ * @param content - The content to compress
+ * @returns The gzip-encoded content
+ */
+export async function compressGzip(content: Uint8Array): Promise<Uint8Array> {
+	const stream = new Response(content).body!.pipeThrough(new CompressionStream('gzip'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
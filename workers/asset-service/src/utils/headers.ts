@@ -1,6 +1,6 @@
-import { CACHE_CONTROL_BROWSER } from '../constants';
+import { CACHE_CONTROL_BROWSER, CACHE_CONTROL_IMMUTABLE } from '../constants';
 import { getMimeType } from './mime';
-import { generateRulesMatcher, replacer } from './rules-engine';
+import { generateGlobOnlyRuleRegExp, generateRulesMatcher, replacer } from './rules-engine';
 
 import type { AssetConfig } from '../configuration';
 import type { AssetIntentWithResolver } from '../handler';
@@ -26,10 +26,12 @@ export function getAssetHeaders(
 		ETag: `"${eTag}"`,
 	});
 
-	headers.append('Content-Type', contentType ?? getMimeType(assetPathname));
+	const resolvedContentType = contentType ?? getMimeType(assetPathname);
+	headers.append('Content-Type', resolvedContentType);
 
 	if (isCacheable(request)) {
-		headers.append('Cache-Control', CACHE_CONTROL_BROWSER);
+		const immutable = isImmutableAsset(assetPathname, resolvedContentType, configuration.immutable_patterns);
+		headers.append('Cache-Control', immutable ? CACHE_CONTROL_IMMUTABLE : CACHE_CONTROL_BROWSER);
 	}
 
 	// Attach X-Asset-Cache-Status to show users that we are caching assets
@@ -45,7 +47,29 @@ export function getAssetHeaders(
 }
 
 function isCacheable(request: Request) {
-	return !request.headers.has('Authorization') && !request.headers.has('Range');
+	return !request.headers.has('Authorization');
+}
+
+// A lowercase hex hash of at least 6 characters before the extension, e.g. `index-3f9a2c.js` or `main.8e1b4c7a2d.chunk.js`.
+// It must mix letters and digits, so dates and words are not mistaken for hashes. Mixed-case hashes (Vite's default)
+// cannot be told apart from names like `logo-Retina2x.png`, so they need an `immutable_patterns` glob.
+const FINGERPRINT_REGEX = /[.-](?=[\da-f]*[a-f])(?=[\da-f]*\d)[\da-f]{6,}(?:\.[\da-z]+)+$/;
+
+/**
+ * Checks whether an asset never changes under its pathname and can be cached as immutable.
+ * HTML is always revalidated, since its pathname is the entry point users navigate to.
+ *
+ * @param pathname - The pathname of the served asset
+ * @param contentType - The content type of the served asset
+ * @param patterns - Additional glob patterns of immutable pathnames from the configuration
+ * @returns True if the pathname is fingerprinted or matches one of the patterns
+ */
+export function isImmutableAsset(pathname: string, contentType: string, patterns: string[]): boolean {
+	if (contentType.startsWith('text/html')) {
+		return false;
+	}
+	const filename = pathname.slice(pathname.lastIndexOf('/') + 1);
+	return FINGERPRINT_REGEX.test(filename) || patterns.some((pattern) => generateGlobOnlyRuleRegExp(pattern).test(pathname));
 }
 
 /**
@@ -1,5 +1,14 @@
+import type { EncodingVariants } from './encoding';
+
 export type AssetMetadata = {
-	contentType: string;
+	/** Content type of legacy per-project assets; shared blobs are served with the type of their pathname */
+	contentType?: string;
+	/** Content size in bytes (absent for assets uploaded before it was recorded) */
+	size?: number;
+	/** Generated precompressed variants */
+	encodings?: EncodingVariants;
+	/** Set when the value is a chunk list rather than the asset content */
+	chunked?: boolean;
 };
 
 /**
@@ -0,0 +1,115 @@
+import { env } from 'cloudflare:test';
+
+import { addBlobReferences, findAvailableBlobs, getBlobKey, getProjectReferenceKey, GC_GRACE_PERIOD_MS } from './blobs';
+import { releaseUnusedBlobs, sweepProjectOrphans } from './orphans';
+import { CONTENT_HASH_OFFSET, ENTRY_SIZE, HEADER_SIZE } from '../constants';
+
+/** Builds a manifest listing the given content hashes (path hashes are irrelevant here) */
+function buildManifest(hashes: string[]): ArrayBuffer {
+	const manifest = new Uint8Array(HEADER_SIZE + hashes.length * ENTRY_SIZE);
+	for (const [index, hash] of hashes.entries()) {
+		const bytes = hash.match(/.{2}/g)?.map((byte) => Number.parseInt(byte, 16)) ?? [];
+		manifest.set(bytes, HEADER_SIZE + index * ENTRY_SIZE + CONTENT_HASH_OFFSET);
+	}
+	return manifest.buffer;
+}
+
+describe('[Asset Worker] Orphan sweep', () => {
+	const kv = env.KV_ASSETS;
+	const usedHash = 'a'.repeat(64);
+	const orphanHash = 'b'.repeat(64);
+	const variantHash = 'c'.repeat(64);
+	const now = Date.now();
+	const afterGracePeriod = now + GC_GRACE_PERIOD_MS + 1;
+
+	beforeEach(async () => {
+		const keys = await kv.list();
+		for (const key of keys.keys) {
+			await kv.delete(key.name);
+		}
+	});
+
+	async function referenceBlobs(projectId: string, hashes: string[]): Promise<void> {
+		await Promise.all(hashes.map((hash) => kv.put(getBlobKey(hash), 'content')));
+		await addBlobReferences(kv, projectId, hashes, now);
+	}
+
+	it('releases blobs no deployment uses anymore', async () => {
+		await referenceBlobs('project-1', [usedHash, orphanHash, variantHash]);
+		await kv.put('project/project-1/manifest/1', buildManifest([usedHash]));
+		await kv.put('project/project-1/encodings/1', JSON.stringify({ [usedHash]: { br: variantHash } }));
+
+		expect(await sweepProjectOrphans(kv, 'project-1', { now: afterGracePeriod })).toEqual({
+			releasedBlobs: [orphanHash],
+			deletedKeys: [],
+		});
+		expect(await kv.get(getProjectReferenceKey('project-1', orphanHash))).toBeNull();
+		expect(await kv.get(getProjectReferenceKey('project-1', usedHash))).toBe('');
+		expect(await findAvailableBlobs(kv, [usedHash, orphanHash, variantHash])).toEqual(new Set([usedHash, variantHash]));
+	});
+
+	it('keeps blobs used by any deployment', async () => {
+		await referenceBlobs('project-1', [usedHash, orphanHash]);
+		await kv.put('project/project-1/manifest', buildManifest([usedHash]));
+		await kv.put('project/project-1/manifest/2', buildManifest([orphanHash]));
+
+		expect(await sweepProjectOrphans(kv, 'project-1', { now: afterGracePeriod })).toEqual({ releasedBlobs: [], deletedKeys: [] });
+	});
+
+	it('keeps references added within the grace period', async () => {
+		await referenceBlobs('project-1', [orphanHash]);
+
+		expect(await sweepProjectOrphans(kv, 'project-1', { now: now + 1000 })).toEqual({ releasedBlobs: [], deletedKeys: [] });
+	});
+
+	it('deletes unused legacy asset copies and chunks', async () => {
+		await kv.put('project/project-1/manifest/1', buildManifest([usedHash]));
+		await kv.put(`project/project-1/asset/${usedHash}`, JSON.stringify({ size: 2, chunkSize: 1, chunks: ['chunk-1'] }), {
+			metadata: { chunked: true, encodings: { gzip: variantHash } },
+		});
+		await kv.put(`project/project-1/asset/${variantHash}`, 'gzip');
+		await kv.put(`project/project-1/asset/${orphanHash}`, 'orphan');
+		await kv.put('project/project-1/chunk/chunk-1', 'a');
+		await kv.put('project/project-1/chunk/chunk-2', 'b');
+
+		expect(await sweepProjectOrphans(kv, 'project-1')).toEqual({
+			releasedBlobs: [],
+			deletedKeys: [`project/project-1/asset/${orphanHash}`, 'project/project-1/chunk/chunk-2'],
+		});
+		expect(await kv.get(`project/project-1/asset/${orphanHash}`)).toBeNull();
+		expect(await kv.get(`project/project-1/asset/${variantHash}`)).toBe('gzip');
+		expect(await kv.get('project/project-1/chunk/chunk-1')).toBe('a');
+	});
+
+	it('only reports orphans in a dry run', async () => {
+		await referenceBlobs('project-1', [orphanHash]);
+		await kv.put(`project/project-1/asset/${usedHash}`, 'orphan');
+
+		expect(await sweepProjectOrphans(kv, 'project-1', { dryRun: true, now: afterGracePeriod })).toEqual({
+			releasedBlobs: [orphanHash],
+			deletedKeys: [`project/project-1/asset/${usedHash}`],
+		});
+		expect(await kv.get(getProjectReferenceKey('project-1', orphanHash))).toBe('');
+		expect(await kv.get(`project/project-1/asset/${usedHash}`)).toBe('orphan');
+		expect(await findAvailableBlobs(kv, [orphanHash])).toEqual(new Set([orphanHash]));
+	});
+
+	it('does not touch other projects', async () => {
+		await referenceBlobs('project-1', [orphanHash]);
+		await referenceBlobs('project-10', [orphanHash]);
+
+		await sweepProjectOrphans(kv, 'project-1', { now: afterGracePeriod });
+		expect(await kv.get(getProjectReferenceKey('project-10', orphanHash))).toBe('');
+	});
+
+	describe('releaseUnusedBlobs()', () => {
+		it('releases uploaded blobs no deployment uses, right away', async () => {
+			await referenceBlobs('project-1', [usedHash, orphanHash]);
+			await kv.put('project/project-1/manifest/1', buildManifest([usedHash]));
+
+			expect(await releaseUnusedBlobs(kv, 'project-1', [usedHash, orphanHash, variantHash], now)).toEqual([orphanHash]);
+			expect(await kv.get(getProjectReferenceKey('project-1', orphanHash))).toBeNull();
+			expect(await findAvailableBlobs(kv, [usedHash, orphanHash])).toEqual(new Set([usedHash]));
+		});
+	});
+});
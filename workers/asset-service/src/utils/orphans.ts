@@ -0,0 +1,145 @@
+import { GC_GRACE_PERIOD_MS, getProjectReferenceKey, releaseBlobReferences } from './blobs';
+import { batchExistsKv, listAllKeys } from '../../../shared/kv';
+import { AssetsManifest } from '../assets-manifest';
+
+import type { BlobReferenceMetadata } from './blobs';
+import type { ChunkList } from './chunks';
+import type { EncodingVariants } from './encoding';
+import type { AssetMetadata } from './kv';
+
+export interface OrphanSweepOptions {
+	/** Only report orphans, without releasing or deleting anything */
+	dryRun?: boolean;
+	/** References added within this period are kept, as their manifest may still be on its way */
+	gracePeriodMs?: number;
+	/** The current time in milliseconds */
+	now?: number;
+}
+
+export interface ProjectOrphans {
+	/** Content hashes of shared blobs the project referenced without using them */
+	releasedBlobs: string[];
+	/** Keys of the project's own asset copies and chunks no manifest uses */
+	deletedKeys: string[];
+}
+
+/**
+ * Finds a project's assets that no manifest of any of its deployments uses anymore, e.g. after
+ * deployments were pruned from its history. References to shared blobs are released, so that
+ * {@link collectGarbage} deletes blobs no other project uses; the project's own copies from before
+ * the blob store existed are deleted right away, as nothing writes them anymore.
+ *
+ * Upload sessions skip assets that already exist, so projects must not be swept while one is open.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param projectId - The project to sweep
+ * @param options - Dry run, grace period and clock
+ * @returns The released blobs and the deleted keys (or those that would be, in a dry run)
+ */
+export async function sweepProjectOrphans(kv: KVNamespace, projectId: string, options: OrphanSweepOptions = {}): Promise<ProjectOrphans> {
+	const { dryRun = false, gracePeriodMs = GC_GRACE_PERIOD_MS, now = Date.now() } = options;
+	const projectPrefix = `project/${projectId}/`;
+
+	// Mark: the assets and uploaded variants of every deployment
+	const usedHashes = await collectUsedHashes(kv, projectId);
+	const isUsed = (hash: string) => usedHashes.has(hash.toLowerCase());
+
+	// Own copies in use keep their generated variants and chunks
+	const legacyAssetPrefix = `${projectPrefix}asset/`;
+	const legacyAssets: KVNamespaceListKey<AssetMetadata>[] = [];
+	for await (const key of listAllKeys<AssetMetadata>(kv, { prefix: legacyAssetPrefix })) {
+		legacyAssets.push(key);
+	}
+	const usedChunks = new Set<string>();
+	for (const asset of legacyAssets.filter((key) => isUsed(key.name.slice(legacyAssetPrefix.length)))) {
+		for (const hash of Object.values(asset.metadata?.encodings ?? {})) {
+			usedHashes.add(hash.toLowerCase());
+		}
+		if (asset.metadata?.chunked) {
+			const chunkList = await kv.get<ChunkList>(asset.name, 'json');
+			for (const chunkHash of chunkList?.chunks ?? []) {
+				usedChunks.add(chunkHash);
+			}
+		}
+	}
+
+	// Sweep
+	const deletedKeys = legacyAssets.map((key) => key.name).filter((name) => !isUsed(name.slice(legacyAssetPrefix.length)));
+	const legacyChunkPrefix = `${projectPrefix}chunk/`;
+	for await (const key of listAllKeys(kv, { prefix: legacyChunkPrefix })) {
+		if (!usedChunks.has(key.name.slice(legacyChunkPrefix.length))) {
+			deletedKeys.push(key.name);
+		}
+	}
+
+	const referencePrefix = getProjectReferenceKey(projectId, '');
+	const releasedBlobs: string[] = [];
+	for await (const key of listAllKeys<BlobReferenceMetadata>(kv, { prefix: referencePrefix })) {
+		const hash = key.name.slice(referencePrefix.length);
+		// References added before their time was recorded are old enough
+		const referencedAt = key.metadata?.referencedAt ?? 0;
+		if (!isUsed(hash) && now - referencedAt >= gracePeriodMs) {
+			releasedBlobs.push(hash);
+		}
+	}
+
+	if (!dryRun) {
+		await releaseBlobReferences(kv, projectId, releasedBlobs, now);
+		await Promise.all([
+			...releasedBlobs.map((hash) => kv.delete(getProjectReferenceKey(projectId, hash))),
+			...deletedKeys.map((name) => kv.delete(name)),
+		]);
+	}
+
+	return { releasedBlobs, deletedKeys };
+}
+
+/**
+ * Releases a project's references to the given blobs, unless a manifest of one of its deployments uses them.
+ * Used to discard the uploads of an aborted upload session; the blobs are deleted by {@link collectGarbage}
+ * if no other project references them.
+ *
+ * @param kv - The KV namespace storing assets
+ * @param projectId - The project that uploaded the blobs
+ * @param hashes - Content hashes of the uploaded blobs
+ * @param now - The current time in milliseconds
+ * @returns The hashes of the released blobs
+ */
+export async function releaseUnusedBlobs(kv: KVNamespace, projectId: string, hashes: string[], now = Date.now()): Promise<string[]> {
+	const usedHashes = await collectUsedHashes(kv, projectId);
+	const candidates = [...new Set(hashes)].filter((hash) => !usedHashes.has(hash.toLowerCase()));
+	const referenced = await batchExistsKv(
+		kv,
+		candidates.map((hash) => getProjectReferenceKey(projectId, hash)),
+	);
+	const released = candidates.filter((hash) => referenced.has(getProjectReferenceKey(projectId, hash)));
+
+	await releaseBlobReferences(kv, projectId, released, now);
+	await Promise.all(released.map((hash) => kv.delete(getProjectReferenceKey(projectId, hash))));
+	return released;
+}
+
+/**
+ * Collects the (lowercase) content hashes listed in the manifests and precompressed variant lists of all of a project's deployments.
+ */
+async function collectUsedHashes(kv: KVNamespace, projectId: string): Promise<Set<string>> {
+	const projectPrefix = `project/${projectId}/`;
+	const usedHashes = new Set<string>();
+	for await (const key of listAllKeys(kv, { prefix: `${projectPrefix}manifest` })) {
+		const manifest = await kv.get(key.name, 'arrayBuffer');
+		if (manifest) {
+			for (const hash of new AssetsManifest(new Uint8Array(manifest)).contentHashes()) {
+				usedHashes.add(hash);
+			}
+		}
+	}
+	for await (const key of listAllKeys(kv, { prefix: `${projectPrefix}encodings` })) {
+		const encodings = await kv.get<Record<string, EncodingVariants>>(key.name, 'json');
+		for (const variants of Object.values(encodings ?? {})) {
+			for (const hash of Object.values(variants)) {
+				usedHashes.add(hash.toLowerCase());
+			}
+		}
+	}
+	return usedHashes;
+}
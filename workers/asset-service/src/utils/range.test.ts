@@ -0,0 +1,101 @@
+import { createMultipartRangeBody, createRangeStream, isIfRangeSatisfied, parseRangeHeader } from './range';
+
+const encoder = new TextEncoder();
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const part of parts) {
+				controller.enqueue(encoder.encode(part));
+			}
+			controller.close();
+		},
+	});
+}
+
+describe('[Asset Worker] Range requests', () => {
+	describe('parseRangeHeader()', () => {
+		it('parses single ranges', () => {
+			expect(parseRangeHeader('bytes=0-4', 10)).toEqual([{ start: 0, end: 4 }]);
+			expect(parseRangeHeader('bytes=5-', 10)).toEqual([{ start: 5, end: 9 }]);
+			expect(parseRangeHeader('bytes=-3', 10)).toEqual([{ start: 7, end: 9 }]);
+			expect(parseRangeHeader('bytes=8-100', 10)).toEqual([{ start: 8, end: 9 }]);
+			expect(parseRangeHeader('bytes=-100', 10)).toEqual([{ start: 0, end: 9 }]);
+		});
+
+		it('sorts and coalesces multiple ranges', () => {
+			expect(parseRangeHeader('bytes=6-7, 0-1', 10)).toEqual([
+				{ start: 0, end: 1 },
+				{ start: 6, end: 7 },
+			]);
+			expect(parseRangeHeader('bytes=0-3,2-5,6-6', 10)).toEqual([{ start: 0, end: 6 }]);
+		});
+
+		it('reports unsatisfiable ranges', () => {
+			expect(parseRangeHeader('bytes=10-', 10)).toBe('unsatisfiable');
+			expect(parseRangeHeader('bytes=-0', 10)).toBe('unsatisfiable');
+			expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+		});
+
+		it('ignores malformed headers and other units', () => {
+			expect(parseRangeHeader('items=0-4', 10)).toBeUndefined();
+			expect(parseRangeHeader('bytes=4-2', 10)).toBeUndefined();
+			expect(parseRangeHeader('bytes=-', 10)).toBeUndefined();
+			expect(parseRangeHeader('bytes=a-b', 10)).toBeUndefined();
+		});
+
+		it('ignores requests for too many ranges', () => {
+			const ranges = Array.from({ length: 60 }, (_, index) => `${index * 2}-${index * 2}`).join(',');
+			expect(parseRangeHeader(`bytes=${ranges}`, 1000)).toBeUndefined();
+		});
+	});
+
+	describe('isIfRangeSatisfied()', () => {
+		it('only matches the strong ETag', () => {
+			const withIfRange = (value: string) => new Request('https://example.com/', { headers: { 'If-Range': value } });
+
+			expect(isIfRangeSatisfied(new Request('https://example.com/'), '"abc"')).toBe(true);
+			expect(isIfRangeSatisfied(withIfRange('"abc"'), '"abc"')).toBe(true);
+			expect(isIfRangeSatisfied(withIfRange('W/"abc"'), '"abc"')).toBe(false);
+			expect(isIfRangeSatisfied(withIfRange('"other"'), '"abc"')).toBe(false);
+			expect(isIfRangeSatisfied(withIfRange('Wed, 21 Oct 2015 07:28:00 GMT'), '"abc"')).toBe(false);
+		});
+	});
+
+	describe('createRangeStream()', () => {
+		it('extracts ranges across chunk boundaries', async () => {
+			const stream = createRangeStream(streamOf('abc', 'defg', 'hij'), [
+				{ start: 2, end: 4 },
+				{ start: 8, end: 9 },
+			]);
+			expect(await new Response(stream).text()).toBe('cdeij');
+		});
+
+		it('extracts ranges from a stream starting at an offset', async () => {
+			const stream = createRangeStream(streamOf('ghij'), [{ start: 7, end: 8 }], 6);
+			expect(await new Response(stream).text()).toBe('hi');
+		});
+	});
+
+	describe('createMultipartRangeBody()', () => {
+		it('builds a multipart/byteranges body of the announced length', async () => {
+			const { body, boundary, length } = createMultipartRangeBody(
+				streamOf('abcdefghij'),
+				[
+					{ start: 0, end: 1 },
+					{ start: 8, end: 9 },
+				],
+				10,
+				'text/plain',
+			);
+
+			const text = await new Response(body).text();
+			expect(text).toBe(
+				`--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-1/10\r\n\r\nab` +
+					`\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 8-9/10\r\n\r\nij` +
+					`\r\n--${boundary}--\r\n`,
+			);
+			expect(encoder.encode(text).byteLength).toBe(length);
+		});
+	});
+});
@@ -0,0 +1,199 @@
+/** An inclusive byte range of an asset */
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+// Requests for more ranges than this (after coalescing) are answered with the full asset
+const MAX_RANGES = 50;
+
+const encoder = new TextEncoder();
+
+/**
+ * Parses a `Range` request header (RFC 9110 §14.2) against an asset of the given size.
+ * Ranges are sorted, and overlapping or adjacent ranges are coalesced.
+ *
+ * @param header - The `Range` header value
+ * @param size - The size of the asset in bytes
+ * @returns The satisfiable ranges, `'unsatisfiable'` if none can be satisfied, or undefined if the
+ * header is malformed, uses another unit or asks for too many ranges (and should be ignored)
+ */
+export function parseRangeHeader(header: string, size: number): ByteRange[] | 'unsatisfiable' | undefined {
+	const match = /^\s*bytes\s*=(.*)$/i.exec(header);
+	if (!match) {
+		return undefined;
+	}
+
+	const ranges: ByteRange[] = [];
+	for (const spec of match[1]!.split(',')) {
+		const trimmed = spec.trim();
+		if (trimmed === '') continue;
+
+		const parts = /^(\d*)-(\d*)$/.exec(trimmed);
+		if (!parts || (parts[1] === '' && parts[2] === '')) {
+			return undefined;
+		}
+
+		if (parts[1] === '') {
+			// Suffix range: the last N bytes
+			const suffixLength = Number(parts[2]);
+			if (suffixLength > 0 && size > 0) {
+				ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+			}
+			continue;
+		}
+
+		const start = Number(parts[1]);
+		const end = parts[2] === '' ? Infinity : Number(parts[2]);
+		if (end < start) {
+			return undefined;
+		}
+		if (start < size) {
+			ranges.push({ start, end: Math.min(end, size - 1) });
+		}
+	}
+
+	if (ranges.length === 0) {
+		return 'unsatisfiable';
+	}
+
+	ranges.sort((a, b) => a.start - b.start);
+	const coalesced: ByteRange[] = [];
+	let last: ByteRange | undefined;
+	for (const range of ranges) {
+		if (last && range.start <= last.end + 1) {
+			last.end = Math.max(last.end, range.end);
+		} else {
+			last = { ...range };
+			coalesced.push(last);
+		}
+	}
+
+	return coalesced.length > MAX_RANGES ? undefined : coalesced;
+}
+
+/**
+ * Checks the `If-Range` precondition of a request. Ranges are only served if the validator is
+ * the asset's strong ETag; weak ETags and dates (assets have no `Last-Modified`) never match.
+ *
+ * @param request - The HTTP request
+ * @param strongETag - The quoted ETag of the asset
+ * @returns True if the `Range` header should be honoured
+ */
+export function isIfRangeSatisfied(request: Request, strongETag: string): boolean {
+	const ifRange = request.headers.get('If-Range');
+	return ifRange === null || ifRange.trim() === strongETag;
+}
+
+/**
+ * Builds the body of a `multipart/byteranges` response.
+ *
+ * @param source - The asset content, starting at byte `sourceOffset`
+ * @param ranges - The sorted, non-overlapping ranges to include
+ * @param size - The size of the asset in bytes
+ * @param contentType - The content type of the asset
+ * @param sourceOffset - The position of the first byte of `source` within the asset
+ * @returns The body, its boundary and its length in bytes
+ */
+export function createMultipartRangeBody(
+	source: ReadableStream<Uint8Array>,
+	ranges: ByteRange[],
+	size: number,
+	contentType: string,
+	sourceOffset = 0,
+): { body: ReadableStream<Uint8Array>; boundary: string; length: number } {
+	const boundary = crypto.randomUUID().replaceAll('-', '');
+	const partHeaders = ranges.map((range, index) =>
+		encoder.encode(
+			`${index === 0 ? '' : '\r\n'}--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`,
+		),
+	);
+	const trailer = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+	let length = trailer.byteLength;
+	for (const [index, range] of ranges.entries()) {
+		length += partHeaders[index]!.byteLength + range.end - range.start + 1;
+	}
+
+	return { body: createRangeStream(source, ranges, sourceOffset, partHeaders, trailer), boundary, length };
+}
+
+/**
+ * Extracts byte ranges from a stream in a single pass, optionally preceding each range
+ * with a part header and ending with a trailer. The source is cancelled once the last
+ * range has been read.
+ *
+ * @param source - The asset content, starting at byte `sourceOffset`
+ * @param ranges - The sorted, non-overlapping ranges to extract
+ * @param sourceOffset - The position of the first byte of `source` within the asset
+ * @param partHeaders - Bytes to emit before each range
+ * @param trailer - Bytes to emit after the last range
+ * @returns A stream of the extracted bytes
+ */
+export function createRangeStream(
+	source: ReadableStream<Uint8Array>,
+	ranges: ByteRange[],
+	sourceOffset = 0,
+	partHeaders?: Uint8Array[],
+	trailer?: Uint8Array,
+): ReadableStream<Uint8Array> {
+	const iterator = readRanges(source, ranges, sourceOffset, partHeaders, trailer);
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const result = await iterator.next();
+			if (result.done) {
+				controller.close();
+			} else {
+				controller.enqueue(result.value);
+			}
+		},
+		async cancel() {
+			await iterator.return();
+		},
+	});
+}
+
+async function* readRanges(
+	source: ReadableStream<Uint8Array>,
+	ranges: ByteRange[],
+	sourceOffset: number,
+	partHeaders?: Uint8Array[],
+	trailer?: Uint8Array,
+): AsyncGenerator<Uint8Array, void> {
+	const reader = source.getReader();
+	let chunk: Uint8Array = new Uint8Array(0);
+	let chunkStart = sourceOffset;
+
+	try {
+		for (const [index, range] of ranges.entries()) {
+			const partHeader = partHeaders?.[index];
+			if (partHeader) {
+				yield partHeader;
+			}
+
+			let position = range.start;
+			while (position <= range.end) {
+				if (position >= chunkStart + chunk.byteLength) {
+					const result = await reader.read();
+					if (result.done) {
+						throw new Error(`Asset ended before byte ${position}`);
+					}
+					chunkStart += chunk.byteLength;
+					chunk = result.value;
+					continue;
+				}
+
+				const to = Math.min(chunk.byteLength, range.end - chunkStart + 1);
+				yield chunk.subarray(position - chunkStart, to);
+				position = chunkStart + to;
+			}
+		}
+
+		if (trailer) {
+			yield trailer;
+		}
+	} finally {
+		await reader.cancel().catch(() => {});
+	}
+}
@@ -6,6 +6,13 @@ export class OkResponse extends Response {
 	}
 }
 
+export class PartialContentResponse extends Response {
+	static readonly status = 206;
+	constructor(body?: BodyInit | null, init?: ResponseInit) {
+		super(body, { ...init, status: PartialContentResponse.status });
+	}
+}
+
 export class FoundResponse extends Response {
 	static readonly status = 302;
 	constructor(location: string, init?: ResponseInit) {
@@ -82,6 +89,16 @@ export class MethodNotAllowedResponse extends Response {
 	}
 }
 
+export class RangeNotSatisfiableResponse extends Response {
+	static readonly status = 416;
+	constructor(size: number, init?: ResponseInit) {
+		const headers = new Headers(init?.headers);
+		headers.set('Content-Range', `bytes */${size}`);
+		headers.delete('Content-Length');
+		super(undefined, { ...init, status: RangeNotSatisfiableResponse.status, headers });
+	}
+}
+
 export class InternalServerErrorResponse extends Response {
 	static readonly status = 500;
 	constructor(error?: unknown, init?: ResponseInit) {
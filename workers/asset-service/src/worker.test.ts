@@ -0,0 +1,44 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+
+import { getBlobKey } from './utils/blobs';
+import AssetApi from './worker';
+
+async function sha256(content: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', content);
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('[Asset Worker] AssetApi', () => {
+	beforeEach(async () => {
+		const keys = await env.KV_ASSETS.list();
+		for (const key of keys.keys) {
+			await env.KV_ASSETS.delete(key.name);
+		}
+	});
+
+	it('serves shared content with the content type of each project path', async () => {
+		const content = new TextEncoder().encode('{"name":"shared"}'.repeat(100));
+		const contentHash = await sha256(content);
+		const executionContext = createExecutionContext();
+		const api = new AssetApi(executionContext, env);
+
+		// Both projects deploy the same bytes under paths with different types
+		await api.uploadManifest([{ pathname: '/data.json', contentHash }], 'project-a', 1);
+		await api.uploadAsset(contentHash, new Uint8Array(content).buffer, 'project-a');
+		await api.uploadManifest([{ pathname: '/notes.txt', contentHash }], 'project-b', 1);
+		await api.uploadAsset(contentHash, new Uint8Array(content).buffer, 'project-b');
+
+		const blob = await env.KV_ASSETS.getWithMetadata<object>(getBlobKey(contentHash), 'arrayBuffer');
+		expect(blob.metadata).not.toHaveProperty('contentType');
+		// Blobs written before content types were resolved per path carry the first uploader's type
+		await env.KV_ASSETS.put(getBlobKey(contentHash), content, { metadata: { ...blob.metadata, contentType: 'application/json' } });
+
+		const jsonResponse = await api.serveAsset(new Request('https://a.example.com/data.json'), 'project-a', undefined, 1);
+		const textResponse = await api.serveAsset(new Request('https://b.example.com/notes.txt'), 'project-b', undefined, 1);
+		await waitOnExecutionContext(executionContext);
+
+		expect(jsonResponse.headers.get('Content-Type')).toContain('application/json');
+		expect(textResponse.headers.get('Content-Type')).toContain('text/plain');
+		expect(await jsonResponse.text()).toBe(await textResponse.text());
+	});
+});
@@ -5,18 +5,36 @@ import { AssetsManifest, hashPath } from './assets-manifest';
 import { normalizeConfiguration, type AssetConfigInput } from './configuration';
 import { ENTRY_SIZE, HEADER_SIZE, PATH_HASH_SIZE } from './constants';
 import { canFetch as handleCanFetch, handleRequest } from './handler';
+import {
+	addBlobReferences,
+	collectGarbage,
+	findAvailableBlobs,
+	getBlobChunkKey,
+	getBlobKey,
+	getGzipVariantId,
+	getProjectReferenceKey,
+	markUnreferencedBlobs,
+	releaseBlobReferences,
+} from './utils/blobs';
+import { ASSET_CACHE_NAME, cacheAsset, getAssetCacheKey, matchCachedAsset } from './utils/cache';
+import { createChunkedStream, putChunkedAsset } from './utils/chunks';
+import { compressGzip, isContentEncoding, MIN_COMPRESSIBLE_SIZE } from './utils/encoding';
 import { getAssetWithMetadataFromKV } from './utils/kv';
+import { releaseUnusedBlobs, sweepProjectOrphans } from './utils/orphans';
 import { InternalServerErrorResponse } from './utils/responses';
 import { batchExistsKv, deleteAllKeys } from '../../shared/kv';
 
+import type { ChunkList } from './utils/chunks';
+import type { EncodingVariants } from './utils/encoding';
+import type { ProjectOrphans } from './utils/orphans';
+
 export interface ManifestEntry {
 	pathname: string;
 	contentHash: string;
+	/** Content hashes of precompressed variants of this asset (e.g. uploaded `.br`/`.gz` siblings) */
+	encodings?: EncodingVariants;
 }
 
-// Cache hit threshold in milliseconds
-const KV_CACHE_HIT_THRESHOLD_MS = 100;
-
 export interface AssetEnvironment {
 	KV_ASSETS: KVNamespace;
 	ANALYTICS: AnalyticsEngineDataset;
@@ -29,14 +47,70 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	}
 
 	/**
-	 * Generates a namespaced key by prefixing with the project ID.
+	 * Generates the key of an asset stored by a project before assets moved to the shared blob store.
 	 */
 	private getNamespacedKey(projectId: string, key: string): string {
 		return `project/${projectId}/asset/${key}`;
 	}
 
-	private async getAssetsManifest(projectId: string): Promise<AssetsManifest> {
-		const manifestKey = `project/${projectId}/manifest`;
+	/**
+	 * Generates the key of a chunk of a large asset stored before assets moved to the shared blob store.
+	 */
+	private getChunkKey(projectId: string, chunkHash: string): string {
+		return `project/${projectId}/chunk/${chunkHash}`;
+	}
+
+	/**
+	 * Reads an asset from the shared blob store, falling back to the project's own copy for assets
+	 * uploaded before the blob store existed.
+	 */
+	private async readStoredAsset(eTag: string, projectId: string) {
+		const blob = await getAssetWithMetadataFromKV(this.env.KV_ASSETS, getBlobKey(eTag));
+		if (blob?.value) {
+			// Blobs uploaded before content types were resolved per pathname carry the uploading project's type
+			delete blob.metadata?.contentType;
+			return blob;
+		}
+		return await getAssetWithMetadataFromKV(this.env.KV_ASSETS, this.getNamespacedKey(projectId, eTag));
+	}
+
+	/**
+	 * Reads a chunk of a chunked asset, from the shared blob store or the project's own chunks.
+	 */
+	private async readChunk(eTag: string, projectId: string, chunkHash: string): Promise<ReadableStream | null> {
+		const options = { type: 'stream', cacheTtl: 31_536_000 } as const;
+		const chunk = await this.env.KV_ASSETS.get(getBlobChunkKey(eTag, chunkHash), options);
+		return chunk ?? (await this.env.KV_ASSETS.get(this.getChunkKey(projectId, chunkHash), options));
+	}
+
+	/**
+	 * Generates the manifest key for a project, optionally pinned to a specific deployment.
+	 * Projects deployed before versioned deployments keep their single unversioned manifest.
+	 */
+	private getManifestKey(projectId: string, deploymentId?: number): string {
+		return deploymentId === undefined ? `project/${projectId}/manifest` : `project/${projectId}/manifest/${deploymentId}`;
+	}
+
+	/**
+	 * Generates the key of the precompressed variants uploaded with a deployment's manifest.
+	 */
+	private getEncodingsKey(projectId: string, deploymentId?: number): string {
+		return deploymentId === undefined ? `project/${projectId}/encodings` : `project/${projectId}/encodings/${deploymentId}`;
+	}
+
+	/**
+	 * Loads the precompressed variants uploaded with a deployment's manifest, keyed by content hash.
+	 */
+	private async getDeploymentEncodings(projectId: string, deploymentId?: number): Promise<Record<string, EncodingVariants>> {
+		const encodings = await this.env.KV_ASSETS.get<Record<string, EncodingVariants>>(this.getEncodingsKey(projectId, deploymentId), {
+			type: 'json',
+			cacheTtl: 300,
+		});
+		return encodings ?? {};
+	}
+
+	private async getAssetsManifest(projectId: string, deploymentId?: number): Promise<AssetsManifest> {
+		const manifestKey = this.getManifestKey(projectId, deploymentId);
 		const manifestBuffer = await this.env.KV_ASSETS.get(manifestKey, { type: 'arrayBuffer', cacheTtl: 300 });
 		if (!manifestBuffer) {
 			throw new Error(`Failed to load assets manifest for project ${projectId}`);
@@ -50,9 +124,10 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	 * @param request - The incoming HTTP request (already rewritten for path-based routing)
 	 * @param projectId - The project ID for namespaced asset storage
 	 * @param projectConfig - Optional configuration for HTML handling, redirects, etc.
+	 * @param deploymentId - Optional deployment whose manifest should be used
 	 * @returns Response containing the requested asset or an error response
 	 */
-	async serveAsset(request: Request, projectId: string, projectConfig?: AssetConfigInput): Promise<Response> {
+	async serveAsset(request: Request, projectId: string, projectConfig?: AssetConfigInput, deploymentId?: number): Promise<Response> {
 		const startTime = performance.now();
 
 		const analytics = new Analytics();
@@ -76,19 +151,27 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 
 			let lastCacheStatus: string | undefined;
 			let lastFetchTimeMs: number | undefined;
+			let deploymentEncodings: Promise<Record<string, EncodingVariants>> | undefined;
 
 			const response = await handleRequest(
 				request,
 				config,
-				(pathname: string, request_: Request) => this.exists(pathname, request_, projectId),
+				(pathname: string, request_: Request) => this.exists(pathname, request_, projectId, deploymentId),
 				async (eTag: string, request_: Request) => {
 					const result = await this.getByETag(eTag, projectId, request_);
 					lastCacheStatus = result.cacheStatus;
 					lastFetchTimeMs = result.fetchTimeMs;
+					deploymentEncodings ??= this.getDeploymentEncodings(projectId, deploymentId);
+					const encodingsByHash = await deploymentEncodings;
+					const uploadedEncodings = encodingsByHash[eTag];
 					return {
 						readableStream: result.readableStream,
 						contentType: result.contentType,
 						cacheStatus: result.cacheStatus,
+						contentLength: result.contentLength,
+						openAt: result.openAt,
+						// Uploaded variants take precedence over generated ones
+						encodings: { ...result.encodings, ...uploadedEncodings },
 					};
 				},
 			);
@@ -125,12 +208,15 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	 * @param request - The HTTP request to check
 	 * @param projectId - The project ID for namespaced asset storage
 	 * @param projectConfig - Optional configuration for asset resolution
+	 * @param deploymentId - Optional deployment whose manifest should be used
 	 * @returns True if an asset exists for this request, false otherwise
 	 */
-	async canFetch(request: Request, projectId: string, projectConfig?: AssetConfigInput): Promise<boolean> {
+	async canFetch(request: Request, projectId: string, projectConfig?: AssetConfigInput, deploymentId?: number): Promise<boolean> {
 		try {
 			const config = normalizeConfiguration(projectConfig);
-			return await handleCanFetch(request, config, (pathname: string, request_: Request) => this.exists(pathname, request_, projectId));
+			return await handleCanFetch(request, config, (pathname: string, request_: Request) =>
+				this.exists(pathname, request_, projectId, deploymentId),
+			);
 		} catch (error) {
 			console.error('Error in canFetch RPC method:', error);
 			if (error instanceof Error) {
@@ -141,12 +227,14 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	}
 
 	/**
-	 * Retrieves an asset by its eTag (content hash) from KV storage with Workers Cache layer.
+	 * Retrieves an asset by its eTag (content hash) from the Workers cache, falling back to KV storage
+	 * and caching what it reads. Chunked assets are reassembled into a single stream; only their chunk
+	 * list is cached, while chunks are read from KV.
 	 *
 	 * @param eTag - The content hash of the asset to retrieve
 	 * @param projectId - The project ID for namespaced asset storage
 	 * @param _request - Optional request object (currently unused)
-	 * @returns Object containing the asset's readable stream, content type, cache status, and asset source
+	 * @returns Object containing the asset's readable stream, content type, cache status, fetch time, length (if recorded) generated precompressed variants and, for chunked assets, a function opening the content at an offset
 	 * @throws Error if the asset exists in the manifest but not in KV storage
 	 */
 	async getByETag(
@@ -158,24 +246,50 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 		contentType: string | undefined;
 		cacheStatus: 'HIT' | 'MISS';
 		fetchTimeMs: number;
+		contentLength?: number;
+		openAt?: (offset: number) => ReadableStream;
+		encodings?: EncodingVariants;
 	}> {
 		const startTime = performance.now();
-		const namespacedETag = this.getNamespacedKey(projectId, eTag);
-		const asset = await getAssetWithMetadataFromKV(this.env.KV_ASSETS, namespacedETag);
-		const endTime = performance.now();
-		const assetFetchTime = endTime - startTime;
+		const cache = await caches.open(ASSET_CACHE_NAME);
+		const cacheKey = getAssetCacheKey(projectId, eTag);
+
+		let cacheStatus: 'HIT' | 'MISS' = 'HIT';
+		let asset = await matchCachedAsset(cache, cacheKey);
+		if (!asset) {
+			cacheStatus = 'MISS';
+			const stored = await this.readStoredAsset(eTag, projectId);
+			if (!stored || !stored.value) {
+				throw new Error(`Requested asset ${eTag} exists in the asset manifest but not in the KV namespace for project ${projectId}.`);
+			}
 
-		if (!asset || !asset.value) {
-			throw new Error(`Requested asset ${eTag} exists in the asset manifest but not in the KV namespace for project ${projectId}.`);
+			const { value, written } = cacheAsset(cache, cacheKey, { value: stored.value, metadata: stored.metadata });
+			this.ctx.waitUntil(written);
+			asset = { value, metadata: stored.metadata };
+		}
+		const assetFetchTime = performance.now() - startTime;
+
+		if (asset.metadata?.chunked) {
+			const chunkList: ChunkList = await new Response(asset.value).json();
+			const getChunk = (chunkHash: string) => this.readChunk(eTag, projectId, chunkHash);
+			return {
+				readableStream: createChunkedStream(chunkList, getChunk),
+				contentType: asset.metadata.contentType,
+				cacheStatus,
+				fetchTimeMs: assetFetchTime,
+				contentLength: chunkList.size,
+				openAt: (offset: number) => createChunkedStream(chunkList, getChunk, offset),
+				encodings: asset.metadata.encodings,
+			};
 		}
-
-		const cacheStatus = assetFetchTime <= KV_CACHE_HIT_THRESHOLD_MS ? 'HIT' : 'MISS';
 
 		return {
 			readableStream: asset.value,
 			contentType: asset.metadata?.contentType,
 			cacheStatus,
 			fetchTimeMs: assetFetchTime,
+			contentLength: asset.metadata?.size,
+			encodings: asset.metadata?.encodings,
 		};
 	}
 
@@ -185,22 +299,27 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	 * @param pathname - The URL pathname of the asset (e.g., "/index.html")
 	 * @param request - Request object for manifest lookup
 	 * @param projectId - The project ID for namespaced asset storage
+	 * @param deploymentId - Optional deployment whose manifest should be used
 	 * @returns Object containing the asset's readable stream, content type, and cache status, or null if not found
 	 */
 	async getByPathname(
 		pathname: string,
 		request: Request,
 		projectId: string,
+		deploymentId?: number,
 	): Promise<
 		| {
 				readableStream: ReadableStream;
 				contentType: string | undefined;
 				cacheStatus: 'HIT' | 'MISS';
 				fetchTimeMs: number;
+				contentLength?: number;
+				openAt?: (offset: number) => ReadableStream;
+				encodings?: EncodingVariants;
 		  }
 		| undefined
 	> {
-		const eTag = await this.exists(pathname, request, projectId);
+		const eTag = await this.exists(pathname, request, projectId, deploymentId);
 
 		if (!eTag) {
 			return;
@@ -215,27 +334,57 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	 * @param pathname - The URL pathname to look up (e.g., "/index.html")
 	 * @param request - Request object (reserved for future use)
 	 * @param projectId - The project ID for namespaced asset storage
+	 * @param deploymentId - Optional deployment whose manifest should be used
 	 * @returns The eTag (content hash) if the asset exists, null otherwise
 	 */
-	async exists(pathname: string, request: Request, projectId: string): Promise<string | undefined> {
-		const manifest = await this.getAssetsManifest(projectId);
+	async exists(pathname: string, request: Request, projectId: string, deploymentId?: number): Promise<string | undefined> {
+		const manifest = await this.getAssetsManifest(projectId, deploymentId);
 		const eTag = await manifest.get(pathname);
 		return eTag;
 	}
 
 	/**
-	 * Uploads an asset file to KV storage with optional content type metadata.
+	 * Uploads an asset file to the shared blob store and records that the project references it.
+	 * Assets larger than `MAX_CHUNK_SIZE` are stored as content-addressed chunks
+	 * plus a chunk list under the blob key. Assets that compress well additionally
+	 * get a gzip variant, stored inside the blob and referenced from the metadata.
+	 *
+	 * Blobs are shared by all projects, so their metadata only holds what the content determines;
+	 * the content type is resolved from the pathname each project serves the asset under.
 	 *
 	 * @param eTag - The content hash used as the KV key
 	 * @param content - The asset content as ArrayBuffer or ReadableStream
-	 * @param projectId - The project ID for namespaced asset storage
-	 * @param contentType - Optional MIME type (e.g., "text/html", "image/png")
+	 * @param projectId - The project uploading the asset
 	 */
-	async uploadAsset(eTag: string, content: ArrayBuffer | ReadableStream, projectId: string, contentType?: string): Promise<void> {
-		const metadata = contentType ? { contentType } : undefined;
-		const namespacedETag = this.getNamespacedKey(projectId, eTag);
+	async uploadAsset(eTag: string, content: ArrayBuffer | ReadableStream, projectId: string): Promise<void> {
+		// Reference the blob before writing it, so garbage collection never deletes it in between
+		await addBlobReferences(this.env.KV_ASSETS, projectId, [eTag]);
+		await putChunkedAsset(this.env.KV_ASSETS, getBlobKey(eTag), content, (chunkHash) => getBlobChunkKey(eTag, chunkHash), undefined, {
+			getSingleValueMetadata: (value) => this.generateGzipVariant(eTag, value),
+		});
+	}
+
+	/**
+	 * Stores a gzip variant of a blob, if compression makes it meaningfully smaller.
+	 *
+	 * @returns Metadata referencing the variant, or undefined if no variant was stored
+	 */
+	private async generateGzipVariant(eTag: string, content: Uint8Array): Promise<{ encodings: EncodingVariants } | undefined> {
+		if (content.byteLength < MIN_COMPRESSIBLE_SIZE) {
+			return undefined;
+		}
+
+		const compressed = await compressGzip(content);
+		if (compressed.byteLength >= content.byteLength * 0.9) {
+			return undefined;
+		}
+
+		const variantId = getGzipVariantId(eTag);
+		await this.env.KV_ASSETS.put(getBlobKey(variantId), compressed, {
+			metadata: { size: compressed.byteLength },
+		});
 
-		await this.env.KV_ASSETS.put(namespacedETag, content, { metadata });
+		return { encodings: { gzip: variantId } };
 	}
 
 	/**
@@ -244,11 +393,14 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	 * The manifest format is: 16-byte header + sorted entries (48 bytes each:
 	 * 16-byte path hash + 32-byte content hash).
 	 *
-	 * @param entries - Array of manifest entries with pathname and contentHash
+	 * Precompressed variants listed in `encodings` are stored alongside the manifest.
+	 *
+	 * @param entries - Array of manifest entries with pathname, contentHash and optional encodings
 	 * @param projectId - The project ID for namespaced asset storage
+	 * @param deploymentId - Optional deployment the manifest belongs to
 	 * @returns Array of entries that need to be uploaded (content not yet in KV)
 	 */
-	async uploadManifest(entries: ManifestEntry[], projectId: string): Promise<ManifestEntry[]> {
+	async uploadManifest(entries: ManifestEntry[], projectId: string, deploymentId?: number): Promise<ManifestEntry[]> {
 		// Validate entries
 		for (const entry of entries) {
 			// Validate content hash: must be 64 hex characters (SHA-256 = 32 bytes = 64 hex chars)
@@ -265,30 +417,45 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 			if (/[\s<>{}|\\^`[\]]/.test(entry.pathname)) {
 				throw new Error(`Invalid pathname "${entry.pathname}": contains invalid URL characters`);
 			}
-		}
 
-		// Check which etags already exist in KV storage using batch get (max 100 keys per call)
-		const namespacedEntries = entries.map((entry) => ({
-			entry,
-			namespacedKey: this.getNamespacedKey(projectId, entry.contentHash),
-		}));
+			// Validate variant hashes
+			for (const [encoding, variantHash] of Object.entries(entry.encodings ?? {})) {
+				if (!isContentEncoding(encoding) || !/^[0-9a-f]{64}$/i.test(variantHash)) {
+					throw new Error(`Invalid ${encoding} variant for ${entry.pathname}`);
+				}
+			}
+		}
 
-		const allKeys = namespacedEntries.map(({ namespacedKey }) => namespacedKey);
-		const existingKeys = await batchExistsKv(this.env.KV_ASSETS, allKeys);
-		const existenceChecks = namespacedEntries.map(({ entry, namespacedKey }) => ({
-			entry,
-			exists: existingKeys.has(namespacedKey),
-		}));
+		// Check which assets already exist in the blob store (or as the project's own copy)
+		const existenceChecks = await this.checkAssetsExist(
+			entries.map((entry) => entry.contentHash),
+			projectId,
+		);
 
 		// Filter to only entries that need uploading
-		const newEntries = existenceChecks.filter(({ exists }) => !exists).map(({ entry }) => entry);
+		const newEntries = entries.filter((_entry, index) => !existenceChecks[index]!.exists);
+
+		// The project keeps referencing the blobs of every deployment, so rollbacks keep working
+		const referencedHashes = entries.flatMap((entry) => [entry.contentHash, ...Object.values(entry.encodings ?? {})]);
+		await addBlobReferences(this.env.KV_ASSETS, projectId, referencedHashes);
 
 		// Generate binary manifest
 		const manifestBuffer = await this.generateManifestBuffer(entries);
 
-		const manifestKey = `project/${projectId}/manifest`;
+		const manifestKey = this.getManifestKey(projectId, deploymentId);
 		await this.env.KV_ASSETS.put(manifestKey, manifestBuffer);
 
+		const encodings: Record<string, EncodingVariants> = {};
+		for (const entry of entries) {
+			if (entry.encodings && Object.keys(entry.encodings).length > 0) {
+				encodings[entry.contentHash] = entry.encodings;
+			}
+		}
+		const encodingsKey = this.getEncodingsKey(projectId, deploymentId);
+		await (Object.keys(encodings).length > 0
+			? this.env.KV_ASSETS.put(encodingsKey, JSON.stringify(encodings))
+			: this.env.KV_ASSETS.delete(encodingsKey));
+
 		return newEntries;
 	}
 
@@ -338,49 +505,121 @@ export default class AssetApi extends WorkerEntrypoint<AssetEnvironment> {
 	}
 
 	/**
-	 * Checks if multiple assets exist in KV storage by their content hashes.
+	 * Checks if multiple assets exist by their content hashes, in the shared blob store
+	 * (uploaded by any project) or as the project's own copy from before the blob store existed.
 	 *
 	 * @param eTags - Array of content hashes to check
 	 * @param projectId - The project ID for namespaced asset storage
 	 * @returns Array of objects with hash and exists boolean for each input
 	 */
 	async checkAssetsExist(eTags: string[], projectId: string): Promise<Array<{ hash: string; exists: boolean }>> {
-		const namespacedKeys = eTags.map((hash) => ({
-			hash,
-			key: this.getNamespacedKey(projectId, hash),
-		}));
+		const availableBlobs = await findAvailableBlobs(this.env.KV_ASSETS, eTags);
 
-		const existingKeys = await batchExistsKv(
-			this.env.KV_ASSETS,
-			namespacedKeys.map(({ key }) => key),
-		);
+		const legacyKeys = eTags.filter((hash) => !availableBlobs.has(hash)).map((hash) => this.getNamespacedKey(projectId, hash));
+		const existingLegacyKeys = await batchExistsKv(this.env.KV_ASSETS, legacyKeys);
 
-		return namespacedKeys.map(({ hash, key }) => ({
+		return eTags.map((hash) => ({
 			hash,
-			exists: existingKeys.has(key),
+			exists: availableBlobs.has(hash) || existingLegacyKeys.has(this.getNamespacedKey(projectId, hash)),
 		}));
 	}
 
 	/**
-	 * Deletes all assets and manifest for a project from KV storage.
+	 * Deletes all manifests (of every deployment) and the project's own asset copies for a project
+	 * from KV storage, and releases its references to shared blobs. Blobs no other project references
+	 * are removed by a later {@link collectGarbage} run. Cached assets are purged in this location;
+	 * elsewhere they become unreachable since no manifest refers to them anymore.
 	 *
 	 * @param projectId - The project ID to delete assets for
-	 * @returns Object with counts of deleted assets and manifest status
+	 * @returns Object with counts of deleted (or released) assets and manifests
 	 */
-	async deleteProjectAssets(projectId: string): Promise<{ deletedAssets: number; deletedManifest: boolean }> {
-		let deletedManifest = false;
-		const manifestKey = `project/${projectId}/manifest`;
-		const assetPrefix = `project/${projectId}/`;
-
-		const totalDeleted = await deleteAllKeys(this.env.KV_ASSETS, { prefix: assetPrefix }, (key) => {
-			if (key.name === manifestKey) {
-				deletedManifest = true;
+	async deleteProjectAssets(projectId: string): Promise<{ deletedAssets: number; deletedManifest: boolean; deletedManifests: number }> {
+		let deletedManifests = 0;
+		const manifestKey = this.getManifestKey(projectId);
+		const legacyAssetPrefix = this.getNamespacedKey(projectId, '');
+		const referencePrefix = getProjectReferenceKey(projectId, '');
+		// Chunk and variant list keys are deleted too, but are not counted as assets
+		const referencedHashes: string[] = [];
+		const assetHashes = new Set<string>();
+
+		await deleteAllKeys(this.env.KV_ASSETS, { prefix: `project/${projectId}/` }, (key) => {
+			if (key.name === manifestKey || key.name.startsWith(`${manifestKey}/`)) {
+				deletedManifests++;
+			} else if (key.name.startsWith(referencePrefix)) {
+				const hash = key.name.slice(referencePrefix.length);
+				referencedHashes.push(hash);
+				assetHashes.add(hash);
+			} else if (key.name.startsWith(legacyAssetPrefix)) {
+				assetHashes.add(key.name.slice(legacyAssetPrefix.length));
 			}
 		});
 
-		// Subtract 1 for the manifest key if it was found
-		const deletedAssets = deletedManifest ? totalDeleted - 1 : totalDeleted;
+		await releaseBlobReferences(this.env.KV_ASSETS, projectId, referencedHashes);
+
+		const cache = await caches.open(ASSET_CACHE_NAME);
+		await Promise.all([...assetHashes].map((hash) => cache.delete(getAssetCacheKey(projectId, hash))));
+
+		return { deletedAssets: assetHashes.size, deletedManifest: deletedManifests > 0, deletedManifests };
+	}
+
+	/**
+	 * Discards assets uploaded by an aborted upload session by releasing the project's references to them.
+	 * Assets a deployment of the project uses are kept. Blobs no other project references are deleted
+	 * by a later {@link collectGarbage} run.
+	 *
+	 * @param projectId - The project the session belonged to
+	 * @param eTags - Content hashes uploaded during the session
+	 * @returns The number of released assets
+	 */
+	async discardUploadedAssets(projectId: string, eTags: string[]): Promise<{ releasedAssets: number }> {
+		const released = await releaseUnusedBlobs(this.env.KV_ASSETS, projectId, eTags);
+		return { releasedAssets: released.length };
+	}
+
+	/**
+	 * Deletes the manifest and precompressed variant list of a single deployment. Its assets stay referenced
+	 * until the router's watchdog sweeps the project and finds no other deployment using them.
+	 *
+	 * @param projectId - The project ID
+	 * @param deploymentId - The deployment whose manifest is deleted
+	 * @returns Whether a manifest existed
+	 */
+	async deleteDeploymentAssets(projectId: string, deploymentId: number): Promise<{ deletedManifest: boolean }> {
+		const manifestKey = this.getManifestKey(projectId, deploymentId);
+		const existing = await batchExistsKv(this.env.KV_ASSETS, [manifestKey]);
+		await Promise.all([this.env.KV_ASSETS.delete(manifestKey), this.env.KV_ASSETS.delete(this.getEncodingsKey(projectId, deploymentId))]);
+		return { deletedManifest: existing.has(manifestKey) };
+	}
+
+	/**
+	 * Deletes shared blobs that lost their last reference, together with their chunks and generated variants.
+	 * Run periodically by the router's watchdog.
+	 *
+	 * @returns The number of deleted blobs, and of released blobs still referenced by other projects
+	 */
+	async collectGarbage(): Promise<{ deletedBlobs: number; retainedBlobs: number }> {
+		return await collectGarbage(this.env.KV_ASSETS);
+	}
 
-		return { deletedAssets, deletedManifest };
+	/**
+	 * Releases a project's references to blobs and deletes its own asset copies that no manifest
+	 * of its deployments uses anymore. Run by the router's watchdog for projects without an open upload session.
+	 *
+	 * @param projectId - The project to sweep
+	 * @param options - Whether to only report the orphans
+	 * @returns The released blobs and the deleted keys (or those that would be, in a dry run)
+	 */
+	async sweepProjectOrphans(projectId: string, options: { dryRun?: boolean } = {}): Promise<ProjectOrphans> {
+		return await sweepProjectOrphans(this.env.KV_ASSETS, projectId, options);
+	}
+
+	/**
+	 * Marks one page of blobs that no project references for garbage collection.
+	 *
+	 * @param options - The cursor returned by the previous call, and whether to only report the blobs
+	 * @returns The unreferenced blobs, and the cursor of the next page (undefined once all blobs were scanned)
+	 */
+	async markUnreferencedBlobs(options: { cursor?: string; dryRun?: boolean } = {}): Promise<{ markedBlobs: string[]; cursor?: string }> {
+		return await markUnreferencedBlobs(this.env.KV_ASSETS, options);
 	}
 }
@@ -1,10 +1,18 @@
 import * as base64 from '@stablelib/base64';
 import { env } from 'cloudflare:test';
 
-import { createAssetUploadSession, uploadAssets } from './asset-manager';
+import {
+	cancelAssetUploadSession,
+	createAssetUploadSession,
+	getAssetUploadSession,
+	resumeAssetUploadSession,
+	uploadAssetStream,
+	uploadAssets,
+} from './asset-manager';
 import { computeContentHash } from './content-utilities';
 import { generateJWT, verifyJWT } from './jwt';
 import { createProject } from './project-manager';
+import { MAX_BUCKET_FILE_SIZE } from './validation';
 import { createMock } from '../../shared/test-utilities';
 
 import type AssetApi from '../../asset-service/src/worker';
@@ -17,11 +25,23 @@ interface ProjectResponse {
 interface SessionResponse {
 	success: boolean;
 	result: {
+		sessionId: string;
 		jwt: string;
 		buckets: string[][];
 	};
 }
 
+interface SessionStatusResponse {
+	success: boolean;
+	session: {
+		sessionId: string;
+		complete: boolean;
+		totalAssets: number;
+		uploadedHashes: string[];
+		remainingBuckets: string[][];
+	};
+}
+
 interface UploadResponse {
 	success: boolean;
 	result: {
@@ -44,7 +64,7 @@ const createMockAssetWorker = (existingHashes: Set<string> = new Set()): Service
 				exists: existingHashes.has(hash),
 			}));
 		},
-		uploadAsset: async (hash: string, _content: ArrayBuffer, _projectId: string, _contentType?: string) => {
+		uploadAsset: async (hash: string, _content: ArrayBuffer, _projectId: string) => {
 			existingHashes.add(hash);
 		},
 	});
@@ -617,5 +637,306 @@ describe('asset-manager', () => {
 			expect(uploadData.success).toBe(true);
 			expect(uploadData.result.jwt).toBeUndefined();
 		});
+		it('rejects bucket uploads of assets that must be streamed', async () => {
+			const createResponse = await createProject(
+				new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }),
+				projectsKv,
+			);
+			const createData = await createResponse.json<ProjectResponse>();
+			const projectId = createData.project.id;
+
+			const hash = 'a'.repeat(64);
+			const manifest = { '/video.mp4': { hash, size: MAX_BUCKET_FILE_SIZE + 1 } };
+			const mockAssetWorker = createMockAssetWorker();
+			const sessionRequest = new Request('http://example.com', { method: 'POST', body: JSON.stringify({ manifest }) });
+			const sessionResponse = await createAssetUploadSession(projectId, sessionRequest, projectsKv, mockAssetWorker, jwtSecret);
+			const sessionData = await sessionResponse.json<SessionResponse>();
+
+			const uploadRequest = new Request('http://example.com', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${sessionData.result.jwt}` },
+				body: JSON.stringify({ [hash]: base64.encode(new Uint8Array(1)) }),
+			});
+			const response = await uploadAssets(projectId, uploadRequest, projectsKv, mockAssetWorker, jwtSecret);
+			expect(response.status).toBe(400);
+			expect(await response.text()).toContain(`must be uploaded with PUT /__api/projects/${projectId}/assets/upload/${hash}`);
+		});
+	});
+
+	describe('uploadAssetStream', () => {
+		const encoder = new TextEncoder();
+
+		// Reads the streamed content like a KV put does, so verification errors surface
+		const createStreamingAssetWorker = (stored: Map<string, string>): Service<AssetApi> =>
+			createMock<Service<AssetApi>>({
+				checkAssetsExist: async (hashes: string[], _projectId: string) => hashes.map((hash) => ({ hash, exists: false })),
+				uploadAsset: async (hash: string, content: ArrayBuffer | ReadableStream, _projectId: string) => {
+					if (!(content instanceof ReadableStream)) {
+						throw new TypeError('Expected streamed content');
+					}
+					let text = '';
+					const reader = content.getReader();
+					for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+						text += new TextDecoder().decode(chunk.value);
+					}
+					stored.set(hash, text);
+				},
+			});
+
+		async function startSession(
+			files: Record<string, string>,
+			assetWorker: Service<AssetApi>,
+		): Promise<{ projectId: string; jwt: string }> {
+			const createResponse = await createProject(
+				new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }),
+				projectsKv,
+			);
+			const createData = await createResponse.json<ProjectResponse>();
+			const projectId = createData.project.id;
+
+			const manifest: Record<string, { hash: string; size: number }> = {};
+			for (const [pathname, text] of Object.entries(files)) {
+				const content = encoder.encode(text);
+				manifest[pathname] = { hash: await computeContentHash(content), size: content.length };
+			}
+
+			const sessionRequest = new Request('http://example.com', { method: 'POST', body: JSON.stringify({ manifest }) });
+			const sessionResponse = await createAssetUploadSession(projectId, sessionRequest, projectsKv, assetWorker, jwtSecret);
+			const sessionData = await sessionResponse.json<SessionResponse>();
+			return { projectId, jwt: sessionData.result.jwt };
+		}
+
+		function uploadRequest(jwt: string, text: string): Request {
+			return new Request('http://example.com', {
+				method: 'PUT',
+				headers: { Authorization: `Bearer ${jwt}` },
+				body: new Blob([text]).stream(),
+			});
+		}
+
+		it('streams assets and returns the completion JWT once all are uploaded', async () => {
+			const stored = new Map<string, string>();
+			const assetWorker = createStreamingAssetWorker(stored);
+			const { projectId, jwt } = await startSession({ '/a.txt': 'content a', '/b.txt': 'content b' }, assetWorker);
+			const hashA = await computeContentHash(encoder.encode('content a'));
+			const hashB = await computeContentHash(encoder.encode('content b'));
+
+			const first = await uploadAssetStream(projectId, hashA, uploadRequest(jwt, 'content a'), projectsKv, assetWorker, jwtSecret);
+			expect(first.status).toBe(200);
+			const firstData = await first.json<UploadResponse>();
+			expect(firstData.result.jwt).toBeUndefined();
+
+			const second = await uploadAssetStream(projectId, hashB, uploadRequest(jwt, 'content b'), projectsKv, assetWorker, jwtSecret);
+			expect(second.status).toBe(201);
+			const secondData = await second.json<UploadResponse>();
+			const jwtPayload = await verifyJWT<JwtPayload>(secondData.result.jwt!, jwtSecret);
+			expect(jwtPayload!.phase).toBe('complete');
+
+			expect(stored.get(hashA)).toBe('content a');
+			expect(stored.get(hashB)).toBe('content b');
+		});
+
+		it('rejects content that does not match the hash without storing it', async () => {
+			const stored = new Map<string, string>();
+			const assetWorker = createStreamingAssetWorker(stored);
+			const { projectId, jwt } = await startSession({ '/a.txt': 'content a' }, assetWorker);
+			const hash = await computeContentHash(encoder.encode('content a'));
+
+			// Same size, different content
+			const response = await uploadAssetStream(projectId, hash, uploadRequest(jwt, 'content b'), projectsKv, assetWorker, jwtSecret);
+			expect(response.status).toBe(400);
+			expect(await response.text()).toContain('Content hash mismatch');
+			expect(stored.has(hash)).toBe(false);
+		});
+
+		it('rejects content with the wrong size', async () => {
+			const stored = new Map<string, string>();
+			const assetWorker = createStreamingAssetWorker(stored);
+			const { projectId, jwt } = await startSession({ '/a.txt': 'content a' }, assetWorker);
+			const hash = await computeContentHash(encoder.encode('content a'));
+
+			for (const text of ['content', 'content a and more']) {
+				const response = await uploadAssetStream(projectId, hash, uploadRequest(jwt, text), projectsKv, assetWorker, jwtSecret);
+				expect(response.status).toBe(400);
+				expect(await response.text()).toContain('Size mismatch');
+			}
+			expect(stored.has(hash)).toBe(false);
+		});
+
+		it('rejects a declared Content-Length that does not match the manifest', async () => {
+			const stored = new Map<string, string>();
+			const assetWorker = createStreamingAssetWorker(stored);
+			const { projectId, jwt } = await startSession({ '/a.txt': 'content a' }, assetWorker);
+			const hash = await computeContentHash(encoder.encode('content a'));
+
+			const request = new Request('http://example.com', {
+				method: 'PUT',
+				headers: { Authorization: `Bearer ${jwt}`, 'Content-Length': '3' },
+				body: 'abc',
+			});
+			const response = await uploadAssetStream(projectId, hash, request, projectsKv, assetWorker, jwtSecret);
+			expect(response.status).toBe(400);
+			expect(await response.text()).toContain('Size mismatch for /a.txt');
+		});
+
+		it('rejects hashes that are not in the manifest or already uploaded', async () => {
+			const stored = new Map<string, string>();
+			const assetWorker = createStreamingAssetWorker(stored);
+			const { projectId, jwt } = await startSession({ '/a.txt': 'content a', '/b.txt': 'content b' }, assetWorker);
+			const hash = await computeContentHash(encoder.encode('content a'));
+
+			const unknown = await uploadAssetStream(
+				projectId,
+				'f'.repeat(64),
+				uploadRequest(jwt, 'content a'),
+				projectsKv,
+				assetWorker,
+				jwtSecret,
+			);
+			expect(unknown.status).toBe(400);
+			expect(await unknown.text()).toContain('not found in manifest');
+
+			const first = await uploadAssetStream(projectId, hash, uploadRequest(jwt, 'content a'), projectsKv, assetWorker, jwtSecret);
+			expect(first.status).toBe(200);
+
+			const duplicate = await uploadAssetStream(projectId, hash, uploadRequest(jwt, 'content a'), projectsKv, assetWorker, jwtSecret);
+			expect(duplicate.status).toBe(400);
+			expect(await duplicate.text()).toContain('already uploaded');
+		});
+
+		it('rejects request without authorization', async () => {
+			const response = await uploadAssetStream(
+				'project-id',
+				'f'.repeat(64),
+				new Request('http://example.com', { method: 'PUT', body: 'content' }),
+				projectsKv,
+				createMockAssetWorker(),
+				jwtSecret,
+			);
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('upload session management', () => {
+		const encoder = new TextEncoder();
+
+		async function startSession(
+			files: Record<string, string>,
+			assetWorker: Service<AssetApi>,
+		): Promise<{ projectId: string; sessionId: string; jwt: string; hashes: string[] }> {
+			const createResponse = await createProject(
+				new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }),
+				projectsKv,
+			);
+			const createData = await createResponse.json<ProjectResponse>();
+			const projectId = createData.project.id;
+
+			const manifest: Record<string, { hash: string; size: number }> = {};
+			for (const [pathname, text] of Object.entries(files)) {
+				const content = encoder.encode(text);
+				manifest[pathname] = { hash: await computeContentHash(content), size: content.length };
+			}
+
+			const sessionRequest = new Request('http://example.com', { method: 'POST', body: JSON.stringify({ manifest }) });
+			const sessionResponse = await createAssetUploadSession(projectId, sessionRequest, projectsKv, assetWorker, jwtSecret);
+			const sessionData = await sessionResponse.json<SessionResponse>();
+			const hashes = Object.values(manifest).map(({ hash }) => hash);
+			return { projectId, sessionId: sessionData.result.sessionId, jwt: sessionData.result.jwt, hashes };
+		}
+
+		async function upload(projectId: string, jwt: string, text: string, assetWorker: Service<AssetApi>): Promise<Response> {
+			const content = encoder.encode(text);
+			const request = new Request('http://example.com', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${jwt}` },
+				body: JSON.stringify({ [await computeContentHash(content)]: base64.encode(content) }),
+			});
+			return uploadAssets(projectId, request, projectsKv, assetWorker, jwtSecret);
+		}
+
+		it('reports uploaded hashes and remaining buckets', async () => {
+			const assetWorker = createMockAssetWorker();
+			const { projectId, sessionId, jwt, hashes } = await startSession({ '/a.txt': 'content a', '/b.txt': 'content b' }, assetWorker);
+			const [hashA, hashB] = hashes;
+			await upload(projectId, jwt, 'content a', assetWorker);
+
+			const response = await getAssetUploadSession(projectId, sessionId, projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<SessionStatusResponse>();
+			expect(data.session).toMatchObject({
+				sessionId,
+				complete: false,
+				totalAssets: 2,
+				uploadedHashes: [hashA],
+				remainingBuckets: [[hashB]],
+			});
+		});
+
+		it('returns 404 for unknown sessions', async () => {
+			const { projectId } = await startSession({ '/a.txt': 'content a' }, createMockAssetWorker());
+
+			const response = await getAssetUploadSession(projectId, 'unknown', projectsKv);
+			expect(response.status).toBe(404);
+			expect(await response.text()).toBe('Session expired or not found');
+		});
+
+		it('resumes a session with a fresh upload JWT for the remaining assets', async () => {
+			const assetWorker = createMockAssetWorker();
+			const { projectId, sessionId, jwt, hashes } = await startSession({ '/a.txt': 'content a', '/b.txt': 'content b' }, assetWorker);
+			await upload(projectId, jwt, 'content a', assetWorker);
+
+			const response = await resumeAssetUploadSession(projectId, sessionId, projectsKv, jwtSecret);
+			expect(response.status).toBe(200);
+			const data = await response.json<SessionResponse>();
+			expect(data.result.buckets).toEqual([[hashes[1]]]);
+			const jwtPayload = await verifyJWT<JwtPayload>(data.result.jwt, jwtSecret);
+			expect(jwtPayload).toMatchObject({ phase: 'upload', sessionId });
+
+			const uploadResponse = await upload(projectId, data.result.jwt, 'content b', assetWorker);
+			expect(uploadResponse.status).toBe(201);
+		});
+
+		it('resumes a complete session with a fresh completion JWT', async () => {
+			const assetWorker = createMockAssetWorker();
+			const { projectId, sessionId, jwt } = await startSession({ '/a.txt': 'content a' }, assetWorker);
+			await upload(projectId, jwt, 'content a', assetWorker);
+
+			const response = await resumeAssetUploadSession(projectId, sessionId, projectsKv, jwtSecret);
+			const data = await response.json<SessionResponse>();
+			expect(data.result.buckets).toEqual([]);
+			const jwtPayload = await verifyJWT<JwtPayload>(data.result.jwt, jwtSecret);
+			expect(jwtPayload!.phase).toBe('complete');
+
+			const session = await projectsKv.get<{ completionToken: string }>(`upload-session/${projectId}/${sessionId}`, 'json');
+			expect(session!.completionToken).toBe(data.result.jwt);
+		});
+
+		it('cancels a session and discards its uploaded assets', async () => {
+			const discardUploadedAssets = vi.fn().mockResolvedValue({ releasedAssets: 1 });
+			const assetWorker = createMock<Service<AssetApi>>({ ...createMockAssetWorker(), discardUploadedAssets });
+			const { projectId, sessionId, jwt, hashes } = await startSession({ '/a.txt': 'content a', '/b.txt': 'content b' }, assetWorker);
+			await upload(projectId, jwt, 'content a', assetWorker);
+
+			const response = await cancelAssetUploadSession(projectId, sessionId, projectsKv, assetWorker);
+			expect(response.status).toBe(200);
+			expect(await response.json()).toMatchObject({ success: true, uploadedAssets: 1, discardedAssets: 1 });
+			expect(discardUploadedAssets).toHaveBeenCalledWith(projectId, [hashes[0]]);
+			expect(await projectsKv.get(`upload-session/${projectId}/${sessionId}`)).toBeNull();
+
+			const uploadResponse = await upload(projectId, jwt, 'content b', assetWorker);
+			expect(uploadResponse.status).toBe(404);
+		});
+
+		it('keeps uploaded assets while another session of the project is open', async () => {
+			const discardUploadedAssets = vi.fn();
+			const assetWorker = createMock<Service<AssetApi>>({ ...createMockAssetWorker(), discardUploadedAssets });
+			const { projectId, sessionId, jwt } = await startSession({ '/a.txt': 'content a' }, assetWorker);
+			await upload(projectId, jwt, 'content a', assetWorker);
+			await projectsKv.put(`upload-session/${projectId}/other-session`, '{}');
+
+			const response = await cancelAssetUploadSession(projectId, sessionId, projectsKv, assetWorker);
+			expect(await response.json()).toMatchObject({ discardedAssets: 0 });
+			expect(discardUploadedAssets).not.toHaveBeenCalled();
+		});
 	});
 });
@@ -1,10 +1,10 @@
 import * as base64 from '@stablelib/base64';
 import { z } from 'zod';
 
-import { computeContentHash, guessContentType, createBuckets } from './content-utilities';
+import { computeContentHash, createBuckets, createVerifiedContentStream } from './content-utilities';
 import { generateJWT, verifyJWT } from './jwt';
 import { getProject } from './project-manager';
-import { assetManifestRequestSchema, uploadPayloadSchema } from './validation';
+import { assetManifestRequestSchema, formatBytes, MAX_BUCKET_FILE_SIZE, uploadPayloadSchema } from './validation';
 import AssetWorker from '../../asset-service/src/worker';
 
 import type { UploadSession, JwtPayload } from './types';
@@ -85,6 +85,7 @@ export async function createAssetUploadSession(
 		return Response.json(
 			{
 				result: {
+					sessionId,
 					jwt: completionJwt,
 					buckets: [],
 				},
@@ -108,6 +109,7 @@ export async function createAssetUploadSession(
 	return Response.json(
 		{
 			result: {
+				sessionId,
 				jwt: uploadJwt,
 				buckets,
 			},
@@ -140,43 +142,12 @@ export async function uploadAssets(
 	assetWorker: Service<AssetWorker>,
 	jwtSecret: string,
 ): Promise<Response> {
-	// Extract JWT from Authorization header
-	const authHeader = request.headers.get('Authorization');
-	if (!authHeader || !authHeader.startsWith('Bearer ')) {
-		return new Response('Missing or invalid Authorization header', { status: 401 });
-	}
-
-	const jwt = authHeader.slice(7);
-	const jwtPayload = await verifyJWT<JwtPayload>(jwt, jwtSecret);
-
-	if (!jwtPayload || jwtPayload.phase !== 'upload' || jwtPayload.projectId !== projectId) {
-		return new Response('Invalid or expired JWT', { status: 401 });
-	}
-
-	// Verify project still exists (may have been deleted or cleaned up)
-	const project = await getProject(projectId, projectsKv);
-	if (!project) {
-		return new Response('Project not found', { status: 404 });
-	}
-
-	// Load session
-	const sessionKey = `upload-session/${projectId}/${jwtPayload.sessionId}`;
-	const sessionData = await projectsKv.get(sessionKey, { type: 'text' });
-	if (!sessionData) {
-		return new Response('Session expired or not found', { status: 404 });
-	}
-
-	const session: UploadSession = JSON.parse(sessionData);
-	session.uploadedHashes = new Set(session.uploadedHashes); // Restore Set from JSON
-
-	// Build reverse index: hash -> { pathname, size } for O(1) lookups
-	// If multiple pathnames share a hash, keep the first one (sizes must match for the same content hash)
-	const hashIndex = new Map<string, { pathname: string; size: number }>();
-	for (const [pathname, data] of Object.entries(session.manifest)) {
-		if (!hashIndex.has(data.hash)) {
-			hashIndex.set(data.hash, { pathname, size: data.size });
-		}
+	const loaded = await loadUploadSession(projectId, request, projectsKv, jwtSecret);
+	if (loaded instanceof Response) {
+		return loaded;
 	}
+	const { session, sessionKey } = loaded;
+	const hashIndex = buildHashIndex(session);
 
 	// Parse body - expecting JSON with base64 encoded files
 	const payload = await request.json();
@@ -200,6 +171,14 @@ export async function uploadAssets(
 			return new Response(`Hash ${hash} already uploaded in this session`, { status: 400 });
 		}
 
+		// Large assets would have to be decoded in memory; they are streamed instead
+		if (indexEntry.size > MAX_BUCKET_FILE_SIZE) {
+			return new Response(
+				`${indexEntry.pathname} is larger than ${formatBytes(MAX_BUCKET_FILE_SIZE, 2, true)} and must be uploaded with PUT /__api/projects/${projectId}/assets/upload/${hash}`,
+				{ status: 400 },
+			);
+		}
+
 		// Decode base64
 		const content = base64.decode(base64Content);
 
@@ -214,15 +193,320 @@ export async function uploadAssets(
 			return new Response(`Size mismatch for ${indexEntry.pathname}: expected ${indexEntry.size}, got ${content.length}`, { status: 400 });
 		}
 
-		// Find content type for this hash
-		const contentType = guessContentType(indexEntry.pathname);
-
 		// Upload to KV via AssetApi
 		// new Uint8Array() ensures a copy is made and returns an underlying ArrayBuffer, avoiding SharedArrayBuffer issues
-		await assetWorker.uploadAsset(actualHash, new Uint8Array(content).buffer, projectId, contentType);
+		await assetWorker.uploadAsset(actualHash, new Uint8Array(content).buffer, projectId);
 		session.uploadedHashes.add(hash);
 	}
 
+	return await saveUploadProgress(session, sessionKey, projectId, projectsKv, jwtSecret);
+}
+
+/**
+ * Uploads a single asset as a raw request body with JWT authentication.
+ * Alternative to {@link uploadAssets} for Phase 2: the body is streamed straight into
+ * the asset store while it is hashed, so it is neither base64-inflated nor buffered in memory.
+ * Content that does not match the manifest hash or size is rejected before it is stored.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param hash - The content hash of the asset, as listed in the upload buckets
+ * @param request - The HTTP request whose body is the raw asset content
+ * @param projectsKv - The KV namespace for storing session data
+ * @param assetWorker - The asset service worker for uploading assets
+ * @param jwtSecret - The secret used for JWT verification and generation
+ * @returns JSON response with completion JWT when all uploads finish, or success status for partial uploads
+ */
+export async function uploadAssetStream(
+	projectId: string,
+	hash: string,
+	request: Request,
+	projectsKv: KVNamespace,
+	assetWorker: Service<AssetWorker>,
+	jwtSecret: string,
+): Promise<Response> {
+	const loaded = await loadUploadSession(projectId, request, projectsKv, jwtSecret);
+	if (loaded instanceof Response) {
+		return loaded;
+	}
+	const { session, sessionKey } = loaded;
+
+	// Verify hash is in the manifest
+	const indexEntry = buildHashIndex(session).get(hash);
+	if (!indexEntry) {
+		return new Response(`Hash ${hash} not found in manifest`, { status: 400 });
+	}
+
+	// Prevent duplicate uploads in the same session
+	if (session.uploadedHashes.has(hash)) {
+		return new Response(`Hash ${hash} already uploaded in this session`, { status: 400 });
+	}
+
+	if (!request.body) {
+		return new Response('Missing request body', { status: 400 });
+	}
+
+	// Reject a declared length that cannot match before reading the body
+	const contentLength = request.headers.get('Content-Length');
+	if (contentLength !== null && Number(contentLength) !== indexEntry.size) {
+		return new Response(`Size mismatch for ${indexEntry.pathname}: expected ${indexEntry.size}, got ${contentLength}`, { status: 400 });
+	}
+
+	const { stream, getMismatch } = createVerifiedContentStream(request.body, hash, indexEntry.size);
+	try {
+		await assetWorker.uploadAsset(hash, stream, projectId);
+	} catch (error) {
+		const mismatch = getMismatch();
+		if (mismatch) {
+			return new Response(mismatch, { status: 400 });
+		}
+		throw error;
+	}
+	session.uploadedHashes.add(hash);
+
+	return await saveUploadProgress(session, sessionKey, projectId, projectsKv, jwtSecret);
+}
+
+/**
+ * Reports the progress of an upload session, e.g. to resume an interrupted upload.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param sessionId - The upload session ID returned when the session was created
+ * @param projectsKv - The KV namespace for storing session data
+ * @returns JSON response with the uploaded hashes and the remaining buckets, or 404 if the project or session is not found
+ */
+export async function getAssetUploadSession(projectId: string, sessionId: string, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const session = await readUploadSession(`upload-session/${projectId}/${sessionId}`, projectsKv);
+	if (!session) {
+		return new Response('Session expired or not found', { status: 404 });
+	}
+
+	const remainingBuckets = getRemainingBuckets(session);
+
+	return Response.json(
+		{
+			success: true,
+			session: {
+				sessionId: session.sessionId,
+				createdAt: new Date(session.createdAt).toISOString(),
+				complete: remainingBuckets.length === 0,
+				totalAssets: session.buckets.flat().length,
+				uploadedHashes: [...session.uploadedHashes],
+				remainingBuckets,
+			},
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Resumes an interrupted upload session with a fresh JWT, since the original one may have expired.
+ * The session is kept for another hour. Responds like {@link createAssetUploadSession}: an upload JWT
+ * with the remaining buckets, or a completion JWT if every asset was uploaded already.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param sessionId - The upload session ID returned when the session was created
+ * @param projectsKv - The KV namespace for storing session data
+ * @param jwtSecret - The secret used for JWT generation
+ * @returns JSON response with a JWT and the remaining buckets, or 404 if the project or session is not found
+ */
+export async function resumeAssetUploadSession(
+	projectId: string,
+	sessionId: string,
+	projectsKv: KVNamespace,
+	jwtSecret: string,
+): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const sessionKey = `upload-session/${projectId}/${sessionId}`;
+	const session = await readUploadSession(sessionKey, projectsKv);
+	if (!session) {
+		return new Response('Session expired or not found', { status: 404 });
+	}
+
+	const buckets = getRemainingBuckets(session);
+	let jwt: string;
+	if (buckets.length === 0) {
+		// Only the latest completion JWT is accepted for deployment
+		jwt = await generateJWT({ sessionId, projectId, phase: 'complete', manifest: session.manifest }, jwtSecret);
+		session.completionToken = jwt;
+	} else {
+		jwt = await generateJWT({ sessionId, projectId, phase: 'upload' }, jwtSecret);
+	}
+
+	await projectsKv.put(sessionKey, JSON.stringify({ ...session, uploadedHashes: [...session.uploadedHashes] }), {
+		expirationTtl: 3600, // 1 hour
+	});
+
+	return Response.json(
+		{
+			result: {
+				sessionId,
+				jwt,
+				buckets,
+			},
+			success: true,
+			errors: undefined,
+			messages: undefined,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Aborts an upload session. Its JWTs stop working, and assets uploaded during the session are
+ * discarded unless a deployment of the project uses them. Discarding is skipped while the project
+ * has another open upload session, which may rely on the same assets.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param sessionId - The upload session ID returned when the session was created
+ * @param projectsKv - The KV namespace for storing session data
+ * @param assetWorker - The asset service worker for discarding uploaded assets
+ * @returns JSON response with the number of discarded assets, or 404 if the project or session is not found
+ */
+export async function cancelAssetUploadSession(
+	projectId: string,
+	sessionId: string,
+	projectsKv: KVNamespace,
+	assetWorker: Service<AssetWorker>,
+): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const sessionKey = `upload-session/${projectId}/${sessionId}`;
+	const session = await readUploadSession(sessionKey, projectsKv);
+	if (!session) {
+		return new Response('Session expired or not found', { status: 404 });
+	}
+
+	await projectsKv.delete(sessionKey);
+
+	let discardedAssets = 0;
+	const otherSessions = await projectsKv.list({ prefix: `upload-session/${projectId}/`, limit: 1 });
+	if (otherSessions.keys.length === 0 && session.uploadedHashes.size > 0) {
+		({ releasedAssets: discardedAssets } = await assetWorker.discardUploadedAssets(projectId, [...session.uploadedHashes]));
+	}
+
+	return Response.json(
+		{
+			success: true,
+			message: 'Upload session cancelled',
+			uploadedAssets: session.uploadedHashes.size,
+			discardedAssets,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Verifies the upload JWT of a Phase 2 request and loads its upload session.
+ *
+ * @returns The session and its KV key, or an error response
+ */
+async function loadUploadSession(
+	projectId: string,
+	request: Request,
+	projectsKv: KVNamespace,
+	jwtSecret: string,
+): Promise<{ session: UploadSession; sessionKey: string } | Response> {
+	// Extract JWT from Authorization header
+	const authHeader = request.headers.get('Authorization');
+	if (!authHeader || !authHeader.startsWith('Bearer ')) {
+		return new Response('Missing or invalid Authorization header', { status: 401 });
+	}
+
+	const jwt = authHeader.slice(7);
+	const jwtPayload = await verifyJWT<JwtPayload>(jwt, jwtSecret);
+
+	if (!jwtPayload || jwtPayload.phase !== 'upload' || jwtPayload.projectId !== projectId) {
+		return new Response('Invalid or expired JWT', { status: 401 });
+	}
+
+	// Verify project still exists (may have been deleted or cleaned up)
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	// Load session
+	const sessionKey = `upload-session/${projectId}/${jwtPayload.sessionId}`;
+	const session = await readUploadSession(sessionKey, projectsKv);
+	if (!session) {
+		return new Response('Session expired or not found', { status: 404 });
+	}
+
+	return { session, sessionKey };
+}
+
+/**
+ * Reads an upload session from KV.
+ *
+ * @returns The session, or undefined if it expired or never existed
+ */
+async function readUploadSession(sessionKey: string, projectsKv: KVNamespace): Promise<UploadSession | undefined> {
+	const sessionData = await projectsKv.get(sessionKey, { type: 'text' });
+	if (!sessionData) {
+		return;
+	}
+
+	const session: UploadSession = JSON.parse(sessionData);
+	session.uploadedHashes = new Set(session.uploadedHashes); // Restore Set from JSON
+	return session;
+}
+
+/**
+ * Lists the buckets of a session with the hashes that still have to be uploaded.
+ * Buckets that were uploaded completely are left out.
+ */
+function getRemainingBuckets(session: UploadSession): string[][] {
+	return session.buckets.map((bucket) => bucket.filter((hash) => !session.uploadedHashes.has(hash))).filter((bucket) => bucket.length > 0);
+}
+
+/**
+ * Builds a reverse index: hash -> { pathname, size } for O(1) lookups.
+ * If multiple pathnames share a hash, keeps the first one (sizes must match for the same content hash).
+ */
+function buildHashIndex(session: UploadSession): Map<string, { pathname: string; size: number }> {
+	const hashIndex = new Map<string, { pathname: string; size: number }>();
+	for (const [pathname, data] of Object.entries(session.manifest)) {
+		if (!hashIndex.has(data.hash)) {
+			hashIndex.set(data.hash, { pathname, size: data.size });
+		}
+	}
+	return hashIndex;
+}
+
+/**
+ * Stores the uploaded hashes of a session and, once every bucket is uploaded,
+ * issues the completion JWT for Phase 3.
+ *
+ * @returns JSON response with completion JWT when all uploads finish, or success status for partial uploads
+ */
+async function saveUploadProgress(
+	session: UploadSession,
+	sessionKey: string,
+	projectId: string,
+	projectsKv: KVNamespace,
+	jwtSecret: string,
+): Promise<Response> {
 	// Check if all buckets are uploaded
 	const allHashesInBuckets = session.buckets.flat();
 	const allUploaded = allHashesInBuckets.every((hash) => session.uploadedHashes.has(hash));
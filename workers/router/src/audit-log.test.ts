@@ -0,0 +1,163 @@
+import { env } from 'cloudflare:test';
+
+import { cleanupAuditLog, getAuditLog, listAuditLogData, summarizeAuditResponse, writeAuditEntry } from './audit-log';
+
+import type { AuditLogEntry } from './types';
+
+describe('audit-log', () => {
+	let projectsKv: KVNamespace;
+
+	beforeEach(async () => {
+		projectsKv = env.KV_PROJECTS;
+
+		// Clear KV namespace before each test
+		const keys = await projectsKv.list();
+		for (const key of keys.keys) {
+			await projectsKv.delete(key.name);
+		}
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	async function writeAt(time: string, entry: Partial<AuditLogEntry> = {}): Promise<AuditLogEntry> {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(time));
+		const stored = await writeAuditEntry(
+			{ actor: 'admin', action: 'project.deploy', projectId: 'project-1', outcome: 'success', status: 200, ...entry },
+			projectsKv,
+		);
+		vi.useRealTimers();
+		return stored;
+	}
+
+	describe('writeAuditEntry', () => {
+		it('stores the entry with an ID and timestamp', async () => {
+			const stored = await writeAt('2025-06-01T12:00:00.000Z', { ip: '203.0.113.7', details: { newAssets: 3 } });
+
+			expect(stored.id).toBeDefined();
+			expect(stored.timestamp).toBe('2025-06-01T12:00:00.000Z');
+
+			const { entries } = await listAuditLogData(projectsKv);
+			expect(entries).toEqual([stored]);
+		});
+	});
+
+	describe('listAuditLogData', () => {
+		it('lists entries newest first', async () => {
+			await writeAt('2025-06-01T00:00:00.000Z', { action: 'project.create' });
+			await writeAt('2025-06-03T00:00:00.000Z', { action: 'project.delete' });
+			await writeAt('2025-06-02T00:00:00.000Z', { action: 'project.deploy' });
+
+			const { entries } = await listAuditLogData(projectsKv);
+			expect(entries.map((entry) => entry.action)).toEqual(['project.delete', 'project.deploy', 'project.create']);
+		});
+
+		it('filters by project, action and time range', async () => {
+			await writeAt('2025-06-01T00:00:00.000Z', { projectId: 'project-1', action: 'project.deploy' });
+			await writeAt('2025-06-02T00:00:00.000Z', { projectId: 'project-2', action: 'project.deploy' });
+			await writeAt('2025-06-03T00:00:00.000Z', { projectId: 'project-1', action: 'project.delete' });
+			await writeAt('2025-06-04T00:00:00.000Z', { projectId: 'project-1', action: 'project.deploy' });
+
+			const byProject = await listAuditLogData(projectsKv, { projectId: 'project-1' });
+			expect(byProject.entries).toHaveLength(3);
+
+			const byAction = await listAuditLogData(projectsKv, { projectId: 'project-1', action: 'project.deploy' });
+			expect(byAction.entries.map((entry) => entry.timestamp)).toEqual(['2025-06-04T00:00:00.000Z', '2025-06-01T00:00:00.000Z']);
+
+			const byTime = await listAuditLogData(projectsKv, { from: '2025-06-02T00:00:00.000Z', to: '2025-06-03T00:00:00.000Z' });
+			expect(byTime.entries.map((entry) => entry.timestamp)).toEqual(['2025-06-03T00:00:00.000Z', '2025-06-02T00:00:00.000Z']);
+		});
+
+		it('paginates with a cursor', async () => {
+			for (let day = 1; day <= 5; day++) {
+				await writeAt(`2025-06-0${day}T00:00:00.000Z`);
+			}
+
+			const timestamps: string[] = [];
+			let cursor: string | undefined;
+			let pages = 0;
+			do {
+				const page = await listAuditLogData(projectsKv, { limit: 2, cursor });
+				timestamps.push(...page.entries.map((entry) => entry.timestamp));
+				expect(page.pagination.limit).toBe(2);
+				cursor = page.pagination.nextCursor;
+				pages++;
+			} while (cursor);
+
+			expect(pages).toBe(3);
+			expect(timestamps).toEqual([
+				'2025-06-05T00:00:00.000Z',
+				'2025-06-04T00:00:00.000Z',
+				'2025-06-03T00:00:00.000Z',
+				'2025-06-02T00:00:00.000Z',
+				'2025-06-01T00:00:00.000Z',
+			]);
+		});
+	});
+
+	describe('getAuditLog', () => {
+		it('returns entries for valid query parameters', async () => {
+			await writeAt('2025-06-01T00:00:00.000Z');
+
+			const response = await getAuditLog(new URL('http://example.com/__api/audit?projectId=project-1&limit=10'), projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<{ success: boolean; entries: AuditLogEntry[] }>();
+			expect(data.success).toBe(true);
+			expect(data.entries).toHaveLength(1);
+		});
+
+		it('rejects invalid query parameters', async () => {
+			for (const query of ['from=yesterday', 'limit=0', 'limit=abc']) {
+				const response = await getAuditLog(new URL(`http://example.com/__api/audit?${query}`), projectsKv);
+				expect(response.status).toBe(400);
+			}
+		});
+	});
+
+	describe('summarizeAuditResponse', () => {
+		it('extracts deployment statistics', async () => {
+			const response = Response.json({
+				success: true,
+				project: { id: 'project-1' },
+				deployment: { id: 4 },
+				deployedAssets: 10,
+				newAssets: 2,
+				message: 'Project deployed successfully',
+			});
+
+			expect(await summarizeAuditResponse(response)).toEqual({
+				projectId: 'project-1',
+				details: { deployedAssets: 10, newAssets: 2, deploymentId: 4 },
+			});
+			// The response body is left unread
+			expect(response.bodyUsed).toBe(false);
+		});
+
+		it('records errors of failed responses', async () => {
+			expect(await summarizeAuditResponse(new Response('Project not found', { status: 404 }))).toEqual({
+				projectId: undefined,
+				details: { error: 'Project not found' },
+			});
+			expect(await summarizeAuditResponse(Response.json({ success: false, error: 'Deployment failed: boom' }, { status: 500 }))).toEqual({
+				projectId: undefined,
+				details: { error: 'Deployment failed: boom' },
+			});
+		});
+	});
+
+	describe('cleanupAuditLog', () => {
+		it('deletes entries older than the retention period', async () => {
+			const now = Date.now();
+			await writeAt(new Date(now - 100 * 24 * 60 * 60 * 1000).toISOString(), { action: 'old' });
+			await writeAt(new Date(now - 10 * 24 * 60 * 60 * 1000).toISOString(), { action: 'recent' });
+
+			const deleted = await cleanupAuditLog(projectsKv, 90);
+			expect(deleted).toBe(1);
+
+			const { entries } = await listAuditLogData(projectsKv);
+			expect(entries.map((entry) => entry.action)).toEqual(['recent']);
+		});
+	});
+});
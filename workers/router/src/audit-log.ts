@@ -0,0 +1,250 @@
+import { z } from 'zod';
+
+import { auditLogQuerySchema } from './validation';
+import { listAllKeys } from '../../shared/kv';
+
+import type { AuditLogEntry } from './types';
+
+/** KV key prefix of audit log entries */
+const AUDIT_KEY_PREFIX = 'audit/';
+
+/** Audit log entries older than this are deleted by the watchdog */
+export const AUDIT_LOG_RETENTION_DAYS = 90;
+
+// Keys embed (MAX_TIMESTAMP - timestamp) so that KV lists them newest first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// Pagination constants
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 100;
+
+// Maximum length of error messages copied from failed responses
+const MAX_ERROR_LENGTH = 200;
+
+interface AuditKeyMetadata {
+	timestamp: number;
+	action: string;
+	projectId?: string;
+}
+
+export interface AuditLogQuery {
+	projectId?: string;
+	action?: string;
+	from?: string;
+	to?: string;
+	limit?: number;
+	cursor?: string;
+}
+
+/**
+ * Appends an entry to the audit log. Entries are never modified; they are only
+ * removed by the watchdog once they are older than the retention period.
+ *
+ * @param entry - The entry without ID and timestamp
+ * @param projectsKv - The KV namespace storing the audit log
+ * @returns The stored entry
+ */
+export async function writeAuditEntry(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>, projectsKv: KVNamespace): Promise<AuditLogEntry> {
+	const now = Date.now();
+	const stored: AuditLogEntry = { id: crypto.randomUUID(), timestamp: new Date(now).toISOString(), ...entry };
+	const metadata: AuditKeyMetadata = { timestamp: now, action: stored.action, projectId: stored.projectId };
+
+	await projectsKv.put(getAuditKey(now, stored.id), JSON.stringify(stored), { metadata });
+
+	return stored;
+}
+
+/**
+ * Extracts the fields worth auditing from a management API response: the project ID
+ * of created projects, top-level numbers and booleans (deployment and deletion statistics),
+ * deployment IDs and, for failures, the error message.
+ *
+ * @param response - The route response (not consumed)
+ * @returns The project ID found in the response body and the audit details, if any
+ */
+export async function summarizeAuditResponse(
+	response: Response,
+): Promise<{ projectId?: string; details?: Record<string, string | number | boolean> }> {
+	const body = await response.clone().text();
+	const details: Record<string, string | number | boolean> = {};
+	let projectId: string | undefined;
+
+	let json: unknown;
+	try {
+		json = JSON.parse(body);
+	} catch {
+		// Plain-text responses (e.g. "Project not found")
+	}
+
+	if (isRecord(json)) {
+		for (const [key, value] of Object.entries(json)) {
+			if (key !== 'success' && (typeof value === 'number' || typeof value === 'boolean')) {
+				details[key] = value;
+			}
+		}
+		if (isRecord(json.deployment) && typeof json.deployment.id === 'number') {
+			details.deploymentId = json.deployment.id;
+		}
+		if (typeof json.error === 'string') {
+			details.error = json.error.slice(0, MAX_ERROR_LENGTH);
+		}
+		if (isRecord(json.project) && typeof json.project.id === 'string') {
+			projectId = json.project.id;
+		}
+	} else if (!response.ok && body) {
+		details.error = body.slice(0, MAX_ERROR_LENGTH);
+	}
+
+	return { projectId, details: Object.keys(details).length > 0 ? details : undefined };
+}
+
+/**
+ * Lists audit log entries, newest first, filtered by project, action and time range.
+ *
+ * The cursor encodes the KV list cursor of the page the next entry is on and the
+ * number of matching entries of that page that were already returned.
+ *
+ * @param projectsKv - The KV namespace storing the audit log
+ * @param query - Filters and pagination options
+ * @returns Object with the entries and pagination metadata
+ */
+export async function listAuditLogData(
+	projectsKv: KVNamespace,
+	query: AuditLogQuery = {},
+): Promise<{ entries: AuditLogEntry[]; pagination: { nextCursor: string | undefined; hasMore: boolean; limit: number } }> {
+	const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+	const from = query.from ? Date.parse(query.from) : undefined;
+	const to = query.to ? Date.parse(query.to) : undefined;
+
+	// Decode cursor: "kvCursor:skip"
+	let pageCursor: string | undefined;
+	let skipInPage = 0;
+	if (query.cursor) {
+		const separatorIndex = query.cursor.lastIndexOf(':');
+		pageCursor = query.cursor.slice(0, Math.max(separatorIndex, 0)) || undefined;
+		skipInPage = Number.parseInt(query.cursor.slice(separatorIndex + 1), 10) || 0;
+	}
+
+	const keys: string[] = [];
+	let nextCursor: string | undefined;
+
+	for (;;) {
+		const page = await projectsKv.list<AuditKeyMetadata>({ prefix: AUDIT_KEY_PREFIX, cursor: pageCursor });
+
+		const matches: string[] = [];
+		let reachedFrom = false;
+		for (const key of page.keys) {
+			const timestamp = key.metadata?.timestamp ?? parseAuditKeyTimestamp(key.name);
+			if (from !== undefined && timestamp < from) {
+				// Keys are ordered newest first, nothing older can match
+				reachedFrom = true;
+				break;
+			}
+			if (to !== undefined && timestamp > to) continue;
+			if (query.action && key.metadata?.action !== query.action) continue;
+			if (query.projectId && key.metadata?.projectId !== query.projectId) continue;
+			matches.push(key.name);
+		}
+
+		const taken = matches.slice(skipInPage, skipInPage + limit - keys.length);
+		keys.push(...taken);
+		const isLastPage = page.list_complete || reachedFrom;
+
+		if (keys.length === limit) {
+			if (skipInPage + taken.length < matches.length) {
+				nextCursor = `${pageCursor ?? ''}:${skipInPage + taken.length}`;
+			} else if (!isLastPage) {
+				nextCursor = `${page.cursor}:0`;
+			}
+			break;
+		}
+
+		if (isLastPage) {
+			break;
+		}
+
+		pageCursor = page.cursor;
+		skipInPage = 0;
+	}
+
+	const records = await Promise.all(keys.map((key) => projectsKv.get<AuditLogEntry>(key, { type: 'json' })));
+
+	return {
+		entries: records.filter((entry: AuditLogEntry | null): entry is AuditLogEntry => entry !== null),
+		pagination: {
+			nextCursor,
+			hasMore: nextCursor !== undefined,
+			limit,
+		},
+	};
+}
+
+/**
+ * Returns audit log entries for the `GET /__api/audit` endpoint.
+ *
+ * @param url - The request URL with optional `projectId`, `action`, `from`, `to`, `limit` and `cursor` query parameters
+ * @param projectsKv - The KV namespace storing the audit log
+ * @returns JSON response with the entries and pagination metadata, or 400 for invalid parameters
+ */
+export async function getAuditLog(url: URL, projectsKv: KVNamespace): Promise<Response> {
+	const queryValidation = auditLogQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+	if (!queryValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(queryValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const data = await listAuditLogData(projectsKv, queryValidation.data);
+
+	return Response.json(
+		{
+			success: true,
+			...data,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Deletes audit log entries older than the retention period.
+ *
+ * @param projectsKv - The KV namespace storing the audit log
+ * @param retentionDays - How many days of entries to keep
+ * @returns The number of deleted entries
+ */
+export async function cleanupAuditLog(projectsKv: KVNamespace, retentionDays: number = AUDIT_LOG_RETENTION_DAYS): Promise<number> {
+	const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+	const expiredKeys: string[] = [];
+
+	for await (const key of listAllKeys(projectsKv, { prefix: AUDIT_KEY_PREFIX })) {
+		if (parseAuditKeyTimestamp(key.name) < cutoff) {
+			expiredKeys.push(key.name);
+		}
+	}
+
+	for (const key of expiredKeys) {
+		await projectsKv.delete(key);
+	}
+
+	return expiredKeys.length;
+}
+
+function getAuditKey(timestamp: number, id: string): string {
+	return `${AUDIT_KEY_PREFIX}${String(MAX_TIMESTAMP - timestamp).padStart(13, '0')}/${id}`;
+}
+
+function parseAuditKeyTimestamp(key: string): number {
+	const inverted = key.slice(AUDIT_KEY_PREFIX.length, key.indexOf('/', AUDIT_KEY_PREFIX.length));
+	return MAX_TIMESTAMP - Number.parseInt(inverted, 10);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
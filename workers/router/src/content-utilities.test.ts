@@ -1,4 +1,4 @@
-import { computeContentHash, guessContentType, inferModuleType, createBuckets } from './content-utilities';
+import { computeContentHash, guessContentType, inferModuleType, createBuckets, findPrecompressedVariants } from './content-utilities';
 
 describe('content-utilities', () => {
 	describe('computeContentHash', () => {
@@ -81,6 +81,27 @@ describe('content-utilities', () => {
 		});
 	});
 
+	describe('findPrecompressedVariants', () => {
+		const manifest = {
+			'/app.js': { hash: 'a'.repeat(64) },
+			'/app.js.br': { hash: 'b'.repeat(64) },
+			'/app.js.gz': { hash: 'c'.repeat(64) },
+			'/style.css': { hash: 'd'.repeat(64) },
+			'/style.css.gz': { hash: 'e'.repeat(64) },
+			'/logo.png': { hash: 'f'.repeat(64) },
+		};
+
+		it('maps .br and .gz siblings to their content encodings', () => {
+			expect(findPrecompressedVariants(manifest, '/app.js')).toEqual({ br: 'b'.repeat(64), gzip: 'c'.repeat(64) });
+			expect(findPrecompressedVariants(manifest, '/style.css')).toEqual({ gzip: 'e'.repeat(64) });
+		});
+
+		it('returns undefined for files without siblings', () => {
+			expect(findPrecompressedVariants(manifest, '/logo.png')).toBeUndefined();
+			expect(findPrecompressedVariants(manifest, '/app.js.gz')).toBeUndefined();
+		});
+	});
+
 	describe('inferModuleType', () => {
 		it('infers js module type', () => {
 			expect(inferModuleType('index.js')).toBe('js');
@@ -103,6 +124,10 @@ describe('content-utilities', () => {
 			expect(inferModuleType('config.json')).toBe('json');
 		});
 
+		it('infers data module type for source maps', () => {
+			expect(inferModuleType('index.js.map')).toBe('data');
+		});
+
 		it('defaults to js for unknown extensions', () => {
 			expect(inferModuleType('file.xyz')).toBe('js');
 			expect(inferModuleType('file.ts')).toBe('js');
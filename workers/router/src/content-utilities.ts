@@ -1,4 +1,5 @@
 import type { ModuleType } from './types';
+import type { EncodingVariants } from '../../asset-service/src/utils/encoding';
 
 /**
  * Computes the SHA-256 content hash of the given data.
@@ -12,6 +13,68 @@ export async function computeContentHash(content: ArrayBuffer | ArrayBufferView)
 	return contentHash;
 }
 
+/**
+ * Wraps an upload body in a stream that hashes it incrementally and checks its size,
+ * so content can be streamed to storage without buffering it. If the content does not
+ * match, the returned stream errors instead of completing, which aborts the write it feeds.
+ *
+ * @param body - The content stream
+ * @param expectedHash - The SHA-256 hash (lowercase hex) the content must have
+ * @param expectedSize - The size in bytes the content must have
+ * @returns The verified stream and a function returning the mismatch message, if verification failed
+ */
+export function createVerifiedContentStream(
+	body: ReadableStream<Uint8Array>,
+	expectedHash: string,
+	expectedSize: number,
+): { stream: ReadableStream<Uint8Array>; getMismatch: () => string | undefined } {
+	const reader = body.getReader();
+	const digestStream = new crypto.DigestStream('SHA-256');
+	const digestWriter = digestStream.getWriter();
+	let receivedBytes = 0;
+	let mismatch: string | undefined;
+
+	const fail = (message: string, controller: ReadableStreamDefaultController<Uint8Array>): void => {
+		mismatch = message;
+		controller.error(new Error(message));
+		reader.cancel(message).catch(() => {});
+	};
+
+	const stream = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { done, value } = await reader.read();
+			if (done) {
+				if (receivedBytes !== expectedSize) {
+					fail(`Size mismatch: expected ${expectedSize}, got ${receivedBytes}`, controller);
+					return;
+				}
+				await digestWriter.close();
+				const actualHash = [...new Uint8Array(await digestStream.digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+				if (actualHash !== expectedHash) {
+					fail(`Content hash mismatch: expected ${expectedHash}, got ${actualHash}`, controller);
+					return;
+				}
+				controller.close();
+				return;
+			}
+
+			receivedBytes += value.byteLength;
+			if (receivedBytes > expectedSize) {
+				fail(`Size mismatch: expected ${expectedSize}, got more than ${expectedSize} bytes`, controller);
+				return;
+			}
+			// Hash a copy so the digest never detaches the chunk passed downstream
+			await digestWriter.write(new Uint8Array(value));
+			controller.enqueue(value);
+		},
+		async cancel(reason) {
+			await reader.cancel(reason);
+		},
+	});
+
+	return { stream, getMismatch: () => mismatch };
+}
+
 /**
  * Guesses the MIME content type from a file pathname based on extension.
  *
@@ -45,6 +108,26 @@ export function guessContentType(pathname: string): string | undefined {
 	return extension ? contentTypes[extension] : undefined;
 }
 
+/**
+ * Finds precompressed siblings of a manifest file, such as `/app.js.br` and `/app.js.gz` for `/app.js`.
+ *
+ * @param manifest - The deployment manifest mapping pathnames to content hashes
+ * @param pathname - The pathname of the file
+ * @returns The content hashes of the siblings by content encoding, or undefined if there are none
+ */
+export function findPrecompressedVariants(manifest: Record<string, { hash: string }>, pathname: string): EncodingVariants | undefined {
+	const variants: EncodingVariants = {};
+	const brotli = manifest[`${pathname}.br`];
+	if (brotli) {
+		variants.br = brotli.hash;
+	}
+	const gzip = manifest[`${pathname}.gz`];
+	if (gzip) {
+		variants.gzip = gzip.hash;
+	}
+	return Object.keys(variants).length > 0 ? variants : undefined;
+}
+
 /**
  * Infers the module type from a file extension for server-side code deployment.
  *
@@ -73,7 +156,8 @@ export function inferModuleType(modulePath: string): ModuleType {
 		case 'json': {
 			return 'json';
 		}
-		case 'bin': {
+		case 'bin':
+		case 'map': {
 			return 'data';
 		}
 		case 'wasm': {
@@ -0,0 +1,161 @@
+import { env } from 'cloudflare:test';
+
+import { getCronTriggers, runCronTriggers } from './cron-triggers';
+import { deployProject, rollbackDeployment } from './deployment-manager';
+import { createProject, deleteProject, getCronTriggerKey } from './project-manager';
+import { createMock } from '../../shared/test-utilities';
+
+import type { CronTriggerRun } from './types';
+import type AssetWorker from '../../asset-service/src/worker';
+
+interface ProjectResponse {
+	project: { id: string };
+}
+
+interface CronTriggersResponse {
+	success: boolean;
+	crons: string[];
+	runs: CronTriggerRun[];
+}
+
+describe('cron-triggers', () => {
+	const projectsKv = env.KV_PROJECTS;
+	const serverSideCodeKv = env.KV_SERVER_SIDE_CODE;
+	const assetWorker = createMock<Service<AssetWorker>>({
+		uploadManifest: async () => [],
+		deleteProjectAssets: async () => ({ deletedAssets: 0, deletedManifest: false }),
+	});
+	// Monday, 2025-03-03 09:30 UTC
+	const scheduledTime = Date.UTC(2025, 2, 3, 9, 30);
+
+	beforeEach(async () => {
+		for (const kv of [projectsKv, serverSideCodeKv]) {
+			const keys = await kv.list();
+			for (const key of keys.keys) {
+				await kv.delete(key.name);
+			}
+		}
+	});
+
+	async function createTestProject(): Promise<string> {
+		const response = await createProject(new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }), projectsKv);
+		const data = await response.json<ProjectResponse>();
+		return data.project.id;
+	}
+
+	async function deploy(projectId: string, crons?: string[]): Promise<Response> {
+		const body = { server: { entrypoint: 'index.js', modules: { 'index.js': btoa('export default {}') }, crons } };
+		const request = new Request('http://example.com', { method: 'POST', body: JSON.stringify(body) });
+		return deployProject(projectId, request, projectsKv, serverSideCodeKv, env.DEPLOYMENT_SEQUENCE, assetWorker, 'test-secret');
+	}
+
+	it('invokes the scheduled handler of projects with a due cron trigger', async () => {
+		const dueProject = await createTestProject();
+		const laterProject = await createTestProject();
+		await deploy(dueProject, ['30 9 * * *', '*/15 * * * *', '0 0 * * *']);
+		await deploy(laterProject, ['0 12 * * *']);
+
+		const invoke = vi.fn(async () => {});
+		const runs = await runCronTriggers(env, scheduledTime, invoke);
+
+		expect(invoke).toHaveBeenCalledTimes(2);
+		expect(invoke).toHaveBeenCalledWith(
+			expect.objectContaining({ projectId: dueProject, id: 1 }),
+			expect.objectContaining({ crons: ['30 9 * * *', '*/15 * * * *', '0 0 * * *'] }),
+			{ cron: '30 9 * * *', scheduledTime },
+		);
+		expect(runs.map((run) => [run.projectId, run.cron, run.outcome])).toEqual([
+			[dueProject, '30 9 * * *', 'success'],
+			[dueProject, '*/15 * * * *', 'success'],
+		]);
+	});
+
+	it('records failing handlers without stopping other projects', async () => {
+		const failingProject = await createTestProject();
+		const otherProject = await createTestProject();
+		await deploy(failingProject, ['* * * * *']);
+		await deploy(otherProject, ['* * * * *']);
+
+		const runs = await runCronTriggers(env, scheduledTime, async (deployment) => {
+			if (deployment.projectId === failingProject) {
+				throw new Error('Handler crashed');
+			}
+		});
+
+		const failedRun = runs.find((run) => run.projectId === failingProject);
+		expect(failedRun).toMatchObject({ outcome: 'failure', error: 'Handler crashed' });
+		expect(runs.find((run) => run.projectId === otherProject)?.outcome).toBe('success');
+
+		const response = await getCronTriggers(failingProject, new URL('http://example.com'), projectsKv);
+		const data = await response.json<CronTriggersResponse>();
+		expect(data.crons).toEqual(['* * * * *']);
+		expect(data.runs).toEqual([failedRun]);
+	});
+
+	it('finds due projects from the index listing and runs a bounded number at once', async () => {
+		const projectIds: string[] = [];
+		for (let index = 0; index < 8; index++) {
+			const projectId = await createTestProject();
+			await deploy(projectId, ['* * * * *']);
+			projectIds.push(projectId);
+		}
+		const get = vi.spyOn(projectsKv, 'get');
+
+		let active = 0;
+		let maxActive = 0;
+		const runs = await runCronTriggers(env, scheduledTime, async () => {
+			active++;
+			maxActive = Math.max(maxActive, active);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			active--;
+		});
+
+		expect(runs).toHaveLength(projectIds.length);
+		expect(runs.map((run) => run.projectId)).toEqual(expect.arrayContaining(projectIds));
+		expect(maxActive).toBeLessThanOrEqual(6);
+		expect(get.mock.calls.filter(([key]) => String(key).startsWith('cron-trigger/'))).toEqual([]);
+		get.mockRestore();
+	});
+
+	it('follows the active deployment across deploys and rollbacks', async () => {
+		const projectId = await createTestProject();
+		await deploy(projectId, ['* * * * *']);
+		await deploy(projectId);
+		expect(await projectsKv.get(getCronTriggerKey(projectId))).toBeNull();
+
+		await rollbackDeployment(projectId, 1, projectsKv);
+		expect(await projectsKv.get(getCronTriggerKey(projectId), 'json')).toEqual({ deploymentId: 1, crons: ['* * * * *'] });
+	});
+
+	it('stops cron triggers and deletes their runs with the project', async () => {
+		const projectId = await createTestProject();
+		await deploy(projectId, ['* * * * *']);
+		await runCronTriggers(env, scheduledTime, async () => {});
+
+		await deleteProject(
+			projectId,
+			projectsKv,
+			serverSideCodeKv,
+			env.KV_PROJECT_DATA,
+			env.PROJECT_DATA_QUOTA,
+			env.PROJECT_LOGS,
+			env.DEPLOYMENT_SEQUENCE,
+			assetWorker,
+		);
+
+		const remainingKeys = await projectsKv.list();
+		expect(remainingKeys.keys).toEqual([]);
+	});
+
+	it('rejects invalid cron expressions on deploy', async () => {
+		const projectId = await createTestProject();
+		const response = await deploy(projectId, ['61 * * * *']);
+		expect(response.status).toBe(400);
+		expect(await response.text()).toContain("Invalid cron expression '61 * * * *'");
+	});
+
+	it('returns 404 for unknown projects', async () => {
+		const response = await getCronTriggers('non-existent', new URL('http://example.com'), projectsKv);
+		expect(response.status).toBe(404);
+	});
+});
@@ -0,0 +1,251 @@
+import { z } from 'zod';
+
+import { matchesCron } from './cron';
+import { getCronTriggerKey, getCronTriggerRunPrefix, getDeploymentKey, getProject } from './project-manager';
+import { getServerSideCodeManifest } from './server-side-code-runner';
+import { cronTriggerRunsQuerySchema } from './validation';
+
+import type { CronTriggerIndexEntry, CronTriggerRun, DeploymentMetadata, ServerSideCodeManifest } from './types';
+
+/** KV key prefix of the cron trigger index */
+const CRON_TRIGGER_PREFIX = 'cron-trigger/';
+
+/** Projects whose scheduled handlers run at the same time; further due projects wait for the previous batch */
+const CRON_TRIGGER_BATCH_SIZE = 6;
+
+/** Runs expire after this many days */
+export const CRON_TRIGGER_RUN_RETENTION_DAYS = 7;
+
+// Keys embed (MAX_TIMESTAMP - timestamp) so that KV lists them newest first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// Pagination constants
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Invokes the scheduled handler of a deployment's server-side code; provided by the router entrypoint,
+ * which creates the bindings of the code.
+ */
+export type ScheduledHandlerInvoker = (
+	deployment: DeploymentMetadata,
+	manifest: ServerSideCodeManifest,
+	controller: { cron: string; scheduledTime: number },
+) => Promise<void>;
+
+/**
+ * Points the cron trigger index at a project's newly activated deployment, or removes the project
+ * from the index if the deployment has no cron triggers. The entry is also stored as the key's
+ * metadata, so the scheduler finds due projects from the key listing alone.
+ *
+ * @param deployment - The deployment that became active
+ * @param projectsKv - The KV namespace storing the index
+ */
+export async function updateCronTriggerIndex(deployment: DeploymentMetadata, projectsKv: KVNamespace): Promise<void> {
+	const key = getCronTriggerKey(deployment.projectId);
+	if (!deployment.hasServerSideCode || !deployment.crons || deployment.crons.length === 0) {
+		await projectsKv.delete(key);
+		return;
+	}
+
+	const entry: CronTriggerIndexEntry = { deploymentId: deployment.id, crons: deployment.crons };
+	await projectsKv.put(key, JSON.stringify(entry), { metadata: entry });
+}
+
+/**
+ * Invokes the scheduled handlers of all projects with a cron trigger due at the scheduled time,
+ * and records the outcome of each invocation. A failing project does not stop the others.
+ * Due projects are found from the index key metadata and run in batches of CRON_TRIGGER_BATCH_SIZE.
+ *
+ * @param environment - The worker environment bindings
+ * @param scheduledTime - The time the router's own cron trigger was scheduled for
+ * @param invoke - Invokes the scheduled handler of a deployment
+ * @returns The recorded runs
+ */
+export async function runCronTriggers(environment: Env, scheduledTime: number, invoke: ScheduledHandlerInvoker): Promise<CronTriggerRun[]> {
+	const projectsKv = environment.KV_PROJECTS;
+	const runs: CronTriggerRun[] = [];
+
+	let cursor: string | undefined = undefined;
+	let hasMore = true;
+
+	const dueProjects: { projectId: string; deploymentId: number; dueCrons: string[] }[] = [];
+	while (hasMore) {
+		const page: KVNamespaceListResult<CronTriggerIndexEntry> = await projectsKv.list({ prefix: CRON_TRIGGER_PREFIX, cursor });
+
+		for (const key of page.keys) {
+			// Entries written before the index carried metadata are read from their value
+			const entry = key.metadata ?? (await projectsKv.get<CronTriggerIndexEntry>(key.name, { type: 'json' }));
+			const dueCrons = entry?.crons.filter((cron) => matchesCron(cron, scheduledTime)) ?? [];
+			if (entry && dueCrons.length > 0) {
+				dueProjects.push({ projectId: key.name.slice(CRON_TRIGGER_PREFIX.length), deploymentId: entry.deploymentId, dueCrons });
+			}
+		}
+
+		cursor = page.list_complete ? undefined : page.cursor;
+		hasMore = !page.list_complete;
+	}
+
+	for (let index = 0; index < dueProjects.length; index += CRON_TRIGGER_BATCH_SIZE) {
+		const batch = dueProjects.slice(index, index + CRON_TRIGGER_BATCH_SIZE);
+		const batchRuns = await Promise.all(
+			batch.map(({ projectId, deploymentId, dueCrons }) =>
+				runProjectCronTriggers(projectId, deploymentId, dueCrons, scheduledTime, environment, invoke),
+			),
+		);
+		runs.push(...batchRuns.flat());
+	}
+
+	if (runs.length > 0) {
+		const failures = runs.filter((run) => run.outcome === 'failure').length;
+		console.log(`⏰ Ran ${runs.length} cron triggers (${failures} failed)`);
+	}
+
+	return runs;
+}
+
+/**
+ * Invokes the scheduled handler of one project for each of its due cron expressions, one after another.
+ */
+async function runProjectCronTriggers(
+	projectId: string,
+	deploymentId: number,
+	dueCrons: string[],
+	scheduledTime: number,
+	environment: Env,
+	invoke: ScheduledHandlerInvoker,
+): Promise<CronTriggerRun[]> {
+	const projectsKv = environment.KV_PROJECTS;
+	const runs: CronTriggerRun[] = [];
+
+	// Loaded once for all due crons; if loading fails, the failure is recorded for each of them
+	const targetPromise = loadCronTarget(projectId, deploymentId, projectsKv);
+
+	for (const cron of dueCrons) {
+		const startTime = performance.now();
+		const run: CronTriggerRun = {
+			id: crypto.randomUUID(),
+			projectId,
+			deploymentId,
+			cron,
+			scheduledTime: new Date(scheduledTime).toISOString(),
+			startedAt: new Date().toISOString(),
+			durationMs: 0,
+			outcome: 'success',
+		};
+
+		try {
+			const { deployment, manifest } = await targetPromise;
+			await invoke(deployment, manifest, { cron, scheduledTime });
+		} catch (error) {
+			run.outcome = 'failure';
+			run.error = error instanceof Error ? error.message : String(error);
+			console.error(`❌ Cron trigger '${cron}' failed for project ${projectId}: ${run.error}`);
+		}
+
+		run.durationMs = Math.round(performance.now() - startTime);
+		await saveCronTriggerRun(run, projectsKv);
+		runs.push(run);
+	}
+
+	return runs;
+}
+
+/**
+ * Loads the deployment a cron trigger index entry points at, checking it is still the project's active deployment.
+ */
+async function loadCronTarget(
+	projectId: string,
+	deploymentId: number,
+	projectsKv: KVNamespace,
+): Promise<{ deployment: DeploymentMetadata; manifest: ServerSideCodeManifest }> {
+	const [project, deployment, manifest] = await Promise.all([
+		getProject(projectId, projectsKv),
+		projectsKv.get<DeploymentMetadata>(getDeploymentKey(projectId, deploymentId), { type: 'json' }),
+		getServerSideCodeManifest(projectId, deploymentId),
+	]);
+
+	if (!project || project.activeDeploymentId !== deploymentId) {
+		throw new Error(`Deployment ${deploymentId} is no longer the active deployment`);
+	}
+	if (!deployment || !manifest) {
+		throw new Error(`Server-side code of deployment ${deploymentId} not found`);
+	}
+	return { deployment, manifest };
+}
+
+/**
+ * Lists a project's cron trigger runs, newest first.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param projectsKv - The KV namespace storing the runs
+ * @param options - Pagination options
+ * @returns Object with the runs and pagination metadata
+ */
+export async function listCronTriggerRunsData(
+	projectId: string,
+	projectsKv: KVNamespace,
+	options: { limit?: number; cursor?: string } = {},
+): Promise<{ runs: CronTriggerRun[]; pagination: { nextCursor: string | undefined; hasMore: boolean; limit: number } }> {
+	const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+	const page = await projectsKv.list({ prefix: getCronTriggerRunPrefix(projectId), limit, cursor: options.cursor });
+	const records = await Promise.all(page.keys.map((key) => projectsKv.get<CronTriggerRun>(key.name, { type: 'json' })));
+	const nextCursor = page.list_complete ? undefined : page.cursor;
+
+	return {
+		runs: records.filter((run: CronTriggerRun | null): run is CronTriggerRun => run !== null),
+		pagination: {
+			nextCursor,
+			hasMore: nextCursor !== undefined,
+			limit,
+		},
+	};
+}
+
+/**
+ * Returns a project's cron triggers and recent runs for the `GET /__api/projects/:projectId/cron-triggers` endpoint.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param url - The request URL with optional `limit` and `cursor` query parameters
+ * @param projectsKv - The KV namespace storing the index and the runs
+ * @returns JSON response with the active cron expressions, the runs and pagination metadata,
+ *   400 for invalid parameters or 404 if the project is not found
+ */
+export async function getCronTriggers(projectId: string, url: URL, projectsKv: KVNamespace): Promise<Response> {
+	const queryValidation = cronTriggerRunsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+	if (!queryValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(queryValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const [entry, data] = await Promise.all([
+		projectsKv.get<CronTriggerIndexEntry>(getCronTriggerKey(projectId), { type: 'json' }),
+		listCronTriggerRunsData(projectId, projectsKv, queryValidation.data),
+	]);
+
+	return Response.json(
+		{
+			success: true,
+			crons: entry?.crons ?? [],
+			...data,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+async function saveCronTriggerRun(run: CronTriggerRun, projectsKv: KVNamespace): Promise<void> {
+	const key = `${getCronTriggerRunPrefix(run.projectId)}${String(MAX_TIMESTAMP - Date.parse(run.startedAt)).padStart(13, '0')}/${run.id}`;
+	await projectsKv.put(key, JSON.stringify(run), { expirationTtl: CRON_TRIGGER_RUN_RETENTION_DAYS * 24 * 60 * 60 });
+}
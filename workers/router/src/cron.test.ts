@@ -0,0 +1,53 @@
+import { matchesCron, parseCronExpression } from './cron';
+
+describe('cron', () => {
+	describe('parseCronExpression', () => {
+		it('expands wildcards, ranges, lists and steps', () => {
+			const schedule = parseCronExpression('*/15 9-17 1,15 * MON-FRI');
+			expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+			expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+			expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+			expect(schedule.months.size).toBe(12);
+			expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+		});
+
+		it('treats 7 as Sunday and a single value with a step as a start', () => {
+			expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+			expect([...parseCronExpression('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+		});
+
+		it('rejects invalid expressions', () => {
+			for (const expression of [
+				'* * * *',
+				'60 * * * *',
+				'* 24 * * *',
+				'* * 0 * *',
+				'*/0 * * * *',
+				'5-1 * * * *',
+				'* * * FOO *',
+				'@daily',
+			]) {
+				expect(() => parseCronExpression(expression)).toThrow();
+			}
+		});
+	});
+
+	describe('matchesCron', () => {
+		// Monday, 2025-03-03 09:30 UTC
+		const monday = Date.UTC(2025, 2, 3, 9, 30);
+
+		it('matches the minute in UTC', () => {
+			expect(matchesCron('30 9 * * *', monday)).toBe(true);
+			expect(matchesCron('*/15 * * * *', monday)).toBe(true);
+			expect(matchesCron('31 9 * * *', monday)).toBe(false);
+			expect(matchesCron('30 9 * 4 *', monday)).toBe(false);
+		});
+
+		it('matches either day field when both are restricted', () => {
+			expect(matchesCron('30 9 15 * MON', monday)).toBe(true);
+			expect(matchesCron('30 9 3 * SUN', monday)).toBe(true);
+			expect(matchesCron('30 9 15 * SUN', monday)).toBe(false);
+			expect(matchesCron('30 9 * * SUN', monday)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Five-field cron expressions (minute, hour, day of month, month, day of week), evaluated in UTC
+ * like Cloudflare cron triggers. Fields support `*`, values, ranges (`1-5`), lists (`1,15`) and
+ * steps (`*\/15`, `0-30/10`); months and days of week also accept three-letter names (`JAN`, `MON`).
+ */
+
+interface CronField {
+	min: number;
+	max: number;
+	names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{ min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+	// 7 is an alias of Sunday
+	{ min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const FIELD_LABELS = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// Cron matches either day field when both are restricted, and only the restricted one otherwise
+	restrictsDayOfMonth: boolean;
+	restrictsDayOfWeek: boolean;
+}
+
+/**
+ * Parses a single value of a field, accepting names where the field defines them.
+ */
+function parseFieldValue(value: string, field: CronField, label: string): number {
+	const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+	if (nameIndex !== -1) {
+		return field.min + nameIndex;
+	}
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`Invalid ${label} value '${value}'`);
+	}
+	const number = Number(value);
+	if (number < field.min || number > field.max) {
+		throw new Error(`The ${label} must be between ${field.min} and ${field.max}, got ${number}`);
+	}
+	return number;
+}
+
+/**
+ * Expands a field into the set of values it matches.
+ */
+function parseField(expression: string, field: CronField, label: string): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of expression.split(',')) {
+		const [range = '', stepText, ...rest] = part.split('/');
+		if (rest.length > 0) {
+			throw new Error(`Invalid ${label} step '${part}'`);
+		}
+
+		let step = 1;
+		if (stepText !== undefined) {
+			if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+				throw new Error(`Invalid ${label} step '${part}'`);
+			}
+			step = Number(stepText);
+		}
+
+		let start: number;
+		let end: number;
+		if (range === '*') {
+			start = field.min;
+			end = field.max;
+		} else if (range.includes('-')) {
+			const [from = '', to = ''] = range.split('-', 2);
+			start = parseFieldValue(from, field, label);
+			end = parseFieldValue(to, field, label);
+			if (start > end) {
+				throw new Error(`Invalid ${label} range '${range}'`);
+			}
+		} else {
+			start = parseFieldValue(range, field, label);
+			// `5/15` means every 15 starting at 5
+			end = stepText === undefined ? start : field.max;
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parses a cron expression.
+ *
+ * @param expression - The cron expression, e.g. `*\/15 * * * *`
+ * @returns The values each field matches
+ * @throws Error describing the first invalid field
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== CRON_FIELDS.length) {
+		throw new Error(`Cron expression must have ${CRON_FIELDS.length} fields (minute hour day-of-month month day-of-week)`);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+		parseField(field, CRON_FIELDS[index]!, FIELD_LABELS[index]!),
+	);
+
+	// Sunday may be written as 0 or 7
+	if (daysOfWeek!.delete(7)) {
+		daysOfWeek!.add(0);
+	}
+
+	return {
+		minutes: minutes!,
+		hours: hours!,
+		daysOfMonth: daysOfMonth!,
+		months: months!,
+		daysOfWeek: daysOfWeek!,
+		restrictsDayOfMonth: !fields[2]!.startsWith('*'),
+		restrictsDayOfWeek: !fields[4]!.startsWith('*'),
+	};
+}
+
+/**
+ * Checks whether a cron expression is due at the minute of a timestamp (UTC).
+ *
+ * @param expression - A valid cron expression
+ * @param time - The timestamp in milliseconds
+ * @returns True if the expression matches the minute
+ */
+export function matchesCron(expression: string, time: number): boolean {
+	const schedule = parseCronExpression(expression);
+	const date = new Date(time);
+
+	if (
+		!schedule.minutes.has(date.getUTCMinutes()) ||
+		!schedule.hours.has(date.getUTCHours()) ||
+		!schedule.months.has(date.getUTCMonth() + 1)
+	) {
+		return false;
+	}
+
+	const dayOfMonthMatches = schedule.daysOfMonth.has(date.getUTCDate());
+	const dayOfWeekMatches = schedule.daysOfWeek.has(date.getUTCDay());
+	if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+		return dayOfMonthMatches || dayOfWeekMatches;
+	}
+	return dayOfMonthMatches && dayOfWeekMatches;
+}
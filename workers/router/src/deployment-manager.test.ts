@@ -1,9 +1,11 @@
 import { env } from 'cloudflare:test';
 
-import { deployProject } from './deployment-manager';
-import { createProject } from './project-manager';
+import { computeContentHash } from './content-utilities';
+import { deployProject, getDeploymentInfo, listDeployments, resolveServingDeployment, rollbackDeployment } from './deployment-manager';
+import { createProject, getProject } from './project-manager';
 import { createMock } from '../../shared/test-utilities';
 
+import type { DeploymentMetadata, ModuleMetadata, ProjectMetadata } from './types';
 import type AssetWorker from '../../asset-service/src/worker';
 
 interface ProjectResponse {
@@ -15,6 +17,18 @@ interface DeployResponse {
 	success: boolean;
 }
 
+interface VersionedDeployResponse {
+	success: boolean;
+	project: ProjectMetadata;
+	deployment: DeploymentMetadata;
+}
+
+interface ListDeploymentsResponse {
+	success: boolean;
+	activeDeploymentId: number | undefined;
+	deployments: DeploymentMetadata[];
+}
+
 describe('deployment-manager', () => {
 	let projectsKv: KVNamespace;
 	let serverSideCodeKv: KVNamespace;
@@ -67,7 +81,15 @@ describe('deployment-manager', () => {
 				}),
 			});
 
-			const response = await deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, mockAssetWorker, jwtSecret);
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				serverSideCodeKv,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+				jwtSecret,
+			);
 
 			expect(response.status).toBe(200);
 			const data = await response.json<DeployResponse>();
@@ -100,7 +122,15 @@ describe('deployment-manager', () => {
 				}),
 			});
 
-			const response = await deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, mockAssetWorker, jwtSecret);
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				serverSideCodeKv,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+				jwtSecret,
+			);
 
 			expect(response.status).toBe(400);
 			const errorText = await response.text();
@@ -128,7 +158,15 @@ describe('deployment-manager', () => {
 				}),
 			});
 
-			const response = await deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, mockAssetWorker, jwtSecret);
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				serverSideCodeKv,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+				jwtSecret,
+			);
 
 			expect(response.status).toBe(200);
 			const data = await response.json<DeployResponse>();
@@ -159,7 +197,15 @@ describe('deployment-manager', () => {
 				}),
 			});
 
-			const response = await deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, mockAssetWorker, jwtSecret);
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				serverSideCodeKv,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+				jwtSecret,
+			);
 
 			expect(response.status).toBe(200);
 			const data = await response.json<DeployResponse>();
@@ -190,7 +236,15 @@ describe('deployment-manager', () => {
 				}),
 			});
 
-			const response = await deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, mockAssetWorker, jwtSecret);
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				serverSideCodeKv,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+				jwtSecret,
+			);
 
 			expect(response.status).toBe(400);
 			const errorText = await response.text();
@@ -199,4 +253,307 @@ describe('deployment-manager', () => {
 			expect(errorText).toContain('5.00 KB');
 		});
 	});
+
+	describe('versioned deployments', () => {
+		const createTestProject = async (): Promise<string> => {
+			const createRequest = new Request('http://example.com', {
+				method: 'POST',
+				body: JSON.stringify({ name: 'Test Project' }),
+			});
+			const createResponse = await createProject(createRequest, projectsKv);
+			const createData = await createResponse.json<ProjectResponse>();
+			return createData.project.id;
+		};
+
+		const deploy = async (projectId: string, body: object): Promise<Response> => {
+			const deployRequest = new Request('http://example.com', {
+				method: 'POST',
+				body: JSON.stringify(body),
+			});
+			return deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, env.DEPLOYMENT_SEQUENCE, mockAssetWorker, jwtSecret);
+		};
+
+		it('creates a new numbered deployment on every deploy of a READY project', async () => {
+			const projectId = await createTestProject();
+
+			const first = await deploy(projectId, { config: { html_handling: 'none' } });
+			expect(first.status).toBe(200);
+			const firstData = await first.json<VersionedDeployResponse>();
+			expect(firstData.deployment.id).toBe(1);
+			expect(firstData.project.activeDeploymentId).toBe(1);
+			expect(firstData.project.status).toBe('READY');
+
+			const second = await deploy(projectId, { run_worker_first: true });
+			expect(second.status).toBe(200);
+			const secondData = await second.json<VersionedDeployResponse>();
+			expect(secondData.deployment.id).toBe(2);
+			expect(secondData.project.activeDeploymentId).toBe(2);
+			expect(secondData.project.latestDeploymentId).toBe(2);
+			// Each deployment is a full snapshot, config is not inherited
+			expect(secondData.project.config).toBeUndefined();
+			expect(secondData.project.run_worker_first).toBe(true);
+		});
+
+		it('uploads a separate asset manifest per deployment', async () => {
+			const uploadManifest = vi.fn(async () => []);
+			const assetWorker = createMock<Service<AssetWorker>>({ uploadManifest });
+			const projectId = await createTestProject();
+
+			for (let index = 0; index < 2; index++) {
+				const deployRequest = new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) });
+				await deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, env.DEPLOYMENT_SEQUENCE, assetWorker, jwtSecret);
+			}
+
+			expect(uploadManifest).toHaveBeenNthCalledWith(1, [], projectId, 1);
+			expect(uploadManifest).toHaveBeenNthCalledWith(2, [], projectId, 2);
+		});
+
+		it('gives concurrent deploys distinct deployment IDs', async () => {
+			const uploadManifest = vi.fn(async () => []);
+			const assetWorker = createMock<Service<AssetWorker>>({ uploadManifest });
+			const projectId = await createTestProject();
+
+			const responses = await Promise.all(
+				[1, 2, 3].map(async () => {
+					const deployRequest = new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) });
+					return deployProject(projectId, deployRequest, projectsKv, serverSideCodeKv, env.DEPLOYMENT_SEQUENCE, assetWorker, jwtSecret);
+				}),
+			);
+			const results = await Promise.all(responses.map(async (response) => response.json<VersionedDeployResponse>()));
+			const ids = results.map((result) => result.deployment.id);
+
+			expect(ids).toHaveLength(3);
+			expect(ids).toEqual(expect.arrayContaining([1, 2, 3]));
+			expect(uploadManifest).toHaveBeenCalledWith([], projectId, 1);
+			expect(uploadManifest).toHaveBeenCalledWith([], projectId, 2);
+			expect(uploadManifest).toHaveBeenCalledWith([], projectId, 3);
+			for (const id of ids) {
+				const deployment = await getDeploymentInfo(projectId, id, projectsKv);
+				expect(deployment.status).toBe(200);
+			}
+		});
+
+		it('continues from the latest deployment ID of the project', async () => {
+			const projectId = await createTestProject();
+			const project = await getProject(projectId, projectsKv);
+			await projectsKv.put(`project/${projectId}/metadata`, JSON.stringify({ ...project, latestDeploymentId: 5 }));
+
+			const response = await deploy(projectId, {});
+			const data = await response.json<VersionedDeployResponse>();
+
+			expect(data.deployment.id).toBe(6);
+		});
+
+		it('stores the server-side code manifest under the deployment', async () => {
+			const projectId = await createTestProject();
+			const code = btoa('export default { fetch() { return new Response("ok"); } }');
+
+			await deploy(projectId, { server: { entrypoint: 'index.js', modules: { 'index.js': code } } });
+
+			const manifest = await serverSideCodeKv.get(`project/${projectId}/module/MANIFEST/1`, 'json');
+			expect(manifest).toMatchObject({ entrypoint: 'index.js' });
+		});
+
+		it('restores reused modules the orphan sweep deleted before the manifest was written', async () => {
+			const projectId = await createTestProject();
+			const content = 'export default { fetch() { return new Response("ok"); } }';
+			const moduleKey = `project/${projectId}/module/${await computeContentHash(new TextEncoder().encode(content))}`;
+			await serverSideCodeKv.put(moduleKey, content, { metadata: { uploadedAt: 0 } });
+
+			// Delete the module once it has passed the existence check, as a concurrent sweep would
+			const racingKv = createMock<KVNamespace>({
+				get: serverSideCodeKv.get.bind(serverSideCodeKv),
+				put: async (key: string, value: string | ArrayBuffer, options?: KVNamespacePutOptions) => {
+					if (key.includes('/MANIFEST/')) {
+						await serverSideCodeKv.delete(moduleKey);
+					}
+					await serverSideCodeKv.put(key, value, options);
+				},
+			});
+			const deployRequest = new Request('http://example.com', {
+				method: 'POST',
+				body: JSON.stringify({ server: { entrypoint: 'index.js', modules: { 'index.js': btoa(content) } } }),
+			});
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				racingKv,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+				jwtSecret,
+			);
+			expect(response.status).toBe(200);
+
+			const restored = await serverSideCodeKv.getWithMetadata<ModuleMetadata>(moduleKey, 'text');
+			expect(restored.value).toBe(content);
+			expect(restored.metadata?.uploadedAt).toBeGreaterThan(0);
+		});
+
+		it('stores compatibility flags and the entrypoint class in the manifest', async () => {
+			const projectId = await createTestProject();
+			const code = btoa('export class App { fetch() { return new Response("ok"); } }');
+
+			const response = await deploy(projectId, {
+				server: {
+					entrypoint: 'index.js',
+					modules: { 'index.js': code },
+					compatibilityFlags: ['nodejs_als', 'nodejs_als'],
+					entrypointClass: 'App',
+				},
+			});
+			expect(response.status).toBe(200);
+
+			const manifest = await serverSideCodeKv.get(`project/${projectId}/module/MANIFEST/1`, 'json');
+			expect(manifest).toMatchObject({ compatibilityFlags: ['nodejs_als'], entrypointClass: 'App' });
+		});
+
+		it('rejects compatibility flags outside the allowlist and invalid entrypoint classes', async () => {
+			const projectId = await createTestProject();
+			const code = btoa('export default {}');
+
+			for (const flag of ['experimental', 'allow_custom_ports', 'python_workers']) {
+				const flagResponse = await deploy(projectId, {
+					server: { entrypoint: 'index.js', modules: { 'index.js': code }, compatibilityFlags: [flag] },
+				});
+				expect(flagResponse.status).toBe(400);
+				expect(await flagResponse.text()).toContain('Compatibility flag is not allowed');
+			}
+
+			for (const entrypointClass of ['default', 'not-a-class']) {
+				const classResponse = await deploy(projectId, {
+					server: { entrypoint: 'index.js', modules: { 'index.js': code }, entrypointClass },
+				});
+				expect(classResponse.status).toBe(400);
+			}
+		});
+
+		it('stores error pages with the deployment and mirrors them onto the project', async () => {
+			const projectId = await createTestProject();
+			const errorPages = { '500': '/_errors/500.html', project_not_ready: '/_errors/maintenance.html' };
+			const response = await deploy(projectId, { errorPages });
+			expect(response.status).toBe(200);
+
+			const project = await getProject(projectId, projectsKv);
+			expect(project?.errorPages).toEqual(errorPages);
+			const preview = await resolveServingDeployment(project!, 1, projectsKv);
+			expect(preview?.errorPages).toEqual(errorPages);
+
+			for (const invalid of [{ '200': '/ok.html' }, { unknown_state: '/error.html' }, { '404': 'missing-slash.html' }]) {
+				const invalidResponse = await deploy(projectId, { errorPages: invalid });
+				expect(invalidResponse.status).toBe(400);
+			}
+		});
+
+		it('lists deployments newest first with the active deployment', async () => {
+			const projectId = await createTestProject();
+			await deploy(projectId, {});
+			await deploy(projectId, {});
+			await deploy(projectId, {});
+
+			const response = await listDeployments(projectId, projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<ListDeploymentsResponse>();
+			expect(data.activeDeploymentId).toBe(3);
+			expect(data.deployments.map((d) => d.id)).toEqual([3, 2, 1]);
+		});
+
+		it('returns 404 when listing deployments of an unknown project', async () => {
+			const response = await listDeployments('non-existent', projectsKv);
+			expect(response.status).toBe(404);
+		});
+
+		it('fetches a single deployment', async () => {
+			const projectId = await createTestProject();
+			await deploy(projectId, { config: { debug: true } });
+
+			const response = await getDeploymentInfo(projectId, 1, projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<{ deployment: DeploymentMetadata; active: boolean }>();
+			expect(data.deployment.config).toEqual({ debug: true });
+			expect(data.active).toBe(true);
+
+			const missing = await getDeploymentInfo(projectId, 42, projectsKv);
+			expect(missing.status).toBe(404);
+		});
+
+		it('rolls back by repointing the active deployment', async () => {
+			const projectId = await createTestProject();
+			await deploy(projectId, { config: { html_handling: 'none' }, run_worker_first: ['/api/**'] });
+			await deploy(projectId, {});
+
+			const response = await rollbackDeployment(projectId, 1, projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<{ previousDeploymentId: number; project: ProjectMetadata }>();
+			expect(data.previousDeploymentId).toBe(2);
+			expect(data.project.activeDeploymentId).toBe(1);
+
+			const stored = await getProject(projectId, projectsKv);
+			expect(stored?.activeDeploymentId).toBe(1);
+			expect(stored?.latestDeploymentId).toBe(2);
+			expect(stored?.config).toEqual({ html_handling: 'none' });
+			expect(stored?.run_worker_first).toEqual(['/api/**']);
+
+			// The next deploy continues the numbering
+			const next = await deploy(projectId, {});
+			const nextData = await next.json<VersionedDeployResponse>();
+			expect(nextData.deployment.id).toBe(3);
+		});
+
+		it('returns 404 when rolling back to an unknown deployment', async () => {
+			const projectId = await createTestProject();
+			await deploy(projectId, {});
+
+			const response = await rollbackDeployment(projectId, 7, projectsKv);
+			expect(response.status).toBe(404);
+		});
+
+		it('keeps serving the active deployment when a redeploy fails', async () => {
+			const failingWorker = createMock<Service<AssetWorker>>({
+				uploadManifest: async () => {
+					throw new Error('KV unavailable');
+				},
+			});
+			const projectId = await createTestProject();
+			await deploy(projectId, {});
+
+			const deployRequest = new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) });
+			const response = await deployProject(
+				projectId,
+				deployRequest,
+				projectsKv,
+				serverSideCodeKv,
+				env.DEPLOYMENT_SEQUENCE,
+				failingWorker,
+				jwtSecret,
+			);
+			expect(response.status).toBe(500);
+
+			const stored = await getProject(projectId, projectsKv);
+			expect(stored?.status).toBe('READY');
+			expect(stored?.activeDeploymentId).toBe(1);
+		});
+
+		it('resolves the active deployment from project metadata', async () => {
+			const projectId = await createTestProject();
+			await deploy(projectId, { run_worker_first: true });
+			const project = await getProject(projectId, projectsKv);
+
+			const resolved = await resolveServingDeployment(project!, undefined, projectsKv);
+			expect(resolved).toMatchObject({ id: 1, run_worker_first: true, hasServerSideCode: false });
+		});
+
+		it('resolves a pinned preview deployment from its record', async () => {
+			const projectId = await createTestProject();
+			await deploy(projectId, { config: { html_handling: 'none' } });
+			await deploy(projectId, {});
+			const project = await getProject(projectId, projectsKv);
+
+			const preview = await resolveServingDeployment(project!, 1, projectsKv);
+			expect(preview).toMatchObject({ id: 1, config: { html_handling: 'none' } });
+
+			const missing = await resolveServingDeployment(project!, 9, projectsKv);
+			expect(missing).toBeUndefined();
+		});
+	});
 });
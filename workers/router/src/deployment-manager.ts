@@ -1,23 +1,37 @@
 import * as base64 from '@stablelib/base64';
 import { z } from 'zod';
 
-import { computeContentHash, inferModuleType } from './content-utilities';
+import { computeContentHash, findPrecompressedVariants, inferModuleType } from './content-utilities';
+import { updateCronTriggerIndex } from './cron-triggers';
 import { verifyJWT } from './jwt';
-import { getProject, getServerSideCodeKey } from './project-manager';
+import { getDeploymentKey, getDeploymentPrefix, getProject, getServerSideCodeKey, getServerSideCodeManifestKey } from './project-manager';
 import { deploymentPayloadSchema } from './validation';
 import AssetWorker, { ManifestEntry } from '../../asset-service/src/worker';
-import { batchExistsKv } from '../../shared/kv';
-
-import type { ServerSideCodeManifest, ModuleType, CompletionJwtPayload } from './types';
+import { batchExistsKv, listAllKeys } from '../../shared/kv';
+
+import type { DeploymentSequence } from './deployment-sequence';
+import type {
+	ServerSideCodeManifest,
+	ModuleMetadata,
+	ModuleType,
+	CompletionJwtPayload,
+	DeploymentMetadata,
+	ProjectMetadata,
+} from './types';
 
 /**
  * Deploys a full-stack project with assets and optional server-side code.
  * This is Phase 3 of the deployment flow, finalizing with a completion JWT.
  *
+ * Every call creates a new numbered deployment with its own asset manifest,
+ * server-side code manifest and configuration, and makes it the active one.
+ * Previous deployments are kept so the project can be rolled back.
+ *
  * @param projectId - The unique identifier of the project to deploy
  * @param request - The HTTP request containing the deployment payload
  * @param projectsKv - The KV namespace for storing project metadata
  * @param serverSideCodeKv - The KV namespace for storing server-side code modules
+ * @param deploymentSequence - The namespace reserving deployment IDs
  * @param assetWorker - The asset service worker for uploading manifests
  * @param jwtSecret - The secret used for JWT verification
  * @returns JSON response with deployment statistics or error response
@@ -27,6 +41,7 @@ export async function deployProject(
 	request: Request,
 	projectsKv: KVNamespace,
 	serverSideCodeKv: KVNamespace,
+	deploymentSequence: DurableObjectNamespace<DeploymentSequence>,
 	assetWorker: Service<AssetWorker>,
 	jwtSecret: string,
 ): Promise<Response> {
@@ -36,12 +51,6 @@ export async function deployProject(
 		return new Response('Project not found', { status: 404 });
 	}
 
-	if (project.status === 'READY') {
-		return new Response('Project already deployed. Projects are immutable after deployment — create a new project instead.', {
-			status: 409,
-		});
-	}
-
 	const payloadJson = await request.json();
 
 	// Validate payload using Zod
@@ -51,6 +60,9 @@ export async function deployProject(
 	}
 
 	const payload = payloadValidation.data;
+	// Reserved before anything is written under it: concurrent deploys would otherwise compute the
+	// same ID and overwrite each other's manifests and deployment record
+	const deploymentId = await deploymentSequence.getByName(projectId).reserve(project.latestDeploymentId);
 
 	try {
 		const manifestEntries: ManifestEntry[] = [];
@@ -84,18 +96,20 @@ export async function deployProject(
 			// Load manifest from JWT
 			const manifest = jwtPayload.manifest;
 
-			// Convert manifest to ManifestEntry format
+			// Convert manifest to ManifestEntry format, serving `.br`/`.gz` siblings as precompressed variants
 			for (const [pathname, data] of Object.entries(manifest)) {
 				manifestEntries.push({
 					pathname,
 					contentHash: data.hash,
+					encodings: findPrecompressedVariants(manifest, pathname),
 				});
 			}
-
-			// Upload manifest (all assets should already be in KV)
-			newEntries = await assetWorker.uploadManifest(manifestEntries, projectId);
 		}
 
+		// Upload manifest (all assets should already be in KV). A deployment without assets
+		// still gets an empty manifest so it never serves files from an earlier deployment.
+		newEntries = await assetWorker.uploadManifest(manifestEntries, projectId, deploymentId);
+
 		// Deploy server-side code if provided
 		let totalServerModules = 0;
 		let newServerModules = 0;
@@ -138,11 +152,12 @@ export async function deployProject(
 
 			newServerModules = modulesToUpload.length;
 
-			// Upload new modules (stored as raw binary)
+			// Upload new modules (stored as raw binary); the upload time protects them from the watchdog's orphan sweep
+			const moduleMetadata: ModuleMetadata = { uploadedAt: Date.now() };
 			await Promise.all(
 				modulesToUpload.map(async ({ hash, content }) => {
 					const moduleKey = getServerSideCodeKey(projectId, hash);
-					await serverSideCodeKv.put(moduleKey, content);
+					await serverSideCodeKv.put(moduleKey, content, { metadata: moduleMetadata });
 				}),
 			);
 
@@ -151,11 +166,30 @@ export async function deployProject(
 				entrypoint: payload.server.entrypoint,
 				modules: moduleManifest,
 				compatibilityDate: payload.server.compatibilityDate || '2025-11-09',
+				compatibilityFlags: payload.server.compatibilityFlags ? [...new Set(payload.server.compatibilityFlags)] : undefined,
+				entrypointClass: payload.server.entrypointClass,
+				crons: payload.server.crons,
 				env: { ...payload.env },
+				outbound: payload.outbound,
 			};
 
-			const manifestKey = getServerSideCodeKey(projectId, 'MANIFEST');
+			const manifestKey = getServerSideCodeManifestKey(projectId, deploymentId);
 			await serverSideCodeKv.put(manifestKey, JSON.stringify(manifest));
+
+			// The orphan sweep may have deleted a reused module between the existence check and the manifest write;
+			// from now on the manifest protects them, so restore any that went missing
+			const reusedModules = moduleEntries.filter(({ hash }) => existingModules.has(getServerSideCodeKey(projectId, hash)));
+			const remainingModules = await batchExistsKv(
+				serverSideCodeKv,
+				reusedModules.map(({ hash }) => getServerSideCodeKey(projectId, hash)),
+			);
+			await Promise.all(
+				reusedModules
+					.filter(({ hash }) => !remainingModules.has(getServerSideCodeKey(projectId, hash)))
+					.map(async ({ hash, content }) => {
+						await serverSideCodeKv.put(getServerSideCodeKey(projectId, hash), content, { metadata: moduleMetadata });
+					}),
+			);
 		}
 
 		// Re-check project still exists before finalizing (prevents resurrecting a deleted project)
@@ -164,34 +198,36 @@ export async function deployProject(
 			return new Response('Project was deleted during deployment', { status: 404 });
 		}
 
+		const deployment: DeploymentMetadata = {
+			id: deploymentId,
+			projectId,
+			createdAt: new Date().toISOString(),
+			hasServerSideCode: payload.server !== undefined,
+			assetsCount: manifestEntries.length,
+			config: payload.config,
+			run_worker_first: payload.run_worker_first,
+			crons: payload.server?.crons,
+			errorPages: payload.errorPages,
+		};
+
+		await projectsKv.put(getDeploymentKey(projectId, deploymentId), JSON.stringify(deployment));
+
 		// Apply deployment changes to the freshly-fetched project to avoid overwriting concurrent updates
 		if (payload.projectName) {
 			currentProject.name = payload.projectName;
 		}
-		currentProject.updatedAt = new Date().toISOString();
-		if (payload.completionJwt) {
-			currentProject.assetsCount = manifestEntries.length;
-		}
-		if (payload.config) {
-			currentProject.config = payload.config;
-		}
-		if (payload.run_worker_first !== undefined) {
-			currentProject.run_worker_first = payload.run_worker_first;
-		}
-		if (payload.server) {
-			currentProject.hasServerSideCode = true;
-		}
-
-		// Mark status as READY
-		currentProject.status = 'READY';
+		currentProject.latestDeploymentId = Math.max(currentProject.latestDeploymentId ?? 0, deploymentId);
+		activateDeployment(currentProject, deployment);
 
 		await projectsKv.put(`project/${projectId}/metadata`, JSON.stringify(currentProject));
+		await updateCronTriggerIndex(deployment, projectsKv);
 
 		return Response.json(
 			{
 				success: true,
 				message: 'Project deployed successfully',
 				project: currentProject,
+				deployment,
 				deployedAssets: manifestEntries.length,
 				newAssets: newEntries.length,
 				skippedAssets: manifestEntries.length - newEntries.length,
@@ -205,9 +241,10 @@ export async function deployProject(
 			},
 		);
 	} catch (error) {
-		// Mark status as ERROR and persist (only if project still exists to avoid resurrection)
+		// Mark status as ERROR and persist (only if project still exists to avoid resurrection).
+		// A project that already serves a deployment keeps serving it.
 		const stillExists = await getProject(projectId, projectsKv);
-		if (stillExists) {
+		if (stillExists && stillExists.activeDeploymentId === undefined) {
 			stillExists.status = 'ERROR';
 			stillExists.updatedAt = new Date().toISOString();
 			await projectsKv.put(`project/${projectId}/metadata`, JSON.stringify(stillExists));
@@ -228,3 +265,215 @@ export async function deployProject(
 		);
 	}
 }
+
+/**
+ * Points a project at the given deployment, mirroring the deployment's settings onto
+ * the project metadata so the request path does not need an extra KV read.
+ *
+ * @param project - The project metadata to update in place
+ * @param deployment - The deployment to activate
+ */
+function activateDeployment(project: ProjectMetadata, deployment: DeploymentMetadata): void {
+	project.activeDeploymentId = deployment.id;
+	project.hasServerSideCode = deployment.hasServerSideCode;
+	project.assetsCount = deployment.assetsCount;
+	project.config = deployment.config;
+	project.run_worker_first = deployment.run_worker_first;
+	project.errorPages = deployment.errorPages;
+	project.status = 'READY';
+	project.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Retrieves a deployment record from KV storage.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment number
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns The deployment metadata or null if not found
+ */
+export async function getDeployment(projectId: string, deploymentId: number, projectsKv: KVNamespace): Promise<DeploymentMetadata | null> {
+	return await projectsKv.get<DeploymentMetadata>(getDeploymentKey(projectId, deploymentId), { type: 'json', cacheTtl: 300 });
+}
+
+/**
+ * Resolves which deployment a request should be served from.
+ *
+ * Without a pinned deployment (or when the pinned deployment is the active one) the
+ * settings mirrored on the project metadata are used, avoiding an extra KV read.
+ *
+ * @param project - The project metadata
+ * @param deploymentId - The deployment pinned by the request, if any
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns The deployment settings to serve with, or undefined if the pinned deployment does not exist
+ */
+export async function resolveServingDeployment(
+	project: ProjectMetadata,
+	deploymentId: number | undefined,
+	projectsKv: KVNamespace,
+): Promise<
+	(Pick<DeploymentMetadata, 'hasServerSideCode' | 'config' | 'run_worker_first' | 'errorPages'> & { id: number | undefined }) | undefined
+> {
+	if (deploymentId === undefined || deploymentId === project.activeDeploymentId) {
+		return {
+			id: project.activeDeploymentId,
+			hasServerSideCode: project.hasServerSideCode,
+			config: project.config,
+			run_worker_first: project.run_worker_first,
+			errorPages: project.errorPages,
+		};
+	}
+
+	const deployment = await getDeployment(project.id, deploymentId, projectsKv);
+	return deployment ?? undefined;
+}
+
+/**
+ * Lists all deployments of a project, newest first.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the deployments and the active deployment ID, or 404 if the project is not found
+ */
+export async function listDeployments(projectId: string, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const keys: string[] = [];
+	for await (const key of listAllKeys(projectsKv, { prefix: getDeploymentPrefix(projectId) })) {
+		keys.push(key.name);
+	}
+
+	const records = await Promise.all(keys.map((key) => projectsKv.get<DeploymentMetadata>(key, { type: 'json' })));
+	const deployments = records.filter((d: DeploymentMetadata | null): d is DeploymentMetadata => d !== null);
+	deployments.sort((a, b) => b.id - a.id);
+
+	return Response.json(
+		{
+			success: true,
+			activeDeploymentId: project.activeDeploymentId,
+			deployments,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Lists the deployment numbers of a project from its deployment record keys, without reading the records.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns The deployment numbers, newest first
+ */
+export async function listDeploymentIds(projectId: string, projectsKv: KVNamespace): Promise<number[]> {
+	const prefix = getDeploymentPrefix(projectId);
+	const deploymentIds: number[] = [];
+	for await (const key of listAllKeys(projectsKv, { prefix })) {
+		const deploymentId = Number.parseInt(key.name.slice(prefix.length), 10);
+		if (!Number.isNaN(deploymentId)) {
+			deploymentIds.push(deploymentId);
+		}
+	}
+	deploymentIds.sort((a, b) => b - a);
+	return deploymentIds;
+}
+
+/**
+ * Deletes an inactive deployment: its record, its server-side code manifest and its asset manifest.
+ * Modules and assets no remaining deployment uses are removed by the watchdog's orphan sweep.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment number, which must not be the active deployment
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @param serverSideCodeKv - The KV namespace for server-side code
+ * @param assetWorker - The AssetApi service binding
+ */
+export async function deleteDeployment(
+	projectId: string,
+	deploymentId: number,
+	projectsKv: KVNamespace,
+	serverSideCodeKv: KVNamespace,
+	assetWorker: Service<AssetWorker>,
+): Promise<void> {
+	await assetWorker.deleteDeploymentAssets(projectId, deploymentId);
+	await serverSideCodeKv.delete(getServerSideCodeManifestKey(projectId, deploymentId));
+	await projectsKv.delete(getDeploymentKey(projectId, deploymentId));
+}
+
+/**
+ * Retrieves a single deployment of a project.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment number
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the deployment metadata or 404 if not found
+ */
+export async function getDeploymentInfo(projectId: string, deploymentId: number, projectsKv: KVNamespace): Promise<Response> {
+	const deployment = await getDeployment(projectId, deploymentId, projectsKv);
+
+	if (!deployment) {
+		return new Response('Deployment not found', { status: 404 });
+	}
+
+	const project = await getProject(projectId, projectsKv);
+
+	return Response.json(
+		{
+			success: true,
+			deployment,
+			active: project?.activeDeploymentId === deploymentId,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Rolls a project back (or forward) to an existing deployment by repointing the
+ * active deployment. No assets or modules are re-uploaded.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment number to activate
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the updated project metadata or 404 if the project or deployment is not found
+ */
+export async function rollbackDeployment(projectId: string, deploymentId: number, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const deployment = await getDeployment(projectId, deploymentId, projectsKv);
+	if (!deployment) {
+		return new Response('Deployment not found', { status: 404 });
+	}
+
+	const previousDeploymentId = project.activeDeploymentId;
+	activateDeployment(project, deployment);
+
+	await projectsKv.put(`project/${projectId}/metadata`, JSON.stringify(project));
+	await updateCronTriggerIndex(deployment, projectsKv);
+
+	return Response.json(
+		{
+			success: true,
+			message: `Project rolled back to deployment ${deploymentId}`,
+			previousDeploymentId,
+			project,
+			deployment,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
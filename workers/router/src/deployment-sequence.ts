@@ -0,0 +1,39 @@
+import { DurableObject } from 'cloudflare:workers';
+
+/**
+ * Durable Object handing out the deployment IDs of one project. Addressed by project ID.
+ *
+ * A deployment writes its manifests under its ID long before it is recorded on the project,
+ * so IDs are reserved here up front: calls to one object run one at a time, and concurrent
+ * deploys of a project never share an ID.
+ */
+export class DeploymentSequence extends DurableObject<Env> {
+	constructor(context: DurableObjectState, environment: Env) {
+		super(context, environment);
+		context.storage.sql.exec('CREATE TABLE IF NOT EXISTS sequence (id INTEGER PRIMARY KEY CHECK (id = 1), latest INTEGER NOT NULL)');
+	}
+
+	/**
+	 * Reserves the next deployment ID. IDs of failed deployments are not handed out again.
+	 *
+	 * @param latestDeploymentId - The latest deployment ID recorded on the project, for projects deployed before IDs were reserved here
+	 */
+	async reserve(latestDeploymentId = 0): Promise<number> {
+		const { latest } = this.ctx.storage.sql
+			.exec<{
+				latest: number;
+			}>(
+				'INSERT INTO sequence (id, latest) VALUES (1, ? + 1) ON CONFLICT (id) DO UPDATE SET latest = MAX(latest, excluded.latest - 1) + 1 RETURNING latest',
+				latestDeploymentId,
+			)
+			.one();
+		return latest;
+	}
+
+	/**
+	 * Forgets the sequence, when its project is deleted.
+	 */
+	async clear(): Promise<void> {
+		this.ctx.storage.sql.exec('DELETE FROM sequence');
+	}
+}
@@ -0,0 +1,257 @@
+import { env } from 'cloudflare:test';
+
+import { addDomain, DOMAIN_VERIFICATION_PATH, listDomains, removeDomain, resolveCustomDomain, verifyDomain } from './domain-manager';
+import { createProject, deleteProject, getDomainKey } from './project-manager';
+import { createMock } from '../../shared/test-utilities';
+
+import type { CustomDomain, ProjectMetadata } from './types';
+import type AssetApi from '../../asset-service/src/worker';
+
+interface DomainResponse {
+	success: boolean;
+	domain: CustomDomain;
+	verification: { url: string; token: string };
+}
+
+interface ErrorResponse {
+	success: boolean;
+	error: string;
+}
+
+describe('domain-manager', () => {
+	let projectsKv: KVNamespace;
+
+	beforeEach(async () => {
+		projectsKv = env.KV_PROJECTS;
+
+		// Clear KV namespace before each test
+		const keys = await projectsKv.list();
+		for (const key of keys.keys) {
+			await projectsKv.delete(key.name);
+		}
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	async function createTestProject(): Promise<string> {
+		const response = await createProject(new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }), projectsKv);
+		const data = await response.json<{ project: ProjectMetadata }>();
+		return data.project.id;
+	}
+
+	function addRequest(hostname: string): Request {
+		return new Request('http://example.com', { method: 'POST', body: JSON.stringify({ hostname }) });
+	}
+
+	async function attach(projectId: string, hostname: string): Promise<DomainResponse> {
+		const response = await addDomain(projectId, addRequest(hostname), projectsKv);
+		return await response.json<DomainResponse>();
+	}
+
+	async function listHostnames(projectId: string): Promise<string[]> {
+		const response = await listDomains(projectId, projectsKv);
+		const data = await response.json<{ domains: CustomDomain[] }>();
+		const hostnames = data.domains.map((d) => d.hostname);
+		hostnames.sort();
+		return hostnames;
+	}
+
+	function mockVerificationResponse(body: string, status = 200): void {
+		vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body, { status }));
+	}
+
+	describe('addDomain', () => {
+		it('attaches a pending domain with a verification token', async () => {
+			const projectId = await createTestProject();
+
+			const response = await addDomain(projectId, addRequest('WWW.Example.com'), projectsKv);
+			expect(response.status).toBe(201);
+
+			const data = await response.json<DomainResponse>();
+			expect(data.domain.hostname).toBe('www.example.com');
+			expect(data.domain.projectId).toBe(projectId);
+			expect(data.domain.status).toBe('PENDING');
+			expect(data.domain.verificationToken).toMatch(/^asset-worker-verification=/);
+			expect(data.verification.url).toBe(`https://www.example.com${DOMAIN_VERIFICATION_PATH}`);
+			expect(data.verification.token).toBe(data.domain.verificationToken);
+		});
+
+		it('does not route pending domains', async () => {
+			const projectId = await createTestProject();
+			await attach(projectId, 'www.example.com');
+
+			expect(await resolveCustomDomain('www.example.com', projectsKv)).toBeUndefined();
+		});
+
+		it('returns the existing entry when attached twice to the same project', async () => {
+			const projectId = await createTestProject();
+			const first = await attach(projectId, 'www.example.com');
+
+			const response = await addDomain(projectId, addRequest('www.example.com'), projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<DomainResponse>();
+			expect(data.domain.verificationToken).toBe(first.domain.verificationToken);
+		});
+
+		it('rejects invalid hostnames', async () => {
+			const projectId = await createTestProject();
+
+			for (const hostname of ['example', 'https://example.com', 'example.com/path', '127.0.0.1', 'app.localhost', '-bad.example.com']) {
+				const response = await addDomain(projectId, addRequest(hostname), projectsKv);
+				expect(response.status).toBe(400);
+				const data = await response.json<ErrorResponse>();
+				expect(data.success).toBe(false);
+			}
+		});
+
+		it('returns 404 for a missing project', async () => {
+			const response = await addDomain('missing', addRequest('www.example.com'), projectsKv);
+			expect(response.status).toBe(404);
+		});
+
+		it('rejects a domain verified by another project', async () => {
+			const owner = await createTestProject();
+			const other = await createTestProject();
+			const { domain } = await attach(owner, 'www.example.com');
+			mockVerificationResponse(domain.verificationToken);
+			await verifyDomain(owner, 'www.example.com', projectsKv);
+
+			const response = await addDomain(other, addRequest('www.example.com'), projectsKv);
+			expect(response.status).toBe(409);
+		});
+
+		it('replaces a pending claim from another project', async () => {
+			const first = await createTestProject();
+			const second = await createTestProject();
+			await attach(first, 'www.example.com');
+
+			const response = await addDomain(second, addRequest('www.example.com'), projectsKv);
+			expect(response.status).toBe(201);
+
+			expect(await listHostnames(first)).toEqual([]);
+			expect(await listHostnames(second)).toEqual(['www.example.com']);
+		});
+	});
+
+	describe('verifyDomain', () => {
+		it('verifies a domain serving the token and starts routing it', async () => {
+			const projectId = await createTestProject();
+			const { domain } = await attach(projectId, 'www.example.com');
+			mockVerificationResponse(`${domain.verificationToken}\n`);
+
+			const response = await verifyDomain(projectId, 'www.example.com', projectsKv);
+			expect(response.status).toBe(200);
+
+			const data = await response.json<DomainResponse>();
+			expect(data.domain.status).toBe('VERIFIED');
+			expect(data.domain.verifiedAt).toBeDefined();
+			expect(globalThis.fetch).toHaveBeenCalledWith(`https://www.example.com${DOMAIN_VERIFICATION_PATH}`, expect.anything());
+			expect(await resolveCustomDomain('WWW.EXAMPLE.COM', projectsKv)).toBe(projectId);
+		});
+
+		it('fails when the token does not match', async () => {
+			const projectId = await createTestProject();
+			await attach(projectId, 'www.example.com');
+			mockVerificationResponse('something else');
+
+			const response = await verifyDomain(projectId, 'www.example.com', projectsKv);
+			expect(response.status).toBe(400);
+			const data = await response.json<ErrorResponse>();
+			expect(data.error).toContain('did not return the expected verification token');
+			expect(await resolveCustomDomain('www.example.com', projectsKv)).toBeUndefined();
+		});
+
+		it('fails when the verification URL returns an error', async () => {
+			const projectId = await createTestProject();
+			await attach(projectId, 'www.example.com');
+			mockVerificationResponse('Not found', 404);
+
+			const response = await verifyDomain(projectId, 'www.example.com', projectsKv);
+			expect(response.status).toBe(400);
+			const data = await response.json<ErrorResponse>();
+			expect(data.error).toContain('HTTP 404');
+		});
+
+		it('fails when the verification URL cannot be fetched', async () => {
+			const projectId = await createTestProject();
+			await attach(projectId, 'www.example.com');
+			vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('DNS lookup failed'));
+
+			const response = await verifyDomain(projectId, 'www.example.com', projectsKv);
+			expect(response.status).toBe(400);
+			const data = await response.json<ErrorResponse>();
+			expect(data.error).toContain('DNS lookup failed');
+		});
+
+		it('returns 404 for a domain of another project', async () => {
+			const owner = await createTestProject();
+			const other = await createTestProject();
+			await attach(owner, 'www.example.com');
+
+			const response = await verifyDomain(other, 'www.example.com', projectsKv);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('listDomains', () => {
+		it('lists the domains of a project', async () => {
+			const projectId = await createTestProject();
+			await attach(projectId, 'www.example.com');
+			await attach(projectId, 'example.org');
+
+			expect(await listHostnames(projectId)).toEqual(['example.org', 'www.example.com']);
+		});
+
+		it('returns 404 for a missing project', async () => {
+			const response = await listDomains('missing', projectsKv);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('removeDomain', () => {
+		it('detaches a verified domain', async () => {
+			const projectId = await createTestProject();
+			const { domain } = await attach(projectId, 'www.example.com');
+			mockVerificationResponse(domain.verificationToken);
+			await verifyDomain(projectId, 'www.example.com', projectsKv);
+
+			const response = await removeDomain(projectId, 'www.example.com', projectsKv);
+			expect(response.status).toBe(200);
+
+			expect(await projectsKv.get(getDomainKey('www.example.com'))).toBeNull();
+			expect(await listHostnames(projectId)).toEqual([]);
+		});
+
+		it('returns 404 for an unknown domain', async () => {
+			const projectId = await createTestProject();
+
+			const response = await removeDomain(projectId, 'www.example.com', projectsKv);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	it('detaches domains when the project is deleted', async () => {
+		const projectId = await createTestProject();
+		await attach(projectId, 'www.example.com');
+		const mockAssetWorker = createMock<Service<AssetApi>>({
+			deleteProjectAssets: async () => ({ deletedAssets: 0, deletedManifest: false, deletedManifests: 0 }),
+		});
+
+		const response = await deleteProject(
+			projectId,
+			projectsKv,
+			env.KV_SERVER_SIDE_CODE,
+			env.KV_PROJECT_DATA,
+			env.PROJECT_DATA_QUOTA,
+			env.PROJECT_LOGS,
+			env.DEPLOYMENT_SEQUENCE,
+			mockAssetWorker,
+		);
+		const data = await response.json<{ deletedDomains: number }>();
+
+		expect(data.deletedDomains).toBe(1);
+		expect(await projectsKv.get(getDomainKey('www.example.com'))).toBeNull();
+	});
+});
@@ -0,0 +1,261 @@
+import { z } from 'zod';
+
+import { getDomainKey, getProject, getProjectDomainPrefix } from './project-manager';
+import { addDomainRequestSchema, hostnameSchema, MAX_CUSTOM_DOMAINS } from './validation';
+import { listAllKeys } from '../../shared/kv';
+
+import type { CustomDomain } from './types';
+
+/** Path on the custom domain where the verification token must be served */
+export const DOMAIN_VERIFICATION_PATH = '/.well-known/asset-worker-verification';
+
+/** Maximum time to wait for the verification token to be fetched */
+const VERIFICATION_TIMEOUT_MS = 10_000;
+
+/**
+ * Looks up the custom domain entry for a hostname.
+ *
+ * @param hostname - The request hostname
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns The custom domain entry, or null if the hostname is not mapped
+ */
+export async function getDomain(hostname: string, projectsKv: KVNamespace): Promise<CustomDomain | null> {
+	return await projectsKv.get<CustomDomain>(getDomainKey(hostname.toLowerCase()), { type: 'json', cacheTtl: 300 });
+}
+
+/**
+ * Resolves the project a verified custom domain points to.
+ *
+ * @param hostname - The request hostname
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns The project ID, or undefined if the hostname is not a verified custom domain
+ */
+export async function resolveCustomDomain(hostname: string, projectsKv: KVNamespace): Promise<string | undefined> {
+	const domain = await getDomain(hostname, projectsKv);
+	return domain?.status === 'VERIFIED' ? domain.projectId : undefined;
+}
+
+/**
+ * Attaches a custom domain to a project. The domain stays PENDING (and is not routed)
+ * until ownership is proven with {@link verifyDomain}.
+ *
+ * A hostname can only belong to one project. A pending claim from another project is
+ * replaced, a verified one is rejected with 409.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param request - The HTTP request containing the hostname in its JSON body
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the domain entry and verification instructions (HTTP 201)
+ */
+export async function addDomain(projectId: string, request: Request, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const bodyJson = await request.json();
+
+	// Validate payload using Zod
+	const bodyValidation = addDomainRequestSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const { hostname } = bodyValidation.data;
+	const existing = await projectsKv.get<CustomDomain>(getDomainKey(hostname), { type: 'json' });
+
+	if (existing?.projectId === projectId) {
+		return domainResponse(existing, 200);
+	}
+
+	if (existing?.status === 'VERIFIED') {
+		return new Response('Domain is already attached to another project', { status: 409 });
+	}
+
+	const hostnames = await listProjectHostnames(projectId, projectsKv);
+	if (hostnames.length >= MAX_CUSTOM_DOMAINS) {
+		return new Response(`Projects cannot have more than ${MAX_CUSTOM_DOMAINS} custom domains`, { status: 400 });
+	}
+
+	// Drop the stale pending claim of another project
+	if (existing) {
+		await projectsKv.delete(getProjectDomainPrefix(existing.projectId) + hostname);
+	}
+
+	const domain: CustomDomain = {
+		hostname,
+		projectId,
+		status: 'PENDING',
+		verificationToken: `asset-worker-verification=${crypto.randomUUID()}`,
+		createdAt: new Date().toISOString(),
+	};
+
+	await projectsKv.put(getDomainKey(hostname), JSON.stringify(domain));
+	await projectsKv.put(getProjectDomainPrefix(projectId) + hostname, '');
+
+	return domainResponse(domain, 201);
+}
+
+/**
+ * Lists the custom domains attached to a project.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the domain entries or 404 if the project is not found
+ */
+export async function listDomains(projectId: string, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const hostnames = await listProjectHostnames(projectId, projectsKv);
+	const records = await Promise.all(hostnames.map((hostname) => projectsKv.get<CustomDomain>(getDomainKey(hostname), { type: 'json' })));
+	const domains = records.filter((d: CustomDomain | null): d is CustomDomain => d?.projectId === projectId);
+
+	return Response.json(
+		{
+			success: true,
+			domains,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Verifies ownership of a pending custom domain by fetching
+ * `https://<hostname>/.well-known/asset-worker-verification` and comparing
+ * the response body with the domain's verification token.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param hostname - The custom domain hostname
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the verified domain entry, 400 if verification fails, or 404 if the domain is not attached to the project
+ */
+export async function verifyDomain(projectId: string, hostname: string, projectsKv: KVNamespace): Promise<Response> {
+	const domain = await getProjectDomain(projectId, hostname, projectsKv);
+
+	if (!domain) {
+		return new Response('Domain not found', { status: 404 });
+	}
+
+	if (domain.status === 'VERIFIED') {
+		return domainResponse(domain, 200);
+	}
+
+	const verificationUrl = `https://${domain.hostname}${DOMAIN_VERIFICATION_PATH}`;
+	let body: string;
+	try {
+		const response = await fetch(verificationUrl, { signal: AbortSignal.timeout(VERIFICATION_TIMEOUT_MS) });
+		if (!response.ok) {
+			return verificationFailed(`${verificationUrl} responded with HTTP ${response.status}`);
+		}
+		body = await response.text();
+	} catch (error) {
+		return verificationFailed(`Could not fetch ${verificationUrl}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	if (body.trim() !== domain.verificationToken) {
+		return verificationFailed(`${verificationUrl} did not return the expected verification token`);
+	}
+
+	domain.status = 'VERIFIED';
+	domain.verifiedAt = new Date().toISOString();
+	await projectsKv.put(getDomainKey(domain.hostname), JSON.stringify(domain));
+
+	return domainResponse(domain, 200);
+}
+
+/**
+ * Detaches a custom domain from a project. Requests to the hostname stop being routed immediately
+ * (subject to KV cache propagation).
+ *
+ * @param projectId - The unique identifier of the project
+ * @param hostname - The custom domain hostname
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response confirming removal, or 404 if the domain is not attached to the project
+ */
+export async function removeDomain(projectId: string, hostname: string, projectsKv: KVNamespace): Promise<Response> {
+	const domain = await getProjectDomain(projectId, hostname, projectsKv);
+
+	if (!domain) {
+		return new Response('Domain not found', { status: 404 });
+	}
+
+	await projectsKv.delete(getDomainKey(domain.hostname));
+	await projectsKv.delete(getProjectDomainPrefix(projectId) + domain.hostname);
+
+	return Response.json(
+		{
+			success: true,
+			message: `Domain ${domain.hostname} removed`,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Loads a custom domain entry, only if it belongs to the given project.
+ */
+async function getProjectDomain(projectId: string, hostname: string, projectsKv: KVNamespace): Promise<CustomDomain | undefined> {
+	const parsed = hostnameSchema.safeParse(hostname);
+	if (!parsed.success) {
+		return undefined;
+	}
+
+	const domain = await projectsKv.get<CustomDomain>(getDomainKey(parsed.data), { type: 'json' });
+	return domain?.projectId === projectId ? domain : undefined;
+}
+
+/**
+ * Lists the hostnames in a project's domain index.
+ */
+async function listProjectHostnames(projectId: string, projectsKv: KVNamespace): Promise<string[]> {
+	const prefix = getProjectDomainPrefix(projectId);
+	const hostnames: string[] = [];
+	for await (const key of listAllKeys(projectsKv, { prefix })) {
+		hostnames.push(key.name.slice(prefix.length));
+	}
+	return hostnames;
+}
+
+function domainResponse(domain: CustomDomain, status: number): Response {
+	return Response.json(
+		{
+			success: true,
+			domain,
+			verification: {
+				url: `https://${domain.hostname}${DOMAIN_VERIFICATION_PATH}`,
+				token: domain.verificationToken,
+			},
+		},
+		{
+			status,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+function verificationFailed(error: string): Response {
+	return Response.json(
+		{
+			success: false,
+			error,
+		},
+		{ status: 400, headers: { 'Content-Type': 'application/json' } },
+	);
+}
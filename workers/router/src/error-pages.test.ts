@@ -0,0 +1,145 @@
+import { createExecutionContext, env } from 'cloudflare:test';
+
+import { computeContentHash } from './content-utilities';
+import { createErrorResponse, negotiateErrorFormat } from './error-pages';
+import { getMaintenancePageSource } from './maintenance';
+import AssetApi from '../../asset-service/src/worker';
+import { createMock } from '../../shared/test-utilities';
+
+import type { ErrorPageSource, ErrorResponseOptions } from './error-pages';
+import type { AssetEnvironment } from '../../asset-service/src/worker';
+
+function htmlResponse(body: string): Response {
+	return new Response(body, { headers: { 'Content-Type': 'text/html' } });
+}
+
+describe('error-pages', () => {
+	// A single-page application with the default html_handling, whose missing pages would be served as index.html
+	const source: ErrorPageSource = {
+		projectId: 'project',
+		deploymentId: 2,
+		config: { not_found_handling: 'single-page-application' },
+		errorPages: { project_not_ready: '/_errors/maintenance.html', '500': '/_errors/500.html', '404': '/_errors/missing.html' },
+	};
+	const assetApi = new AssetApi(
+		createExecutionContext(),
+		createMock<AssetEnvironment>({ KV_ASSETS: env.KV_PROJECT_DATA, ANALYTICS: env.ANALYTICS, VERSION: env.VERSION }),
+	);
+
+	beforeAll(async () => {
+		const pages: Record<string, string> = {
+			'/index.html': '<div id="app"></div>',
+			'/_errors/maintenance.html': 'project page /_errors/maintenance.html {{detail}}',
+			'/_errors/500.html': 'project page /_errors/500.html {{detail}}',
+			'/maintenance.html': 'Back soon ({{status}})',
+		};
+		const entries = await Promise.all(
+			Object.entries(pages).map(async ([pathname, page]) => {
+				const content = new TextEncoder().encode(page);
+				return { pathname, contentHash: await computeContentHash(content), content };
+			}),
+		);
+		await assetApi.uploadManifest(entries, source.projectId, source.deploymentId);
+		for (const { contentHash, content } of entries) {
+			await assetApi.uploadAsset(contentHash, new Uint8Array(content).buffer, source.projectId);
+		}
+	});
+
+	function createOptions(overrides: Partial<ErrorResponseOptions> = {}, platformPages: Record<string, string> = {}): ErrorResponseOptions {
+		return {
+			platformPages: createMock<Fetcher>({
+				fetch: async (input: RequestInfo | URL) => {
+					const page = platformPages[new URL(input instanceof Request ? input.url : input).pathname];
+					return page === undefined ? new Response('Not found', { status: 404 }) : htmlResponse(page);
+				},
+			}),
+			assetWorker: createMock<ErrorResponseOptions['assetWorker']>({ getByPathname: assetApi.getByPathname.bind(assetApi) }),
+			...overrides,
+		};
+	}
+
+	function request(accept?: string): Request {
+		return new Request('https://app.example.com/page', { headers: accept ? { Accept: accept } : {} });
+	}
+
+	describe('negotiateErrorFormat', () => {
+		it('prefers the format with the higher quality', () => {
+			expect(negotiateErrorFormat('text/html,application/xhtml+xml,*/*;q=0.8')).toBe('html');
+			expect(negotiateErrorFormat('application/json')).toBe('json');
+			expect(negotiateErrorFormat('text/html;q=0.5, application/json')).toBe('json');
+			expect(negotiateErrorFormat('*/*')).toBe('text');
+			expect(negotiateErrorFormat('')).toBe('text');
+		});
+	});
+
+	describe('createErrorResponse', () => {
+		it('returns plain text without debug detail unless debug is on', async () => {
+			const response = await createErrorResponse(request(), 'server_error', createOptions({ source, detail: 'Error: boom' }));
+			expect(response.status).toBe(500);
+			expect(await response.text()).toBe('Internal server error');
+
+			const debugResponse = await createErrorResponse(
+				request(),
+				'server_error',
+				createOptions({ source: { ...source, config: { ...source.config, debug: true } }, detail: 'Error: boom' }),
+			);
+			expect(await debugResponse.text()).toBe('Internal server error\n\nError: boom');
+		});
+
+		it('returns JSON errors to JSON clients', async () => {
+			const response = await createErrorResponse(
+				request('application/json'),
+				'project_not_ready',
+				createOptions({ source: { ...source, config: { debug: true } }, detail: 'detail' }),
+			);
+			expect(response.status).toBe(503);
+			expect(await response.json()).toEqual({ success: false, error: 'Project not ready', state: 'project_not_ready', detail: 'detail' });
+		});
+
+		it('serves the project page for the state, then for the status', async () => {
+			const options = createOptions({ source });
+			const notReady = await createErrorResponse(request('text/html'), 'project_not_ready', options);
+			expect(notReady.status).toBe(503);
+			expect(notReady.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+			expect(await notReady.text()).toBe('project page /_errors/maintenance.html ');
+
+			const serverError = await createErrorResponse(request('text/html'), 'server_error', options);
+			expect(await serverError.text()).toBe('project page /_errors/500.html ');
+		});
+
+		it('serves the configured maintenance page', async () => {
+			const options = createOptions({ source: getMaintenancePageSource(source, { enabled: true, page: '/maintenance.html' }) });
+			const response = await createErrorResponse(request('text/html'), 'maintenance', options);
+			expect(response.status).toBe(503);
+			expect(await response.text()).toBe('Back soon (503)');
+		});
+
+		it('falls back to the platform pages and escapes placeholders', async () => {
+			const options = createOptions(
+				{ source: { ...source, config: { ...source.config, debug: true } }, detail: '<script>alert(1)</script>' },
+				{ '/errors/404.html': 'platform 404 {{message}}', '/errors/error.html': '{{status}}: {{message}} {{detail}}' },
+			);
+
+			// The project's 404 page is missing; the app shell must not be served in its place
+			const notFound = await createErrorResponse(request('text/html'), 'not_found', options);
+			expect(await notFound.text()).toBe('platform 404 Not found');
+
+			// Without a project page, the generic platform page is used
+			const rateLimited = await createErrorResponse(request('text/html'), 'rate_limited', options);
+			expect(await rateLimited.text()).toBe('429: Rate limit exceeded &lt;script&gt;alert(1)&lt;/script&gt;');
+		});
+
+		it('uses a built-in page when no page can be loaded', async () => {
+			const options = createOptions({
+				platformPages: createMock<Fetcher>({
+					fetch: async () => {
+						throw new Error('Assets unavailable');
+					},
+				}),
+			});
+			const response = await createErrorResponse(request('text/html'), 'rate_limited', options);
+			expect(response.status).toBe(429);
+			expect(await response.text()).toContain('<h1>429 Rate limit exceeded</h1>');
+		});
+	});
+});
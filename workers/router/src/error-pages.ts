@@ -0,0 +1,167 @@
+import type { ErrorPageState, ErrorPages } from './types';
+import type { AssetConfigInput } from '../../asset-service/src/configuration';
+import type AssetWorker from '../../asset-service/src/worker';
+
+/** Status and message of each error state */
+const ERROR_STATES: Record<ErrorPageState, { status: number; message: string }> = {
+	project_not_found: { status: 404, message: 'Project not found' },
+	rate_limited: { status: 429, message: 'Rate limit exceeded' },
+	project_not_ready: { status: 503, message: 'Project not ready' },
+	deployment_not_found: { status: 404, message: 'Deployment not found' },
+	not_found: { status: 404, message: 'Not found' },
+	server_error: { status: 500, message: 'Internal server error' },
+	maintenance: { status: 503, message: 'Under maintenance' },
+};
+
+// Served when neither the project nor the platform has a page for the error
+const FALLBACK_ERROR_PAGE = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>{{status}} {{message}}</title></head>
+<body><h1>{{status}} {{message}}</h1><pre>{{detail}}</pre></body>
+</html>
+`;
+
+/**
+ * The deployment whose error pages are used, with its asset configuration (for the debug setting).
+ */
+export interface ErrorPageSource {
+	projectId: string;
+	deploymentId: number | undefined;
+	config?: AssetConfigInput;
+	errorPages?: ErrorPages;
+}
+
+export interface ErrorResponseOptions {
+	// The deployment to take error pages and the debug setting from; platform pages only without one
+	source?: ErrorPageSource;
+	// Details of the error (e.g. a stack trace), only shown when the deployment's config.debug is on
+	detail?: string;
+	// Additional response headers, e.g. Retry-After
+	headers?: Record<string, string>;
+	// Serves the platform's default pages (`/errors/{status}.html`, `/errors/error.html`)
+	platformPages: Fetcher;
+	assetWorker: Service<AssetWorker>;
+}
+
+/**
+ * Picks the error format a client accepts: HTML for browsers, JSON for API clients
+ * and plain text for clients that name neither (e.g. any type, or no Accept header).
+ */
+export function negotiateErrorFormat(accept: string | null): 'html' | 'json' | 'text' {
+	let html = 0;
+	let json = 0;
+	for (const part of (accept ?? '').split(',')) {
+		const [mediaType = '', ...parameters] = part.split(';').map((value) => value.trim().toLowerCase());
+		const qualityParameter = parameters.find((parameter) => parameter.startsWith('q='));
+		const quality = qualityParameter ? Number(qualityParameter.slice(2)) || 0 : 1;
+		if (mediaType === 'text/html') {
+			html = Math.max(html, quality);
+		} else if (mediaType === 'application/json') {
+			json = Math.max(json, quality);
+		}
+	}
+
+	if (html === 0 && json === 0) {
+		return 'text';
+	}
+	return json > html ? 'json' : 'html';
+}
+
+function escapeHtml(value: string): string {
+	return value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;').replaceAll("'", '&#39;');
+}
+
+/**
+ * Fills the `{{status}}`, `{{message}}` and `{{detail}}` placeholders of an error page.
+ */
+function renderErrorPage(template: string, values: { status: number; message: string; detail: string }): string {
+	return template
+		.replaceAll('{{status}}', String(values.status))
+		.replaceAll('{{message}}', escapeHtml(values.message))
+		.replaceAll('{{detail}}', escapeHtml(values.detail));
+}
+
+/**
+ * Loads the HTML error page for a state: the deployment's page for the state or status,
+ * then the platform's page for the status, then the platform's generic page.
+ * Pages that fail to load are skipped, so an error page never causes another error.
+ *
+ * Deployment pages are looked up by their exact path in the asset manifest. Serving them like a
+ * request would apply html_handling (redirecting `/_errors/500.html` to `/_errors/500`) and
+ * not_found_handling (answering a missing page with the app shell of a single-page application).
+ */
+async function loadErrorPage(
+	request: Request,
+	state: ErrorPageState,
+	status: number,
+	options: ErrorResponseOptions,
+): Promise<string | undefined> {
+	const { source } = options;
+	const projectPage = source?.errorPages?.[state] ?? source?.errorPages?.[String(status)];
+
+	const loadPlatformPage = async (pathname: string): Promise<string | undefined> => {
+		const response = await options.platformPages.fetch(new URL(pathname, request.url));
+		return response.ok && response.headers.get('Content-Type')?.includes('text/html') ? await response.text() : undefined;
+	};
+
+	const candidates: (() => Promise<string | undefined>)[] = [];
+	if (source && projectPage) {
+		candidates.push(async () => {
+			const asset = await options.assetWorker.getByPathname(projectPage, request, source.projectId, source.deploymentId);
+			return asset ? await new Response(asset.readableStream).text() : undefined;
+		});
+	}
+	candidates.push(
+		() => loadPlatformPage(`/errors/${status}.html`),
+		() => loadPlatformPage('/errors/error.html'),
+	);
+
+	for (const load of candidates) {
+		try {
+			const page = await load();
+			if (page !== undefined) {
+				return page;
+			}
+		} catch (error) {
+			console.error('Failed to load error page:', error);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Creates the response for an error of the request path in the format the client accepts:
+ * an HTML error page, a JSON error or plain text.
+ *
+ * HTML pages are the deployment's `errorPages` (asset paths by state or status code) or the
+ * platform's default pages. They may contain `{{status}}`, `{{message}}` and `{{detail}}` placeholders.
+ *
+ * @param request - The request that failed
+ * @param state - The error state, which determines the status code and message
+ * @param options - The deployment, error detail and where pages are loaded from
+ * @returns The error response
+ */
+export async function createErrorResponse(request: Request, state: ErrorPageState, options: ErrorResponseOptions): Promise<Response> {
+	const { status, message } = ERROR_STATES[state];
+	const detail = options.source?.config?.debug ? options.detail : undefined;
+	const headers = { ...options.headers, 'Cache-Control': 'no-store', Vary: 'Accept' };
+
+	switch (negotiateErrorFormat(request.headers.get('Accept'))) {
+		case 'json': {
+			return Response.json({ success: false, error: message, state, detail }, { status, headers });
+		}
+		case 'html': {
+			const template = (await loadErrorPage(request, state, status, options)) ?? FALLBACK_ERROR_PAGE;
+			return new Response(renderErrorPage(template, { status, message, detail: detail ?? '' }), {
+				status,
+				headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' },
+			});
+		}
+		default: {
+			return new Response(detail ? `${message}\n\n${detail}` : message, {
+				status,
+				headers: { ...headers, 'Content-Type': 'text/plain; charset=utf-8' },
+			});
+		}
+	}
+}
@@ -3,8 +3,11 @@
  *
  * When using /__project/projectId/ routing, root-relative paths like
  * /assets/main.js need to be prefixed to /__project/projectId/assets/main.js.
+ * Pinned deployments use the /__project/projectId@deploymentId/ prefix instead.
  */
 
+import { getPathPrefix } from './routing';
+
 /** File extensions that indicate static assets (not API endpoints) */
 const ASSET_EXTENSIONS = /\.(js|mjs|css|json|png|jpe?g|gif|svg|ico|webp|woff2?|ttf|eot|map|txt|xml|html)$/i;
 
@@ -57,22 +60,20 @@ function rewriteAssetPaths(content: string, prefix: string): string {
  */
 class PathRewriteHandler implements HTMLRewriterElementContentHandlers {
 	constructor(
-		private projectId: string,
+		private prefix: string,
 		private attributes: string[],
 	) {}
 
 	element(element: Element): void {
-		const prefix = `/__project/${this.projectId}`;
-
 		for (const attribute of this.attributes) {
 			const value = element.getAttribute(attribute);
 			if (!value) continue;
 
 			if (attribute === 'srcset') {
-				const rewritten = this.rewriteSrcset(value, prefix);
+				const rewritten = this.rewriteSrcset(value, this.prefix);
 				if (rewritten !== value) element.setAttribute(attribute, rewritten);
-			} else if (shouldRewritePath(value, prefix)) {
-				element.setAttribute(attribute, prefix + value);
+			} else if (shouldRewritePath(value, this.prefix)) {
+				element.setAttribute(attribute, this.prefix + value);
 			}
 		}
 	}
@@ -97,14 +98,13 @@ class PathRewriteHandler implements HTMLRewriterElementContentHandlers {
 class ScriptTextHandler implements HTMLRewriterElementContentHandlers {
 	private buffer = '';
 
-	constructor(private projectId: string) {}
+	constructor(private prefix: string) {}
 
 	text(text: Text): void {
 		this.buffer += text.text;
 
 		if (text.lastInTextNode) {
-			const prefix = `/__project/${this.projectId}`;
-			const replaced = rewriteAssetPaths(this.buffer, prefix);
+			const replaced = rewriteAssetPaths(this.buffer, this.prefix);
 			text.replace(replaced, { html: true });
 			this.buffer = '';
 		} else {
@@ -117,11 +117,10 @@ class ScriptTextHandler implements HTMLRewriterElementContentHandlers {
  * Injects a client-side shim for path-based routing (fetch interceptor + base path).
  */
 class HeadInjectionHandler implements HTMLRewriterElementContentHandlers {
-	constructor(private projectId: string) {}
+	constructor(private prefix: string) {}
 
 	element(element: Element): void {
-		const prefix = `/__project/${this.projectId}`;
-		const safePrefix = JSON.stringify(prefix);
+		const safePrefix = JSON.stringify(this.prefix);
 		element.prepend(
 			`<script>
 (function() {
@@ -155,14 +154,14 @@ class HeadInjectionHandler implements HTMLRewriterElementContentHandlers {
 /**
  * Rewrites an HTML response to fix paths for path-based routing.
  */
-function rewriteHtmlPaths(response: Response, projectId: string): Response {
+function rewriteHtmlPaths(response: Response, prefix: string): Response {
 	let rewriter = new HTMLRewriter();
 
 	for (const [selector, attributes] of Object.entries(PATH_ATTRIBUTES)) {
-		rewriter = rewriter.on(selector, new PathRewriteHandler(projectId, attributes));
+		rewriter = rewriter.on(selector, new PathRewriteHandler(prefix, attributes));
 	}
-	rewriter = rewriter.on('script', new ScriptTextHandler(projectId));
-	rewriter = rewriter.on('head', new HeadInjectionHandler(projectId));
+	rewriter = rewriter.on('script', new ScriptTextHandler(prefix));
+	rewriter = rewriter.on('head', new HeadInjectionHandler(prefix));
 
 	return rewriter.transform(response);
 }
@@ -170,9 +169,8 @@ function rewriteHtmlPaths(response: Response, projectId: string): Response {
 /**
  * Rewrites a JavaScript response to prefix asset paths for path-based routing.
  */
-async function rewriteJsResponse(response: Response, projectId: string): Promise<Response> {
+async function rewriteJsResponse(response: Response, prefix: string): Promise<Response> {
 	const body = await response.text();
-	const prefix = `/__project/${projectId}`;
 	const rewritten = rewriteAssetPaths(body, prefix);
 
 	return new Response(rewritten, {
@@ -186,17 +184,18 @@ async function rewriteJsResponse(response: Response, projectId: string): Promise
  * Rewrites a response for path-based routing, applying JS or HTML rewriting
  * based on the content type. Always returns a new Response.
  */
-export async function rewritePathBasedResponse(response: Response, projectId: string): Promise<Response> {
+export async function rewritePathBasedResponse(response: Response, projectId: string, deploymentId?: number): Promise<Response> {
 	const contentType = response.headers.get('content-type');
+	const prefix = getPathPrefix(projectId, deploymentId);
 
 	if (contentType && (contentType.includes('text/javascript') || contentType.includes('application/javascript'))) {
-		const rewritten = await rewriteJsResponse(response, projectId);
+		const rewritten = await rewriteJsResponse(response, prefix);
 		rewritten.headers.set('X-Asset-Js-Rewritten', 'true');
 		return rewritten;
 	}
 
 	if (contentType && contentType.includes('text/html')) {
-		const rewritten = rewriteHtmlPaths(response, projectId);
+		const rewritten = rewriteHtmlPaths(response, prefix);
 		rewritten.headers.set('X-Asset-Html-Rewritten', 'true');
 		return rewritten;
 	}
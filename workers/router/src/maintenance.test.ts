@@ -0,0 +1,68 @@
+import {
+	MAINTENANCE_BYPASS_PARAMETER,
+	canBypassMaintenance,
+	createMaintenanceBypassRedirect,
+	getMaintenanceRetryAfter,
+	isMaintenanceActive,
+} from './maintenance';
+
+import type { MaintenanceSettings } from './types';
+
+describe('maintenance', () => {
+	const startsAt = '2025-03-03T09:00:00Z';
+	const endsAt = '2025-03-03T11:00:00Z';
+	const during = Date.UTC(2025, 2, 3, 10, 0);
+	const bypassToken = 'team-preview-token-1234';
+
+	describe('isMaintenanceActive', () => {
+		it('is active while enabled and within the scheduled window', () => {
+			expect(isMaintenanceActive({ enabled: true }, during)).toBe(true);
+			expect(isMaintenanceActive({ enabled: false }, during)).toBe(false);
+			expect(isMaintenanceActive(undefined, during)).toBe(false);
+
+			const scheduled: MaintenanceSettings = { enabled: true, startsAt, endsAt };
+			expect(isMaintenanceActive(scheduled, Date.UTC(2025, 2, 3, 8, 59))).toBe(false);
+			expect(isMaintenanceActive(scheduled, during)).toBe(true);
+			expect(isMaintenanceActive(scheduled, Date.UTC(2025, 2, 3, 11, 0))).toBe(false);
+		});
+	});
+
+	describe('getMaintenanceRetryAfter', () => {
+		it('uses the configured value, then the time until the window ends', () => {
+			expect(getMaintenanceRetryAfter({ enabled: true, retryAfter: 120, endsAt }, during)).toBe(120);
+			expect(getMaintenanceRetryAfter({ enabled: true, endsAt }, during)).toBe(3600);
+			expect(getMaintenanceRetryAfter({ enabled: true }, during)).toBeUndefined();
+		});
+	});
+
+	describe('bypass', () => {
+		const settings: MaintenanceSettings = { enabled: true, allowedIps: ['203.0.113.7', '2001:DB8::1'], bypassToken };
+
+		it('exchanges a valid bypass token for a cookie', async () => {
+			const request = new Request(`https://app.example.com/page?a=1&${MAINTENANCE_BYPASS_PARAMETER}=${bypassToken}`);
+			const response = await createMaintenanceBypassRedirect(request, 'project', settings);
+
+			expect(response?.status).toBe(302);
+			expect(response?.headers.get('Location')).toBe('https://app.example.com/page?a=1');
+			expect(response?.headers.get('Set-Cookie')).toContain(`maintenance_bypass_project=${bypassToken}; Path=/`);
+
+			const invalid = new Request(`https://app.example.com/page?${MAINTENANCE_BYPASS_PARAMETER}=wrong-token`);
+			expect(await createMaintenanceBypassRedirect(invalid, 'project', settings)).toBeUndefined();
+			expect(await createMaintenanceBypassRedirect(request, 'project', { enabled: true })).toBeUndefined();
+		});
+
+		it('lets allowed IPs and holders of the bypass cookie through', async () => {
+			const fromIp = (ip: string): Request => new Request('https://app.example.com/', { headers: { 'CF-Connecting-IP': ip } });
+			expect(await canBypassMaintenance(fromIp('203.0.113.7'), 'project', settings)).toBe(true);
+			expect(await canBypassMaintenance(fromIp('2001:db8::1'), 'project', settings)).toBe(true);
+			expect(await canBypassMaintenance(fromIp('198.51.100.1'), 'project', settings)).toBe(false);
+
+			const withCookie = (cookie: string): Request => new Request('https://app.example.com/', { headers: { Cookie: cookie } });
+			expect(await canBypassMaintenance(withCookie(`theme=dark; maintenance_bypass_project=${bypassToken}`), 'project', settings)).toBe(
+				true,
+			);
+			expect(await canBypassMaintenance(withCookie(`maintenance_bypass_other=${bypassToken}`), 'project', settings)).toBe(false);
+			expect(await canBypassMaintenance(withCookie('maintenance_bypass_project=wrong'), 'project', settings)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,116 @@
+import { timingSafeEqual } from './token-manager';
+
+import type { ErrorPageSource } from './error-pages';
+import type { MaintenanceSettings } from './types';
+
+/** Query parameter that exchanges the bypass token for a bypass cookie */
+export const MAINTENANCE_BYPASS_PARAMETER = '__maintenance_bypass';
+
+// Lifetime of the bypass cookie, in seconds (1 day)
+const BYPASS_COOKIE_MAX_AGE = 24 * 60 * 60;
+
+/**
+ * Name of a project's bypass cookie. Path-based projects share a hostname, so the name includes the project.
+ */
+function getBypassCookieName(projectId: string): string {
+	return `maintenance_bypass_${projectId}`;
+}
+
+function getCookie(request: Request, name: string): string | undefined {
+	for (const cookie of (request.headers.get('Cookie') ?? '').split(';')) {
+		const equalsIndex = cookie.indexOf('=');
+		if (equalsIndex !== -1 && cookie.slice(0, equalsIndex).trim() === name) {
+			return cookie.slice(equalsIndex + 1).trim();
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Whether a project is in maintenance at a point in time: enabled, and within the scheduled window if one is set.
+ *
+ * @param settings - The maintenance settings of the project
+ * @param now - The time to check, in milliseconds since the epoch
+ */
+export function isMaintenanceActive(settings: MaintenanceSettings | undefined, now: number): boolean {
+	if (!settings?.enabled) {
+		return false;
+	}
+	if (settings.startsAt && now < Date.parse(settings.startsAt)) {
+		return false;
+	}
+	return !settings.endsAt || now < Date.parse(settings.endsAt);
+}
+
+/**
+ * Gets the `Retry-After` seconds of maintenance responses: the configured value, or the time until the window ends.
+ *
+ * @param settings - The maintenance settings of the project
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns The seconds to wait, or undefined without a configured value or end time
+ */
+export function getMaintenanceRetryAfter(settings: MaintenanceSettings, now: number): number | undefined {
+	if (settings.retryAfter !== undefined) {
+		return settings.retryAfter;
+	}
+	return settings.endsAt ? Math.max(1, Math.ceil((Date.parse(settings.endsAt) - now) / 1000)) : undefined;
+}
+
+/**
+ * Gets the error pages of maintenance responses: the project's pages, with the configured maintenance page taking precedence.
+ *
+ * @param source - The error pages of the project's active deployment
+ * @param settings - The maintenance settings of the project
+ */
+export function getMaintenancePageSource(source: ErrorPageSource, settings: MaintenanceSettings): ErrorPageSource {
+	return settings.page ? { ...source, errorPages: { ...source.errorPages, maintenance: settings.page } } : source;
+}
+
+/**
+ * Exchanges a bypass token in the query string for a bypass cookie: redirects to the URL without the
+ * token and sets the cookie, so the token does not stay in the address bar or get shared in links.
+ *
+ * @param request - The incoming request
+ * @param projectId - The unique identifier of the project
+ * @param settings - The maintenance settings of the project
+ * @returns The redirect setting the cookie, or undefined if the request carries no valid token
+ */
+export async function createMaintenanceBypassRedirect(
+	request: Request,
+	projectId: string,
+	settings: MaintenanceSettings,
+): Promise<Response | undefined> {
+	const url = new URL(request.url);
+	const token = url.searchParams.get(MAINTENANCE_BYPASS_PARAMETER);
+	if (!settings.bypassToken || !token || !(await timingSafeEqual(token, settings.bypassToken))) {
+		return undefined;
+	}
+
+	url.searchParams.delete(MAINTENANCE_BYPASS_PARAMETER);
+	// Redirect responses have immutable headers, so copy it to add the cookie
+	const redirect = Response.redirect(url.toString(), 302);
+	const response = new Response(redirect.body, redirect);
+	response.headers.set(
+		'Set-Cookie',
+		`${getBypassCookieName(projectId)}=${token}; Path=/; Max-Age=${BYPASS_COOKIE_MAX_AGE}; HttpOnly; Secure; SameSite=Lax`,
+	);
+	response.headers.set('Cache-Control', 'no-store');
+	return response;
+}
+
+/**
+ * Whether a request reaches the live site despite maintenance: from an allowed IP or with the bypass cookie.
+ *
+ * @param request - The incoming request
+ * @param projectId - The unique identifier of the project
+ * @param settings - The maintenance settings of the project
+ */
+export async function canBypassMaintenance(request: Request, projectId: string, settings: MaintenanceSettings): Promise<boolean> {
+	const ip = request.headers.get('CF-Connecting-IP')?.toLowerCase();
+	if (ip && settings.allowedIps?.some((allowedIp) => allowedIp.toLowerCase() === ip)) {
+		return true;
+	}
+
+	const cookie = getCookie(request, getBypassCookieName(projectId));
+	return settings.bypassToken !== undefined && cookie !== undefined && (await timingSafeEqual(cookie, settings.bypassToken));
+}
@@ -0,0 +1,134 @@
+import { env } from 'cloudflare:test';
+
+import { MODULE_GRACE_PERIOD_MS, sweepOrphans } from './orphan-sweep';
+import { getServerSideCodeKey, getServerSideCodeManifestKey } from './project-manager';
+import { createMock } from '../../shared/test-utilities';
+
+import type { ProjectMetadata, ServerSideCodeManifest } from './types';
+
+describe('sweepOrphans', () => {
+	const projectsKv = env.KV_PROJECTS;
+	const serverSideCodeKv = env.KV_SERVER_SIDE_CODE;
+	let assetWorker: { sweepProjectOrphans: ReturnType<typeof vi.fn>; markUnreferencedBlobs: ReturnType<typeof vi.fn> };
+	let environment: Env;
+
+	beforeEach(async () => {
+		for (const kv of [projectsKv, serverSideCodeKv]) {
+			const keys = await kv.list();
+			for (const key of keys.keys) {
+				await kv.delete(key.name);
+			}
+		}
+
+		assetWorker = {
+			sweepProjectOrphans: vi.fn().mockResolvedValue({ releasedBlobs: [], deletedKeys: [] }),
+			markUnreferencedBlobs: vi.fn().mockResolvedValue({ markedBlobs: [] }),
+		};
+		environment = createMock<Env>({ KV_PROJECTS: projectsKv, KV_SERVER_SIDE_CODE: serverSideCodeKv, ASSET_WORKER: assetWorker });
+	});
+
+	async function createProject(id: string): Promise<void> {
+		const project: ProjectMetadata = {
+			id,
+			name: id,
+			status: 'READY',
+			createdAt: new Date().toISOString(),
+			updatedAt: new Date().toISOString(),
+			hasServerSideCode: true,
+			assetsCount: 0,
+		};
+		await projectsKv.put(`project/${id}/metadata`, JSON.stringify(project));
+	}
+
+	async function putManifest(projectId: string, deploymentId: number, hashes: string[]): Promise<void> {
+		const manifest: ServerSideCodeManifest = {
+			entrypoint: 'index.js',
+			modules: Object.fromEntries(hashes.map((hash) => [`${hash}.js`, { hash, type: 'js' }])),
+		};
+		await serverSideCodeKv.put(getServerSideCodeManifestKey(projectId, deploymentId), JSON.stringify(manifest));
+	}
+
+	async function putModule(projectId: string, hash: string, uploadedAt = Date.now() - MODULE_GRACE_PERIOD_MS - 1): Promise<void> {
+		await serverSideCodeKv.put(getServerSideCodeKey(projectId, hash), 'export default {}', { metadata: { uploadedAt } });
+	}
+
+	it('deletes modules no deployment manifest uses', async () => {
+		await createProject('project-1');
+		await putManifest('project-1', 1, ['used-1']);
+		await putManifest('project-1', 2, ['used-2']);
+		await putModule('project-1', 'used-1');
+		await putModule('project-1', 'used-2');
+		await putModule('project-1', 'orphan');
+
+		const report = await sweepOrphans(environment);
+
+		expect(report).toMatchObject({ sweptProjects: 1, deletedModules: 1 });
+		expect(report.orphans).toEqual([{ type: 'module', key: getServerSideCodeKey('project-1', 'orphan'), projectId: 'project-1' }]);
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'orphan'))).toBeNull();
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'used-1'))).not.toBeNull();
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'used-2'))).not.toBeNull();
+	});
+
+	it('keeps modules uploaded within the grace period', async () => {
+		await createProject('project-1');
+		await putModule('project-1', 'fresh', Date.now());
+
+		expect(await sweepOrphans(environment)).toMatchObject({ deletedModules: 0 });
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'fresh'))).not.toBeNull();
+	});
+
+	it('sweeps assets through the asset service and reports the orphans', async () => {
+		await createProject('project-1');
+		assetWorker.sweepProjectOrphans.mockResolvedValue({ releasedBlobs: ['hash-1'], deletedKeys: ['project/project-1/asset/hash-2'] });
+
+		const report = await sweepOrphans(environment);
+
+		expect(assetWorker.sweepProjectOrphans).toHaveBeenCalledWith('project-1', { dryRun: false });
+		expect(report).toMatchObject({ deletedAssets: 1, releasedBlobs: 1 });
+		expect(report.orphans).toEqual([
+			{ type: 'asset', key: 'project/project-1/asset/hash-2', projectId: 'project-1' },
+			{ type: 'blob', key: 'hash-1', projectId: 'project-1' },
+		]);
+	});
+
+	it('skips projects with an open upload session', async () => {
+		await createProject('project-1');
+		await putModule('project-1', 'orphan');
+		await projectsKv.put('upload-session/project-1/session-1', '{}');
+
+		expect(await sweepOrphans(environment)).toMatchObject({ sweptProjects: 0, skippedProjects: 1 });
+		expect(assetWorker.sweepProjectOrphans).not.toHaveBeenCalled();
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'orphan'))).not.toBeNull();
+	});
+
+	it('scans shared blobs after all projects and then starts over', async () => {
+		await createProject('project-1');
+		assetWorker.markUnreferencedBlobs
+			.mockResolvedValueOnce({ markedBlobs: ['hash-1'], cursor: 'page-2' })
+			.mockResolvedValueOnce({ markedBlobs: ['hash-2'] });
+
+		expect(await sweepOrphans(environment)).toMatchObject({ sweptProjects: 1, completedPass: false });
+		expect(assetWorker.markUnreferencedBlobs).not.toHaveBeenCalled();
+
+		const report = await sweepOrphans(environment);
+		expect(report).toMatchObject({ sweptProjects: 0, markedBlobs: 2, completedPass: true });
+		expect(assetWorker.markUnreferencedBlobs).toHaveBeenNthCalledWith(2, { cursor: 'page-2', dryRun: false });
+
+		expect(await sweepOrphans(environment)).toMatchObject({ sweptProjects: 1 });
+	});
+
+	it('only reports orphans in a dry run, without moving on', async () => {
+		await createProject('project-1');
+		await putManifest('project-1', 1, []);
+		await putModule('project-1', 'orphan');
+
+		const dryRun = await sweepOrphans(environment, { dryRun: true });
+		expect(dryRun).toMatchObject({ dryRun: true, deletedModules: 1 });
+		expect(assetWorker.sweepProjectOrphans).toHaveBeenCalledWith('project-1', { dryRun: true });
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'orphan'))).not.toBeNull();
+
+		// The next run sweeps the same projects
+		expect(await sweepOrphans(environment)).toMatchObject({ sweptProjects: 1, deletedModules: 1 });
+		expect(await serverSideCodeKv.get(getServerSideCodeKey('project-1', 'orphan'))).toBeNull();
+	});
+});
@@ -0,0 +1,178 @@
+import { getServerSideCodeManifestKey, getServerSideCodePrefix, listProjectsData } from './project-manager';
+import { listAllKeys } from '../../shared/kv';
+
+import type { ModuleMetadata, ServerSideCodeManifest } from './types';
+
+/** KV key (in KV_PROJECTS) of the position where the next sweep continues */
+const ORPHAN_SWEEP_CURSOR_KEY = 'watchdog/orphan-sweep';
+
+/** Projects swept per run; larger installations are covered over several cron invocations */
+const PROJECTS_PER_RUN = 100;
+
+/** Pages of shared blobs scanned per run */
+const BLOB_PAGES_PER_RUN = 10;
+
+/** Modules uploaded within this period are kept, as their manifest may still be on its way */
+export const MODULE_GRACE_PERIOD_MS = 2 * 60 * 60 * 1000;
+
+// Maximum number of orphans listed individually in a report
+const MAX_REPORTED_ORPHANS = 100;
+
+/**
+ * A sweep first walks every project, then scans the shared blobs of the asset service,
+ * and starts over once both are done.
+ */
+interface OrphanSweepCursor {
+	phase: 'projects' | 'blobs';
+	cursor?: string;
+}
+
+export interface Orphan {
+	type: 'module' | 'asset' | 'blob';
+	/** The KV key of modules and assets, the content hash of blobs */
+	key: string;
+	/** The project that referenced the blob, unset for blobs no project references */
+	projectId?: string;
+}
+
+export interface OrphanSweepReport {
+	dryRun: boolean;
+	sweptProjects: number;
+	/** Projects with an open upload session, which may rely on assets no manifest uses yet */
+	skippedProjects: number;
+	deletedModules: number;
+	deletedAssets: number;
+	/** Blob references released by swept projects */
+	releasedBlobs: number;
+	/** Blobs no project references, marked for garbage collection */
+	markedBlobs: number;
+	/** The first orphans found, at most MAX_REPORTED_ORPHANS */
+	orphans: Orphan[];
+	/** Whether this run finished a full pass over all projects and blobs */
+	completedPass: boolean;
+}
+
+/**
+ * Finds and removes server-side code modules and assets that no deployment manifest uses anymore.
+ *
+ * Each run marks and sweeps the next batch of projects: unused modules in KV_SERVER_SIDE_CODE are
+ * deleted here, unused assets are handled by the asset service (see AssetApi.sweepProjectOrphans).
+ * Once every project was swept, the shared blobs are scanned for blobs no project references.
+ * The position is stored between runs, so a full pass may span several cron invocations.
+ *
+ * A dry run reports what the next run would remove, without removing anything or moving the position.
+ *
+ * @param environment - The worker environment bindings
+ * @param options - Whether to only report the orphans
+ * @returns A report of the orphans found in this run
+ */
+export async function sweepOrphans(environment: Env, options: { dryRun?: boolean } = {}): Promise<OrphanSweepReport> {
+	const dryRun = options.dryRun ?? false;
+	const projectsKv = environment.KV_PROJECTS;
+	const report: OrphanSweepReport = {
+		dryRun,
+		sweptProjects: 0,
+		skippedProjects: 0,
+		deletedModules: 0,
+		deletedAssets: 0,
+		releasedBlobs: 0,
+		markedBlobs: 0,
+		orphans: [],
+		completedPass: false,
+	};
+	const addOrphans = (orphans: Orphan[]) => {
+		report.orphans.push(...orphans.slice(0, MAX_REPORTED_ORPHANS - report.orphans.length));
+	};
+
+	let position: OrphanSweepCursor = (await projectsKv.get<OrphanSweepCursor>(ORPHAN_SWEEP_CURSOR_KEY, { type: 'json' })) ?? {
+		phase: 'projects',
+	};
+
+	if (position.phase === 'projects') {
+		const { projects, pagination } = await listProjectsData(projectsKv, { limit: PROJECTS_PER_RUN, cursor: position.cursor });
+
+		for (const project of projects) {
+			try {
+				const uploadSessions = await projectsKv.list({ prefix: `upload-session/${project.id}/`, limit: 1 });
+				if (uploadSessions.keys.length > 0) {
+					report.skippedProjects++;
+					continue;
+				}
+
+				const modules = await sweepProjectModules(environment.KV_SERVER_SIDE_CODE, project.id, dryRun);
+				const assets = await environment.ASSET_WORKER.sweepProjectOrphans(project.id, { dryRun });
+
+				report.sweptProjects++;
+				report.deletedModules += modules.length;
+				report.deletedAssets += assets.deletedKeys.length;
+				report.releasedBlobs += assets.releasedBlobs.length;
+				addOrphans([
+					...modules.map((key): Orphan => ({ type: 'module', key, projectId: project.id })),
+					...assets.deletedKeys.map((key): Orphan => ({ type: 'asset', key, projectId: project.id })),
+					...assets.releasedBlobs.map((hash): Orphan => ({ type: 'blob', key: hash, projectId: project.id })),
+				]);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				console.error(`❌ Failed to sweep orphans of project ${project.id}: ${errorMessage}`);
+			}
+		}
+
+		position = pagination.hasMore ? { phase: 'projects', cursor: pagination.nextCursor } : { phase: 'blobs' };
+	} else {
+		let cursor = position.cursor;
+		let pages = 0;
+		do {
+			const page = await environment.ASSET_WORKER.markUnreferencedBlobs({ cursor, dryRun });
+			report.markedBlobs += page.markedBlobs.length;
+			addOrphans(page.markedBlobs.map((hash): Orphan => ({ type: 'blob', key: hash })));
+			cursor = page.cursor;
+			pages++;
+		} while (cursor && pages < BLOB_PAGES_PER_RUN);
+
+		report.completedPass = cursor === undefined;
+		position = cursor ? { phase: 'blobs', cursor } : { phase: 'projects' };
+	}
+
+	if (!dryRun) {
+		await projectsKv.put(ORPHAN_SWEEP_CURSOR_KEY, JSON.stringify(position));
+	}
+
+	return report;
+}
+
+/**
+ * Deletes a project's server-side code modules that none of its deployment manifests uses.
+ *
+ * @param serverSideCodeKv - The KV namespace storing server-side code
+ * @param projectId - The project to sweep
+ * @param dryRun - Whether to only report the modules
+ * @returns The keys of the deleted modules (or those that would be, in a dry run)
+ */
+async function sweepProjectModules(serverSideCodeKv: KVNamespace, projectId: string, dryRun: boolean): Promise<string[]> {
+	const prefix = getServerSideCodePrefix(projectId);
+	const manifestKey = getServerSideCodeManifestKey(projectId);
+	const now = Date.now();
+
+	const usedHashes = new Set<string>();
+	const modules: KVNamespaceListKey<ModuleMetadata>[] = [];
+	for await (const key of listAllKeys<ModuleMetadata>(serverSideCodeKv, { prefix })) {
+		if (key.name === manifestKey || key.name.startsWith(`${manifestKey}/`)) {
+			const manifest = await serverSideCodeKv.get<ServerSideCodeManifest>(key.name, { type: 'json' });
+			for (const { hash } of Object.values(manifest?.modules ?? {})) {
+				usedHashes.add(hash);
+			}
+		} else {
+			modules.push(key);
+		}
+	}
+
+	const orphans = modules
+		// Modules uploaded before their time was recorded are old enough
+		.filter((key) => !usedHashes.has(key.name.slice(prefix.length)) && now - (key.metadata?.uploadedAt ?? 0) >= MODULE_GRACE_PERIOD_MS)
+		.map((key) => key.name);
+
+	if (!dryRun) {
+		await Promise.all(orphans.map((name) => serverSideCodeKv.delete(name)));
+	}
+	return orphans;
+}
@@ -0,0 +1,106 @@
+import { handleOutboundRequest, isOutboundAllowed, matchesOutboundPattern } from './outbound';
+import { outboundPolicySchema } from './validation';
+
+import type { OutboundPolicy } from './types';
+
+describe('outbound', () => {
+	describe('matchesOutboundPattern', () => {
+		it('matches hostnames exactly', () => {
+			expect(matchesOutboundPattern(new URL('https://api.example.com/v1'), 'api.example.com')).toBe(true);
+			expect(matchesOutboundPattern(new URL('http://API.example.com:8080/'), 'api.example.com')).toBe(true);
+			expect(matchesOutboundPattern(new URL('https://example.com/'), 'api.example.com')).toBe(false);
+			expect(matchesOutboundPattern(new URL('https://api.example.com.evil.com/'), 'api.example.com')).toBe(false);
+		});
+
+		it('matches subdomains with wildcard hostnames', () => {
+			expect(matchesOutboundPattern(new URL('https://tenant.auth.example.com/'), '*.example.com')).toBe(true);
+			expect(matchesOutboundPattern(new URL('https://example.com/'), '*.example.com')).toBe(false);
+			expect(matchesOutboundPattern(new URL('https://badexample.com/'), '*.example.com')).toBe(false);
+		});
+
+		it('matches URL patterns', () => {
+			const pattern = 'https://api.example.com/v1/*';
+			expect(matchesOutboundPattern(new URL('https://api.example.com/v1/charges'), pattern)).toBe(true);
+			expect(matchesOutboundPattern(new URL('https://api.example.com/v2/charges'), pattern)).toBe(false);
+			expect(matchesOutboundPattern(new URL('http://api.example.com/v1/charges'), pattern)).toBe(false);
+		});
+
+		it('never matches other protocols', () => {
+			expect(matchesOutboundPattern(new URL('ftp://api.example.com/'), 'api.example.com')).toBe(false);
+		});
+	});
+
+	describe('isOutboundAllowed', () => {
+		it('blocks everything without a policy', () => {
+			expect(isOutboundAllowed(new URL('https://api.example.com/'))).toBe(false);
+			expect(isOutboundAllowed(new URL('https://api.example.com/'), { allow: [] })).toBe(false);
+		});
+
+		it('allows requests matching any pattern', () => {
+			const policy: OutboundPolicy = { allow: ['api.example.com', '*.auth.example.com'] };
+			expect(isOutboundAllowed(new URL('https://tenant.auth.example.com/token'), policy)).toBe(true);
+			expect(isOutboundAllowed(new URL('https://other.example.com/'), policy)).toBe(false);
+		});
+	});
+
+	describe('handleOutboundRequest', () => {
+		const policy: OutboundPolicy = {
+			allow: ['api.example.com', 'cdn.example.com'],
+			headers: [{ match: 'https://api.example.com/*', headers: { Authorization: 'Bearer platform-key' } }],
+		};
+		const forwardedRequests: Request[] = [];
+
+		beforeEach(() => {
+			forwardedRequests.length = 0;
+			vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+				forwardedRequests.push(new Request(input));
+				return new Response('upstream');
+			});
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it('blocks requests to hosts that are not allowed', async () => {
+			const response = await handleOutboundRequest(new Request('https://evil.com/steal'), 'project-1', policy);
+
+			expect(response.status).toBe(403);
+			expect(response.headers.get('X-Outbound-Blocked')).toBe('true');
+			expect(await response.text()).toContain('https://evil.com blocked');
+			expect(forwardedRequests).toHaveLength(0);
+		});
+
+		it('forwards allowed requests with the headers of matching rules, without following redirects', async () => {
+			const response = await handleOutboundRequest(new Request('https://api.example.com/v1/charges'), 'project-1', policy);
+
+			expect(await response.text()).toBe('upstream');
+			const [forwarded] = forwardedRequests;
+			expect(forwarded!.url).toBe('https://api.example.com/v1/charges');
+			expect(forwarded!.headers.get('Authorization')).toBe('Bearer platform-key');
+			expect(forwarded!.redirect).toBe('manual');
+		});
+
+		it('does not add headers to requests other rules allow', async () => {
+			await handleOutboundRequest(new Request('https://cdn.example.com/image.png'), 'project-1', policy);
+
+			expect(forwardedRequests[0]!.headers.get('Authorization')).toBeNull();
+		});
+	});
+
+	describe('outboundPolicySchema', () => {
+		it('accepts hostnames, wildcard hostnames and http(s) URL patterns', () => {
+			const result = outboundPolicySchema.safeParse({
+				allow: ['api.example.com', '*.example.com', 'https://api.example.com/v1/*'],
+				headers: [{ match: 'api.example.com', headers: { 'X-Api-Key': 'key' } }],
+			});
+			expect(result.success).toBe(true);
+		});
+
+		it('rejects invalid patterns', () => {
+			for (const pattern of ['API.example.com', 'api.*.com', '*', 'ftp://example.com/*', 'https://[invalid']) {
+				expect(outboundPolicySchema.safeParse({ allow: [pattern] }).success).toBe(false);
+			}
+		});
+	});
+});
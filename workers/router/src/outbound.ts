@@ -0,0 +1,88 @@
+import { Analytics } from './analytics';
+
+import type { OutboundPolicy } from './types';
+
+/**
+ * Checks whether a URL matches an outbound pattern.
+ *
+ * Hostname patterns match any http(s) URL on that host; `*.example.com` matches subdomains of
+ * example.com but not example.com itself. Patterns containing `://` are URL patterns (see URLPattern),
+ * e.g. `https://api.example.com/v1/*`.
+ *
+ * @param url - The requested URL
+ * @param pattern - A validated outbound pattern
+ * @returns True if the URL matches
+ */
+export function matchesOutboundPattern(url: URL, pattern: string): boolean {
+	if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+		return false;
+	}
+
+	if (pattern.includes('://')) {
+		try {
+			return new URLPattern(pattern).test(url.href);
+		} catch {
+			return false;
+		}
+	}
+
+	const hostname = url.hostname.toLowerCase();
+	if (pattern.startsWith('*.')) {
+		return hostname.endsWith(pattern.slice(1));
+	}
+	return hostname === pattern;
+}
+
+/**
+ * Checks whether a project's outbound policy allows a request. Without a policy nothing is allowed.
+ *
+ * @param url - The requested URL
+ * @param policy - The outbound policy of the deployment
+ * @returns True if any allowed pattern matches
+ */
+export function isOutboundAllowed(url: URL, policy?: OutboundPolicy): boolean {
+	return policy?.allow.some((pattern) => matchesOutboundPattern(url, pattern)) ?? false;
+}
+
+/**
+ * Handles an outbound request of server-side code: forwards it if the policy allows it, with the
+ * headers of all matching header rules added, and answers it with 403 otherwise.
+ * Blocked requests are recorded in analytics with the request type `outbound_blocked`.
+ *
+ * @param request - The outbound request made by the server-side code
+ * @param projectId - The project the code belongs to
+ * @param policy - The outbound policy of the deployment
+ * @returns The upstream response, or a 403 response explaining why the request was blocked
+ */
+export async function handleOutboundRequest(request: Request, projectId: string, policy: OutboundPolicy | undefined): Promise<Response> {
+	const url = new URL(request.url);
+
+	if (!isOutboundAllowed(url, policy)) {
+		const error = `Outbound request to ${url.origin} blocked: the host is not in the project's outbound allowlist`;
+		const analytics = new Analytics();
+		analytics.setData({
+			projectId,
+			hostname: url.hostname,
+			pathname: url.pathname,
+			method: request.method,
+			requestType: 'outbound_blocked',
+			status: 403,
+			error,
+		});
+		analytics.write();
+
+		return new Response(error, { status: 403, headers: { 'X-Outbound-Blocked': 'true' } });
+	}
+
+	// Redirects are returned to the server-side code, so the request to the new location passes this check too
+	const outboundRequest = new Request(request, { redirect: 'manual' });
+	for (const rule of policy?.headers ?? []) {
+		if (!matchesOutboundPattern(url, rule.match)) {
+			continue;
+		}
+		for (const [name, value] of Object.entries(rule.headers)) {
+			outboundRequest.headers.set(name, value);
+		}
+	}
+	return fetch(outboundRequest);
+}
@@ -0,0 +1,137 @@
+import { env } from 'cloudflare:test';
+
+import {
+	deleteAllProjectData,
+	deleteProjectData,
+	getProjectData,
+	getProjectDataUsage,
+	listProjectData,
+	putProjectData,
+} from './project-data';
+import { MAX_DATA_KEY_SIZE, MAX_DATA_KEYS, MAX_DATA_STORAGE_SIZE, MAX_DATA_VALUE_SIZE } from './validation';
+import { createMock } from '../../shared/test-utilities';
+
+describe('project-data', () => {
+	const kv = env.KV_PROJECT_DATA;
+	const quota = env.PROJECT_DATA_QUOTA;
+
+	beforeEach(async () => {
+		const keys = await kv.list();
+		for (const key of keys.keys) {
+			await kv.delete(key.name);
+		}
+	});
+
+	it('stores values per project', async () => {
+		await putProjectData(kv, quota, 'project-1', 'greeting', 'hello');
+		await putProjectData(kv, quota, 'project-2', 'greeting', 'hi');
+
+		expect(await getProjectData(kv, 'project-1', 'greeting')).toBe('hello');
+		expect(await getProjectData(kv, 'project-2', 'greeting')).toBe('hi');
+		expect(await getProjectData(kv, 'project-1', 'missing')).toBeNull();
+	});
+
+	it('returns values as JSON or ArrayBuffer', async () => {
+		await putProjectData(kv, quota, 'project-1', 'config', JSON.stringify({ enabled: true }));
+		await putProjectData(kv, quota, 'project-1', 'bytes', new Uint8Array([1, 2, 3]).buffer);
+
+		expect(await getProjectData(kv, 'project-1', 'config', 'json')).toEqual({ enabled: true });
+		const bytes = await getProjectData(kv, 'project-1', 'bytes', 'arrayBuffer');
+		expect(bytes).toBeInstanceOf(ArrayBuffer);
+		expect(bytes).toEqual(new Uint8Array([1, 2, 3]).buffer);
+	});
+
+	it('tracks usage across writes, overwrites and deletes', async () => {
+		await putProjectData(kv, quota, 'project-1', 'a', 'xx');
+		await putProjectData(kv, quota, 'project-1', 'b', 'yyy');
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 2, bytes: 5 });
+
+		await putProjectData(kv, quota, 'project-1', 'a', 'x');
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 2, bytes: 4 });
+
+		await deleteProjectData(kv, quota, 'project-1', 'b');
+		await deleteProjectData(kv, quota, 'project-1', 'missing');
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 1, bytes: 1 });
+		expect(await getProjectData(kv, 'project-1', 'b')).toBeNull();
+	});
+
+	it('counts concurrent writes without a usage record in KV', async () => {
+		await Promise.all(Array.from({ length: 20 }, async (_, index) => putProjectData(kv, quota, 'project-1', `key-${index}`, 'xx')));
+
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 20, bytes: 40 });
+		const { keys } = await kv.list();
+		expect(keys.every((key) => key.name.startsWith('project/project-1/data/'))).toBe(true);
+	});
+
+	it('counts data stored before the usage was tracked', async () => {
+		await kv.put('project/project-1/data/a', 'xx', { metadata: { size: 2 } });
+		await kv.put('project/project-1/data/b', 'yyy', { metadata: { size: 3 } });
+
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 2, bytes: 5 });
+		await putProjectData(kv, quota, 'project-1', 'c', 'z');
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 3, bytes: 6 });
+	});
+
+	it('restores the usage when a write fails', async () => {
+		const failingKv = createMock<KVNamespace>({
+			getWithMetadata: kv.getWithMetadata.bind(kv),
+			put: async () => {
+				throw new Error('KV PUT failed: 429 Too Many Requests');
+			},
+		});
+		await putProjectData(kv, quota, 'project-1', 'a', 'xx');
+
+		await expect(putProjectData(failingKv, quota, 'project-1', 'b', 'yyy')).rejects.toThrow('429');
+		await expect(putProjectData(failingKv, quota, 'project-1', 'a', 'x')).rejects.toThrow('429');
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 1, bytes: 2 });
+	});
+
+	it('lists keys with their sizes, by prefix and page', async () => {
+		await putProjectData(kv, quota, 'project-1', 'user/1', 'a');
+		await putProjectData(kv, quota, 'project-1', 'user/2', 'bb');
+		await putProjectData(kv, quota, 'project-1', 'session/1', 'c');
+		await putProjectData(kv, quota, 'project-2', 'user/3', 'd');
+
+		const users = await listProjectData(kv, 'project-1', { prefix: 'user/' });
+		expect(users).toEqual({
+			keys: [
+				{ name: 'user/1', size: 1 },
+				{ name: 'user/2', size: 2 },
+			],
+			list_complete: true,
+			cursor: undefined,
+		});
+
+		const firstPage = await listProjectData(kv, 'project-1', { limit: 2 });
+		expect(firstPage.keys).toHaveLength(2);
+		expect(firstPage.list_complete).toBe(false);
+		const secondPage = await listProjectData(kv, 'project-1', { limit: 2, cursor: firstPage.cursor });
+		expect(secondPage.keys.map((key) => key.name)).toEqual(['user/2']);
+	});
+
+	it('rejects invalid keys and oversized values', async () => {
+		await expect(putProjectData(kv, quota, 'project-1', '', 'value')).rejects.toThrow('Key must be a non-empty string');
+		await expect(putProjectData(kv, quota, 'project-1', 'k'.repeat(MAX_DATA_KEY_SIZE + 1), 'value')).rejects.toThrow(RangeError);
+		await expect(putProjectData(kv, quota, 'project-1', 'key', 'v'.repeat(MAX_DATA_VALUE_SIZE + 1))).rejects.toThrow(RangeError);
+	});
+
+	it('enforces the key and storage quotas', async () => {
+		const counter = quota.getByName('project-1');
+		await counter.update('project-1', { keys: MAX_DATA_KEYS, bytes: 0 });
+		await expect(putProjectData(kv, quota, 'project-1', 'one-more', 'value')).rejects.toThrow('Storage quota exceeded');
+
+		await counter.update('project-1', { keys: -MAX_DATA_KEYS, bytes: MAX_DATA_STORAGE_SIZE - 1 });
+		await expect(putProjectData(kv, quota, 'project-1', 'key', 'xx')).rejects.toThrow('Storage quota exceeded');
+		await putProjectData(kv, quota, 'project-1', 'key', 'x');
+	});
+
+	it('deletes all data of a project', async () => {
+		await putProjectData(kv, quota, 'project-1', 'a', 'value');
+		await putProjectData(kv, quota, 'project-1', 'b', 'value');
+		await putProjectData(kv, quota, 'project-2', 'a', 'value');
+
+		expect(await deleteAllProjectData(kv, quota, 'project-1')).toBe(2);
+		expect(await getProjectDataUsage(quota, 'project-1')).toEqual({ keys: 0, bytes: 0 });
+		expect(await getProjectData(kv, 'project-2', 'a')).toBe('value');
+	});
+});
@@ -0,0 +1,302 @@
+import { DurableObject } from 'cloudflare:workers';
+
+import { MAX_DATA_KEY_SIZE, MAX_DATA_KEYS, MAX_DATA_STORAGE_SIZE, MAX_DATA_VALUE_SIZE } from './validation';
+import { deleteAllKeys, listAllKeys } from '../../shared/kv';
+
+/** Value types a project's key-value storage can return, like `KVNamespace.get` */
+export type ProjectDataType = 'text' | 'json' | 'arrayBuffer';
+
+/** Storage a project uses, counted against its quotas */
+export interface ProjectDataUsage {
+	keys: number;
+	bytes: number;
+}
+
+export interface ProjectDataListResult {
+	keys: { name: string; size: number }[];
+	list_complete: boolean;
+	cursor?: string;
+}
+
+interface DataEntryMetadata {
+	size: number;
+}
+
+/**
+ * Generates the KV key prefix of a project's storage.
+ */
+function getProjectDataPrefix(projectId: string): string {
+	return `project/${projectId}/data/`;
+}
+
+/**
+ * Namespaces a key of a project's storage, rejecting keys KV cannot store.
+ */
+function getDataKey(projectId: string, key: string): string {
+	if (typeof key !== 'string' || key.length === 0) {
+		throw new TypeError('Key must be a non-empty string');
+	}
+	if (new TextEncoder().encode(key).length > MAX_DATA_KEY_SIZE) {
+		throw new RangeError(`Key cannot exceed ${MAX_DATA_KEY_SIZE} bytes`);
+	}
+	return getProjectDataPrefix(projectId) + key;
+}
+
+/**
+ * Reads the size of a stored entry without downloading its value.
+ *
+ * @returns The size in bytes, or undefined if the key does not exist
+ */
+async function getEntrySize(projectDataKv: KVNamespace, dataKey: string): Promise<number | undefined> {
+	const { value, metadata } = await projectDataKv.getWithMetadata<DataEntryMetadata>(dataKey, { type: 'stream' });
+	if (value === null) {
+		return undefined;
+	}
+	await value.cancel();
+	return metadata?.size ?? 0;
+}
+
+/**
+ * Durable Object counting the storage one project uses and enforcing its quotas. Addressed by project ID.
+ *
+ * KV allows about one write per second to a key, so the usage cannot be a KV record rewritten by
+ * every write. Calls to one object run one at a time, so a change is checked and applied atomically.
+ */
+export class ProjectDataQuota extends DurableObject<Env> {
+	constructor(context: DurableObjectState, environment: Env) {
+		super(context, environment);
+		context.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS usage (id INTEGER PRIMARY KEY CHECK (id = 1), keys INTEGER NOT NULL, bytes INTEGER NOT NULL)',
+		);
+	}
+
+	/**
+	 * Reads the usage.
+	 *
+	 * @param projectId - The project the object is addressed by, to count its keys on first use
+	 */
+	async get(projectId: string): Promise<ProjectDataUsage> {
+		await this.initialize(projectId);
+		return this.read();
+	}
+
+	/**
+	 * Applies a change to the usage, unless it grows the usage beyond a quota.
+	 *
+	 * @param projectId - The project the object is addressed by, to count its keys on first use
+	 * @param change - The change in keys and bytes, negative for removed data
+	 * @returns The usage after the change, or the exceeded quota if the change was rejected
+	 */
+	async update(projectId: string, change: ProjectDataUsage): Promise<{ usage: ProjectDataUsage; error?: string }> {
+		await this.initialize(projectId);
+
+		// Read, check and write without awaiting, so no other call runs in between
+		const usage = this.read();
+		const newUsage: ProjectDataUsage = { keys: Math.max(0, usage.keys + change.keys), bytes: Math.max(0, usage.bytes + change.bytes) };
+		if (change.keys > 0 && newUsage.keys > MAX_DATA_KEYS) {
+			return { usage, error: `Storage quota exceeded: a project can store at most ${MAX_DATA_KEYS} keys` };
+		}
+		if (change.bytes > 0 && newUsage.bytes > MAX_DATA_STORAGE_SIZE) {
+			return { usage, error: `Storage quota exceeded: a project can store at most ${MAX_DATA_STORAGE_SIZE} bytes` };
+		}
+		this.ctx.storage.sql.exec('UPDATE usage SET keys = ?, bytes = ? WHERE id = 1', newUsage.keys, newUsage.bytes);
+		return { usage: newUsage };
+	}
+
+	/**
+	 * Forgets the usage, when the project's storage is deleted.
+	 */
+	async clear(): Promise<void> {
+		this.ctx.storage.sql.exec('DELETE FROM usage');
+	}
+
+	private read(): ProjectDataUsage {
+		const { keys, bytes } = this.ctx.storage.sql.exec<{ keys: number; bytes: number }>('SELECT keys, bytes FROM usage WHERE id = 1').one();
+		return { keys, bytes };
+	}
+
+	/**
+	 * Counts the keys and value sizes of the project from the key metadata, the first time the object is used.
+	 */
+	private async initialize(projectId: string): Promise<void> {
+		if (this.ctx.storage.sql.exec('SELECT id FROM usage WHERE id = 1').toArray().length > 0) {
+			return;
+		}
+		await this.ctx.blockConcurrencyWhile(async () => {
+			if (this.ctx.storage.sql.exec('SELECT id FROM usage WHERE id = 1').toArray().length > 0) {
+				return;
+			}
+			const usage: ProjectDataUsage = { keys: 0, bytes: 0 };
+			for await (const key of listAllKeys<DataEntryMetadata>(this.env.KV_PROJECT_DATA, { prefix: getProjectDataPrefix(projectId) })) {
+				usage.keys++;
+				usage.bytes += key.metadata?.size ?? 0;
+			}
+			this.ctx.storage.sql.exec('INSERT INTO usage (id, keys, bytes) VALUES (1, ?, ?)', usage.keys, usage.bytes);
+		});
+	}
+}
+
+/**
+ * Reads how much storage a project uses.
+ *
+ * @param projectDataQuota - The namespace counting the storage of projects
+ * @param projectId - The unique identifier of the project
+ * @returns The number of keys and the total size of the values
+ */
+export async function getProjectDataUsage(
+	projectDataQuota: DurableObjectNamespace<ProjectDataQuota>,
+	projectId: string,
+): Promise<ProjectDataUsage> {
+	return projectDataQuota.getByName(projectId).get(projectId);
+}
+
+/**
+ * Reads a value from a project's storage.
+ *
+ * @param projectDataKv - The KV namespace storing project data
+ * @param projectId - The unique identifier of the project
+ * @param key - The key within the project's storage
+ * @param type - How to return the value
+ * @returns The value, or null if the key does not exist (like `KVNamespace.get`)
+ */
+export async function getProjectData(
+	projectDataKv: KVNamespace,
+	projectId: string,
+	key: string,
+	type: ProjectDataType = 'text',
+): Promise<unknown> {
+	const dataKey = getDataKey(projectId, key);
+	switch (type) {
+		case 'json': {
+			return projectDataKv.get(dataKey, { type: 'json' });
+		}
+		case 'arrayBuffer': {
+			return projectDataKv.get(dataKey, { type: 'arrayBuffer' });
+		}
+		default: {
+			return projectDataKv.get(dataKey, { type: 'text' });
+		}
+	}
+}
+
+/**
+ * Writes a value to a project's storage.
+ *
+ * The usage is updated before the value is written and restored if the write fails. Concurrent
+ * writes of the same key may each count it as new, leaving the usage slightly off.
+ *
+ * @param projectDataKv - The KV namespace storing project data
+ * @param projectDataQuota - The namespace counting the storage of projects
+ * @param projectId - The unique identifier of the project
+ * @param key - The key within the project's storage
+ * @param value - The value to store
+ * @throws RangeError if the key or value is too large, or the write would exceed the project's quotas
+ */
+export async function putProjectData(
+	projectDataKv: KVNamespace,
+	projectDataQuota: DurableObjectNamespace<ProjectDataQuota>,
+	projectId: string,
+	key: string,
+	value: string | ArrayBuffer,
+): Promise<void> {
+	const dataKey = getDataKey(projectId, key);
+	if (typeof value !== 'string' && !(value instanceof ArrayBuffer)) {
+		throw new TypeError('Value must be a string or an ArrayBuffer');
+	}
+
+	const size = typeof value === 'string' ? new TextEncoder().encode(value).length : value.byteLength;
+	if (size > MAX_DATA_VALUE_SIZE) {
+		throw new RangeError(`Value cannot exceed ${MAX_DATA_VALUE_SIZE} bytes`);
+	}
+
+	const previousSize = await getEntrySize(projectDataKv, dataKey);
+	const change: ProjectDataUsage = { keys: previousSize === undefined ? 1 : 0, bytes: size - (previousSize ?? 0) };
+	const quota = projectDataQuota.getByName(projectId);
+	const { error } = await quota.update(projectId, change);
+	if (error) {
+		throw new RangeError(error);
+	}
+
+	const metadata: DataEntryMetadata = { size };
+	try {
+		await projectDataKv.put(dataKey, value, { metadata });
+	} catch (error) {
+		await quota.update(projectId, { keys: -change.keys, bytes: -change.bytes });
+		throw error;
+	}
+}
+
+/**
+ * Deletes a value from a project's storage. Deleting a key that does not exist is a no-op.
+ *
+ * @param projectDataKv - The KV namespace storing project data
+ * @param projectDataQuota - The namespace counting the storage of projects
+ * @param projectId - The unique identifier of the project
+ * @param key - The key within the project's storage
+ */
+export async function deleteProjectData(
+	projectDataKv: KVNamespace,
+	projectDataQuota: DurableObjectNamespace<ProjectDataQuota>,
+	projectId: string,
+	key: string,
+): Promise<void> {
+	const dataKey = getDataKey(projectId, key);
+	const size = await getEntrySize(projectDataKv, dataKey);
+	if (size === undefined) {
+		return;
+	}
+
+	const quota = projectDataQuota.getByName(projectId);
+	await quota.update(projectId, { keys: -1, bytes: -size });
+	try {
+		await projectDataKv.delete(dataKey);
+	} catch (error) {
+		await quota.update(projectId, { keys: 1, bytes: size });
+		throw error;
+	}
+}
+
+/**
+ * Lists keys of a project's storage, in lexicographic order.
+ *
+ * @param projectDataKv - The KV namespace storing project data
+ * @param projectId - The unique identifier of the project
+ * @param options - Key prefix, page size (at most 1000) and the cursor of the previous page
+ * @returns A page of keys with their value sizes
+ */
+export async function listProjectData(
+	projectDataKv: KVNamespace,
+	projectId: string,
+	options: { prefix?: string; limit?: number; cursor?: string } = {},
+): Promise<ProjectDataListResult> {
+	const dataPrefix = getProjectDataPrefix(projectId);
+	const result = await projectDataKv.list<DataEntryMetadata>({
+		prefix: dataPrefix + (options.prefix ?? ''),
+		limit: Math.min(Math.max(1, options.limit ?? 1000), 1000),
+		cursor: options.cursor,
+	});
+
+	return {
+		keys: result.keys.map((key) => ({ name: key.name.slice(dataPrefix.length), size: key.metadata?.size ?? 0 })),
+		list_complete: result.list_complete,
+		cursor: result.list_complete ? undefined : result.cursor,
+	};
+}
+
+/**
+ * Deletes all of a project's storage, including its usage.
+ *
+ * @param projectDataKv - The KV namespace storing project data
+ * @param projectDataQuota - The namespace counting the storage of projects
+ * @param projectId - The unique identifier of the project
+ * @returns The number of deleted keys
+ */
+export async function deleteAllProjectData(
+	projectDataKv: KVNamespace,
+	projectDataQuota: DurableObjectNamespace<ProjectDataQuota>,
+	projectId: string,
+): Promise<number> {
+	const deletedKeys = await deleteAllKeys(projectDataKv, { prefix: getProjectDataPrefix(projectId) });
+	await projectDataQuota.getByName(projectId).clear();
+	return deletedKeys;
+}
@@ -0,0 +1,140 @@
+import { env } from 'cloudflare:test';
+
+import { createLogEntries, getProjectLogs } from './project-logs';
+import { createProject, deleteProject } from './project-manager';
+import { MAX_LOG_ENTRIES, MAX_LOG_MESSAGE_LENGTH } from './validation';
+import { createMock } from '../../shared/test-utilities';
+
+import type { LogEntry } from './types';
+import type AssetApi from '../../asset-service/src/worker';
+
+interface ProjectResponse {
+	project: { id: string };
+}
+
+interface LogsResponse {
+	success: boolean;
+	logs: LogEntry[];
+	pagination: { nextBefore?: number; hasMore: boolean };
+}
+
+describe('project-logs', () => {
+	const projectsKv = env.KV_PROJECTS;
+	let projectId: string;
+
+	beforeEach(async () => {
+		const response = await createProject(new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }), projectsKv);
+		const data = await response.json<ProjectResponse>();
+		projectId = data.project.id;
+	});
+
+	function logEntry(message: string, level: LogEntry['level'] = 'log'): Omit<LogEntry, 'id'> {
+		return { timestamp: new Date().toISOString(), level, message };
+	}
+
+	async function fetchLogs(query = ''): Promise<Response> {
+		return getProjectLogs(projectId, new Request(`http://example.com/logs${query}`), projectsKv, env.PROJECT_LOGS);
+	}
+
+	async function listLogs(query = ''): Promise<LogsResponse> {
+		const response = await fetchLogs(query);
+		return response.json<LogsResponse>();
+	}
+
+	describe('createLogEntries', () => {
+		it('converts console calls and exceptions of trace events', () => {
+			const event = createMock<TraceItem>({
+				event: createMock<TraceItemFetchEventInfo>({
+					request: createMock<TraceItemFetchEventInfoRequest>({ method: 'GET', url: 'https://app.example.com/api' }),
+				}),
+				logs: [
+					{ timestamp: 1000, level: 'log', message: ['user', { id: 1 }] },
+					{ timestamp: 2000, level: 'warn', message: ['x'.repeat(MAX_LOG_MESSAGE_LENGTH + 10)] },
+				],
+				exceptions: [{ timestamp: 3000, name: 'TypeError', message: 'boom', stack: 'TypeError: boom\n    at fetch (index.js:3:11)' }],
+			});
+
+			const [log, warning, exception] = createLogEntries([event]);
+			expect(log).toEqual({
+				timestamp: new Date(1000).toISOString(),
+				level: 'log',
+				message: 'user {"id":1}',
+				trigger: 'GET https://app.example.com/api',
+			});
+			expect(warning!.message).toHaveLength(MAX_LOG_MESSAGE_LENGTH + 1);
+			expect(exception).toMatchObject({ level: 'exception', message: 'TypeError: boom', stack: expect.stringContaining('index.js:3:11') });
+		});
+	});
+
+	describe('getProjectLogs', () => {
+		it('lists entries newest first, by level and page', async () => {
+			await env.PROJECT_LOGS.getByName(projectId).append([logEntry('first'), logEntry('failed', 'error'), logEntry('third')]);
+
+			const data = await listLogs();
+			expect(data.logs.map((entry) => entry.message)).toEqual(['third', 'failed', 'first']);
+
+			const errors = await listLogs('?level=error');
+			expect(errors.logs.map((entry) => entry.message)).toEqual(['failed']);
+
+			const firstPage = await listLogs('?limit=2');
+			expect(firstPage.pagination.hasMore).toBe(true);
+			const secondPage = await listLogs(`?limit=2&before=${firstPage.pagination.nextBefore}`);
+			expect(secondPage.logs.map((entry) => entry.message)).toEqual(['first']);
+		});
+
+		it('keeps only the most recent entries', async () => {
+			const entries = Array.from({ length: MAX_LOG_ENTRIES + 5 }, (_, index) => logEntry(`entry ${index}`));
+			await env.PROJECT_LOGS.getByName(projectId).append(entries);
+
+			const data = await listLogs(`?limit=${MAX_LOG_ENTRIES}`);
+			expect(data.logs).toHaveLength(MAX_LOG_ENTRIES);
+			expect(data.logs[0]!.message).toBe(`entry ${MAX_LOG_ENTRIES + 4}`);
+			expect(data.logs[MAX_LOG_ENTRIES - 1]!.message).toBe('entry 5');
+		});
+
+		it('streams new entries as server-sent events', async () => {
+			const response = await fetchLogs('?stream=true');
+			expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+			const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+			const connected = await reader.read();
+			expect(connected.value).toContain(': connected');
+
+			await env.PROJECT_LOGS.getByName(projectId).append([logEntry('live')]);
+			const { value } = await reader.read();
+			expect(value).toMatch(/^id: \d+\nevent: log\ndata: .*"message":"live"/);
+
+			// Clearing closes the stream, which isolated test storage requires
+			await env.PROJECT_LOGS.getByName(projectId).clear();
+			const closed = await reader.read();
+			expect(closed.done).toBe(true);
+		});
+
+		it('rejects invalid parameters and unknown projects', async () => {
+			const invalid = await fetchLogs('?level=verbose');
+			expect(invalid.status).toBe(400);
+
+			const response = await getProjectLogs('non-existent', new Request('http://example.com/logs'), projectsKv, env.PROJECT_LOGS);
+			expect(response.status).toBe(404);
+		});
+
+		it('deletes logs with the project', async () => {
+			await env.PROJECT_LOGS.getByName(projectId).append([logEntry('entry')]);
+			const assetWorker = createMock<Service<AssetApi>>({
+				deleteProjectAssets: async () => ({ deletedAssets: 0, deletedManifest: false }),
+			});
+
+			await deleteProject(
+				projectId,
+				projectsKv,
+				env.KV_SERVER_SIDE_CODE,
+				env.KV_PROJECT_DATA,
+				env.PROJECT_DATA_QUOTA,
+				env.PROJECT_LOGS,
+				env.DEPLOYMENT_SEQUENCE,
+				assetWorker,
+			);
+			expect(await env.PROJECT_LOGS.getByName(projectId).list()).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,247 @@
+import { DurableObject } from 'cloudflare:workers';
+import { z } from 'zod';
+
+import { getProject } from './project-manager';
+import { LOG_LEVELS, MAX_LOG_ENTRIES, MAX_LOG_MESSAGE_LENGTH, projectLogsQuerySchema } from './validation';
+
+import type { LogEntry, LogLevel } from './types';
+
+// Default number of entries returned by the logs API
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Formats the arguments of a console call like the console does: strings as is, other values as JSON.
+ */
+function formatLogMessage(message: unknown): string {
+	const formatted = (Array.isArray(message) ? message : [message])
+		.map((argument: unknown) => {
+			if (typeof argument === 'string') {
+				return argument;
+			}
+			try {
+				return JSON.stringify(argument) ?? String(argument);
+			} catch {
+				return String(argument);
+			}
+		})
+		.join(' ');
+	return formatted.length > MAX_LOG_MESSAGE_LENGTH ? `${formatted.slice(0, MAX_LOG_MESSAGE_LENGTH)}…` : formatted;
+}
+
+/**
+ * Describes what a traced invocation handled.
+ */
+function describeTrigger(event: TraceItem['event']): string | undefined {
+	if (event && 'request' in event) {
+		return `${event.request.method} ${event.request.url}`;
+	}
+	// Scheduled runs reach the code through the RPC method of the generated scheduled entrypoint
+	if (event && 'rpcMethod' in event && event.rpcMethod === 'runScheduled') {
+		return 'scheduled';
+	}
+	return undefined;
+}
+
+/**
+ * Converts the trace events of dynamic workers into log entries: one per console call and one per uncaught exception.
+ *
+ * @param events - The trace events received by the tail handler
+ * @returns The entries in the order of the trace events, without IDs
+ */
+export function createLogEntries(events: TraceItem[]): Omit<LogEntry, 'id'>[] {
+	const entries: Omit<LogEntry, 'id'>[] = [];
+
+	for (const event of events) {
+		const trigger = describeTrigger(event.event);
+		for (const log of event.logs) {
+			const level = LOG_LEVELS.find((knownLevel) => knownLevel === log.level) ?? 'log';
+			entries.push({ timestamp: new Date(log.timestamp).toISOString(), level, message: formatLogMessage(log.message), trigger });
+		}
+		for (const exception of event.exceptions) {
+			entries.push({
+				timestamp: new Date(exception.timestamp).toISOString(),
+				level: 'exception',
+				message: formatLogMessage(`${exception.name}: ${exception.message}`),
+				stack: exception.stack,
+				trigger,
+			});
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Durable Object holding the most recent log entries of one project in a ring buffer of
+ * {@link MAX_LOG_ENTRIES} entries, and pushing new entries to live streams (server-sent events).
+ * Addressed by project ID.
+ */
+export class ProjectLogs extends DurableObject<Env> {
+	// Open streams with the level they are filtered to
+	private readonly streams = new Map<WritableStreamDefaultWriter<Uint8Array>, LogLevel | undefined>();
+
+	constructor(context: DurableObjectState, environment: Env) {
+		super(context, environment);
+		context.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS logs (id INTEGER PRIMARY KEY AUTOINCREMENT, level TEXT NOT NULL, entry TEXT NOT NULL)',
+		);
+	}
+
+	/**
+	 * Appends entries, dropping the oldest beyond the buffer size, and pushes them to open streams.
+	 */
+	async append(entries: Omit<LogEntry, 'id'>[]): Promise<void> {
+		const sql = this.ctx.storage.sql;
+		const appended: LogEntry[] = [];
+
+		for (const entry of entries) {
+			const { id } = sql
+				.exec<{ id: number }>('INSERT INTO logs (level, entry) VALUES (?, ?) RETURNING id', entry.level, JSON.stringify(entry))
+				.one();
+			appended.push({ id, ...entry });
+		}
+		sql.exec('DELETE FROM logs WHERE id <= (SELECT MAX(id) FROM logs) - ?', MAX_LOG_ENTRIES);
+
+		for (const [writer, level] of this.streams) {
+			for (const entry of appended) {
+				if (level === undefined || entry.level === level) {
+					this.send(writer, entry);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Lists entries, newest first.
+	 *
+	 * @param options - Page size, the ID to list entries before, and the level to filter by
+	 */
+	async list(options: { limit?: number; before?: number; level?: LogLevel } = {}): Promise<LogEntry[]> {
+		const levelFilter = options.level === undefined ? [] : [options.level];
+		const rows = this.ctx.storage.sql
+			.exec<{
+				id: number;
+				entry: string;
+			}>(
+				`SELECT id, entry FROM logs WHERE id < ?${options.level === undefined ? '' : ' AND level = ?'} ORDER BY id DESC LIMIT ?`,
+				options.before ?? Number.MAX_SAFE_INTEGER,
+				...levelFilter,
+				options.limit ?? DEFAULT_PAGE_SIZE,
+			)
+			.toArray();
+		return rows.map((row) => ({ id: row.id, ...JSON.parse(row.entry) }));
+	}
+
+	/**
+	 * Deletes all entries and closes open streams.
+	 */
+	async clear(): Promise<void> {
+		this.ctx.storage.sql.exec('DELETE FROM logs');
+		for (const writer of this.streams.keys()) {
+			writer.close().catch(() => {});
+		}
+		this.streams.clear();
+	}
+
+	/**
+	 * Opens a live stream of new entries as server-sent events, optionally filtered by the `level`
+	 * query parameter. Reconnecting clients receive the entries they missed (`Last-Event-ID`).
+	 */
+	override async fetch(request: Request): Promise<Response> {
+		const level = LOG_LEVELS.find((knownLevel) => knownLevel === new URL(request.url).searchParams.get('level'));
+		const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+		const writer = writable.getWriter();
+		this.streams.set(writer, level);
+
+		writer.write(new TextEncoder().encode(': connected\n\n')).catch(() => this.streams.delete(writer));
+
+		const lastEventId = Number(request.headers.get('Last-Event-ID'));
+		if (Number.isInteger(lastEventId) && lastEventId > 0) {
+			const missed = this.ctx.storage.sql
+				.exec<{ id: number; entry: string }>('SELECT id, entry FROM logs WHERE id > ? ORDER BY id', lastEventId)
+				.toArray()
+				.map((row): LogEntry => ({ id: row.id, ...JSON.parse(row.entry) }));
+			for (const entry of missed) {
+				if (level === undefined || entry.level === level) {
+					this.send(writer, entry);
+				}
+			}
+		}
+
+		return new Response(readable, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
+			},
+		});
+	}
+
+	/**
+	 * Writes an entry to a stream, forgetting the stream once the client has disconnected.
+	 */
+	private send(writer: WritableStreamDefaultWriter<Uint8Array>, entry: LogEntry): void {
+		const event = `id: ${entry.id}\nevent: log\ndata: ${JSON.stringify(entry)}\n\n`;
+		writer.write(new TextEncoder().encode(event)).catch(() => this.streams.delete(writer));
+	}
+}
+
+/**
+ * Returns a project's captured logs for the `GET /__api/projects/:projectId/logs` endpoint, or a live stream
+ * of new entries with `stream=true` or `Accept: text/event-stream`.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param request - The HTTP request with optional `limit`, `before`, `level` and `stream` query parameters
+ * @param projectsKv - The KV namespace for project metadata
+ * @param projectLogs - The namespace of the log buffers
+ * @returns JSON response with the entries (newest first) or an event stream,
+ *   400 for invalid parameters or 404 if the project is not found
+ */
+export async function getProjectLogs(
+	projectId: string,
+	request: Request,
+	projectsKv: KVNamespace,
+	projectLogs: DurableObjectNamespace<ProjectLogs>,
+): Promise<Response> {
+	const url = new URL(request.url);
+	const queryValidation = projectLogsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+	if (!queryValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(queryValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const { stream, ...options } = queryValidation.data;
+	const logs = projectLogs.getByName(projectId);
+
+	if (stream === 'true' || (stream === undefined && request.headers.get('Accept')?.includes('text/event-stream'))) {
+		return logs.fetch(request);
+	}
+
+	const entries = await logs.list(options);
+	// A full page may be followed by older entries, listed before the oldest entry of this page
+	const nextBefore = entries.length === (options.limit ?? DEFAULT_PAGE_SIZE) ? Math.min(...entries.map((entry) => entry.id)) : undefined;
+
+	return Response.json(
+		{
+			success: true,
+			logs: entries,
+			pagination: {
+				nextBefore,
+				hasMore: nextBefore !== undefined,
+			},
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
@@ -8,6 +8,10 @@ import {
 	getProject,
 	getServerSideCodePrefix,
 	getServerSideCodeKey,
+	getSlugKey,
+	resolveProjectName,
+	updateProject,
+	updateProjectSlug,
 } from './project-manager';
 import { ProjectMetadata } from './types';
 import { createMock } from '../../shared/test-utilities';
@@ -318,7 +322,16 @@ describe('project-manager', () => {
 			});
 
 			// Delete the project
-			const response = await deleteProject(projectId, projectsKv, serverSideCodeKv, mockAssetWorker);
+			const response = await deleteProject(
+				projectId,
+				projectsKv,
+				serverSideCodeKv,
+				env.KV_PROJECT_DATA,
+				env.PROJECT_DATA_QUOTA,
+				env.PROJECT_LOGS,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+			);
 			expect(response.status).toBe(200);
 
 			const data = await response.json<{ success: boolean; message: string }>();
@@ -335,7 +348,16 @@ describe('project-manager', () => {
 				deleteProjectAssets: async () => ({ deletedAssets: 0, deletedManifest: false }),
 			});
 
-			const response = await deleteProject('non-existent-id', projectsKv, serverSideCodeKv, mockAssetWorker);
+			const response = await deleteProject(
+				'non-existent-id',
+				projectsKv,
+				serverSideCodeKv,
+				env.KV_PROJECT_DATA,
+				env.PROJECT_DATA_QUOTA,
+				env.PROJECT_LOGS,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+			);
 			expect(response.status).toBe(404);
 		});
 
@@ -362,7 +384,16 @@ describe('project-manager', () => {
 			});
 
 			// Delete the project
-			const response = await deleteProject(projectId, projectsKv, serverSideCodeKv, mockAssetWorker);
+			const response = await deleteProject(
+				projectId,
+				projectsKv,
+				serverSideCodeKv,
+				env.KV_PROJECT_DATA,
+				env.PROJECT_DATA_QUOTA,
+				env.PROJECT_LOGS,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+			);
 			const data = await response.json<{
 				success: boolean;
 				message?: string;
@@ -399,7 +430,16 @@ describe('project-manager', () => {
 				},
 			});
 
-			const response = await deleteProject(projectId, projectsKv, serverSideCodeKv, mockAssetWorker);
+			const response = await deleteProject(
+				projectId,
+				projectsKv,
+				serverSideCodeKv,
+				env.KV_PROJECT_DATA,
+				env.PROJECT_DATA_QUOTA,
+				env.PROJECT_LOGS,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+			);
 			const data = await response.json<{
 				success: boolean;
 				message?: string;
@@ -413,6 +453,191 @@ describe('project-manager', () => {
 		});
 	});
 
+	describe('slugs', () => {
+		async function createWithSlug(slug: string): Promise<Response> {
+			return await createProject(
+				new Request('http://example.com', { method: 'POST', body: JSON.stringify({ name: 'Slugged', slug }) }),
+				projectsKv,
+			);
+		}
+
+		async function createSluggedProject(slug: string): Promise<string> {
+			const response = await createWithSlug(slug);
+			const data = await response.json<{ project: ProjectMetadata }>();
+			return data.project.id;
+		}
+
+		function slugRequest(slug: string): Request {
+			return new Request('http://example.com', { method: 'PUT', body: JSON.stringify({ slug }) });
+		}
+
+		it('creates a project with a slug and indexes it', async () => {
+			const response = await createWithSlug('my-shop');
+			expect(response.status).toBe(201);
+
+			const data = await response.json<{ project: ProjectMetadata }>();
+			expect(data.project.slug).toBe('my-shop');
+			expect(await resolveProjectName('my-shop', projectsKv)).toEqual({ projectId: data.project.id });
+		});
+
+		it('rejects invalid and reserved slugs', async () => {
+			for (const slug of [
+				'My-Shop',
+				'my_shop',
+				'-shop',
+				'shop-',
+				'2--shop',
+				'www',
+				'admin',
+				'550e8400-e29b-41d4-a716-446655440000',
+				'a'.repeat(64),
+			]) {
+				const response = await createWithSlug(slug);
+				expect(response.status).toBe(400);
+			}
+		});
+
+		it('rejects a slug that is already in use', async () => {
+			await createWithSlug('my-shop');
+
+			const response = await createWithSlug('my-shop');
+			expect(response.status).toBe(409);
+			const data = await response.json<{ success: boolean; error: string }>();
+			expect(data.success).toBe(false);
+		});
+
+		it('allows reclaiming the slug of a project that no longer exists', async () => {
+			await projectsKv.put(getSlugKey('my-shop'), JSON.stringify({ projectId: 'expired-project' }));
+
+			const response = await createWithSlug('my-shop');
+			expect(response.status).toBe(201);
+		});
+
+		it('resolves unknown names and project IDs as project IDs', async () => {
+			expect(await resolveProjectName('legacy-project', projectsKv)).toEqual({ projectId: 'legacy-project' });
+			expect(await resolveProjectName('550e8400-e29b-41d4-a716-446655440000', projectsKv)).toEqual({
+				projectId: '550e8400-e29b-41d4-a716-446655440000',
+			});
+		});
+
+		it('renames a slug and keeps the previous slug redirecting', async () => {
+			const projectId = await createSluggedProject('old-shop');
+
+			const response = await updateProjectSlug(projectId, slugRequest('new-shop'), projectsKv);
+			expect(response.status).toBe(200);
+			const data = await response.json<{ previousSlug: string; project: ProjectMetadata }>();
+			expect(data.previousSlug).toBe('old-shop');
+			expect(data.project.slug).toBe('new-shop');
+
+			expect(await resolveProjectName('new-shop', projectsKv)).toEqual({ projectId });
+			expect(await resolveProjectName('old-shop', projectsKv)).toEqual({ projectId, redirectToSlug: 'new-shop' });
+		});
+
+		it('keeps the previous slug reserved during the grace period', async () => {
+			const projectId = await createSluggedProject('old-shop');
+			await updateProjectSlug(projectId, slugRequest('new-shop'), projectsKv);
+
+			const response = await createWithSlug('old-shop');
+			expect(response.status).toBe(409);
+		});
+
+		it('lets a project switch back to its previous slug', async () => {
+			const projectId = await createSluggedProject('old-shop');
+			await updateProjectSlug(projectId, slugRequest('new-shop'), projectsKv);
+
+			const response = await updateProjectSlug(projectId, slugRequest('old-shop'), projectsKv);
+			expect(response.status).toBe(200);
+			expect(await resolveProjectName('old-shop', projectsKv)).toEqual({ projectId });
+			expect(await resolveProjectName('new-shop', projectsKv)).toEqual({ projectId, redirectToSlug: 'old-shop' });
+		});
+
+		it('rejects renaming to a slug of another project', async () => {
+			await createWithSlug('taken');
+			const projectId = await createSluggedProject('mine');
+
+			const response = await updateProjectSlug(projectId, slugRequest('taken'), projectsKv);
+			expect(response.status).toBe(409);
+		});
+
+		it('returns 404 when renaming a missing project', async () => {
+			const response = await updateProjectSlug('missing', slugRequest('new-shop'), projectsKv);
+			expect(response.status).toBe(404);
+		});
+
+		it('releases the slug when the project is deleted', async () => {
+			const projectId = await createSluggedProject('my-shop');
+			const mockAssetWorker = createMock<Service<AssetApi>>({
+				deleteProjectAssets: async () => ({ deletedAssets: 0, deletedManifest: false, deletedManifests: 0 }),
+			});
+
+			await deleteProject(
+				projectId,
+				projectsKv,
+				serverSideCodeKv,
+				env.KV_PROJECT_DATA,
+				env.PROJECT_DATA_QUOTA,
+				env.PROJECT_LOGS,
+				env.DEPLOYMENT_SEQUENCE,
+				mockAssetWorker,
+			);
+
+			expect(await projectsKv.get(getSlugKey('my-shop'))).toBeNull();
+		});
+	});
+
+	describe('updateProject', () => {
+		function updateRequest(body: object): Request {
+			return new Request('http://example.com', { method: 'PATCH', body: JSON.stringify(body) });
+		}
+
+		async function createTestProject(): Promise<string> {
+			const response = await createProject(new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }), projectsKv);
+			const data = await response.json<ProjectResponse>();
+			return data.project.id;
+		}
+
+		it('replaces the maintenance settings', async () => {
+			const projectId = await createTestProject();
+			const maintenance = {
+				enabled: true,
+				page: '/maintenance.html',
+				retryAfter: 600,
+				allowedIps: ['203.0.113.7', '2001:db8::1'],
+				bypassToken: 'team-preview-token-1234',
+				startsAt: '2025-03-03T09:00:00Z',
+				endsAt: '2025-03-03T11:00:00Z',
+			};
+
+			const response = await updateProject(projectId, updateRequest({ maintenance }), projectsKv);
+			expect(response.status).toBe(200);
+			const project = await getProject(projectId, projectsKv);
+			expect(project?.maintenance).toEqual(maintenance);
+
+			await updateProject(projectId, updateRequest({ maintenance: { enabled: false } }), projectsKv);
+			const updatedProject = await getProject(projectId, projectsKv);
+			expect(updatedProject?.maintenance).toEqual({ enabled: false });
+		});
+
+		it('rejects invalid maintenance settings', async () => {
+			const projectId = await createTestProject();
+			for (const maintenance of [
+				{},
+				{ enabled: true, page: 'maintenance.html' },
+				{ enabled: true, allowedIps: ['not-an-ip'] },
+				{ enabled: true, bypassToken: 'short' },
+				{ enabled: true, startsAt: '2025-03-03T11:00:00Z', endsAt: '2025-03-03T09:00:00Z' },
+			]) {
+				const response = await updateProject(projectId, updateRequest({ maintenance }), projectsKv);
+				expect(response.status).toBe(400);
+			}
+		});
+
+		it('returns 404 for a missing project', async () => {
+			const response = await updateProject('missing', updateRequest({ maintenance: { enabled: true } }), projectsKv);
+			expect(response.status).toBe(404);
+		});
+	});
+
 	describe('utility functions', () => {
 		describe('getServerSideCodePrefix', () => {
 			it('returns correct prefix', () => {
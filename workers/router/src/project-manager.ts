@@ -1,19 +1,27 @@
 import { z } from 'zod';
 
-import { createProjectRequestSchema } from './validation';
-import { deleteAllKeys } from '../../shared/kv';
-
-import type { ProjectMetadata } from './types';
+import { deleteAllProjectData } from './project-data';
+import { createProjectRequestSchema, updateProjectRequestSchema, updateSlugRequestSchema, UUID_PATTERN } from './validation';
+import { deleteAllKeys, listAllKeys } from '../../shared/kv';
+
+import type { DeploymentSequence } from './deployment-sequence';
+import type { ProjectDataQuota } from './project-data';
+import type { ProjectLogs } from './project-logs';
+import type { CustomDomain, ProjectMetadata, ProjectSlug } from './types';
 import type AssetApi from '../../asset-service/src/worker';
 
 // Pagination constants
 const DEFAULT_PAGE_SIZE = 100;
 const MAX_PAGE_SIZE = 100;
 
+// How long a previous slug keeps redirecting after a rename (7 days)
+const SLUG_REDIRECT_TTL = 7 * 24 * 60 * 60;
+
 /**
  * Creates a new project with a unique ID and stores it in KV.
+ * An optional unique slug can be claimed to serve the project on a readable URL.
  *
- * @param request - The incoming HTTP request containing optional project name in JSON body
+ * @param request - The incoming HTTP request containing optional project name and slug in JSON body
  * @param projectsKv - The KV namespace for storing project metadata
  * @returns JSON response with the created project metadata (HTTP 201)
  */
@@ -34,11 +42,22 @@ export async function createProject(request: Request, projectsKv: KVNamespace):
 
 	const body = bodyValidation.data;
 
+	if (body.slug && !(await isSlugAvailable(body.slug, projectsKv))) {
+		return Response.json(
+			{
+				success: false,
+				error: `Slug '${body.slug}' is already in use`,
+			},
+			{ status: 409, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
 	const projectId = crypto.randomUUID();
 
 	const project: ProjectMetadata = {
 		id: projectId,
 		name: body.name || `Project ${projectId}`,
+		slug: body.slug,
 		status: 'PENDING',
 		createdAt: new Date().toISOString(),
 		updatedAt: new Date().toISOString(),
@@ -49,6 +68,11 @@ export async function createProject(request: Request, projectsKv: KVNamespace):
 	// PENDING projects auto-expire after 1 hour if deployment never completes
 	await projectsKv.put(`project/${projectId}/metadata`, JSON.stringify(project), { expirationTtl: 3600 });
 
+	if (body.slug) {
+		const slugEntry: ProjectSlug = { projectId };
+		await projectsKv.put(getSlugKey(body.slug), JSON.stringify(slugEntry));
+	}
+
 	return Response.json(
 		{
 			success: true,
@@ -213,6 +237,10 @@ export async function getProjectInfo(projectId: string, projectsKv: KVNamespace)
  * @param projectId - The unique identifier of the project to delete
  * @param projectsKv - The KV namespace for storing project metadata
  * @param serverSideCodeKv - The KV namespace for storing server-side code modules
+ * @param projectDataKv - The KV namespace backing the `KV` binding of server-side code
+ * @param projectDataQuota - The namespace counting the storage of projects
+ * @param projectLogs - The namespace of the log buffers of server-side code
+ * @param deploymentSequence - The namespace reserving deployment IDs
  * @param assetWorker - The asset service worker for deleting project assets
  * @returns JSON response with deletion statistics or 404 if project not found
  */
@@ -220,6 +248,10 @@ export async function deleteProject(
 	projectId: string,
 	projectsKv: KVNamespace,
 	serverSideCodeKv: KVNamespace,
+	projectDataKv: KVNamespace,
+	projectDataQuota: DurableObjectNamespace<ProjectDataQuota>,
+	projectLogs: DurableObjectNamespace<ProjectLogs>,
+	deploymentSequence: DurableObjectNamespace<DeploymentSequence>,
 	assetWorker: Service<AssetApi>,
 ): Promise<Response> {
 	const project = await getProject(projectId, projectsKv);
@@ -231,16 +263,49 @@ export async function deleteProject(
 	// Delete assets and manifest via AssetApi RPC
 	const assetDeletion = await assetWorker.deleteProjectAssets(projectId);
 
-	// Delete server-side code if exists (modules + manifest)
-	let deletedServerSideCodeModules = 0;
-	if (project.hasServerSideCode) {
-		const serverSideCodePrefix = getServerSideCodePrefix(projectId);
-		deletedServerSideCodeModules = await deleteAllKeys(serverSideCodeKv, { prefix: serverSideCodePrefix });
-	}
+	// Delete server-side code (modules + manifests). Checked unconditionally because
+	// an inactive deployment may still own server-side code.
+	const serverSideCodePrefix = getServerSideCodePrefix(projectId);
+	const deletedServerSideCodeModules = await deleteAllKeys(serverSideCodeKv, { prefix: serverSideCodePrefix });
+
+	// Delete the data server-side code stored through its KV binding
+	const deletedDataKeys = await deleteAllProjectData(projectDataKv, projectDataQuota, projectId);
 
 	// Delete any remaining upload sessions for this project
 	await deleteAllKeys(projectsKv, { prefix: `upload-session/${projectId}/` });
 
+	// Delete deployment history
+	const deletedDeployments = await deleteAllKeys(projectsKv, { prefix: getDeploymentPrefix(projectId) });
+	await deploymentSequence.getByName(projectId).clear();
+
+	// Detach custom domains (lookup entries first, then the per-project index)
+	const domainPrefix = getProjectDomainPrefix(projectId);
+	for await (const key of listAllKeys(projectsKv, { prefix: domainPrefix })) {
+		const domainKey = getDomainKey(key.name.slice(domainPrefix.length));
+		const domain = await projectsKv.get<CustomDomain>(domainKey, { type: 'json' });
+		if (domain?.projectId === projectId) {
+			await projectsKv.delete(domainKey);
+		}
+	}
+	const deletedDomains = await deleteAllKeys(projectsKv, { prefix: domainPrefix });
+
+	await projectsKv.delete(getSecretsKey(projectId));
+
+	// Delete captured logs and close their live streams
+	await projectLogs.getByName(projectId).clear();
+
+	// Stop cron triggers and delete their run history
+	await projectsKv.delete(getCronTriggerKey(projectId));
+	await deleteAllKeys(projectsKv, { prefix: getCronTriggerRunPrefix(projectId) });
+
+	// Release the slug. Previous slugs of renamed projects expire on their own.
+	if (project.slug) {
+		const slugEntry = await projectsKv.get<ProjectSlug>(getSlugKey(project.slug), { type: 'json' });
+		if (slugEntry?.projectId === projectId) {
+			await projectsKv.delete(getSlugKey(project.slug));
+		}
+	}
+
 	// Delete project metadata
 	await projectsKv.delete(`project/${projectId}/metadata`);
 
@@ -250,8 +315,11 @@ export async function deleteProject(
 			message: 'Project deleted',
 			deletedAssets: assetDeletion.deletedAssets,
 			deletedManifest: assetDeletion.deletedManifest,
-			deletedServerSideCode: project.hasServerSideCode,
+			deletedServerSideCode: deletedServerSideCodeModules > 0,
 			deletedServerSideCodeModules: deletedServerSideCodeModules,
+			deletedDeployments,
+			deletedDomains,
+			deletedDataKeys,
 		},
 		{
 			status: 200,
@@ -260,6 +328,180 @@ export async function deleteProject(
 	);
 }
 
+/**
+ * Updates the settings of a project. Currently these are the maintenance mode settings, which
+ * replace the previous settings as a whole; `{ "maintenance": { "enabled": false } }` ends maintenance.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param request - The HTTP request containing the settings to change in its JSON body
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the updated project metadata, 400 for invalid settings, or 404 if the project is not found
+ */
+export async function updateProject(projectId: string, request: Request, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const bodyJson = await request.json();
+
+	// Validate payload using Zod
+	const bodyValidation = updateProjectRequestSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const { maintenance } = bodyValidation.data;
+	if (maintenance) {
+		project.maintenance = maintenance;
+	}
+	project.updatedAt = new Date().toISOString();
+
+	// Keep the auto-expiry of projects that were never deployed
+	await projectsKv.put(
+		`project/${projectId}/metadata`,
+		JSON.stringify(project),
+		project.status === 'PENDING' ? { expirationTtl: 3600 } : undefined,
+	);
+
+	return Response.json(
+		{
+			success: true,
+			project,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Changes the slug of a project. The previous slug keeps redirecting to the new one
+ * for a grace period (7 days) and cannot be claimed by other projects until then.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param request - The HTTP request containing the new slug in its JSON body
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns JSON response with the updated project metadata, 404 if the project is not found, or 409 if the slug is taken
+ */
+export async function updateProjectSlug(projectId: string, request: Request, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const bodyJson = await request.json();
+
+	// Validate payload using Zod
+	const bodyValidation = updateSlugRequestSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const { slug } = bodyValidation.data;
+	const previousSlug = project.slug;
+
+	if (slug !== previousSlug) {
+		if (!(await isSlugAvailable(slug, projectsKv, projectId))) {
+			return Response.json(
+				{
+					success: false,
+					error: `Slug '${slug}' is already in use`,
+				},
+				{ status: 409, headers: { 'Content-Type': 'application/json' } },
+			);
+		}
+
+		const slugEntry: ProjectSlug = { projectId };
+		await projectsKv.put(getSlugKey(slug), JSON.stringify(slugEntry));
+
+		if (previousSlug) {
+			const redirectEntry: ProjectSlug = { projectId, redirect: true };
+			await projectsKv.put(getSlugKey(previousSlug), JSON.stringify(redirectEntry), { expirationTtl: SLUG_REDIRECT_TTL });
+		}
+
+		project.slug = slug;
+		project.updatedAt = new Date().toISOString();
+
+		// Keep the auto-expiry of projects that were never deployed
+		await projectsKv.put(
+			`project/${projectId}/metadata`,
+			JSON.stringify(project),
+			project.status === 'PENDING' ? { expirationTtl: 3600 } : undefined,
+		);
+	}
+
+	return Response.json(
+		{
+			success: true,
+			previousSlug,
+			project,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Resolves the project name used in a URL (a project ID or a slug) to a project ID.
+ *
+ * Names shaped like a project ID are returned as-is without a KV lookup. Otherwise the slug
+ * index is consulted; unknown names are returned as-is so non-UUID project IDs keep working.
+ *
+ * @param name - The project ID or slug taken from the subdomain or path
+ * @param projectsKv - The KV namespace for storing project metadata
+ * @returns The project ID, and the current slug when `name` is a previous slug that should redirect
+ */
+export async function resolveProjectName(name: string, projectsKv: KVNamespace): Promise<{ projectId: string; redirectToSlug?: string }> {
+	if (UUID_PATTERN.test(name)) {
+		return { projectId: name };
+	}
+
+	const slugEntry = await projectsKv.get<ProjectSlug>(getSlugKey(name), { type: 'json', cacheTtl: 300 });
+	if (!slugEntry) {
+		return { projectId: name };
+	}
+
+	if (slugEntry.redirect) {
+		const project = await getProject(slugEntry.projectId, projectsKv);
+		if (project?.slug && project.slug !== name) {
+			return { projectId: slugEntry.projectId, redirectToSlug: project.slug };
+		}
+	}
+
+	return { projectId: slugEntry.projectId };
+}
+
+/**
+ * Checks whether a slug can be claimed. A slug is free if it is unused, already owned by
+ * the given project, or points to a project that no longer exists (e.g. an expired PENDING project).
+ */
+async function isSlugAvailable(slug: string, projectsKv: KVNamespace, projectId?: string): Promise<boolean> {
+	const slugEntry = await projectsKv.get<ProjectSlug>(getSlugKey(slug), { type: 'json' });
+	if (!slugEntry || slugEntry.projectId === projectId) {
+		return true;
+	}
+
+	return (await projectsKv.get(`project/${slugEntry.projectId}/metadata`)) === null;
+}
+
 /**
  * Retrieves project metadata from KV storage.
  *
@@ -291,3 +533,95 @@ export function getServerSideCodePrefix(projectId: string): string {
 export function getServerSideCodeKey(projectId: string, key: string): string {
 	return `project/${projectId}/module/${key}`;
 }
+
+/**
+ * Generates the KV key for a project's server-side code manifest.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment the manifest belongs to (undefined for legacy projects)
+ * @returns The full namespaced key of the manifest
+ */
+export function getServerSideCodeManifestKey(projectId: string, deploymentId?: number): string {
+	return getServerSideCodeKey(projectId, deploymentId === undefined ? 'MANIFEST' : `MANIFEST/${deploymentId}`);
+}
+
+/**
+ * Generates the KV key prefix for a project's deployment records.
+ *
+ * @param projectId - The unique identifier of the project
+ * @returns The prefix string used for deployment KV keys
+ */
+export function getDeploymentPrefix(projectId: string): string {
+	return `project/${projectId}/deployment/`;
+}
+
+/**
+ * Generates the KV key for a single deployment record.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment number
+ * @returns The full namespaced key for KV storage
+ */
+export function getDeploymentKey(projectId: string, deploymentId: number): string {
+	return `${getDeploymentPrefix(projectId)}${deploymentId}`;
+}
+
+/**
+ * Generates the KV key of the hostname → project lookup entry for a custom domain.
+ *
+ * @param hostname - The lowercase custom domain hostname
+ * @returns The full key for KV storage
+ */
+export function getDomainKey(hostname: string): string {
+	return `domain/${hostname}`;
+}
+
+/**
+ * Generates the KV key prefix of a project's custom domain index.
+ *
+ * @param projectId - The unique identifier of the project
+ * @returns The prefix string used for the project's domain index keys
+ */
+export function getProjectDomainPrefix(projectId: string): string {
+	return `project/${projectId}/domain/`;
+}
+
+/**
+ * Generates the KV key of the slug → project lookup entry.
+ *
+ * @param slug - The project slug
+ * @returns The full key for KV storage
+ */
+export function getSlugKey(slug: string): string {
+	return `slug/${slug}`;
+}
+
+/**
+ * Generates the KV key of a project's entry in the cron trigger index.
+ *
+ * @param projectId - The unique identifier of the project
+ * @returns The full key for KV storage
+ */
+export function getCronTriggerKey(projectId: string): string {
+	return `cron-trigger/${projectId}`;
+}
+
+/**
+ * Generates the KV key prefix of a project's cron trigger runs.
+ *
+ * @param projectId - The unique identifier of the project
+ * @returns The prefix string used for the project's run keys
+ */
+export function getCronTriggerRunPrefix(projectId: string): string {
+	return `project/${projectId}/cron-run/`;
+}
+
+/**
+ * Generates the KV key of a project's encrypted secrets.
+ *
+ * @param projectId - The unique identifier of the project
+ * @returns The full namespaced key for KV storage
+ */
+export function getSecretsKey(projectId: string): string {
+	return `project/${projectId}/secrets`;
+}
@@ -1,4 +1,12 @@
-import { matchesGlobPatterns, shouldRunWorkerFirst, extractProjectId, rewriteRequestUrl } from './routing';
+import {
+	matchesGlobPatterns,
+	shouldRunWorkerFirst,
+	extractProjectId,
+	rewriteRequestUrl,
+	replaceProjectName,
+	parseDeploymentId,
+	getPathPrefix,
+} from './routing';
 
 describe('routing utilities', () => {
 	describe('matchesGlobPatterns', () => {
@@ -230,6 +238,49 @@ describe('routing utilities', () => {
 			});
 		});
 
+		describe('pinned deployments', () => {
+			it('extracts deployment ID from path', () => {
+				const url = new URL('https://example.com/__project/my-project@3/index.html');
+				const result = extractProjectId(url);
+
+				expect(result.projectId).toBe('my-project');
+				expect(result.deploymentId).toBe(3);
+				expect(result.isPathBased).toBe(true);
+			});
+
+			it('extracts deployment ID from subdomain', () => {
+				const url = new URL('https://12--my-project.example.com/');
+				const result = extractProjectId(url);
+
+				expect(result.projectId).toBe('my-project');
+				expect(result.deploymentId).toBe(12);
+				expect(result.isPathBased).toBe(false);
+			});
+
+			it('does not pin a deployment for the bare project hostname', () => {
+				const url = new URL('https://my-project.example.com/');
+				const result = extractProjectId(url);
+
+				expect(result.deploymentId).toBeUndefined();
+			});
+
+			it('ignores invalid deployment IDs in the path', () => {
+				const url = new URL('https://example.com/__project/my-project@latest/');
+				const result = extractProjectId(url);
+
+				expect(result.projectId).toBe('my-project@latest');
+				expect(result.deploymentId).toBeUndefined();
+			});
+
+			it('ignores invalid deployment IDs in the subdomain', () => {
+				const url = new URL('https://preview--my-project.example.com/');
+				const result = extractProjectId(url);
+
+				expect(result.projectId).toBe('preview--my-project');
+				expect(result.deploymentId).toBeUndefined();
+			});
+		});
+
 		describe('priority', () => {
 			it('prefers path-based over subdomain', () => {
 				const url = new URL('https://subdomain.example.com/__project/path-project/');
@@ -268,9 +319,90 @@ describe('routing utilities', () => {
 				expect(result.isPathBased).toBe(false);
 			});
 		});
+
+		describe('custom domain routing', () => {
+			it('uses the mapped project for a verified custom domain', () => {
+				const url = new URL('https://www.example.com/about');
+				const result = extractProjectId(url, 'mapped-project');
+
+				expect(result.projectId).toBe('mapped-project');
+				expect(result.isPathBased).toBe(false);
+				expect(result.isCustomDomain).toBe(true);
+				expect(result.deploymentId).toBeUndefined();
+			});
+
+			it('does not interpret path-based prefixes on a custom domain', () => {
+				const url = new URL('https://shop.example.com/__project/other-project/');
+				const result = extractProjectId(url, 'mapped-project');
+
+				expect(result.projectId).toBe('mapped-project');
+				expect(result.isPathBased).toBe(false);
+			});
+
+			it('falls back to subdomain parsing without a mapping', () => {
+				const url = new URL('https://shop.example.com/');
+				const result = extractProjectId(url);
+
+				expect(result.projectId).toBe('shop');
+				expect(result.isCustomDomain).toBeUndefined();
+			});
+		});
+	});
+
+	describe('parseDeploymentId', () => {
+		it('parses positive integers', () => {
+			expect(parseDeploymentId('1')).toBe(1);
+			expect(parseDeploymentId('123')).toBe(123);
+		});
+
+		it('rejects zero, leading zeros and non-numeric values', () => {
+			expect(parseDeploymentId('0')).toBeUndefined();
+			expect(parseDeploymentId('01')).toBeUndefined();
+			expect(parseDeploymentId('abc')).toBeUndefined();
+			expect(parseDeploymentId('-1')).toBeUndefined();
+		});
+	});
+
+	describe('getPathPrefix', () => {
+		it('builds the project prefix', () => {
+			expect(getPathPrefix('my-project')).toBe('/__project/my-project');
+		});
+
+		it('builds a pinned deployment prefix', () => {
+			expect(getPathPrefix('my-project', 4)).toBe('/__project/my-project@4');
+		});
+	});
+
+	describe('replaceProjectName', () => {
+		it('replaces the subdomain', () => {
+			const url = new URL('https://old-shop.example.com/cart?item=1');
+			expect(replaceProjectName(url, false, 'old-shop', 'new-shop').toString()).toBe('https://new-shop.example.com/cart?item=1');
+		});
+
+		it('keeps a pinned deployment in the subdomain', () => {
+			const url = new URL('https://3--old-shop.example.com/');
+			expect(replaceProjectName(url, false, 'old-shop', 'new-shop', 3).toString()).toBe('https://3--new-shop.example.com/');
+		});
+
+		it('replaces the path prefix', () => {
+			const url = new URL('https://example.com/__project/old-shop/cart?item=1');
+			expect(replaceProjectName(url, true, 'old-shop', 'new-shop').toString()).toBe('https://example.com/__project/new-shop/cart?item=1');
+		});
+
+		it('keeps a pinned deployment in the path prefix', () => {
+			const url = new URL('https://example.com/__project/old-shop@3/cart');
+			expect(replaceProjectName(url, true, 'old-shop', 'new-shop', 3).toString()).toBe('https://example.com/__project/new-shop@3/cart');
+		});
 	});
 
 	describe('rewriteRequestUrl', () => {
+		it('strips pinned deployment prefix', () => {
+			const request = new Request('https://example.com/__project/my-project@2/assets/app.js');
+			const rewritten = rewriteRequestUrl(request, 'my-project', 2);
+
+			expect(new URL(rewritten.url).pathname).toBe('/assets/app.js');
+		});
+
 		it('strips path-based project prefix', () => {
 			const request = new Request('https://example.com/__project/my-project/index.html');
 			const rewritten = rewriteRequestUrl(request, 'my-project');
@@ -285,6 +417,16 @@ describe('routing utilities', () => {
 			expect(new URL(rewritten.url).pathname).toBe('/api/users/123');
 		});
 
+		it('drops Accept-Encoding so responses can be rewritten', () => {
+			const request = new Request('https://example.com/__project/my-project/app.js', {
+				headers: { 'Accept-Encoding': 'gzip, br', Accept: '*/*' },
+			});
+			const rewritten = rewriteRequestUrl(request, 'my-project');
+
+			expect(rewritten.headers.has('Accept-Encoding')).toBe(false);
+			expect(rewritten.headers.get('Accept')).toBe('*/*');
+		});
+
 		it('defaults to root when path equals prefix', () => {
 			const request = new Request('https://example.com/__project/my-project');
 			const rewritten = rewriteRequestUrl(request, 'my-project');
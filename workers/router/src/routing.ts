@@ -77,17 +77,72 @@ export function shouldRunWorkerFirst(config: boolean | string[] | undefined, pat
 }
 
 /**
- * Extracts the project ID from a URL using subdomain or path-based routing.
+ * Parses a deployment ID from a URL parameter, subdomain label or path segment.
+ *
+ * @param value - The raw deployment ID
+ * @returns The deployment number, or undefined if the value is not a positive integer
+ */
+export function parseDeploymentId(value: string): number | undefined {
+	if (!/^[1-9]\d{0,8}$/.test(value)) {
+		return undefined;
+	}
+	return Number.parseInt(value, 10);
+}
+
+/**
+ * Builds the path prefix used for path-based routing.
+ *
+ * @param projectId - The project ID
+ * @param deploymentId - Optional deployment the request is pinned to
+ * @returns The prefix, e.g. `/__project/my-project` or `/__project/my-project@3`
+ */
+export function getPathPrefix(projectId: string, deploymentId?: number): string {
+	return deploymentId === undefined ? `/__project/${projectId}` : `/__project/${projectId}@${deploymentId}`;
+}
+
+/**
+ * Extracts the project ID from a URL using custom domain, subdomain or path-based routing.
+ *
+ * A verified custom domain (looked up by the caller, see `resolveCustomDomain`) takes
+ * precedence over everything else, so `/__project/` paths on a custom domain are served
+ * by the mapped project as regular paths.
+ *
+ * A specific deployment can be pinned with `<deploymentId>--<projectId>.domain.com`
+ * or `/__project/<projectId>@<deploymentId>/`. Without a pin the active deployment is served.
  *
  * @param url - The URL to extract the project ID from
- * @returns Object containing the project ID (or null) and whether path-based routing was used
+ * @param customDomainProjectId - The project the request hostname is mapped to, if it is a verified custom domain
+ * @returns Object containing the project ID (or null), the pinned deployment ID (if any) and which routing mode was used
  */
-export function extractProjectId(url: URL): { projectId: string | undefined; isPathBased: boolean } {
-	// Check for path-based routing: /__project/project-id/...
+export function extractProjectId(
+	url: URL,
+	customDomainProjectId?: string,
+): { projectId: string | undefined; deploymentId?: number; isPathBased: boolean; isCustomDomain?: boolean } {
+	if (customDomainProjectId) {
+		return {
+			projectId: customDomainProjectId,
+			isPathBased: false,
+			isCustomDomain: true,
+		};
+	}
+
+	// Check for path-based routing: /__project/project-id[@deployment-id]/...
 	if (url.pathname.startsWith('/__project/')) {
 		const parts = url.pathname.split('/');
+		const segment = parts[2] || undefined;
+		const separatorIndex = segment ? segment.lastIndexOf('@') : -1;
+		if (segment && separatorIndex > 0) {
+			const deploymentId = parseDeploymentId(segment.slice(separatorIndex + 1));
+			if (deploymentId !== undefined) {
+				return {
+					projectId: segment.slice(0, separatorIndex),
+					deploymentId,
+					isPathBased: true,
+				};
+			}
+		}
 		return {
-			projectId: parts[2] || undefined,
+			projectId: segment,
 			isPathBased: true,
 		};
 	}
@@ -102,6 +157,19 @@ export function extractProjectId(url: URL): { projectId: string | undefined; isP
 		/^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostname);
 	const subdomain = hostname.split('.')[0];
 	if (subdomain && subdomain !== 'www' && !isLocal) {
+		// Check for a pinned deployment: deployment-id--project-id.domain.com
+		const separatorIndex = subdomain.indexOf('--');
+		if (separatorIndex > 0) {
+			const deploymentId = parseDeploymentId(subdomain.slice(0, separatorIndex));
+			const projectId = subdomain.slice(separatorIndex + 2);
+			if (deploymentId !== undefined && projectId) {
+				return {
+					projectId,
+					deploymentId,
+					isPathBased: false,
+				};
+			}
+		}
 		return {
 			projectId: subdomain,
 			isPathBased: false,
@@ -111,16 +179,44 @@ export function extractProjectId(url: URL): { projectId: string | undefined; isP
 	return { projectId: undefined, isPathBased: false };
 }
 
+/**
+ * Builds the URL of the same resource under another project name, e.g. to redirect
+ * a previous project slug to the current one. Any pinned deployment is kept.
+ *
+ * @param url - The request URL
+ * @param isPathBased - Whether the request used path-based routing
+ * @param fromName - The project name (ID or slug) used in the request URL
+ * @param toName - The project name to use instead
+ * @param deploymentId - Optional deployment pinned in the request URL
+ * @returns A new URL addressing the project as `toName`
+ */
+export function replaceProjectName(url: URL, isPathBased: boolean, fromName: string, toName: string, deploymentId?: number): URL {
+	const newUrl = new URL(url);
+
+	if (isPathBased) {
+		const rest = url.pathname.slice(getPathPrefix(fromName, deploymentId).length);
+		newUrl.pathname = getPathPrefix(toName, deploymentId) + rest;
+	} else {
+		const labels = url.hostname.split('.');
+		labels[0] = deploymentId === undefined ? toName : `${deploymentId}--${toName}`;
+		newUrl.hostname = labels.join('.');
+	}
+
+	return newUrl;
+}
+
 /**
  * Rewrites a request URL to strip the path-based project prefix.
+ * `Accept-Encoding` is dropped so responses arrive uncompressed and their paths can be rewritten.
  *
  * @param request - The original HTTP request
  * @param projectId - The project ID to strip from the path
+ * @param deploymentId - Optional deployment pinned in the path prefix
  * @returns A new Request with the project prefix removed from the pathname
  */
-export function rewriteRequestUrl(request: Request, projectId: string): Request {
+export function rewriteRequestUrl(request: Request, projectId: string, deploymentId?: number): Request {
 	const url = new URL(request.url);
-	const prefix = `/__project/${projectId}`;
+	const prefix = getPathPrefix(projectId, deploymentId);
 
 	if (url.pathname.startsWith(prefix)) {
 		// Strip the prefix and keep the rest
@@ -128,5 +224,7 @@ export function rewriteRequestUrl(request: Request, projectId: string): Request
 		url.pathname = newPathname;
 	}
 
-	return new Request(url.toString(), request);
+	const rewritten = new Request(url.toString(), request);
+	rewritten.headers.delete('Accept-Encoding');
+	return rewritten;
 }
@@ -0,0 +1,166 @@
+import { env } from 'cloudflare:test';
+
+import { createProject, deleteProject, getSecretsKey } from './project-manager';
+import { decryptSecrets, deleteSecret, encryptSecret, listSecrets, putSecret } from './secrets-manager';
+import { MAX_SECRETS } from './validation';
+import { createMock } from '../../shared/test-utilities';
+
+import type { ProjectSecrets } from './types';
+import type AssetApi from '../../asset-service/src/worker';
+
+interface ProjectResponse {
+	project: { id: string };
+}
+
+interface SecretListResponse {
+	success: boolean;
+	secrets: { name: string; updatedAt: string }[];
+}
+
+describe('secrets-manager', () => {
+	const projectsKv = env.KV_PROJECTS;
+	const encryptionKey = 'test-encryption-key';
+	let projectId: string;
+
+	beforeEach(async () => {
+		const keys = await projectsKv.list();
+		for (const key of keys.keys) {
+			await projectsKv.delete(key.name);
+		}
+
+		const response = await createProject(new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }), projectsKv);
+		const data = await response.json<ProjectResponse>();
+		projectId = data.project.id;
+	});
+
+	function putRequest(value: unknown): Request {
+		return new Request('http://example.com', { method: 'PUT', body: JSON.stringify({ value }) });
+	}
+
+	async function getStored(): Promise<ProjectSecrets> {
+		return (await projectsKv.get<ProjectSecrets>(getSecretsKey(projectId), { type: 'json' })) ?? {};
+	}
+
+	describe('encryption', () => {
+		it('round-trips values', async () => {
+			const secret = await encryptSecret(projectId, 'API_KEY', 'value', encryptionKey);
+			expect(secret.ciphertext).not.toContain('value');
+			expect(await decryptSecrets(projectId, { API_KEY: secret }, encryptionKey)).toEqual({ API_KEY: 'value' });
+		});
+
+		it('rejects secrets moved to another name or decrypted with another key', async () => {
+			const secret = await encryptSecret(projectId, 'API_KEY', 'value', encryptionKey);
+			await expect(decryptSecrets(projectId, { OTHER: secret }, encryptionKey)).rejects.toThrow('Failed to decrypt secret OTHER');
+			await expect(decryptSecrets('other-project', { API_KEY: secret }, encryptionKey)).rejects.toThrow();
+			await expect(decryptSecrets(projectId, { API_KEY: secret }, 'other-key')).rejects.toThrow();
+		});
+	});
+
+	describe('putSecret', () => {
+		it('stores the value encrypted and never returns it', async () => {
+			const response = await putSecret(projectId, 'API_KEY', putRequest('super-secret'), projectsKv, encryptionKey);
+			expect(response.status).toBe(200);
+			expect(await response.text()).not.toContain('super-secret');
+
+			const stored = await getStored();
+			expect(JSON.stringify(stored)).not.toContain('super-secret');
+			expect(await decryptSecrets(projectId, stored, encryptionKey)).toEqual({ API_KEY: 'super-secret' });
+		});
+
+		it('rotates an existing secret', async () => {
+			await putSecret(projectId, 'API_KEY', putRequest('old'), projectsKv, encryptionKey);
+			await putSecret(projectId, 'OTHER', putRequest('other'), projectsKv, encryptionKey);
+			await putSecret(projectId, 'API_KEY', putRequest('new'), projectsKv, encryptionKey);
+
+			expect(await decryptSecrets(projectId, await getStored(), encryptionKey)).toEqual({ API_KEY: 'new', OTHER: 'other' });
+		});
+
+		it('rejects invalid and reserved names', async () => {
+			for (const name of ['1KEY', 'MY-KEY', 'ASSETS', 'KV']) {
+				const response = await putSecret(projectId, name, putRequest('value'), projectsKv, encryptionKey);
+				expect(response.status).toBe(400);
+			}
+		});
+
+		it('rejects values that are not strings', async () => {
+			const response = await putSecret(projectId, 'API_KEY', putRequest(42), projectsKv, encryptionKey);
+			expect(response.status).toBe(400);
+		});
+
+		it('limits the number of secrets', async () => {
+			const secrets: ProjectSecrets = {};
+			for (let index = 0; index < MAX_SECRETS; index++) {
+				secrets[`KEY_${index}`] = await encryptSecret(projectId, `KEY_${index}`, 'value', encryptionKey);
+			}
+			await projectsKv.put(getSecretsKey(projectId), JSON.stringify(secrets));
+
+			const response = await putSecret(projectId, 'ONE_MORE', putRequest('value'), projectsKv, encryptionKey);
+			expect(response.status).toBe(400);
+
+			const rotation = await putSecret(projectId, 'KEY_0', putRequest('rotated'), projectsKv, encryptionKey);
+			expect(rotation.status).toBe(200);
+		});
+
+		it('fails when no encryption key is configured', async () => {
+			const response = await putSecret(projectId, 'API_KEY', putRequest('value'), projectsKv, '');
+			expect(response.status).toBe(500);
+			expect(await projectsKv.get(getSecretsKey(projectId))).toBeNull();
+		});
+
+		it('returns 404 for non-existent project', async () => {
+			const response = await putSecret('non-existent', 'API_KEY', putRequest('value'), projectsKv, encryptionKey);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('listSecrets', () => {
+		it('lists names without values', async () => {
+			await putSecret(projectId, 'API_KEY', putRequest('super-secret'), projectsKv, encryptionKey);
+
+			const response = await listSecrets(projectId, projectsKv);
+			const body = await response.text();
+			expect(body).not.toContain('super-secret');
+
+			const data: SecretListResponse = JSON.parse(body);
+			expect(data.secrets).toEqual([{ name: 'API_KEY', updatedAt: expect.any(String) }]);
+		});
+	});
+
+	describe('deleteSecret', () => {
+		it('deletes a secret', async () => {
+			await putSecret(projectId, 'API_KEY', putRequest('value'), projectsKv, encryptionKey);
+			await putSecret(projectId, 'OTHER', putRequest('other'), projectsKv, encryptionKey);
+
+			const response = await deleteSecret(projectId, 'API_KEY', projectsKv);
+			expect(response.status).toBe(200);
+			expect(Object.keys(await getStored())).toEqual(['OTHER']);
+
+			await deleteSecret(projectId, 'OTHER', projectsKv);
+			expect(await projectsKv.get(getSecretsKey(projectId))).toBeNull();
+		});
+
+		it('returns 404 for unknown secrets', async () => {
+			const response = await deleteSecret(projectId, 'constructor', projectsKv);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	it('deletes secrets with the project', async () => {
+		await putSecret(projectId, 'API_KEY', putRequest('value'), projectsKv, encryptionKey);
+		const assetWorker = createMock<Service<AssetApi>>({
+			deleteProjectAssets: async () => ({ deletedAssets: 0, deletedManifest: false }),
+		});
+
+		await deleteProject(
+			projectId,
+			projectsKv,
+			env.KV_SERVER_SIDE_CODE,
+			env.KV_PROJECT_DATA,
+			env.PROJECT_DATA_QUOTA,
+			env.PROJECT_LOGS,
+			env.DEPLOYMENT_SEQUENCE,
+			assetWorker,
+		);
+		expect(await projectsKv.get(getSecretsKey(projectId))).toBeNull();
+	});
+});
@@ -0,0 +1,238 @@
+import * as base64 from '@stablelib/base64';
+import { z } from 'zod';
+
+import { getProject, getSecretsKey } from './project-manager';
+import { MAX_SECRETS, putSecretRequestSchema, secretNameSchema } from './validation';
+
+import type { EncryptedSecret, ProjectSecrets } from './types';
+
+/** HKDF info binding derived keys to their purpose, so the platform key can be shared with other uses */
+const SECRETS_KEY_INFO = 'asset-worker/project-secrets/v1';
+
+/**
+ * Derives the AES-GCM key secrets are encrypted with from the platform key.
+ */
+async function deriveSecretsKey(encryptionKey: string): Promise<CryptoKey> {
+	const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(encryptionKey), 'HKDF', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(SECRETS_KEY_INFO) },
+		keyMaterial,
+		{ name: 'AES-GCM', length: 256 },
+		false,
+		['encrypt', 'decrypt'],
+	);
+}
+
+/**
+ * Additional authenticated data of a secret, so a ciphertext cannot be moved to another project or name.
+ */
+function getAdditionalData(projectId: string, name: string): Uint8Array {
+	return new TextEncoder().encode(`${projectId}/${name}`);
+}
+
+/**
+ * Encrypts a secret value with the platform key.
+ *
+ * @param projectId - The project the secret belongs to
+ * @param name - The secret name
+ * @param value - The plain text value
+ * @param encryptionKey - The platform key (`SECRETS_ENCRYPTION_KEY`)
+ * @returns The encrypted secret
+ */
+export async function encryptSecret(projectId: string, name: string, value: string, encryptionKey: string): Promise<EncryptedSecret> {
+	const key = await deriveSecretsKey(encryptionKey);
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: 'AES-GCM', iv, additionalData: getAdditionalData(projectId, name) },
+		key,
+		new TextEncoder().encode(value),
+	);
+
+	return {
+		iv: base64.encode(iv),
+		ciphertext: base64.encode(new Uint8Array(ciphertext)),
+		updatedAt: new Date().toISOString(),
+	};
+}
+
+/**
+ * Decrypts all secrets of a project.
+ *
+ * @param projectId - The project the secrets belong to
+ * @param secrets - The encrypted secrets
+ * @param encryptionKey - The platform key (`SECRETS_ENCRYPTION_KEY`)
+ * @returns The plain text values by name
+ * @throws Error if a secret was not encrypted with this key for this project
+ */
+export async function decryptSecrets(projectId: string, secrets: ProjectSecrets, encryptionKey: string): Promise<Record<string, string>> {
+	const key = await deriveSecretsKey(encryptionKey);
+	const entries = await Promise.all(
+		Object.entries(secrets).map(async ([name, secret]): Promise<[string, string]> => {
+			try {
+				const plaintext = await crypto.subtle.decrypt(
+					{ name: 'AES-GCM', iv: base64.decode(secret.iv), additionalData: getAdditionalData(projectId, name) },
+					key,
+					base64.decode(secret.ciphertext),
+				);
+				return [name, new TextDecoder().decode(plaintext)];
+			} catch {
+				// Never include the ciphertext or key in the error
+				throw new Error(`Failed to decrypt secret ${name}`);
+			}
+		}),
+	);
+	return Object.fromEntries(entries);
+}
+
+/**
+ * Loads a project's encrypted secrets as stored, for use as part of a cache key without decrypting them.
+ * Each update re-encrypts with a fresh IV, so the stored text changes whenever a secret is rotated.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param projectsKv - The KV namespace storing project metadata
+ * @returns The stored JSON text, or undefined if the project has no secrets
+ */
+export async function getStoredSecrets(projectId: string, projectsKv: KVNamespace): Promise<string | undefined> {
+	const stored = await projectsKv.get(getSecretsKey(projectId), { type: 'text', cacheTtl: 60 });
+	return stored ?? undefined;
+}
+
+/**
+ * Lists the names of a project's secrets. Values are never returned.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param projectsKv - The KV namespace storing project metadata
+ * @returns JSON response with the secret names and update times, or 404 if the project is not found
+ */
+export async function listSecrets(projectId: string, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const secrets = (await projectsKv.get<ProjectSecrets>(getSecretsKey(projectId), { type: 'json' })) ?? {};
+
+	return Response.json(
+		{
+			success: true,
+			secrets: Object.entries(secrets).map(([name, { updatedAt }]) => ({ name, updatedAt })),
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Creates or rotates a secret. It is available to the project's server-side code as `env[name]`
+ * without redeploying, once the change has propagated (up to a minute).
+ *
+ * @param projectId - The unique identifier of the project
+ * @param name - The secret name
+ * @param request - The HTTP request containing the secret value
+ * @param projectsKv - The KV namespace storing project metadata
+ * @param encryptionKey - The platform key (`SECRETS_ENCRYPTION_KEY`)
+ * @returns JSON response with the secret name (HTTP 200), or an error status
+ */
+export async function putSecret(
+	projectId: string,
+	name: string,
+	request: Request,
+	projectsKv: KVNamespace,
+	encryptionKey: string | undefined,
+): Promise<Response> {
+	if (!encryptionKey) {
+		return new Response('Secrets are not configured: SECRETS_ENCRYPTION_KEY is not set', { status: 500 });
+	}
+
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const nameValidation = secretNameSchema.safeParse(name);
+	if (!nameValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(nameValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const bodyJson = await request.json();
+	const bodyValidation = putSecretRequestSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const secretsKey = getSecretsKey(projectId);
+	const secrets = (await projectsKv.get<ProjectSecrets>(secretsKey, { type: 'json' })) ?? {};
+	const names = Object.keys(secrets);
+	if (!names.includes(name) && names.length >= MAX_SECRETS) {
+		return Response.json(
+			{
+				success: false,
+				error: `Too many secrets. Maximum allowed is ${MAX_SECRETS}.`,
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const secret = await encryptSecret(projectId, name, bodyValidation.data.value, encryptionKey);
+	await projectsKv.put(secretsKey, JSON.stringify({ ...secrets, [name]: secret }));
+
+	return Response.json(
+		{
+			success: true,
+			secret: { name, updatedAt: secret.updatedAt },
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Deletes a secret. It is removed from the project's server-side code `env` once the change has propagated.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param name - The secret name
+ * @param projectsKv - The KV namespace storing project metadata
+ * @returns JSON response confirming deletion, or 404 if the project or secret is not found
+ */
+export async function deleteSecret(projectId: string, name: string, projectsKv: KVNamespace): Promise<Response> {
+	const project = await getProject(projectId, projectsKv);
+	if (!project) {
+		return new Response('Project not found', { status: 404 });
+	}
+
+	const secretsKey = getSecretsKey(projectId);
+	const secrets = (await projectsKv.get<ProjectSecrets>(secretsKey, { type: 'json' })) ?? {};
+	if (!Object.keys(secrets).includes(name)) {
+		return new Response('Secret not found', { status: 404 });
+	}
+
+	delete secrets[name];
+	await (Object.keys(secrets).length > 0 ? projectsKv.put(secretsKey, JSON.stringify(secrets)) : projectsKv.delete(secretsKey));
+
+	return Response.json(
+		{
+			success: true,
+			message: `Secret ${name} deleted`,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
@@ -1,19 +1,27 @@
 import { env } from 'cloudflare:workers';
 
 import { computeContentHash } from './content-utilities';
-import { getServerSideCodeKey } from './project-manager';
+import { getServerSideCodeKey, getServerSideCodeManifestKey } from './project-manager';
+import { decryptSecrets, getStoredSecrets } from './secrets-manager';
+import { SCHEDULED_ENTRYPOINT_MODULE } from './validation';
 import { batchGetKv } from '../../shared/kv';
 
-import type { ServerSideCodeManifest } from './types';
+import type { OutboundPolicy, ServerSideCodeManifest } from './types';
+import type { WorkerEntrypoint } from 'cloudflare:workers';
+
+interface ScheduledEntrypoint extends WorkerEntrypoint {
+	runScheduled(cron: string, scheduledTime: number): Promise<void>;
+}
 
 /**
- * Fetches the server-side code manifest for a project from KV.
+ * Fetches the server-side code manifest for a project deployment from KV.
  *
  * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment to load (undefined for legacy projects)
  * @returns The server-side code manifest or null if not found
  */
-export async function getServerSideCodeManifest(projectId: string): Promise<ServerSideCodeManifest | undefined> {
-	const manifestKey = getServerSideCodeKey(projectId, 'MANIFEST');
+export async function getServerSideCodeManifest(projectId: string, deploymentId?: number): Promise<ServerSideCodeManifest | undefined> {
+	const manifestKey = getServerSideCodeManifestKey(projectId, deploymentId);
 	const manifest = await env.KV_SERVER_SIDE_CODE.get<ServerSideCodeManifest>(manifestKey, { type: 'json', cacheTtl: 300 });
 	return manifest || undefined;
 }
@@ -22,31 +30,95 @@ export async function getServerSideCodeManifest(projectId: string): Promise<Serv
  * Executes server-side code for a project using dynamic worker loading.
  *
  * @param projectId - The unique identifier of the project
+ * @param deploymentId - The deployment whose code should run (undefined for legacy projects)
  * @param request - The HTTP request to pass to the server-side code
  * @param bindings - Environment bindings to inject (e.g., ASSETS binding)
+ * @param createOutbound - Creates the fetcher all outbound requests of the code go through, enforcing the manifest's outbound policy
+ * @param tail - Receives the console logs and uncaught exceptions of the code
  * @param prefetchedManifest - Optional pre-fetched manifest to avoid redundant KV read
  * @returns The response from the dynamically loaded worker
  * @throws Error if the server-side code manifest or modules are not found
  */
 export async function runServerSideCode(
 	projectId: string,
+	deploymentId: number | undefined,
 	request: Request,
 	bindings: Record<string, unknown>,
+	createOutbound: (policy: OutboundPolicy | undefined) => Fetcher,
+	tail: Fetcher,
 	prefetchedManifest?: ServerSideCodeManifest | undefined,
 ): Promise<Response> {
 	// Use pre-fetched manifest if available, otherwise load from KV
-	const manifest = prefetchedManifest === undefined ? await getServerSideCodeManifest(projectId) : prefetchedManifest;
+	const manifest = prefetchedManifest === undefined ? await getServerSideCodeManifest(projectId, deploymentId) : prefetchedManifest;
 
 	if (!manifest) {
 		return new Response('Server-side code not found', { status: 404 });
 	}
 
-	const { entrypoint, modules: moduleManifest, compatibilityDate, env: manifestEnvironment = {} } = manifest;
+	const worker = await loadServerSideCodeWorker(projectId, manifest, bindings, createOutbound, tail, false);
+	const workerEntrypoint = worker.getEntrypoint(manifest.entrypointClass, {});
 
-	// Use content hash of the manifest as the worker key for caching
-	const codeHash = await computeContentHash(new TextEncoder().encode(JSON.stringify(manifest)));
+	return await workerEntrypoint.fetch(request);
+}
 
-	const worker = env.LOADER.get(codeHash, async () => {
+/**
+ * Invokes the scheduled handler of a project's server-side code: `scheduled(controller, env, ctx)` of the
+ * default export, or the `scheduled(controller)` method of the manifest's entrypoint class.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param manifest - The server-side code manifest of the deployment
+ * @param controller - The cron expression that is due and the time it was scheduled for
+ * @param bindings - Environment bindings to inject (e.g., ASSETS binding)
+ * @param createOutbound - Creates the fetcher all outbound requests of the code go through
+ * @param tail - Receives the console logs and uncaught exceptions of the code
+ * @throws Error if the code has no scheduled handler or the handler throws
+ */
+export async function runScheduledServerSideCode(
+	projectId: string,
+	manifest: ServerSideCodeManifest,
+	controller: { cron: string; scheduledTime: number },
+	bindings: Record<string, unknown>,
+	createOutbound: (policy: OutboundPolicy | undefined) => Fetcher,
+	tail: Fetcher,
+): Promise<void> {
+	if (manifest.modules[manifest.entrypoint]?.type === 'py') {
+		throw new Error('Cron triggers are not supported for Python entrypoints');
+	}
+
+	const worker = await loadServerSideCodeWorker(projectId, manifest, bindings, createOutbound, tail, true);
+	await worker.getEntrypoint<ScheduledEntrypoint>(undefined, {}).runScheduled(controller.cron, controller.scheduledTime);
+}
+
+/**
+ * Gets the dynamic worker running a manifest, loading its modules only when no isolate is warm.
+ *
+ * @param scheduled - Whether to start from the generated scheduled entrypoint instead of the manifest's entrypoint
+ */
+async function loadServerSideCodeWorker(
+	projectId: string,
+	manifest: ServerSideCodeManifest,
+	bindings: Record<string, unknown>,
+	createOutbound: (policy: OutboundPolicy | undefined) => Fetcher,
+	tail: Fetcher,
+	scheduled: boolean,
+): Promise<WorkerStub> {
+	const {
+		entrypoint,
+		entrypointClass,
+		modules: moduleManifest,
+		compatibilityDate,
+		compatibilityFlags = [],
+		env: manifestEnvironment = {},
+	} = manifest;
+
+	// Use content hash of the project, manifest and encrypted secrets as the worker key for caching.
+	// The manifest includes the compatibility flags and entrypoint class, so changing them starts a fresh isolate.
+	// The project is part of the key because isolates keep the project-scoped bindings they were created with.
+	// Rotating a secret re-encrypts it, so the next request starts an isolate with the new value.
+	const storedSecrets = await getStoredSecrets(projectId, env.KV_PROJECTS);
+	const codeHash = await computeContentHash(new TextEncoder().encode(`${projectId}\n${JSON.stringify(manifest)}${storedSecrets ?? ''}`));
+
+	return env.LOADER.get(scheduled ? `${codeHash}/scheduled` : codeHash, async () => {
 		// Load all modules from KV by their content hashes and decode based on type
 		// This only runs when there is no warm isolate for this codeHash
 		const modules: Record<string, WorkerLoaderModule | string> = {};
@@ -129,23 +201,58 @@ export async function runServerSideCode(
 			return Object.fromEntries(entries);
 		})();
 
-		const [textModules, binaryModules] = await Promise.all([textPromise, binaryPromise]);
+		const secretsPromise = storedSecrets
+			? decryptSecrets(projectId, JSON.parse(storedSecrets), env.SECRETS_ENCRYPTION_KEY)
+			: Promise.resolve({});
+
+		const [textModules, binaryModules, secrets] = await Promise.all([textPromise, binaryPromise, secretsPromise]);
 		Object.assign(modules, textModules, binaryModules);
 
+		// Scheduled runs start from a generated module that exposes the scheduled handler over RPC
+		if (scheduled) {
+			modules[SCHEDULED_ENTRYPOINT_MODULE] = { js: createScheduledEntrypointModule(entrypoint, entrypointClass) };
+		}
+
 		return {
 			compatibilityDate: compatibilityDate || '2025-11-09',
-			compatibilityFlags: ['nodejs_compat'],
-			mainModule: entrypoint,
+			compatibilityFlags: ['nodejs_compat', ...compatibilityFlags.filter((flag) => flag !== 'nodejs_compat')],
+			mainModule: scheduled ? SCHEDULED_ENTRYPOINT_MODULE : entrypoint,
 			modules,
 			env: {
 				...manifestEnvironment,
+				...secrets,
 				...bindings,
 			},
-			globalOutbound: undefined, // disable internet access
+			globalOutbound: createOutbound(manifest.outbound),
+			tails: [tail],
 		};
 	});
+}
 
-	const defaultEntrypoint = worker.getEntrypoint(undefined, {});
+/**
+ * Generates the main module of scheduled runs. Workers only receive `scheduled` events from the platform,
+ * so this module re-exposes the handler of the real entrypoint as an RPC method.
+ */
+function createScheduledEntrypointModule(entrypoint: string, entrypointClass: string | undefined): string {
+	return `import { WorkerEntrypoint } from 'cloudflare:workers';
+import * as entrypoint from ${JSON.stringify(`./${entrypoint}`)};
 
-	return await defaultEntrypoint.fetch(request);
+export default class extends WorkerEntrypoint {
+	async runScheduled(cron, scheduledTime) {
+		const controller = { cron, scheduledTime, noRetry() {} };
+		const handler = entrypoint[${JSON.stringify(entrypointClass ?? 'default')}];
+		if (typeof handler === 'function') {
+			const instance = new handler(this.ctx, this.env);
+			if (typeof instance.scheduled !== 'function') {
+				throw new Error('The entrypoint class has no scheduled() method');
+			}
+			await instance.scheduled(controller);
+		} else if (typeof handler?.scheduled === 'function') {
+			await handler.scheduled(controller, this.env, this.ctx);
+		} else {
+			throw new Error('The entrypoint does not export a scheduled handler');
+		}
+	}
+}
+`;
 }
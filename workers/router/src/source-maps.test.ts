@@ -0,0 +1,108 @@
+import { env } from 'cloudflare:test';
+
+import { deployProject } from './deployment-manager';
+import { createProject } from './project-manager';
+import { getServerSideCodeManifest } from './server-side-code-runner';
+import { applySourceMaps, findOriginalPosition, loadSourceMaps, parseSourceMap } from './source-maps';
+import { createMock } from '../../shared/test-utilities';
+
+import type AssetWorker from '../../asset-service/src/worker';
+
+interface ProjectResponse {
+	project: { id: string };
+}
+
+// Line 1: column 0 → 1:0 and column 10 → 5:2, line 2: column 4 → 10:6, line 3: column 100 → 10:6 (0-based)
+const SOURCE_MAP = JSON.stringify({ version: 3, sources: ['app.ts'], sourceRoot: 'src', mappings: 'AAAA,UAIE;IAKI;oGAAA' });
+
+describe('source-maps', () => {
+	describe('parseSourceMap', () => {
+		it('decodes mappings to original positions', () => {
+			const map = parseSourceMap(SOURCE_MAP);
+
+			expect(findOriginalPosition(map, 1, 1)).toEqual({ source: 'src/app.ts', line: 1, column: 1 });
+			expect(findOriginalPosition(map, 1, 15)).toEqual({ source: 'src/app.ts', line: 5, column: 3 });
+			expect(findOriginalPosition(map, 2, 5)).toEqual({ source: 'src/app.ts', line: 10, column: 7 });
+			expect(findOriginalPosition(map, 3, 101)).toEqual({ source: 'src/app.ts', line: 10, column: 7 });
+			expect(findOriginalPosition(map, 3, 50)).toBeUndefined();
+			expect(findOriginalPosition(map, 9, 1)).toBeUndefined();
+		});
+
+		it('rejects content that is not a version 3 source map', () => {
+			expect(() => parseSourceMap(JSON.stringify({ version: 2, sources: [], mappings: '' }))).toThrow();
+			expect(() => parseSourceMap('not json')).toThrow();
+		});
+	});
+
+	describe('applySourceMaps', () => {
+		it('rewrites the frames of mapped modules only', () => {
+			const stack = [
+				'TypeError: boom',
+				'    at handle (index.js:1:15)',
+				'    at index.js:2:5',
+				'    at helper (vendor.js:1:15)',
+				'    at index.js:7:1',
+			].join('\n');
+
+			expect(applySourceMaps(stack, new Map([['index.js', parseSourceMap(SOURCE_MAP)]]))).toBe(
+				[
+					'TypeError: boom',
+					'    at handle (src/app.ts:5:3)',
+					'    at src/app.ts:10:7',
+					'    at helper (vendor.js:1:15)',
+					'    at index.js:7:1',
+				].join('\n'),
+			);
+		});
+	});
+
+	describe('loadSourceMaps', () => {
+		const assetWorker = createMock<Service<AssetWorker>>({ uploadManifest: async () => [] });
+
+		async function deployWithModules(modules: Record<string, string>): Promise<string> {
+			const projectResponse = await createProject(
+				new Request('http://example.com', { method: 'POST', body: JSON.stringify({}) }),
+				env.KV_PROJECTS,
+			);
+			const { project } = await projectResponse.json<ProjectResponse>();
+			const body = {
+				server: {
+					entrypoint: 'index.js',
+					modules: Object.fromEntries(Object.entries(modules).map(([path, content]) => [path, btoa(content)])),
+				},
+			};
+			const request = new Request('http://example.com', { method: 'POST', body: JSON.stringify(body) });
+			const response = await deployProject(
+				project.id,
+				request,
+				env.KV_PROJECTS,
+				env.KV_SERVER_SIDE_CODE,
+				env.DEPLOYMENT_SEQUENCE,
+				assetWorker,
+				'test-secret',
+			);
+			expect(response.status).toBe(200);
+			return project.id;
+		}
+
+		it('loads the source maps uploaded next to the modules of a stack', async () => {
+			const projectId = await deployWithModules({
+				'index.js': 'export default {}',
+				'index.js.map': SOURCE_MAP,
+				'vendor.js': 'export {}',
+				'vendor.js.map': 'not json',
+			});
+			const manifest = await getServerSideCodeManifest(projectId, 1);
+			expect(manifest?.modules['index.js.map']?.type).toBe('data');
+
+			const sourceMaps = await loadSourceMaps(
+				projectId,
+				manifest!,
+				['Error\n    at index.js:1:15\n    at vendor.js:1:1\n    at other.js:1:1'],
+				env.KV_SERVER_SIDE_CODE,
+			);
+			// Invalid source maps are skipped
+			expect([...sourceMaps.keys()]).toEqual(['index.js']);
+		});
+	});
+});
@@ -0,0 +1,228 @@
+import { getServerSideCodeKey } from './project-manager';
+
+import type { ServerSideCodeManifest } from './types';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Stack frames end with a location, either in parentheses (`at fn (index.js:1:2)`) or bare (`at index.js:1:2`)
+const STACK_FRAME_PATTERN = /^(\s*at (?:.*\()?)(.+?):(\d+):(\d+)(\)?)$/;
+
+/**
+ * Source map (revision 3) as uploaded with server-side code. Index maps with `sections` are not supported.
+ */
+interface RawSourceMap {
+	version: number;
+	sources: string[];
+	sourceRoot?: string;
+	names?: string[];
+	mappings: string;
+}
+
+interface MappingSegment {
+	generatedColumn: number;
+	sourceIndex: number;
+	sourceLine: number;
+	sourceColumn: number;
+}
+
+/**
+ * Decoded source map: for each generated line, its segments ordered by generated column.
+ */
+export interface SourceMap {
+	sources: string[];
+	lines: MappingSegment[][];
+}
+
+export interface OriginalPosition {
+	source: string;
+	// 1-based, like the positions of stack traces
+	line: number;
+	column: number;
+}
+
+/**
+ * Decodes the base64 VLQ values of one mapping segment.
+ */
+function decodeVlq(segment: string): number[] {
+	const values: number[] = [];
+	let value = 0;
+	let shift = 0;
+
+	for (const character of segment) {
+		const digit = BASE64_ALPHABET.indexOf(character);
+		if (digit === -1) {
+			throw new Error(`Invalid character '${character}' in source map mappings`);
+		}
+		value += (digit & 31) * 2 ** shift;
+		if (digit & 32) {
+			shift += 5;
+		} else {
+			values.push(value % 2 === 1 ? -(value - 1) / 2 : value / 2);
+			value = 0;
+			shift = 0;
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parses a source map and decodes its mappings.
+ *
+ * @param json - The source map file content
+ * @returns The decoded source map
+ * @throws Error if the content is not a version 3 source map
+ */
+export function parseSourceMap(json: string): SourceMap {
+	const raw: RawSourceMap = JSON.parse(json);
+	if (raw.version !== 3 || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+		throw new Error('Only version 3 source maps with mappings are supported');
+	}
+
+	const sourceRoot = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+	const sources = raw.sources.map((source) => `${sourceRoot}${source}`);
+
+	// Source index, line and column are relative to the previous segment across lines; the generated column restarts per line
+	let sourceIndex = 0;
+	let sourceLine = 0;
+	let sourceColumn = 0;
+
+	const lines = raw.mappings.split(';').map((line) => {
+		const segments: MappingSegment[] = [];
+		let generatedColumn = 0;
+
+		for (const segment of line.split(',')) {
+			if (segment === '') {
+				continue;
+			}
+			const [columnDelta = 0, sourceDelta, lineDelta = 0, sourceColumnDelta = 0] = decodeVlq(segment);
+			generatedColumn += columnDelta;
+			// Segments with only a generated column map to no source
+			if (sourceDelta === undefined) {
+				continue;
+			}
+			sourceIndex += sourceDelta;
+			sourceLine += lineDelta;
+			sourceColumn += sourceColumnDelta;
+			segments.push({ generatedColumn, sourceIndex, sourceLine, sourceColumn });
+		}
+
+		segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+		return segments;
+	});
+
+	return { sources, lines };
+}
+
+/**
+ * Finds the original position of a generated position: the closest segment at or before the column.
+ *
+ * @param map - The decoded source map
+ * @param line - The 1-based generated line
+ * @param column - The 1-based generated column
+ * @returns The original position, or undefined if the position is not mapped
+ */
+export function findOriginalPosition(map: SourceMap, line: number, column: number): OriginalPosition | undefined {
+	const segments = map.lines[line - 1] ?? [];
+
+	let low = 0;
+	let high = segments.length - 1;
+	let match: MappingSegment | undefined;
+	while (low <= high) {
+		const middle = Math.floor((low + high) / 2);
+		const segment = segments[middle]!;
+		if (segment.generatedColumn <= column - 1) {
+			match = segment;
+			low = middle + 1;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	const source = match ? map.sources[match.sourceIndex] : undefined;
+	if (!match || source === undefined) {
+		return undefined;
+	}
+	return { source, line: match.sourceLine + 1, column: match.sourceColumn + 1 };
+}
+
+/**
+ * Normalizes the file of a stack frame to a module path of the manifest.
+ */
+function toModulePath(file: string): string {
+	return file.replace(/^file:\/\//, '').replace(/^\.?\//, '');
+}
+
+/**
+ * Rewrites the frames of a stack trace to their original file, line and column.
+ * Frames of modules without a source map, or at unmapped positions, are kept as they are.
+ *
+ * @param stack - The stack trace, as captured from the server-side code
+ * @param sourceMaps - Decoded source maps by the module path of the generated file
+ * @returns The stack trace with original positions
+ */
+export function applySourceMaps(stack: string, sourceMaps: Map<string, SourceMap>): string {
+	if (sourceMaps.size === 0) {
+		return stack;
+	}
+
+	return stack
+		.split('\n')
+		.map((frame) => {
+			const match = STACK_FRAME_PATTERN.exec(frame);
+			const map = match ? sourceMaps.get(toModulePath(match[2]!)) : undefined;
+			if (!match || !map) {
+				return frame;
+			}
+			const position = findOriginalPosition(map, Number(match[3]), Number(match[4]));
+			return position ? `${match[1]}${position.source}:${position.line}:${position.column}${match[5]}` : frame;
+		})
+		.join('\n');
+}
+
+/**
+ * Loads the source maps of the modules that appear in stack traces. The source map of a module
+ * is the `data` module uploaded next to it with `.map` appended (`index.js` → `index.js.map`).
+ * Source maps that fail to load or parse are skipped, so they never hide the original stack.
+ *
+ * @param projectId - The unique identifier of the project
+ * @param manifest - The server-side code manifest of the deployment the stacks come from
+ * @param stacks - The stack traces to find source maps for
+ * @param serverSideCodeKv - The KV namespace for server-side code
+ * @returns Decoded source maps by the module path of the generated file
+ */
+export async function loadSourceMaps(
+	projectId: string,
+	manifest: ServerSideCodeManifest,
+	stacks: string[],
+	serverSideCodeKv: KVNamespace,
+): Promise<Map<string, SourceMap>> {
+	const modulePaths = new Set<string>();
+	for (const stack of stacks) {
+		for (const frame of stack.split('\n')) {
+			const match = STACK_FRAME_PATTERN.exec(frame);
+			const modulePath = match ? toModulePath(match[2]!) : undefined;
+			if (modulePath && manifest.modules[`${modulePath}.map`]?.type === 'data') {
+				modulePaths.add(modulePath);
+			}
+		}
+	}
+
+	const entries = await Promise.all(
+		[...modulePaths].map(async (modulePath): Promise<[string, SourceMap] | undefined> => {
+			const { hash } = manifest.modules[`${modulePath}.map`]!;
+			try {
+				const content = await serverSideCodeKv.get(getServerSideCodeKey(projectId, hash), { type: 'text', cacheTtl: 86_400 });
+				if (!content) {
+					return undefined;
+				}
+				return [modulePath, parseSourceMap(content)];
+			} catch (error) {
+				console.error(`Failed to load source map for ${modulePath}:`, error);
+				return undefined;
+			}
+		}),
+	);
+
+	return new Map(entries.filter((entry) => entry !== undefined));
+}
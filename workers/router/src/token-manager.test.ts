@@ -0,0 +1,173 @@
+import { env } from 'cloudflare:test';
+
+import { authenticateToken, createApiToken, hasPermission, listApiTokens, revokeApiToken, timingSafeEqual } from './token-manager';
+
+import type { ApiCredential } from './token-manager';
+import type { ApiToken } from './types';
+
+const ADMIN_TOKEN = 'admin-secret';
+
+interface CreateTokenResponse {
+	success: boolean;
+	token: string;
+	apiToken: Omit<ApiToken, 'secretHash'>;
+}
+
+describe('token-manager', () => {
+	let projectsKv: KVNamespace;
+
+	beforeEach(async () => {
+		projectsKv = env.KV_PROJECTS;
+
+		// Clear KV namespace before each test
+		const keys = await projectsKv.list();
+		for (const key of keys.keys) {
+			await projectsKv.delete(key.name);
+		}
+	});
+
+	async function mint(body: Record<string, unknown>): Promise<CreateTokenResponse> {
+		const response = await createApiToken(new Request('http://example.com', { method: 'POST', body: JSON.stringify(body) }), projectsKv);
+		expect(response.status).toBe(201);
+		return await response.json<CreateTokenResponse>();
+	}
+
+	function tokenCredential(overrides: Partial<ApiToken>): ApiCredential {
+		return {
+			type: 'token',
+			token: { id: 'token-id', name: 'ci', scopes: [], createdAt: new Date().toISOString(), secretHash: '', ...overrides },
+		};
+	}
+
+	describe('timingSafeEqual', () => {
+		it('compares strings', async () => {
+			expect(await timingSafeEqual('abc', 'abc')).toBe(true);
+			expect(await timingSafeEqual('abc', 'abd')).toBe(false);
+			expect(await timingSafeEqual('abc', 'abcd')).toBe(false);
+		});
+	});
+
+	describe('createApiToken', () => {
+		it('mints a token and stores only its hash', async () => {
+			const data = await mint({ name: 'ci', scopes: ['deploy', 'deploy', 'projects:read'], projectIds: ['project-1'] });
+
+			expect(data.token).toMatch(/^awt_[0-9a-f-]{36}_[0-9a-f]{64}$/);
+			expect(data.apiToken.name).toBe('ci');
+			expect(data.apiToken.scopes).toEqual(['deploy', 'projects:read']);
+			expect(data.apiToken.projectIds).toEqual(['project-1']);
+			expect(data.apiToken).not.toHaveProperty('secretHash');
+
+			const stored = await projectsKv.get(`api-token/${data.apiToken.id}`);
+			expect(stored).not.toContain(data.token.slice(-64));
+		});
+
+		it('rejects invalid payloads', async () => {
+			for (const body of [
+				{ name: 'ci', scopes: [] },
+				{ name: 'ci', scopes: ['admin'] },
+				{ name: '', scopes: ['deploy'] },
+				{ name: 'ci', scopes: ['deploy'], projectIds: [] },
+				{ name: 'ci', scopes: ['deploy'], expiresAt: '2000-01-01T00:00:00Z' },
+			]) {
+				const response = await createApiToken(
+					new Request('http://example.com', { method: 'POST', body: JSON.stringify(body) }),
+					projectsKv,
+				);
+				expect(response.status).toBe(400);
+			}
+		});
+	});
+
+	describe('authenticateToken', () => {
+		it('accepts the admin token', async () => {
+			expect(await authenticateToken(ADMIN_TOKEN, ADMIN_TOKEN, projectsKv)).toEqual({ type: 'admin' });
+		});
+
+		it('accepts a minted token', async () => {
+			const data = await mint({ name: 'ci', scopes: ['deploy'] });
+
+			const credential = await authenticateToken(data.token, ADMIN_TOKEN, projectsKv);
+			expect(credential?.type).toBe('token');
+			expect(credential?.type === 'token' && credential.token.id).toBe(data.apiToken.id);
+		});
+
+		it('rejects unknown and tampered tokens', async () => {
+			const data = await mint({ name: 'ci', scopes: ['deploy'] });
+
+			expect(await authenticateToken('wrong', ADMIN_TOKEN, projectsKv)).toBeUndefined();
+			const tampered = `${data.token.slice(0, -1)}${data.token.endsWith('0') ? '1' : '0'}`;
+			expect(await authenticateToken(tampered, ADMIN_TOKEN, projectsKv)).toBeUndefined();
+			expect(await authenticateToken('awt_missing_secret', ADMIN_TOKEN, projectsKv)).toBeUndefined();
+			expect(await authenticateToken('awt_', ADMIN_TOKEN, projectsKv)).toBeUndefined();
+		});
+
+		it('rejects expired tokens', async () => {
+			const data = await mint({ name: 'ci', scopes: ['deploy'], expiresAt: new Date(Date.now() + 120_000).toISOString() });
+			expect(await authenticateToken(data.token, ADMIN_TOKEN, projectsKv)).toBeDefined();
+
+			vi.useFakeTimers();
+			vi.setSystemTime(Date.now() + 180_000);
+			try {
+				expect(await authenticateToken(data.token, ADMIN_TOKEN, projectsKv)).toBeUndefined();
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it('rejects revoked tokens', async () => {
+			const data = await mint({ name: 'ci', scopes: ['deploy'] });
+
+			const response = await revokeApiToken(data.apiToken.id, projectsKv);
+			expect(response.status).toBe(200);
+
+			expect(await authenticateToken(data.token, ADMIN_TOKEN, projectsKv)).toBeUndefined();
+		});
+	});
+
+	describe('hasPermission', () => {
+		it('allows everything for the admin token', () => {
+			expect(hasPermission({ type: 'admin' }, 'delete')).toBe(true);
+			expect(hasPermission({ type: 'admin' }, 'deploy', 'project-1')).toBe(true);
+		});
+
+		it('checks token scopes', () => {
+			const credential = tokenCredential({ scopes: ['deploy'] });
+
+			expect(hasPermission(credential, 'deploy', 'project-1')).toBe(true);
+			expect(hasPermission(credential, 'delete', 'project-1')).toBe(false);
+		});
+
+		it('restricts tokens to their projects', () => {
+			const credential = tokenCredential({ scopes: ['deploy', 'projects:read'], projectIds: ['project-1'] });
+
+			expect(hasPermission(credential, 'deploy', 'project-1')).toBe(true);
+			expect(hasPermission(credential, 'deploy', 'project-2')).toBe(false);
+			// Routes spanning all projects are not allowed for project-restricted tokens
+			expect(hasPermission(credential, 'projects:read')).toBe(false);
+		});
+	});
+
+	describe('listApiTokens', () => {
+		it('lists tokens without secrets', async () => {
+			await mint({ name: 'first', scopes: ['deploy'] });
+			await mint({ name: 'second', scopes: ['projects:read'] });
+
+			const response = await listApiTokens(projectsKv);
+			const data = await response.json<{ tokens: Omit<ApiToken, 'secretHash'>[] }>();
+			const names = data.tokens.map((t) => t.name);
+			names.sort();
+
+			expect(names).toEqual(['first', 'second']);
+			for (const token of data.tokens) {
+				expect(token).not.toHaveProperty('secretHash');
+			}
+		});
+	});
+
+	describe('revokeApiToken', () => {
+		it('returns 404 for an unknown token', async () => {
+			const response = await revokeApiToken('missing', projectsKv);
+			expect(response.status).toBe(404);
+		});
+	});
+});
@@ -0,0 +1,232 @@
+import { z } from 'zod';
+
+import { createApiTokenRequestSchema } from './validation';
+import { listAllKeys } from '../../shared/kv';
+
+import type { ApiToken, ApiTokenScope } from './types';
+
+/** Prefix of scoped API tokens, distinguishing them from the bootstrap `API_TOKEN` */
+const TOKEN_PREFIX = 'awt_';
+
+/** KV key prefix of API token records */
+const TOKEN_KEY_PREFIX = 'api-token/';
+
+/**
+ * The credential a management API request was authenticated with:
+ * the bootstrap `API_TOKEN` (full access) or a scoped API token.
+ */
+export type ApiCredential = { type: 'admin' } | { type: 'token'; token: ApiToken };
+
+/**
+ * Constant-time string comparison to prevent timing attacks on auth tokens.
+ * Hashes both inputs first so the comparison is always over fixed-length
+ * buffers, avoiding length leakage from an early return.
+ */
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+	const encoder = new TextEncoder();
+	const [hashA, hashB] = await Promise.all([
+		crypto.subtle.digest('SHA-256', encoder.encode(a)),
+		crypto.subtle.digest('SHA-256', encoder.encode(b)),
+	]);
+	const bufA = new Uint8Array(hashA);
+	const bufB = new Uint8Array(hashB);
+	let result = 0;
+	for (let index = 0; index < bufA.byteLength; index++) {
+		result |= bufA[index]! ^ bufB[index]!;
+	}
+	return result === 0;
+}
+
+/**
+ * Authenticates a token presented in the Authorization header.
+ *
+ * @param providedToken - The raw token (without "Bearer ")
+ * @param adminToken - The bootstrap `API_TOKEN`
+ * @param projectsKv - The KV namespace storing API token records
+ * @returns The matching credential, or undefined if the token is unknown, revoked or expired
+ */
+export async function authenticateToken(
+	providedToken: string,
+	adminToken: string,
+	projectsKv: KVNamespace,
+): Promise<ApiCredential | undefined> {
+	if (await timingSafeEqual(providedToken, adminToken)) {
+		return { type: 'admin' };
+	}
+
+	// Scoped tokens have the form awt_<id>_<secret>
+	if (!providedToken.startsWith(TOKEN_PREFIX)) {
+		return undefined;
+	}
+	const separatorIndex = providedToken.indexOf('_', TOKEN_PREFIX.length);
+	if (separatorIndex === -1) {
+		return undefined;
+	}
+	const tokenId = providedToken.slice(TOKEN_PREFIX.length, separatorIndex);
+	const secret = providedToken.slice(separatorIndex + 1);
+
+	const token = await projectsKv.get<ApiToken>(getTokenKey(tokenId), { type: 'json' });
+	if (!token || !(await timingSafeEqual(await hashSecret(secret), token.secretHash))) {
+		return undefined;
+	}
+
+	if (token.expiresAt && Date.parse(token.expiresAt) <= Date.now()) {
+		return undefined;
+	}
+
+	return { type: 'token', token };
+}
+
+/**
+ * Checks whether a credential grants a scope, optionally for a specific project.
+ * Tokens restricted to a list of projects are only allowed on project routes for those projects.
+ *
+ * @param credential - The authenticated credential
+ * @param scope - The required scope
+ * @param projectId - The project the route operates on (undefined for routes that span projects)
+ * @returns True if the request is allowed
+ */
+export function hasPermission(credential: ApiCredential, scope: ApiTokenScope, projectId?: string): boolean {
+	if (credential.type === 'admin') {
+		return true;
+	}
+
+	const { token } = credential;
+	if (!token.scopes.includes(scope)) {
+		return false;
+	}
+
+	if (token.projectIds) {
+		return projectId !== undefined && token.projectIds.includes(projectId);
+	}
+
+	return true;
+}
+
+/**
+ * Mints a new scoped API token. The token secret is only returned in this response;
+ * only its hash is stored.
+ *
+ * @param request - The HTTP request containing the token name, scopes, optional project IDs and expiry
+ * @param projectsKv - The KV namespace storing API token records
+ * @returns JSON response with the token record and the token value (HTTP 201)
+ */
+export async function createApiToken(request: Request, projectsKv: KVNamespace): Promise<Response> {
+	const bodyJson = await request.json();
+
+	// Validate payload using Zod
+	const bodyValidation = createApiTokenRequestSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const body = bodyValidation.data;
+	const tokenId = crypto.randomUUID();
+	const secret = toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+	const token: ApiToken = {
+		id: tokenId,
+		name: body.name,
+		scopes: [...new Set(body.scopes)],
+		projectIds: body.projectIds,
+		createdAt: new Date().toISOString(),
+		expiresAt: body.expiresAt,
+		secretHash: await hashSecret(secret),
+	};
+
+	// Expired tokens are rejected on use and removed from KV automatically
+	const expiration = token.expiresAt ? Math.floor(Date.parse(token.expiresAt) / 1000) : undefined;
+	await projectsKv.put(getTokenKey(tokenId), JSON.stringify(token), { expiration });
+
+	return Response.json(
+		{
+			success: true,
+			token: `${TOKEN_PREFIX}${tokenId}_${secret}`,
+			apiToken: toPublicToken(token),
+		},
+		{
+			status: 201,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Lists all scoped API tokens (without their secrets).
+ *
+ * @param projectsKv - The KV namespace storing API token records
+ * @returns JSON response with the token records
+ */
+export async function listApiTokens(projectsKv: KVNamespace): Promise<Response> {
+	const keys: string[] = [];
+	for await (const key of listAllKeys(projectsKv, { prefix: TOKEN_KEY_PREFIX })) {
+		keys.push(key.name);
+	}
+
+	const records = await Promise.all(keys.map((key) => projectsKv.get<ApiToken>(key, { type: 'json' })));
+	const tokens = records.filter((t: ApiToken | null): t is ApiToken => t !== null).map((t) => toPublicToken(t));
+
+	return Response.json(
+		{
+			success: true,
+			tokens,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Revokes a scoped API token.
+ *
+ * @param tokenId - The ID of the token to revoke
+ * @param projectsKv - The KV namespace storing API token records
+ * @returns JSON response confirming revocation, or 404 if the token is not found
+ */
+export async function revokeApiToken(tokenId: string, projectsKv: KVNamespace): Promise<Response> {
+	const key = getTokenKey(tokenId);
+	const token = await projectsKv.get(key);
+
+	if (token === null) {
+		return new Response('Token not found', { status: 404 });
+	}
+
+	await projectsKv.delete(key);
+
+	return Response.json(
+		{
+			success: true,
+			message: 'Token revoked',
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+function getTokenKey(tokenId: string): string {
+	return `${TOKEN_KEY_PREFIX}${tokenId}`;
+}
+
+async function hashSecret(secret: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+	return toHex(new Uint8Array(digest));
+}
+
+function toHex(bytes: Uint8Array): string {
+	return [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toPublicToken(token: ApiToken): Omit<ApiToken, 'secretHash'> {
+	const { secretHash: _secretHash, ...publicToken } = token;
+	return publicToken;
+}
@@ -1,8 +1,13 @@
 import { AssetConfigInput } from '../../asset-service/src/configuration';
 
+import type { OrphanSweepReport } from './orphan-sweep';
+import type { API_TOKEN_SCOPES, ERROR_PAGE_STATES, LOG_LEVELS } from './validation';
+
 export interface ProjectMetadata {
 	id: string;
 	name: string;
+	// Optional human-readable alternative to the ID in project URLs
+	slug?: string;
 	status: 'PENDING' | 'READY' | 'ERROR';
 	createdAt: string;
 	updatedAt: string;
@@ -10,16 +15,202 @@ export interface ProjectMetadata {
 	assetsCount: number;
 	config?: AssetConfigInput;
 	run_worker_first?: boolean | string[];
+	// Deployment currently served on the project hostname (undefined for legacy single-deployment projects)
+	activeDeploymentId?: number;
+	// Highest deployment number issued so far, used to number the next deployment
+	latestDeploymentId?: number;
+	// Error pages of the active deployment
+	errorPages?: ErrorPages;
+	// Takes the project offline while enabled, see MaintenanceSettings
+	maintenance?: MaintenanceSettings;
+}
+
+/**
+ * Maintenance mode of a project: while enabled (and between `startsAt` and `endsAt` when scheduled),
+ * requests are answered with the maintenance error page instead of the live site.
+ */
+export interface MaintenanceSettings {
+	enabled: boolean;
+	// Asset path of the maintenance page in the active deployment
+	page?: string;
+	// Seconds for the Retry-After header; defaults to the time until endsAt
+	retryAfter?: number;
+	// Client IPs that still reach the live site
+	allowedIps?: string[];
+	// Token that sets a cookie reaching the live site, passed once as the __maintenance_bypass query parameter
+	bypassToken?: string;
+	// ISO 8601 times the maintenance window starts and ends
+	startsAt?: string;
+	endsAt?: string;
+}
+
+export interface DeploymentMetadata {
+	id: number;
+	projectId: string;
+	createdAt: string;
+	hasServerSideCode: boolean;
+	assetsCount: number;
+	config?: AssetConfigInput;
+	run_worker_first?: boolean | string[];
+	// Cron expressions of the server-side code's scheduled handler
+	crons?: string[];
+	errorPages?: ErrorPages;
+}
+
+/** Error state of the request path, see {@link ERROR_PAGE_STATES} */
+export type ErrorPageState = (typeof ERROR_PAGE_STATES)[number];
+
+/** Asset paths of a deployment's error pages by error state or status code (e.g. `{ "500": "/_errors/500.html" }`) */
+export type ErrorPages = Record<string, string>;
+
+/** Entry of the cron trigger index, pointing the scheduler at the active deployment of a project with cron triggers */
+export interface CronTriggerIndexEntry {
+	deploymentId: number;
+	crons: string[];
+}
+
+/** Result of invoking the scheduled handler of a project's server-side code */
+export interface CronTriggerRun {
+	id: string;
+	projectId: string;
+	deploymentId: number;
+	cron: string;
+	// The minute the cron expression was due at
+	scheduledTime: string;
+	startedAt: string;
+	durationMs: number;
+	outcome: 'success' | 'failure';
+	error?: string;
+}
+
+export interface ProjectSlug {
+	projectId: string;
+	// Set on the previous slug of a renamed project, which redirects to the current slug until it expires
+	redirect?: boolean;
+}
+
+export interface WatchdogSettings {
+	// PENDING projects older than this are deleted
+	pendingTimeoutMinutes: number;
+	// ERROR projects not updated for this long are deleted
+	errorTimeoutMinutes: number;
+	// READY projects not updated for this many days are deleted (undefined = kept forever)
+	readyProjectRetentionDays?: number;
+	// Number of newest deployments kept per project, besides the active one (undefined = all)
+	keepDeployments?: number;
+}
+
+export interface WatchdogRun {
+	id: string;
+	trigger: 'cron' | 'manual';
+	// Dry runs only report what they would delete
+	dryRun: boolean;
+	startedAt: string;
+	durationMs: number;
+	settings: WatchdogSettings;
+	deletedProjects: { projectId: string; name: string; reason: string }[];
+	deletedDeployments: { projectId: string; deploymentId: number }[];
+	failures: { task: string; projectId?: string; error: string }[];
+	orphans?: OrphanSweepReport;
+	// Skipped in dry runs
+	garbageCollection?: { deletedBlobs: number; retainedBlobs: number };
+	deletedAuditEntries?: number;
+}
+
+/** A secret encrypted with the platform key (AES-GCM); `iv` and `ciphertext` are base64 */
+export interface EncryptedSecret {
+	iv: string;
+	ciphertext: string;
+	updatedAt: string;
+}
+
+/** A project's secrets by name, stored as one KV value so the runtime reads them at once */
+export type ProjectSecrets = Record<string, EncryptedSecret>;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** A console message or uncaught exception of a project's server-side code */
+export interface LogEntry {
+	// Increasing within a project; also the event ID of streamed entries
+	id: number;
+	timestamp: string;
+	level: LogLevel;
+	message: string;
+	// Stack trace of exceptions
+	stack?: string;
+	// What the code was handling, e.g. `GET https://app.example.com/` or `scheduled`
+	trigger?: string;
+}
+
+export interface ApiToken {
+	id: string;
+	name: string;
+	scopes: ApiTokenScope[];
+	// Project IDs the token is restricted to (undefined = all projects)
+	projectIds?: string[];
+	createdAt: string;
+	expiresAt?: string;
+	// SHA-256 (hex) of the token secret; the secret itself is only returned once when minted
+	secretHash: string;
+}
+
+export interface AuditLogEntry {
+	id: string;
+	timestamp: string;
+	// 'admin' for the bootstrap API_TOKEN, the scoped token ID, 'upload-session' for JWT-authenticated uploads or 'watchdog'
+	actor: string;
+	ip?: string;
+	action: string;
+	projectId?: string;
+	outcome: 'success' | 'failure';
+	status: number;
+	// Deployment and deletion statistics, deployment IDs and error messages taken from the response
+	details?: Record<string, string | number | boolean>;
+}
+
+export interface CustomDomain {
+	hostname: string;
+	projectId: string;
+	// Only VERIFIED domains are used for routing
+	status: 'PENDING' | 'VERIFIED';
+	verificationToken: string;
+	createdAt: string;
+	verifiedAt?: string;
 }
 
 export type ModuleType = 'js' | 'cjs' | 'py' | 'text' | 'data' | 'json' | 'wasm';
 
+// Metadata stored with each server-side code module
+export interface ModuleMetadata {
+	uploadedAt: number;
+}
+
+/**
+ * Which outbound requests server-side code may make. Patterns are hostnames (`api.example.com`),
+ * wildcard hostnames (`*.example.com`, subdomains only) or http(s) URL patterns (`https://api.example.com/v1/*`).
+ */
+export interface OutboundPolicy {
+	allow: string[];
+	// Headers added to allowed requests matching a pattern, e.g. credentials for an API
+	headers?: { match: string; headers: Record<string, string> }[];
+}
+
 export interface ServerSideCodeManifest {
 	entrypoint: string;
 	// Map of module path to { hash, type }
 	modules: Record<string, { hash: string; type: ModuleType }>;
 	compatibilityDate?: string;
+	// Flags enabled in addition to nodejs_compat, which is always on
+	compatibilityFlags?: string[];
+	// Exported class of the entrypoint module that handles requests, instead of its default export
+	entrypointClass?: string;
+	// Cron expressions that invoke the scheduled handler of the entrypoint
+	crons?: string[];
 	env?: Record<string, string>;
+	// Without a policy, all outbound requests are blocked
+	outbound?: OutboundPolicy;
 }
 
 export interface UploadSession {
@@ -45,10 +236,15 @@ export interface DeploymentPayload {
 		// Can be: string (base64) or { content: string, type: ModuleType }
 		modules: Record<string, string | { content: string; type: ModuleType }>;
 		compatibilityDate?: string;
+		compatibilityFlags?: string[];
+		entrypointClass?: string;
+		crons?: string[];
 	};
 	config?: AssetConfigInput;
 	run_worker_first?: boolean | string[];
 	env?: Record<string, string>;
+	outbound?: OutboundPolicy;
+	errorPages?: ErrorPages;
 }
 
 export interface CompletionJwtPayload {
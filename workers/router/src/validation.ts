@@ -5,6 +5,7 @@
 
 import { z } from 'zod';
 
+import { parseCronExpression } from './cron';
 import { MAX_STATIC_REDIRECTS, MAX_DYNAMIC_REDIRECTS } from '../../shared/limits';
 
 // =============================================================================
@@ -44,8 +45,11 @@ export function formatBytes(bytes: number, decimals: number = 2, binary: boolean
 /** Maximum number of files in a manifest */
 export const MAX_MANIFEST_ENTRIES = 20_000;
 
-/** Maximum size for a single asset file (25 MiB) */
-export const MAX_FILE_SIZE = 25 * 1024 * 1024;
+/** Maximum size for a single asset file (512 MiB); assets above the KV value limit are stored in chunks */
+export const MAX_FILE_SIZE = 512 * 1024 * 1024;
+
+/** Maximum size for an asset uploaded base64-encoded in a JSON bucket (25 MiB); larger assets must be streamed */
+export const MAX_BUCKET_FILE_SIZE = 25 * 1024 * 1024;
 
 /** Maximum length of an asset pathname (including leading slash) */
 export const MAX_PATHNAME_LENGTH = 1024;
@@ -68,9 +72,123 @@ export const MAX_ENV_VAR_NAME_LENGTH = 128;
 /** Maximum size for a single environment variable value (5 KB) */
 export const MAX_ENV_VAR_SIZE = 5 * 1000;
 
+/** Maximum number of secrets per project */
+export const MAX_SECRETS = 64;
+
+/** Maximum size of a single secret value (5 KB) */
+export const MAX_SECRET_SIZE = 5 * 1000;
+
+/** Maximum size of a key in a project's key-value storage, leaving room for the project prefix within KV's 512 byte limit */
+export const MAX_DATA_KEY_SIZE = 400;
+
+/** Maximum size of a single value in a project's key-value storage (1 MiB) */
+export const MAX_DATA_VALUE_SIZE = 1024 * 1024;
+
+/** Maximum number of keys in a project's key-value storage */
+export const MAX_DATA_KEYS = 10_000;
+
+/** Maximum total size of the values in a project's key-value storage (100 MiB) */
+export const MAX_DATA_STORAGE_SIZE = 100 * 1024 * 1024;
+
+/** Names of the bindings the platform injects into server-side code, which secrets cannot shadow */
+export const RESERVED_BINDING_NAMES = ['ASSETS', 'KV'];
+
+/**
+ * Compatibility flags deployments may enable in addition to nodejs_compat. Flags that change
+ * the security model of the isolate (experimental and unsafe ones) are not allowed.
+ */
+export const ALLOWED_COMPATIBILITY_FLAGS = [
+	'nodejs_compat_populate_process_env',
+	'nodejs_als',
+	'global_fetch_strictly_public',
+	'no_global_navigator',
+	'url_standard',
+	'streams_enable_constructors',
+	'transformstream_enable_standard_constructor',
+] as const;
+
+/** Path of the generated main module of scheduled runs, which deployments cannot upload */
+export const SCHEDULED_ENTRYPOINT_MODULE = '__scheduled_entrypoint__.js';
+
+/** Maximum number of cron triggers per deployment */
+export const MAX_CRON_TRIGGERS = 5;
+
+/** Maximum length of a cron expression; the expressions of a deployment must fit into KV key metadata (1024 bytes) */
+export const MAX_CRON_EXPRESSION_LENGTH = 100;
+
+/** Levels of captured log entries; `exception` entries are uncaught exceptions */
+export const LOG_LEVELS = ['debug', 'log', 'info', 'warn', 'error', 'exception'] as const;
+
+/** Number of log entries kept per project; older entries are overwritten */
+export const MAX_LOG_ENTRIES = 1000;
+
+/** Maximum length of a captured log message; longer messages are truncated */
+export const MAX_LOG_MESSAGE_LENGTH = 4096;
+
+/**
+ * Error states of the request path that error pages can be configured for, in addition to status codes.
+ * `project_not_found` and `rate_limited` happen before a project is known and only use platform pages.
+ */
+export const ERROR_PAGE_STATES = [
+	'project_not_found',
+	'rate_limited',
+	'project_not_ready',
+	'deployment_not_found',
+	'not_found',
+	'server_error',
+	'maintenance',
+] as const;
+
+/** Maximum number of error pages per deployment */
+export const MAX_ERROR_PAGES = 20;
+
+/** Maximum number of IP addresses that bypass maintenance mode */
+export const MAX_MAINTENANCE_ALLOWED_IPS = 50;
+
+/** Maximum `Retry-After` of maintenance responses, in seconds (7 days) */
+export const MAX_MAINTENANCE_RETRY_AFTER = 7 * 24 * 60 * 60;
+
 /** Maximum length of a project name */
 export const MAX_PROJECT_NAME_LENGTH = 128;
 
+/** Maximum length of a project slug (a single DNS label) */
+export const MAX_SLUG_LENGTH = 63;
+
+/** Slugs that cannot be claimed because they collide with platform hostnames or routes */
+export const RESERVED_SLUGS = new Set(['www', 'admin', 'api', 'app', 'assets', 'dashboard', 'mail', 'static', 'status']);
+
+/** Maximum number of projects an API token can be restricted to */
+export const MAX_TOKEN_PROJECTS = 100;
+
+/** Maximum length of an API token name */
+export const MAX_TOKEN_NAME_LENGTH = 128;
+
+/** Maximum age of PENDING and ERROR projects the watchdog can be configured to keep (one week) */
+export const MAX_WATCHDOG_TIMEOUT_MINUTES = 7 * 24 * 60;
+
+/** Maximum number of days the watchdog can be configured to keep untouched READY projects (ten years) */
+export const MAX_WATCHDOG_RETENTION_DAYS = 3650;
+
+/** Maximum number of deployments per project the watchdog can be configured to keep */
+export const MAX_WATCHDOG_KEPT_DEPLOYMENTS = 1000;
+
+/**
+ * Permissions that can be granted to API tokens.
+ * - `projects:read` - list and inspect projects, deployments and domains
+ * - `projects:create` - create projects
+ * - `projects:update` - change slugs and manage custom domains
+ * - `deploy` - upload assets, deploy and roll back
+ * - `delete` - delete projects
+ * - `audit:read` - read the audit log
+ */
+export const API_TOKEN_SCOPES = ['projects:read', 'projects:create', 'projects:update', 'deploy', 'delete', 'audit:read'] as const;
+
+/** Maximum length of a custom domain hostname */
+export const MAX_HOSTNAME_LENGTH = 253;
+
+/** Maximum number of custom domains per project */
+export const MAX_CUSTOM_DOMAINS = 20;
+
 // Re-export shared limits for backward compatibility
 
 /** Maximum length of a redirect pattern (source path) */
@@ -82,12 +200,24 @@ export const MAX_REDIRECT_TARGET_LENGTH = 2048;
 /** Maximum length of a header rule pattern (path matcher) */
 export const MAX_HEADER_RULE_PATTERN_LENGTH = 2048;
 
+/** Maximum number of immutable caching patterns */
+export const MAX_IMMUTABLE_PATTERNS = 100;
+
 /** Maximum length of a header name */
 export const MAX_HEADER_NAME_LENGTH = 256;
 
 /** Maximum length of a header value */
 export const MAX_HEADER_VALUE_LENGTH = 8192;
 
+/** Maximum number of allowed outbound patterns */
+export const MAX_OUTBOUND_PATTERNS = 100;
+
+/** Maximum number of outbound header injection rules */
+export const MAX_OUTBOUND_HEADER_RULES = 20;
+
+/** Maximum length of an outbound pattern */
+export const MAX_OUTBOUND_PATTERN_LENGTH = 2048;
+
 // =============================================================================
 // Zod Schemas
 // =============================================================================
@@ -210,7 +340,8 @@ export const projectNameSchema = z
 export const modulePathSchema = z
 	.string()
 	.min(1, 'Module path cannot be empty')
-	.max(MAX_MODULE_PATH_LENGTH, `Module path cannot exceed ${MAX_MODULE_PATH_LENGTH} characters`);
+	.max(MAX_MODULE_PATH_LENGTH, `Module path cannot exceed ${MAX_MODULE_PATH_LENGTH} characters`)
+	.refine((path) => path !== SCHEDULED_ENTRYPOINT_MODULE, { message: `Module path ${SCHEDULED_ENTRYPOINT_MODULE} is reserved` });
 
 /**
  * Schema for module types.
@@ -314,10 +445,88 @@ export const assetConfigSchema = z
 			})
 			.optional(),
 		has_static_routing: z.boolean().optional(),
+		immutable_patterns: z
+			.array(headerRulePatternSchema)
+			.max(MAX_IMMUTABLE_PATTERNS, `Too many immutable patterns. Maximum allowed is ${MAX_IMMUTABLE_PATTERNS}.`)
+			.optional(),
 		debug: z.boolean().optional(),
 	})
 	.optional();
 
+/**
+ * Checks an outbound pattern: a hostname, a wildcard hostname (`*.example.com`) or an http(s) URL pattern.
+ */
+function isValidOutboundPattern(pattern: string): boolean {
+	if (!pattern.includes('://')) {
+		return /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(pattern);
+	}
+	try {
+		const urlPattern = new URLPattern(pattern);
+		return urlPattern.protocol === 'http' || urlPattern.protocol === 'https';
+	} catch {
+		return false;
+	}
+}
+
+/** Schema for an outbound pattern */
+const outboundPatternSchema = z
+	.string()
+	.min(1, 'Outbound pattern cannot be empty')
+	.max(MAX_OUTBOUND_PATTERN_LENGTH, `Outbound pattern cannot exceed ${MAX_OUTBOUND_PATTERN_LENGTH} characters`)
+	.refine(isValidOutboundPattern, {
+		message: 'Outbound pattern must be a lowercase hostname, a wildcard hostname such as *.example.com or an http(s) URL pattern',
+	});
+
+/**
+ * Schema for a cron trigger expression, reporting the parser's error for invalid expressions.
+ */
+const cronExpressionSchema = z
+	.string()
+	.max(MAX_CRON_EXPRESSION_LENGTH, `Cron expression cannot exceed ${MAX_CRON_EXPRESSION_LENGTH} characters`)
+	.superRefine((expression, context) => {
+		try {
+			parseCronExpression(expression);
+		} catch (error) {
+			context.addIssue({
+				code: 'custom',
+				message: `Invalid cron expression '${expression}': ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+	});
+
+/**
+ * Schema for the outbound network policy of server-side code.
+ */
+export const outboundPolicySchema = z.object({
+	allow: z
+		.array(outboundPatternSchema)
+		.max(MAX_OUTBOUND_PATTERNS, `Too many outbound patterns. Maximum allowed is ${MAX_OUTBOUND_PATTERNS}.`),
+	headers: z
+		.array(
+			z.object({
+				match: outboundPatternSchema,
+				headers: z.record(headerNameSchema, headerValueSchema),
+			}),
+		)
+		.max(MAX_OUTBOUND_HEADER_RULES, `Too many outbound header rules. Maximum allowed is ${MAX_OUTBOUND_HEADER_RULES}.`)
+		.optional(),
+});
+
+/**
+ * Schema for the error pages of a deployment: asset paths by error state or 4xx/5xx status code.
+ */
+export const errorPagesSchema = z
+	.record(
+		z.union(
+			[z.enum(ERROR_PAGE_STATES), z.string().regex(/^[45]\d{2}$/)],
+			`Error pages are keyed by a 4xx/5xx status code or one of: ${ERROR_PAGE_STATES.join(', ')}`,
+		),
+		z.string().startsWith('/', 'Error page must be an asset path starting with /').max(1024, 'Error page path is too long'),
+	)
+	.refine((pages) => Object.keys(pages).length <= MAX_ERROR_PAGES, {
+		message: `Too many error pages. Maximum allowed is ${MAX_ERROR_PAGES}.`,
+	});
+
 /**
  * Schema for the entire deployment payload.
  * Validates project name, environment variables, server-side code modules, and configuration.
@@ -351,11 +560,49 @@ export const deploymentPayloadSchema = z.object({
 				}
 			}),
 			compatibilityDate: z.string().optional(),
+			compatibilityFlags: z
+				.array(
+					z.enum(
+						ALLOWED_COMPATIBILITY_FLAGS,
+						`Compatibility flag is not allowed. Allowed flags: ${ALLOWED_COMPATIBILITY_FLAGS.join(', ')}`,
+					),
+				)
+				.optional(),
+			entrypointClass: z
+				.string()
+				.regex(/^[A-Za-z_$][\w$]*$/, 'Entrypoint class must be a valid JavaScript identifier')
+				.refine((name) => name !== 'default', { message: 'Omit entrypointClass to use the default export' })
+				.optional(),
+			crons: z
+				.array(cronExpressionSchema)
+				.max(MAX_CRON_TRIGGERS, `Too many cron triggers. Maximum allowed is ${MAX_CRON_TRIGGERS}.`)
+				.optional(),
 		})
 		.optional(),
 	config: assetConfigSchema,
 	run_worker_first: z.union([z.boolean(), z.array(z.string())]).optional(),
 	env: environmentVariablesSchema,
+	outbound: outboundPolicySchema.optional(),
+	errorPages: errorPagesSchema.optional(),
+});
+
+/**
+ * Schema for a secret name. Names must be valid JavaScript identifiers and cannot shadow platform bindings.
+ */
+export const secretNameSchema = z
+	.string()
+	.min(1, 'Secret name cannot be empty')
+	.max(MAX_ENV_VAR_NAME_LENGTH, `Secret name cannot exceed ${MAX_ENV_VAR_NAME_LENGTH} characters`)
+	.regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Secret name may only contain letters, digits and underscores, and cannot start with a digit')
+	.refine((name) => !RESERVED_BINDING_NAMES.includes(name), { message: `Secret names ${RESERVED_BINDING_NAMES.join(', ')} are reserved` });
+
+/**
+ * Schema for setting a secret.
+ */
+export const putSecretRequestSchema = z.object({
+	value: z.string().refine((value) => new TextEncoder().encode(value).length <= MAX_SECRET_SIZE, {
+		message: `Secret value cannot exceed ${MAX_SECRET_SIZE} bytes`,
+	}),
 });
 
 /**
@@ -365,11 +612,170 @@ export const assetManifestRequestSchema = z.object({
 	manifest: manifestSchema,
 });
 
+/**
+ * Schema for a custom domain hostname.
+ * Accepts a fully qualified, lowercase DNS name (no scheme, port, path, IP address or localhost).
+ */
+export const hostnameSchema = z
+	.string()
+	.min(1, 'Hostname cannot be empty')
+	.max(MAX_HOSTNAME_LENGTH, `Hostname cannot exceed ${MAX_HOSTNAME_LENGTH} characters`)
+	.transform((hostname) => hostname.toLowerCase().replace(/\.$/, ''))
+	.refine((hostname) => /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(hostname), {
+		message: 'Hostname must be a fully qualified domain name such as www.example.com',
+	})
+	.refine((hostname) => !hostname.endsWith('.localhost'), {
+		message: 'Hostname cannot be a localhost name',
+	});
+
+/**
+ * Schema for add custom domain request payload.
+ */
+export const addDomainRequestSchema = z.object({
+	hostname: hostnameSchema,
+});
+
+/** Matches project IDs generated by `crypto.randomUUID()` */
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Schema for a project slug, used as a human-readable alternative to the project ID in URLs.
+ * A slug is a lowercase DNS label. It cannot contain `--` (the preview deployment separator),
+ * look like a project ID (UUID) or be a reserved word.
+ */
+export const slugSchema = z
+	.string()
+	.min(1, 'Slug cannot be empty')
+	.max(MAX_SLUG_LENGTH, `Slug cannot exceed ${MAX_SLUG_LENGTH} characters`)
+	.regex(
+		/^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/,
+		'Slug must contain only lowercase letters, digits and hyphens, and start and end with a letter or digit',
+	)
+	.refine((slug) => !slug.includes('--'), { message: 'Slug cannot contain consecutive hyphens' })
+	.refine((slug) => !UUID_PATTERN.test(slug), { message: 'Slug cannot be a UUID' })
+	.refine((slug) => !RESERVED_SLUGS.has(slug), { message: 'Slug is reserved' });
+
+/**
+ * Schema for create API token request payload.
+ */
+export const createApiTokenRequestSchema = z.object({
+	name: z
+		.string()
+		.min(1, 'Token name cannot be empty')
+		.max(MAX_TOKEN_NAME_LENGTH, `Token name cannot exceed ${MAX_TOKEN_NAME_LENGTH} characters`),
+	scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'At least one scope is required'),
+	projectIds: z
+		.array(z.string().min(1))
+		.min(1, 'projectIds cannot be empty (omit it to allow all projects)')
+		.max(MAX_TOKEN_PROJECTS, `Tokens cannot be restricted to more than ${MAX_TOKEN_PROJECTS} projects`)
+		.optional(),
+	expiresAt: z.iso
+		.datetime()
+		.refine((value) => Date.parse(value) > Date.now() + 60_000, { message: 'expiresAt must be at least one minute in the future' })
+		.optional(),
+});
+
+/**
+ * Schema for audit log query parameters.
+ */
+export const auditLogQuerySchema = z.object({
+	projectId: z.string().min(1).optional(),
+	action: z.string().min(1).optional(),
+	from: z.iso.datetime({ offset: true }).optional(),
+	to: z.iso.datetime({ offset: true }).optional(),
+	limit: z.coerce.number().int().min(1).max(100).optional(),
+	cursor: z.string().optional(),
+});
+
+/**
+ * Schema for the watchdog settings. Omitted timeouts use their defaults; omitted retention policies are disabled.
+ */
+export const watchdogSettingsSchema = z.object({
+	pendingTimeoutMinutes: z.number().int().min(1).max(MAX_WATCHDOG_TIMEOUT_MINUTES).optional(),
+	errorTimeoutMinutes: z.number().int().min(1).max(MAX_WATCHDOG_TIMEOUT_MINUTES).optional(),
+	readyProjectRetentionDays: z.number().int().min(1).max(MAX_WATCHDOG_RETENTION_DAYS).optional(),
+	keepDeployments: z.number().int().min(1).max(MAX_WATCHDOG_KEPT_DEPLOYMENTS).optional(),
+});
+
+/**
+ * Schema for manually triggered watchdog run request payload.
+ */
+export const watchdogRunRequestSchema = z.object({
+	dryRun: z.boolean().optional(),
+});
+
+/**
+ * Schema for watchdog run history query parameters.
+ */
+export const watchdogRunsQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(100).optional(),
+	cursor: z.string().optional(),
+});
+
+/**
+ * Schema for cron trigger run history query parameters.
+ */
+export const cronTriggerRunsQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(100).optional(),
+	cursor: z.string().optional(),
+});
+
+/**
+ * Schema for project log query parameters.
+ */
+export const projectLogsQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(MAX_LOG_ENTRIES).optional(),
+	before: z.coerce.number().int().min(1).optional(),
+	level: z.enum(LOG_LEVELS).optional(),
+	stream: z.enum(['true', 'false']).optional(),
+});
+
 /**
  * Schema for create project request payload.
  */
 export const createProjectRequestSchema = z.object({
 	name: projectNameSchema,
+	slug: slugSchema.optional(),
+});
+
+/**
+ * Schema for the maintenance mode settings of a project.
+ */
+export const maintenanceSettingsSchema = z
+	.object({
+		enabled: z.boolean(),
+		page: z.string().startsWith('/', 'Maintenance page must be an asset path starting with /').max(1024).optional(),
+		retryAfter: z.number().int().min(1).max(MAX_MAINTENANCE_RETRY_AFTER).optional(),
+		allowedIps: z
+			.array(z.union([z.ipv4(), z.ipv6()], 'Allowed IPs must be IPv4 or IPv6 addresses'))
+			.max(MAX_MAINTENANCE_ALLOWED_IPS, `Too many allowed IPs. Maximum allowed is ${MAX_MAINTENANCE_ALLOWED_IPS}.`)
+			.optional(),
+		bypassToken: z
+			.string()
+			.min(16, 'Bypass token must be at least 16 characters')
+			.max(256, 'Bypass token cannot exceed 256 characters')
+			.regex(/^[\w-]+$/, 'Bypass token may only contain letters, digits, underscores and hyphens')
+			.optional(),
+		startsAt: z.iso.datetime({ offset: true }).optional(),
+		endsAt: z.iso.datetime({ offset: true }).optional(),
+	})
+	.refine((settings) => !settings.startsAt || !settings.endsAt || Date.parse(settings.startsAt) < Date.parse(settings.endsAt), {
+		message: 'Maintenance must end after it starts',
+		path: ['endsAt'],
+	});
+
+/**
+ * Schema for update project request payload.
+ */
+export const updateProjectRequestSchema = z.object({
+	maintenance: maintenanceSettingsSchema.optional(),
+});
+
+/**
+ * Schema for update project slug request payload.
+ */
+export const updateSlugRequestSchema = z.object({
+	slug: slugSchema,
 });
 
 export { MAX_STATIC_REDIRECTS, MAX_DYNAMIC_REDIRECTS } from '../../shared/limits';
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 import { ProjectMetadata } from './types';
-import { runWatchdog } from './watchdog';
+import { getProjectDeletionReason, listWatchdogRunsData, runWatchdog, triggerWatchdogRun, updateWatchdogSettings } from './watchdog';
 import { createMock } from '../../shared/test-utilities';
 
 // Mock KV
@@ -18,18 +18,29 @@ const createMockKV = () => {
 		}),
 		put: vi.fn(async (key: string, value: string) => store.set(key, value)),
 		delete: vi.fn(async (key: string) => store.delete(key)),
-		list: vi.fn(async (options?: { prefix?: string }) => ({
-			keys: [...store.keys()].filter((k) => !options?.prefix || k.startsWith(options.prefix)).map((name) => ({ name })),
-			list_complete: true,
-			cursor: undefined,
-		})),
+		list: vi.fn(async (options?: { prefix?: string }) => {
+			const names = [...store.keys()].filter((k) => !options?.prefix || k.startsWith(options.prefix));
+			// KV lists keys in lexicographic order
+			names.sort();
+			return {
+				keys: names.map((name) => ({ name })),
+				list_complete: true,
+				cursor: undefined,
+			};
+		}),
 	});
 };
 
 describe('Watchdog Cleanup', () => {
 	let mockProjectsKV: KVNamespace;
 	let mockServerSideCodeKV: KVNamespace;
-	let mockAssetWorker: { deleteProjectAssets: ReturnType<typeof vi.fn> };
+	let mockAssetWorker: {
+		deleteProjectAssets: ReturnType<typeof vi.fn>;
+		deleteDeploymentAssets: ReturnType<typeof vi.fn>;
+		collectGarbage: ReturnType<typeof vi.fn>;
+		sweepProjectOrphans: ReturnType<typeof vi.fn>;
+		markUnreferencedBlobs: ReturnType<typeof vi.fn>;
+	};
 	let environment: Env;
 
 	beforeEach(() => {
@@ -37,11 +48,19 @@ describe('Watchdog Cleanup', () => {
 		mockServerSideCodeKV = createMockKV();
 		mockAssetWorker = {
 			deleteProjectAssets: vi.fn().mockResolvedValue({ deletedAssets: 0, deletedManifest: true }),
+			deleteDeploymentAssets: vi.fn().mockResolvedValue({ deletedManifest: true }),
+			collectGarbage: vi.fn().mockResolvedValue({ deletedBlobs: 0, retainedBlobs: 0 }),
+			sweepProjectOrphans: vi.fn().mockResolvedValue({ releasedBlobs: [], deletedKeys: [] }),
+			markUnreferencedBlobs: vi.fn().mockResolvedValue({ markedBlobs: [] }),
 		};
 
 		environment = createMock<Env>({
 			KV_PROJECTS: mockProjectsKV,
 			KV_SERVER_SIDE_CODE: mockServerSideCodeKV,
+			KV_PROJECT_DATA: createMockKV(),
+			PROJECT_DATA_QUOTA: createMock<DurableObjectNamespace>({ getByName: () => ({ clear: async () => {} }) }),
+			PROJECT_LOGS: createMock<DurableObjectNamespace>({ getByName: () => ({ clear: async () => {} }) }),
+			DEPLOYMENT_SEQUENCE: createMock<DurableObjectNamespace>({ getByName: () => ({ clear: async () => {} }) }),
 			ASSET_WORKER: mockAssetWorker,
 		});
 	});
@@ -152,4 +171,217 @@ describe('Watchdog Cleanup', () => {
 
 		expect(mockProjectsKV.delete).toHaveBeenCalledWith('project/legacy-project/metadata');
 	});
+
+	it('should record deletions in the audit log', async () => {
+		const project: ProjectMetadata = {
+			id: 'error-project',
+			name: 'Error Project',
+			status: 'ERROR',
+			createdAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+			updatedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+			hasServerSideCode: false,
+			assetsCount: 0,
+		};
+		await mockProjectsKV.put('project/error-project/metadata', JSON.stringify(project));
+
+		await runWatchdog(environment);
+
+		const auditWrite = vi.mocked(mockProjectsKV.put).mock.calls.find(([key]) => String(key).startsWith('audit/'));
+		expect(auditWrite).toBeDefined();
+		expect(JSON.parse(String(auditWrite?.[1]))).toMatchObject({
+			actor: 'watchdog',
+			action: 'project.delete',
+			projectId: 'error-project',
+			outcome: 'success',
+		});
+	});
+
+	it('should delete expired audit log entries', async () => {
+		const expiredKey = `audit/${String(9_999_999_999_999 - (Date.now() - 100 * 24 * 60 * 60 * 1000)).padStart(13, '0')}/old-entry`;
+		const recentKey = `audit/${String(9_999_999_999_999 - Date.now()).padStart(13, '0')}/recent-entry`;
+		await mockProjectsKV.put(expiredKey, '{}');
+		await mockProjectsKV.put(recentKey, '{}');
+
+		await runWatchdog(environment);
+
+		expect(mockProjectsKV.delete).toHaveBeenCalledWith(expiredKey);
+		expect(mockProjectsKV.delete).not.toHaveBeenCalledWith(recentKey);
+	});
+
+	it('should collect unreferenced asset blobs after cleaning up projects', async () => {
+		const project: ProjectMetadata = {
+			id: 'error-project',
+			name: 'Error Project',
+			status: 'ERROR',
+			createdAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+			updatedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+			hasServerSideCode: false,
+			assetsCount: 0,
+		};
+		await mockProjectsKV.put('project/error-project/metadata', JSON.stringify(project));
+
+		await runWatchdog(environment);
+
+		expect(mockAssetWorker.collectGarbage).toHaveBeenCalledOnce();
+		expect(mockAssetWorker.collectGarbage.mock.invocationCallOrder[0]).toBeGreaterThan(
+			mockAssetWorker.deleteProjectAssets.mock.invocationCallOrder[0]!,
+		);
+	});
+
+	it('should sweep orphans of remaining projects before collecting garbage', async () => {
+		const project: ProjectMetadata = {
+			id: 'ready-project',
+			name: 'Ready Project',
+			status: 'READY',
+			createdAt: new Date().toISOString(),
+			updatedAt: new Date().toISOString(),
+			hasServerSideCode: false,
+			assetsCount: 0,
+		};
+		await mockProjectsKV.put('project/ready-project/metadata', JSON.stringify(project));
+
+		await runWatchdog(environment);
+
+		expect(mockAssetWorker.sweepProjectOrphans).toHaveBeenCalledWith('ready-project', { dryRun: false });
+		expect(mockAssetWorker.collectGarbage.mock.invocationCallOrder[0]).toBeGreaterThan(
+			mockAssetWorker.sweepProjectOrphans.mock.invocationCallOrder[0]!,
+		);
+	});
+
+	describe('retention policies', () => {
+		const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+		function createProject(overrides: Partial<ProjectMetadata> = {}): ProjectMetadata {
+			return {
+				id: 'project-1',
+				name: 'Project',
+				status: 'READY',
+				createdAt: daysAgo(100),
+				updatedAt: daysAgo(100),
+				hasServerSideCode: false,
+				assetsCount: 0,
+				...overrides,
+			};
+		}
+
+		async function putSettings(settings: object): Promise<void> {
+			const response = await updateWatchdogSettings(
+				new Request('https://example.com', { method: 'PUT', body: JSON.stringify(settings) }),
+				mockProjectsKV,
+			);
+			expect(response.status).toBe(200);
+		}
+
+		it('uses the configured timeouts', async () => {
+			await putSettings({ errorTimeoutMinutes: 120 });
+			const project = createProject({ status: 'ERROR', updatedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+			await mockProjectsKV.put('project/project-1/metadata', JSON.stringify(project));
+
+			const run = await runWatchdog(environment);
+
+			expect(run.settings).toEqual({ pendingTimeoutMinutes: 30, errorTimeoutMinutes: 120 });
+			expect(run.deletedProjects).toEqual([]);
+			expect(mockAssetWorker.deleteProjectAssets).not.toHaveBeenCalled();
+		});
+
+		it('rejects invalid settings', async () => {
+			const response = await updateWatchdogSettings(
+				new Request('https://example.com', { method: 'PUT', body: JSON.stringify({ keepDeployments: 0 }) }),
+				mockProjectsKV,
+			);
+			expect(response.status).toBe(400);
+		});
+
+		it('deletes READY projects untouched for longer than the retention period', () => {
+			const settings = { pendingTimeoutMinutes: 30, errorTimeoutMinutes: 30, readyProjectRetentionDays: 90 };
+
+			expect(getProjectDeletionReason(createProject(), settings, Date.now())).toBe('Untouched for 100 days (READY state)');
+			expect(getProjectDeletionReason(createProject({ updatedAt: daysAgo(10) }), settings, Date.now())).toBeUndefined();
+			expect(getProjectDeletionReason(createProject(), { ...settings, readyProjectRetentionDays: undefined }, Date.now())).toBeUndefined();
+		});
+
+		it('keeps only the newest deployments and the active one', async () => {
+			await putSettings({ keepDeployments: 2 });
+			await mockProjectsKV.put('project/project-1/metadata', JSON.stringify(createProject({ activeDeploymentId: 1 })));
+			for (const deploymentId of [1, 2, 3, 4]) {
+				await mockProjectsKV.put(`project/project-1/deployment/${deploymentId}`, JSON.stringify({ id: deploymentId }));
+			}
+
+			const run = await runWatchdog(environment);
+
+			expect(run.deletedDeployments).toEqual([{ projectId: 'project-1', deploymentId: 2 }]);
+			expect(mockAssetWorker.deleteDeploymentAssets).toHaveBeenCalledExactlyOnceWith('project-1', 2);
+			expect(mockServerSideCodeKV.delete).toHaveBeenCalledWith('project/project-1/module/MANIFEST/2');
+			expect(mockProjectsKV.delete).toHaveBeenCalledWith('project/project-1/deployment/2');
+			expect(mockProjectsKV.delete).not.toHaveBeenCalledWith('project/project-1/deployment/1');
+		});
+
+		it('only reports deletions in a dry run', async () => {
+			await putSettings({ readyProjectRetentionDays: 30 });
+			await mockProjectsKV.put('project/project-1/metadata', JSON.stringify(createProject()));
+
+			const run = await runWatchdog(environment, { dryRun: true, trigger: 'manual' });
+
+			expect(run).toMatchObject({ dryRun: true, trigger: 'manual' });
+			expect(run.deletedProjects).toEqual([{ projectId: 'project-1', name: 'Project', reason: 'Untouched for 100 days (READY state)' }]);
+			expect(mockProjectsKV.delete).not.toHaveBeenCalled();
+			expect(mockAssetWorker.sweepProjectOrphans).toHaveBeenCalledWith('project-1', { dryRun: true });
+			expect(mockAssetWorker.collectGarbage).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('run history', () => {
+		it('stores a summary of each run, newest first', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			vi.setSystemTime(new Date('2025-06-01T12:00:00.000Z'));
+			const first = await runWatchdog(environment);
+			vi.setSystemTime(new Date('2025-06-01T15:00:00.000Z'));
+			const second = await runWatchdog(environment, { dryRun: true, trigger: 'manual' });
+			vi.useRealTimers();
+
+			const { runs } = await listWatchdogRunsData(mockProjectsKV);
+			expect(runs.map((run) => run.id)).toEqual([second.id, first.id]);
+			expect(runs[1]).toMatchObject({ trigger: 'cron', dryRun: false, failures: [] });
+		});
+
+		it('records failed tasks and still runs the others', async () => {
+			mockAssetWorker.collectGarbage.mockRejectedValue(new Error('Asset service unavailable'));
+			const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			const run = await runWatchdog(environment);
+
+			expect(run.failures).toEqual([{ task: 'garbage-collection', error: 'Asset service unavailable' }]);
+			expect(run.deletedAuditEntries).toBe(0);
+			consoleError.mockRestore();
+		});
+	});
+
+	describe('manual runs', () => {
+		const runRequest = (body?: string): Request => new Request('https://example.com/__api/watchdog/run', { method: 'POST', body });
+
+		it('starts the run in the background and returns its ID', async () => {
+			const pending: Promise<unknown>[] = [];
+			const executionContext = createMock<ExecutionContext>({ waitUntil: (promise: Promise<unknown>) => pending.push(promise) });
+
+			const response = await triggerWatchdogRun(runRequest('{"dryRun":true}'), environment, executionContext);
+			expect(response.status).toBe(202);
+			const { runId } = await response.json<{ runId: string }>();
+
+			await Promise.all(pending);
+			const { runs } = await listWatchdogRunsData(mockProjectsKV);
+			expect(runs).toEqual([expect.objectContaining({ id: runId, trigger: 'manual', dryRun: true })]);
+		});
+
+		it('rejects malformed and invalid bodies', async () => {
+			const executionContext = createMock<ExecutionContext>({ waitUntil: vi.fn() });
+
+			const malformed = await triggerWatchdogRun(runRequest('{dryRun'), environment, executionContext);
+			expect(malformed.status).toBe(400);
+			expect(await malformed.json()).toMatchObject({ success: false });
+
+			const invalid = await triggerWatchdogRun(runRequest('{"dryRun":"yes"}'), environment, executionContext);
+			expect(invalid.status).toBe(400);
+			expect(executionContext.waitUntil).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -1,90 +1,183 @@
+import { z } from 'zod';
+
+import { cleanupAuditLog, writeAuditEntry } from './audit-log';
+import { deleteDeployment, listDeploymentIds } from './deployment-manager';
+import { sweepOrphans } from './orphan-sweep';
 import { deleteProject, listProjectsData } from './project-manager';
+import { watchdogRunRequestSchema, watchdogRunsQuerySchema, watchdogSettingsSchema } from './validation';
+
+import type { ProjectMetadata, WatchdogRun, WatchdogSettings } from './types';
+
+/** Cron trigger of the router that runs the watchdog; its other triggers run project cron triggers */
+export const WATCHDOG_CRON = '0 */3 * * *';
+
+/** KV key of the watchdog settings */
+const WATCHDOG_SETTINGS_KEY = 'watchdog/settings';
+
+/** KV key prefix of watchdog run summaries */
+const WATCHDOG_RUN_PREFIX = 'watchdog/run/';
+
+/** Run summaries expire after this many days */
+export const WATCHDOG_RUN_RETENTION_DAYS = 30;
+
+/** Settings used for everything the settings record does not configure */
+export const DEFAULT_WATCHDOG_SETTINGS: WatchdogSettings = {
+	pendingTimeoutMinutes: 30,
+	errorTimeoutMinutes: 30,
+};
+
+// Keys embed (MAX_TIMESTAMP - timestamp) so that KV lists them newest first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// Pagination constants
+const DEFAULT_PAGE_SIZE = 20;
 
 /**
- * Runs all scheduled maintenance tasks.
+ * Runs all scheduled maintenance tasks and stores a summary of the run.
+ * A failing task is recorded in the summary and does not stop the others.
  *
  * @param env - The worker environment bindings
+ * @param options - Whether to only report what would be deleted, what started the run and the ID to store it under
+ * @returns The run summary
  */
-export async function runWatchdog(environment: Env): Promise<void> {
-	console.log('🐶 Watchdog started');
+export async function runWatchdog(
+	environment: Env,
+	options: { dryRun?: boolean; trigger?: WatchdogRun['trigger']; runId?: string } = {},
+): Promise<WatchdogRun> {
+	const dryRun = options.dryRun ?? false;
+	console.log(`🐶 Watchdog started${dryRun ? ' (dry run)' : ''}`);
 	const startTime = performance.now();
 
-	await cleanupStaleDeployments(environment);
+	const run: WatchdogRun = {
+		id: options.runId ?? crypto.randomUUID(),
+		trigger: options.trigger ?? 'cron',
+		dryRun,
+		startedAt: new Date().toISOString(),
+		durationMs: 0,
+		settings: await getWatchdogSettings(environment.KV_PROJECTS),
+		deletedProjects: [],
+		deletedDeployments: [],
+		failures: [],
+	};
+	const recordFailure = (task: string, error: unknown, projectId?: string) => {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		console.error(`❌ ${task} failed${projectId ? ` for project ${projectId}` : ''}: ${errorMessage}`);
+		run.failures.push({ task, projectId, error: errorMessage });
+	};
+
+	try {
+		await applyRetentionPolicies(environment, run, recordFailure);
+	} catch (error) {
+		recordFailure('retention', error);
+	}
+
+	try {
+		run.orphans = await sweepOrphans(environment, { dryRun });
+		console.log(
+			`🦴 Swept ${run.orphans.sweptProjects} projects (${run.orphans.skippedProjects} skipped): deleted ${run.orphans.deletedModules} modules and ${run.orphans.deletedAssets} assets, released ${run.orphans.releasedBlobs} and marked ${run.orphans.markedBlobs} asset blobs`,
+		);
+	} catch (error) {
+		recordFailure('orphan-sweep', error);
+	}
+
+	if (!dryRun) {
+		try {
+			// Runs after project cleanup; blobs released just now are kept for a grace period anyway
+			run.garbageCollection = await environment.ASSET_WORKER.collectGarbage();
+			console.log(
+				`🧺 Deleted ${run.garbageCollection.deletedBlobs} unreferenced asset blobs (${run.garbageCollection.retainedBlobs} still referenced)`,
+			);
+		} catch (error) {
+			recordFailure('garbage-collection', error);
+		}
+
+		try {
+			run.deletedAuditEntries = await cleanupAuditLog(environment.KV_PROJECTS);
+			console.log(`🧾 Deleted ${run.deletedAuditEntries} expired audit log entries`);
+		} catch (error) {
+			recordFailure('audit-cleanup', error);
+		}
+	}
 
-	const duration = performance.now() - startTime;
-	console.log(`🐶 Watchdog finished in ${duration.toFixed(2)}ms`);
+	run.durationMs = Math.round(performance.now() - startTime);
+	await saveWatchdogRun(run, environment.KV_PROJECTS);
+	console.log(`🐶 Watchdog finished in ${run.durationMs}ms`);
+
+	return run;
 }
 
 /**
- * Cleans up deployments that are in a stale or error state.
- *
- * Cleanup criteria:
- * 1. Status is 'PENDING' and created > 30 minutes ago.
- * 2. Status is 'ERROR' and updated > 30 minutes ago.
- * 3. Status is missing (legacy/undefined) -> Treated as invalid/incomplete.
+ * Deletes projects according to the retention policies, and prunes old deployments of the remaining projects.
  *
  * @param env - The worker environment bindings
+ * @param run - The run summary, which deleted projects and deployments are added to
+ * @param recordFailure - Records a failed deletion in the run summary
  */
-async function cleanupStaleDeployments(environment: Env): Promise<void> {
+async function applyRetentionPolicies(
+	environment: Env,
+	run: WatchdogRun,
+	recordFailure: (task: string, error: unknown, projectId?: string) => void,
+): Promise<void> {
 	const projectsKv = environment.KV_PROJECTS;
 	const serverSideCodeKv = environment.KV_SERVER_SIDE_CODE;
 	const assetWorker = environment.ASSET_WORKER;
+	const now = Date.now();
 
 	let cursor: string | undefined = undefined;
 	let hasMore = true;
-	let deletedCount = 0;
 
 	console.log('🧹 Starting cleanup of stale deployments...');
 
 	while (hasMore) {
 		const typedResponse = await listProjectsData(projectsKv, { limit: 100, cursor });
 
-		const projects = typedResponse.projects;
-
-		for (const project of projects) {
-			let shouldDelete = false;
-			let reason = '';
-
-			if (!project.status || !['PENDING', 'READY', 'ERROR'].includes(project.status)) {
-				// Missing or unknown status — treat as invalid/incomplete
-				shouldDelete = true;
-				reason = `Invalid or missing status: '${project.status ?? 'undefined'}'`;
-			} else if (project.status === 'ERROR') {
-				// Check for ERROR status (with grace period)
-				const updatedAt = new Date(project.updatedAt).getTime();
-				if (Number.isNaN(updatedAt)) {
-					shouldDelete = true;
-					reason = 'ERROR state with invalid updatedAt timestamp';
-				} else {
-					const ageInMinutes = (Date.now() - updatedAt) / (1000 * 60);
-					if (ageInMinutes > 30) {
-						shouldDelete = true;
-						reason = `Deployment failed (ERROR state, ${ageInMinutes.toFixed(0)}m old)`;
-					}
+		for (const project of typedResponse.projects) {
+			const reason = getProjectDeletionReason(project, run.settings, now);
+
+			if (reason) {
+				console.log(`🗑️ Deleting project ${project.id} (${project.name}): ${reason}`);
+				if (run.dryRun) {
+					run.deletedProjects.push({ projectId: project.id, name: project.name, reason });
+					continue;
 				}
-			} else if (project.status === 'PENDING') {
-				// Check for stale PENDING status (> 30 mins)
-				const createdAt = new Date(project.createdAt).getTime();
-				if (Number.isNaN(createdAt)) {
-					shouldDelete = true;
-					reason = 'PENDING state with invalid createdAt timestamp';
-				} else {
-					const ageInMinutes = (Date.now() - createdAt) / (1000 * 60);
-					if (ageInMinutes > 30) {
-						shouldDelete = true;
-						reason = `Stale PENDING state (${ageInMinutes.toFixed(0)}m old)`;
+				try {
+					const response = await deleteProject(
+						project.id,
+						projectsKv,
+						serverSideCodeKv,
+						environment.KV_PROJECT_DATA,
+						environment.PROJECT_DATA_QUOTA,
+						environment.PROJECT_LOGS,
+						environment.DEPLOYMENT_SEQUENCE,
+						assetWorker,
+					);
+					if (response.ok) {
+						run.deletedProjects.push({ projectId: project.id, name: project.name, reason });
+					} else {
+						recordFailure('project.delete', await response.text(), project.id);
 					}
+					await writeAuditEntry(
+						{
+							actor: 'watchdog',
+							action: 'project.delete',
+							projectId: project.id,
+							outcome: response.ok ? 'success' : 'failure',
+							status: response.status,
+							details: { reason },
+						},
+						projectsKv,
+					);
+				} catch (error) {
+					recordFailure('project.delete', error, project.id);
 				}
+				continue;
 			}
 
-			if (shouldDelete) {
+			if (run.settings.keepDeployments !== undefined) {
 				try {
-					console.log(`🗑️ Deleting project ${project.id} (${project.name}): ${reason}`);
-					await deleteProject(project.id, projectsKv, serverSideCodeKv, assetWorker);
-					deletedCount++;
+					await pruneDeployments(environment, project, run);
 				} catch (error) {
-					const errorMessage = error instanceof Error ? error.message : String(error);
-					console.error(`❌ Failed to delete project ${project.id}: ${errorMessage}`);
+					recordFailure('deployment.delete', error, project.id);
 				}
 			}
 		}
@@ -93,5 +186,264 @@ async function cleanupStaleDeployments(environment: Env): Promise<void> {
 		hasMore = typedResponse.pagination.hasMore;
 	}
 
-	console.log(`✅ Cleanup complete. Deleted ${deletedCount} projects.`);
+	console.log(`✅ Cleanup complete. Deleted ${run.deletedProjects.length} projects and ${run.deletedDeployments.length} deployments.`);
+}
+
+/**
+ * Decides whether the watchdog deletes a project.
+ *
+ * Deletion criteria:
+ * 1. Status is 'PENDING' and created longer ago than the pending timeout.
+ * 2. Status is 'ERROR' and updated longer ago than the error timeout.
+ * 3. Status is 'READY' and not updated within the READY retention period, if one is configured.
+ * 4. Status is missing (legacy/undefined) -> Treated as invalid/incomplete.
+ *
+ * @param project - The project metadata
+ * @param settings - The watchdog settings
+ * @param now - The current time in milliseconds
+ * @returns The reason for deleting the project, or undefined to keep it
+ */
+export function getProjectDeletionReason(project: ProjectMetadata, settings: WatchdogSettings, now: number): string | undefined {
+	if (!project.status || !['PENDING', 'READY', 'ERROR'].includes(project.status)) {
+		// Missing or unknown status — treat as invalid/incomplete
+		return `Invalid or missing status: '${project.status ?? 'undefined'}'`;
+	}
+
+	if (project.status === 'ERROR') {
+		const updatedAt = new Date(project.updatedAt).getTime();
+		if (Number.isNaN(updatedAt)) {
+			return 'ERROR state with invalid updatedAt timestamp';
+		}
+		const ageInMinutes = (now - updatedAt) / (1000 * 60);
+		if (ageInMinutes > settings.errorTimeoutMinutes) {
+			return `Deployment failed (ERROR state, ${ageInMinutes.toFixed(0)}m old)`;
+		}
+	} else if (project.status === 'PENDING') {
+		const createdAt = new Date(project.createdAt).getTime();
+		if (Number.isNaN(createdAt)) {
+			return 'PENDING state with invalid createdAt timestamp';
+		}
+		const ageInMinutes = (now - createdAt) / (1000 * 60);
+		if (ageInMinutes > settings.pendingTimeoutMinutes) {
+			return `Stale PENDING state (${ageInMinutes.toFixed(0)}m old)`;
+		}
+	} else if (settings.readyProjectRetentionDays !== undefined) {
+		// An unparsable timestamp never expires a READY project
+		const ageInDays = (now - new Date(project.updatedAt).getTime()) / (1000 * 60 * 60 * 24);
+		if (ageInDays > settings.readyProjectRetentionDays) {
+			return `Untouched for ${ageInDays.toFixed(0)} days (READY state)`;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Deletes the deployments of a project beyond the newest `keepDeployments`. The active deployment is always kept.
+ */
+async function pruneDeployments(environment: Env, project: ProjectMetadata, run: WatchdogRun): Promise<void> {
+	const deploymentIds = await listDeploymentIds(project.id, environment.KV_PROJECTS);
+	const expired = deploymentIds.slice(run.settings.keepDeployments).filter((id) => id !== project.activeDeploymentId);
+
+	for (const deploymentId of expired) {
+		if (!run.dryRun) {
+			await deleteDeployment(project.id, deploymentId, environment.KV_PROJECTS, environment.KV_SERVER_SIDE_CODE, environment.ASSET_WORKER);
+			await writeAuditEntry(
+				{
+					actor: 'watchdog',
+					action: 'deployment.delete',
+					projectId: project.id,
+					outcome: 'success',
+					status: 200,
+					details: { deploymentId, reason: `Beyond the ${run.settings.keepDeployments} newest deployments` },
+				},
+				environment.KV_PROJECTS,
+			);
+		}
+		run.deletedDeployments.push({ projectId: project.id, deploymentId });
+	}
+}
+
+/**
+ * Loads the watchdog settings, with defaults for everything the settings record does not configure.
+ *
+ * @param projectsKv - The KV namespace storing the settings
+ * @returns The effective settings
+ */
+export async function getWatchdogSettings(projectsKv: KVNamespace): Promise<WatchdogSettings> {
+	const stored = await projectsKv.get<Partial<WatchdogSettings>>(WATCHDOG_SETTINGS_KEY, { type: 'json' });
+	return { ...DEFAULT_WATCHDOG_SETTINGS, ...stored };
+}
+
+/**
+ * Returns the effective watchdog settings for the `GET /__api/watchdog/settings` endpoint.
+ *
+ * @param projectsKv - The KV namespace storing the settings
+ * @returns JSON response with the settings
+ */
+export async function getWatchdogSettingsInfo(projectsKv: KVNamespace): Promise<Response> {
+	return Response.json(
+		{
+			success: true,
+			settings: await getWatchdogSettings(projectsKv),
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Replaces the watchdog settings. Omitted timeouts return to their defaults and omitted retention policies are disabled.
+ *
+ * @param request - The HTTP request containing the settings in its JSON body
+ * @param projectsKv - The KV namespace storing the settings
+ * @returns JSON response with the effective settings, or 400 for invalid settings
+ */
+export async function updateWatchdogSettings(request: Request, projectsKv: KVNamespace): Promise<Response> {
+	const bodyJson = await request.json();
+
+	// Validate payload using Zod
+	const bodyValidation = watchdogSettingsSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	await projectsKv.put(WATCHDOG_SETTINGS_KEY, JSON.stringify(bodyValidation.data));
+
+	return Response.json(
+		{
+			success: true,
+			settings: { ...DEFAULT_WATCHDOG_SETTINGS, ...bodyValidation.data },
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Starts a watchdog run for the `POST /__api/watchdog/run` endpoint. The body is optional.
+ * The run continues after the response, so its summary appears in the run history once it finishes.
+ *
+ * @param request - The HTTP request, optionally with `{ "dryRun": true }` as its JSON body
+ * @param environment - The worker environment bindings
+ * @param executionContext - Keeps the run alive after the response is sent
+ * @returns 202 JSON response with the ID of the started run, or 400 for an invalid body
+ */
+export async function triggerWatchdogRun(request: Request, environment: Env, executionContext: ExecutionContext): Promise<Response> {
+	const body = await request.text();
+
+	let bodyJson: unknown = {};
+	if (body) {
+		try {
+			bodyJson = JSON.parse(body);
+		} catch {
+			return Response.json(
+				{
+					success: false,
+					error: 'Invalid JSON body',
+				},
+				{ status: 400, headers: { 'Content-Type': 'application/json' } },
+			);
+		}
+	}
+
+	// Validate payload using Zod
+	const bodyValidation = watchdogRunRequestSchema.safeParse(bodyJson);
+	if (!bodyValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(bodyValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const runId = crypto.randomUUID();
+	executionContext.waitUntil(runWatchdog(environment, { dryRun: bodyValidation.data.dryRun, trigger: 'manual', runId }));
+
+	return Response.json(
+		{
+			success: true,
+			runId,
+		},
+		{
+			status: 202,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+/**
+ * Lists watchdog run summaries, newest first.
+ *
+ * @param projectsKv - The KV namespace storing the run summaries
+ * @param options - Pagination options
+ * @returns Object with the runs and pagination metadata
+ */
+export async function listWatchdogRunsData(
+	projectsKv: KVNamespace,
+	options: { limit?: number; cursor?: string } = {},
+): Promise<{ runs: WatchdogRun[]; pagination: { nextCursor: string | undefined; hasMore: boolean; limit: number } }> {
+	const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+	const page = await projectsKv.list({ prefix: WATCHDOG_RUN_PREFIX, limit, cursor: options.cursor });
+	const records = await Promise.all(page.keys.map((key) => projectsKv.get<WatchdogRun>(key.name, { type: 'json' })));
+	const nextCursor = page.list_complete ? undefined : page.cursor;
+
+	return {
+		runs: records.filter((run: WatchdogRun | null): run is WatchdogRun => run !== null),
+		pagination: {
+			nextCursor,
+			hasMore: nextCursor !== undefined,
+			limit,
+		},
+	};
+}
+
+/**
+ * Returns watchdog run summaries for the `GET /__api/watchdog/runs` endpoint.
+ *
+ * @param url - The request URL with optional `limit` and `cursor` query parameters
+ * @param projectsKv - The KV namespace storing the run summaries
+ * @returns JSON response with the runs and pagination metadata, or 400 for invalid parameters
+ */
+export async function getWatchdogRuns(url: URL, projectsKv: KVNamespace): Promise<Response> {
+	const queryValidation = watchdogRunsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+	if (!queryValidation.success) {
+		return Response.json(
+			{
+				success: false,
+				error: z.prettifyError(queryValidation.error),
+			},
+			{ status: 400, headers: { 'Content-Type': 'application/json' } },
+		);
+	}
+
+	const data = await listWatchdogRunsData(projectsKv, queryValidation.data);
+
+	return Response.json(
+		{
+			success: true,
+			...data,
+		},
+		{
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		},
+	);
+}
+
+async function saveWatchdogRun(run: WatchdogRun, projectsKv: KVNamespace): Promise<void> {
+	const key = `${WATCHDOG_RUN_PREFIX}${String(MAX_TIMESTAMP - Date.parse(run.startedAt)).padStart(13, '0')}/${run.id}`;
+	await projectsKv.put(key, JSON.stringify(run), { expirationTtl: WATCHDOG_RUN_RETENTION_DAYS * 24 * 60 * 60 });
 }
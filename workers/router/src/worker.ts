@@ -1,47 +1,229 @@
 import { WorkerEntrypoint } from 'cloudflare:workers';
 import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
 
 import { Analytics } from './analytics';
-import { createAssetUploadSession, uploadAssets } from './asset-manager';
-import { deployProject } from './deployment-manager';
+import {
+	cancelAssetUploadSession,
+	createAssetUploadSession,
+	getAssetUploadSession,
+	resumeAssetUploadSession,
+	uploadAssetStream,
+	uploadAssets,
+} from './asset-manager';
+import { getAuditLog, summarizeAuditResponse, writeAuditEntry } from './audit-log';
+import { getCronTriggers, runCronTriggers } from './cron-triggers';
+import { deployProject, getDeploymentInfo, listDeployments, resolveServingDeployment, rollbackDeployment } from './deployment-manager';
+import { addDomain, listDomains, removeDomain, resolveCustomDomain, verifyDomain } from './domain-manager';
+import { createErrorResponse } from './error-pages';
 import { rewritePathBasedResponse } from './html-rewriter';
-import { getProject, createProject, listProjects, getProjectInfo, deleteProject } from './project-manager';
-import { extractProjectId, rewriteRequestUrl, shouldRunWorkerFirst } from './routing';
-import { runServerSideCode, getServerSideCodeManifest } from './server-side-code-runner';
-import { runWatchdog } from './watchdog';
-
+import {
+	canBypassMaintenance,
+	createMaintenanceBypassRedirect,
+	getMaintenancePageSource,
+	getMaintenanceRetryAfter,
+	isMaintenanceActive,
+} from './maintenance';
+import { handleOutboundRequest } from './outbound';
+import { deleteProjectData, getProjectData, listProjectData, putProjectData } from './project-data';
+import { createLogEntries, getProjectLogs } from './project-logs';
+import {
+	getProject,
+	createProject,
+	listProjects,
+	getProjectInfo,
+	deleteProject,
+	resolveProjectName,
+	updateProject,
+	updateProjectSlug,
+} from './project-manager';
+import { extractProjectId, parseDeploymentId, replaceProjectName, rewriteRequestUrl, shouldRunWorkerFirst } from './routing';
+import { deleteSecret, listSecrets, putSecret } from './secrets-manager';
+import { runScheduledServerSideCode, runServerSideCode, getServerSideCodeManifest } from './server-side-code-runner';
+import { applySourceMaps, loadSourceMaps } from './source-maps';
+import { authenticateToken, createApiToken, hasPermission, listApiTokens, revokeApiToken, timingSafeEqual } from './token-manager';
+import {
+	WATCHDOG_CRON,
+	getWatchdogRuns,
+	getWatchdogSettingsInfo,
+	runWatchdog,
+	triggerWatchdogRun,
+	updateWatchdogSettings,
+} from './watchdog';
+
+import type { ErrorPageSource, ErrorResponseOptions } from './error-pages';
+import type { ProjectDataListResult, ProjectDataType } from './project-data';
+import type { ApiCredential } from './token-manager';
+import type { ApiTokenScope, ErrorPageState, OutboundPolicy } from './types';
 import type { AssetConfigInput } from '../../asset-service/src/configuration';
 
+type ApiEnvironment = { Bindings: Env; Variables: { credential?: ApiCredential } };
+
+/**
+ * Route middleware rejecting requests whose credential lacks a scope.
+ * Project-restricted tokens are checked against the route's :projectId parameter.
+ */
+function requireScope(scope: ApiTokenScope) {
+	return createMiddleware<ApiEnvironment>(async (c, next) => {
+		const credential = c.get('credential');
+		if (!credential || !hasPermission(credential, scope, c.req.param('projectId'))) {
+			return c.json(
+				{
+					success: false,
+					error: `Forbidden: token does not grant '${scope}' for this resource`,
+				},
+				403,
+			);
+		}
+		await next();
+	});
+}
+
 /**
- * Constant-time string comparison to prevent timing attacks on auth tokens.
- * Hashes both inputs first so the comparison is always over fixed-length
- * buffers, avoiding length leakage from an early return.
+ * Route middleware restricting a route to the bootstrap API_TOKEN.
  */
-async function timingSafeEqual(a: string, b: string): Promise<boolean> {
-	const encoder = new TextEncoder();
-	const [hashA, hashB] = await Promise.all([
-		crypto.subtle.digest('SHA-256', encoder.encode(a)),
-		crypto.subtle.digest('SHA-256', encoder.encode(b)),
-	]);
-	const bufA = new Uint8Array(hashA);
-	const bufB = new Uint8Array(hashB);
-	let result = 0;
-	for (let index = 0; index < bufA.byteLength; index++) {
-		result |= bufA[index]! ^ bufB[index]!;
+const requireAdmin = createMiddleware<ApiEnvironment>(async (c, next) => {
+	if (c.get('credential')?.type !== 'admin') {
+		return c.json(
+			{
+				success: false,
+				error: 'Forbidden: only the admin API token can access this resource',
+			},
+			403,
+		);
 	}
-	return result === 0;
+	await next();
+});
+
+/**
+ * Route middleware appending the outcome of a management API action to the audit log.
+ * The entry is written after the response is sent, so auditing never delays or fails a request.
+ */
+function audit(action: string) {
+	return createMiddleware<ApiEnvironment>(async (c, next) => {
+		await next();
+
+		const credential = c.get('credential');
+		const response = c.res;
+		// Skip parsing large listing bodies; reads only record their outcome
+		const summary = c.req.method === 'GET' && response.ok ? {} : await summarizeAuditResponse(response);
+
+		c.executionCtx.waitUntil(
+			writeAuditEntry(
+				{
+					actor: credential ? (credential.type === 'admin' ? 'admin' : credential.token.id) : 'upload-session',
+					ip: c.req.header('CF-Connecting-IP'),
+					action,
+					projectId: c.req.param('projectId') ?? summary.projectId,
+					outcome: response.ok ? 'success' : 'failure',
+					status: response.status,
+					details: summary.details,
+				},
+				c.env.KV_PROJECTS,
+			).catch((error: unknown) => {
+				console.error(`Failed to write audit log entry for ${action}:`, error);
+			}),
+		);
+	});
 }
 
-export class AssetBinding extends WorkerEntrypoint<Env, { projectId: string; config?: AssetConfigInput }> {
+export class AssetBinding extends WorkerEntrypoint<Env, { projectId: string; deploymentId?: number; config?: AssetConfigInput }> {
 	override async fetch(request: Request): Promise<Response> {
 		const assets = this.env.ASSET_WORKER;
-		return await assets.serveAsset(request, this.ctx.props.projectId, this.ctx.props.config);
+		// Server-side code reads asset bodies, so never hand it precompressed variants
+		const identityRequest = new Request(request);
+		identityRequest.headers.delete('Accept-Encoding');
+		return await assets.serveAsset(identityRequest, this.ctx.props.projectId, this.ctx.props.config, this.ctx.props.deploymentId);
+	}
+}
+
+/**
+ * Key-value storage binding provided to server-side code as `env.KV`. Keys are namespaced
+ * per project in KV_PROJECT_DATA and writes are counted against the project's quotas.
+ */
+export class KvBinding extends WorkerEntrypoint<Env, { projectId: string }> {
+	async get(key: string, type?: ProjectDataType): Promise<unknown> {
+		return getProjectData(this.env.KV_PROJECT_DATA, this.ctx.props.projectId, key, type);
+	}
+
+	async put(key: string, value: string | ArrayBuffer): Promise<void> {
+		await putProjectData(this.env.KV_PROJECT_DATA, this.env.PROJECT_DATA_QUOTA, this.ctx.props.projectId, key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		await deleteProjectData(this.env.KV_PROJECT_DATA, this.env.PROJECT_DATA_QUOTA, this.ctx.props.projectId, key);
+	}
+
+	async list(options?: { prefix?: string; limit?: number; cursor?: string }): Promise<ProjectDataListResult> {
+		return listProjectData(this.env.KV_PROJECT_DATA, this.ctx.props.projectId, options);
+	}
+}
+
+/**
+ * Fetcher all outbound requests of server-side code go through (the `globalOutbound` of dynamic workers).
+ * Enforces the outbound policy of the deployment; see {@link handleOutboundRequest}.
+ */
+export class OutboundGateway extends WorkerEntrypoint<Env, { projectId: string; policy?: OutboundPolicy }> {
+	override async fetch(request: Request): Promise<Response> {
+		return handleOutboundRequest(request, this.ctx.props.projectId, this.ctx.props.policy);
+	}
+}
+
+/**
+ * Tail of dynamic workers, capturing their console logs and uncaught exceptions in the project's log buffer.
+ * Exception stacks are translated through the source maps uploaded with the deployment.
+ */
+export class LogTail extends WorkerEntrypoint<Env, { projectId: string; deploymentId?: number }> {
+	override async tail(events: TraceItem[]): Promise<void> {
+		const { projectId, deploymentId } = this.ctx.props;
+		const entries = createLogEntries(events);
+		if (entries.length === 0) {
+			return;
+		}
+
+		const stacks = entries.flatMap((entry) => (entry.stack ? [entry.stack] : []));
+		const manifest = stacks.length > 0 ? await getServerSideCodeManifest(projectId, deploymentId) : undefined;
+		if (manifest) {
+			const sourceMaps = await loadSourceMaps(projectId, manifest, stacks, this.env.KV_SERVER_SIDE_CODE);
+			for (const entry of entries) {
+				if (entry.stack) {
+					entry.stack = applySourceMaps(entry.stack, sourceMaps);
+				}
+			}
+		}
+
+		await this.env.PROJECT_LOGS.getByName(projectId).append(entries);
 	}
 }
 
+export { DeploymentSequence } from './deployment-sequence';
+export { ProjectDataQuota } from './project-data';
+export { ProjectLogs } from './project-logs';
+
 export default class AssetManager extends WorkerEntrypoint<Env> {
-	override async scheduled(_event: ScheduledEvent): Promise<void> {
-		this.ctx.waitUntil(runWatchdog(this.env));
+	override async scheduled(event: ScheduledEvent): Promise<void> {
+		if (event.cron === WATCHDOG_CRON) {
+			this.ctx.waitUntil(runWatchdog(this.env));
+			return;
+		}
+
+		// Every other trigger of the router fires project cron triggers
+		this.ctx.waitUntil(
+			runCronTriggers(this.env, event.scheduledTime, async (deployment, manifest, controller) => {
+				const { projectId, id: deploymentId } = deployment;
+				await runScheduledServerSideCode(
+					projectId,
+					manifest,
+					controller,
+					{
+						ASSETS: this.ctx.exports.AssetBinding({ props: { projectId, deploymentId, config: deployment.config } }),
+						KV: this.ctx.exports.KvBinding({ props: { projectId } }),
+					},
+					(policy) => this.ctx.exports.OutboundGateway({ props: { projectId, policy } }),
+					this.ctx.exports.LogTail({ props: { projectId, deploymentId } }),
+				);
+			}),
+		);
 	}
 
 	override async fetch(request: Request): Promise<Response> {
@@ -62,9 +244,9 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 
 		// Management API routes
 		if (url.pathname.startsWith('/__api/')) {
-			const app = new Hono<{ Bindings: Env }>();
+			const app = new Hono<ApiEnvironment>();
 
-			// Authentication middleware - validate API_TOKEN
+			// Authentication middleware - validate API_TOKEN or a scoped API token
 			// Exclude JWT-authenticated endpoints (assets/upload uses Bearer tokens)
 			app.use('/__api/*', async (c, next) => {
 				const path = c.req.path;
@@ -83,8 +265,8 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 					}
 				}
 
-				// Skip API_TOKEN check for JWT-authenticated endpoint
-				if (/^\/__api\/projects\/[^/]+\/assets\/upload$/.test(path)) {
+				// Skip API_TOKEN check for JWT-authenticated endpoints
+				if (/^\/__api\/projects\/[^/]+\/assets\/upload(?:\/[^/]+)?$/.test(path)) {
 					await next();
 					return;
 				}
@@ -104,7 +286,8 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 
 				// Support both raw token and "Bearer <token>" formats
 				const providedToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
-				if (!providedToken || !(await timingSafeEqual(providedToken, apiToken))) {
+				const credential = providedToken ? await authenticateToken(providedToken, apiToken, c.env.KV_PROJECTS) : undefined;
+				if (!credential) {
 					return c.json(
 						{
 							success: false,
@@ -114,46 +297,237 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 					);
 				}
 
+				c.set('credential', credential);
 				await next();
 			});
 
-			app.post('/__api/projects', async (c) => {
+			app.post('/__api/tokens', audit('token.create'), requireAdmin, async (c) => {
+				return createApiToken(c.req.raw, this.env.KV_PROJECTS);
+			});
+
+			app.get('/__api/tokens', audit('token.list'), requireAdmin, async () => {
+				return listApiTokens(this.env.KV_PROJECTS);
+			});
+
+			app.delete('/__api/tokens/:tokenId', audit('token.revoke'), requireAdmin, async (c) => {
+				return revokeApiToken(c.req.param('tokenId'), this.env.KV_PROJECTS);
+			});
+
+			app.post('/__api/projects', audit('project.create'), requireScope('projects:create'), async (c) => {
 				return createProject(c.req.raw, this.env.KV_PROJECTS);
 			});
 
-			app.get('/__api/projects', async (c) => {
+			app.get('/__api/projects', audit('project.list'), requireScope('projects:read'), async (c) => {
 				const limit = c.req.query('limit') ? Number.parseInt(c.req.query('limit')!, 10) : undefined;
 				const cursor = c.req.query('cursor') || undefined;
 				return listProjects(this.env.KV_PROJECTS, { limit, cursor });
 			});
 
-			app.get('/__api/projects/:projectId', async (c) => {
+			app.get('/__api/projects/:projectId', audit('project.get'), requireScope('projects:read'), async (c) => {
 				const projectId = c.req.param('projectId');
 				return getProjectInfo(projectId, this.env.KV_PROJECTS);
 			});
 
-			app.delete('/__api/projects/:projectId', async (c) => {
+			app.delete('/__api/projects/:projectId', audit('project.delete'), requireScope('delete'), async (c) => {
 				const projectId = c.req.param('projectId');
 				const assets = this.env.ASSET_WORKER;
-				return deleteProject(projectId, this.env.KV_PROJECTS, this.env.KV_SERVER_SIDE_CODE, assets);
+				return deleteProject(
+					projectId,
+					this.env.KV_PROJECTS,
+					this.env.KV_SERVER_SIDE_CODE,
+					this.env.KV_PROJECT_DATA,
+					this.env.PROJECT_DATA_QUOTA,
+					this.env.PROJECT_LOGS,
+					this.env.DEPLOYMENT_SEQUENCE,
+					assets,
+				);
 			});
 
-			app.post('/__api/projects/:projectId/assets-upload-session', async (c) => {
+			app.patch('/__api/projects/:projectId', audit('project.update'), requireScope('projects:update'), async (c) => {
 				const projectId = c.req.param('projectId');
-				const assets = this.env.ASSET_WORKER;
-				return createAssetUploadSession(projectId, c.req.raw, this.env.KV_PROJECTS, assets, this.env.JWT_SECRET);
+				return updateProject(projectId, c.req.raw, this.env.KV_PROJECTS);
 			});
 
-			app.post('/__api/projects/:projectId/assets/upload', async (c) => {
+			app.put('/__api/projects/:projectId/slug', audit('project.slug.update'), requireScope('projects:update'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return updateProjectSlug(projectId, c.req.raw, this.env.KV_PROJECTS);
+			});
+
+			app.post(
+				'/__api/projects/:projectId/assets-upload-session',
+				audit('assets.upload-session.create'),
+				requireScope('deploy'),
+				async (c) => {
+					const projectId = c.req.param('projectId');
+					const assets = this.env.ASSET_WORKER;
+					return createAssetUploadSession(projectId, c.req.raw, this.env.KV_PROJECTS, assets, this.env.JWT_SECRET);
+				},
+			);
+
+			app.get(
+				'/__api/projects/:projectId/assets-upload-session/:sessionId',
+				audit('assets.upload-session.get'),
+				requireScope('deploy'),
+				async (c) => {
+					const projectId = c.req.param('projectId');
+					return getAssetUploadSession(projectId, c.req.param('sessionId'), this.env.KV_PROJECTS);
+				},
+			);
+
+			app.post(
+				'/__api/projects/:projectId/assets-upload-session/:sessionId/resume',
+				audit('assets.upload-session.resume'),
+				requireScope('deploy'),
+				async (c) => {
+					const projectId = c.req.param('projectId');
+					return resumeAssetUploadSession(projectId, c.req.param('sessionId'), this.env.KV_PROJECTS, this.env.JWT_SECRET);
+				},
+			);
+
+			app.delete(
+				'/__api/projects/:projectId/assets-upload-session/:sessionId',
+				audit('assets.upload-session.cancel'),
+				requireScope('deploy'),
+				async (c) => {
+					const projectId = c.req.param('projectId');
+					const assets = this.env.ASSET_WORKER;
+					return cancelAssetUploadSession(projectId, c.req.param('sessionId'), this.env.KV_PROJECTS, assets);
+				},
+			);
+
+			app.post('/__api/projects/:projectId/assets/upload', audit('assets.upload'), async (c) => {
 				const projectId = c.req.param('projectId');
 				const assets = this.env.ASSET_WORKER;
 				return uploadAssets(projectId, c.req.raw, this.env.KV_PROJECTS, assets, this.env.JWT_SECRET);
 			});
 
-			app.post('/__api/projects/:projectId/deploy', async (c) => {
+			app.put('/__api/projects/:projectId/assets/upload/:hash', audit('assets.upload'), async (c) => {
+				const projectId = c.req.param('projectId');
+				const assets = this.env.ASSET_WORKER;
+				return uploadAssetStream(projectId, c.req.param('hash'), c.req.raw, this.env.KV_PROJECTS, assets, this.env.JWT_SECRET);
+			});
+
+			app.post('/__api/projects/:projectId/deploy', audit('project.deploy'), requireScope('deploy'), async (c) => {
 				const projectId = c.req.param('projectId');
 				const assets = this.env.ASSET_WORKER;
-				return deployProject(projectId, c.req.raw, this.env.KV_PROJECTS, this.env.KV_SERVER_SIDE_CODE, assets, this.env.JWT_SECRET);
+				return deployProject(
+					projectId,
+					c.req.raw,
+					this.env.KV_PROJECTS,
+					this.env.KV_SERVER_SIDE_CODE,
+					this.env.DEPLOYMENT_SEQUENCE,
+					assets,
+					this.env.JWT_SECRET,
+				);
+			});
+
+			app.get('/__api/projects/:projectId/deployments', audit('deployment.list'), requireScope('projects:read'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return listDeployments(projectId, this.env.KV_PROJECTS);
+			});
+
+			app.get('/__api/projects/:projectId/deployments/:deploymentId', audit('deployment.get'), requireScope('projects:read'), async (c) => {
+				const projectId = c.req.param('projectId');
+				const deploymentId = parseDeploymentId(c.req.param('deploymentId'));
+				if (deploymentId === undefined) {
+					return new Response('Invalid deployment ID', { status: 400 });
+				}
+				return getDeploymentInfo(projectId, deploymentId, this.env.KV_PROJECTS);
+			});
+
+			app.post(
+				'/__api/projects/:projectId/deployments/:deploymentId/rollback',
+				audit('deployment.rollback'),
+				requireScope('deploy'),
+				async (c) => {
+					const projectId = c.req.param('projectId');
+					const deploymentId = parseDeploymentId(c.req.param('deploymentId'));
+					if (deploymentId === undefined) {
+						return new Response('Invalid deployment ID', { status: 400 });
+					}
+					return rollbackDeployment(projectId, deploymentId, this.env.KV_PROJECTS);
+				},
+			);
+
+			app.get('/__api/projects/:projectId/domains', audit('domain.list'), requireScope('projects:read'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return listDomains(projectId, this.env.KV_PROJECTS);
+			});
+
+			app.post('/__api/projects/:projectId/domains', audit('domain.add'), requireScope('projects:update'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return addDomain(projectId, c.req.raw, this.env.KV_PROJECTS);
+			});
+
+			app.post(
+				'/__api/projects/:projectId/domains/:hostname/verify',
+				audit('domain.verify'),
+				requireScope('projects:update'),
+				async (c) => {
+					const projectId = c.req.param('projectId');
+					return verifyDomain(projectId, c.req.param('hostname'), this.env.KV_PROJECTS);
+				},
+			);
+
+			app.delete('/__api/projects/:projectId/domains/:hostname', audit('domain.remove'), requireScope('projects:update'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return removeDomain(projectId, c.req.param('hostname'), this.env.KV_PROJECTS);
+			});
+
+			app.get('/__api/projects/:projectId/secrets', audit('secret.list'), requireScope('projects:read'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return listSecrets(projectId, this.env.KV_PROJECTS);
+			});
+
+			app.put('/__api/projects/:projectId/secrets/:name', audit('secret.put'), requireScope('projects:update'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return putSecret(projectId, c.req.param('name'), c.req.raw, this.env.KV_PROJECTS, this.env.SECRETS_ENCRYPTION_KEY);
+			});
+
+			app.delete('/__api/projects/:projectId/secrets/:name', audit('secret.delete'), requireScope('projects:update'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return deleteSecret(projectId, c.req.param('name'), this.env.KV_PROJECTS);
+			});
+
+			app.get('/__api/projects/:projectId/cron-triggers', audit('cron-trigger.list'), requireScope('projects:read'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return getCronTriggers(projectId, new URL(c.req.url), this.env.KV_PROJECTS);
+			});
+
+			app.get('/__api/projects/:projectId/logs', audit('log.list'), requireScope('projects:read'), async (c) => {
+				const projectId = c.req.param('projectId');
+				return getProjectLogs(projectId, c.req.raw, this.env.KV_PROJECTS, this.env.PROJECT_LOGS);
+			});
+
+			app.get('/__api/audit', audit('audit.list'), async (c) => {
+				// Project-restricted tokens may only read the entries of their projects
+				const credential = c.get('credential');
+				if (!credential || !hasPermission(credential, 'audit:read', c.req.query('projectId'))) {
+					return c.json(
+						{
+							success: false,
+							error: "Forbidden: token does not grant 'audit:read' for this resource",
+						},
+						403,
+					);
+				}
+				return getAuditLog(new URL(c.req.url), this.env.KV_PROJECTS);
+			});
+
+			app.get('/__api/watchdog/runs', audit('watchdog.runs.list'), requireAdmin, async (c) => {
+				return getWatchdogRuns(new URL(c.req.url), this.env.KV_PROJECTS);
+			});
+
+			app.post('/__api/watchdog/run', audit('watchdog.run'), requireAdmin, async (c) => {
+				return triggerWatchdogRun(c.req.raw, this.env, this.ctx);
+			});
+
+			app.get('/__api/watchdog/settings', audit('watchdog.settings.get'), requireAdmin, async () => {
+				return getWatchdogSettingsInfo(this.env.KV_PROJECTS);
+			});
+
+			app.put('/__api/watchdog/settings', audit('watchdog.settings.update'), requireAdmin, async (c) => {
+				return updateWatchdogSettings(c.req.raw, this.env.KV_PROJECTS);
 			});
 
 			app.onError((error, c) => {
@@ -167,7 +541,7 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 			});
 
 			analytics.setData({ requestType: 'api' });
-			const response = await app.fetch(request, this.env);
+			const response = await app.fetch(request, this.env, this.ctx);
 			analytics.setData({
 				status: response.status,
 				requestTime: performance.now() - startTime,
@@ -215,28 +589,65 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 			return Response.redirect(new URL('/admin/login.html', request.url).toString(), 302);
 		}
 
-		// Project serving - extract project ID from subdomain or path
-		const { projectId, isPathBased } = extractProjectId(url);
+		// Project serving - extract project ID (and optional pinned deployment) from custom domain, subdomain or path
+		const customDomainProjectId = await resolveCustomDomain(url.hostname, this.env.KV_PROJECTS);
+		const {
+			projectId: projectName,
+			deploymentId: pinnedDeploymentId,
+			isPathBased,
+			isCustomDomain,
+		} = extractProjectId(url, customDomainProjectId);
 
 		analytics.setData({
-			projectId: projectId ?? 'none',
-			routingType: isPathBased ? 'path' : 'subdomain',
+			projectId: projectName ?? 'none',
+			routingType: isCustomDomain ? 'custom-domain' : isPathBased ? 'path' : 'subdomain',
 		});
 
-		if (!projectId) {
+		// Error responses of the request path, using the error pages of the deployment when one is known
+		const errorResponse = async (
+			state: ErrorPageState,
+			options: Pick<ErrorResponseOptions, 'source' | 'detail' | 'headers'> = {},
+		): Promise<Response> => {
+			const response = await createErrorResponse(request, state, {
+				...options,
+				platformPages: this.env.ASSETS,
+				assetWorker: this.env.ASSET_WORKER,
+			});
+			return options.source && projectName && isPathBased ? rewritePathBasedResponse(response, projectName, pinnedDeploymentId) : response;
+		};
+
+		if (!projectName) {
 			// No project and not /admin - return 404
-			return new Response('Not found', { status: 404 });
+			return errorResponse('not_found');
+		}
+
+		// The subdomain or path may name the project by its slug instead of its ID
+		const { projectId, redirectToSlug } = isCustomDomain
+			? { projectId: projectName, redirectToSlug: undefined }
+			: await resolveProjectName(projectName, this.env.KV_PROJECTS);
+		analytics.setData({ projectId });
+
+		if (redirectToSlug) {
+			// Previous slug of a renamed project - redirect while the grace period lasts
+			const location = replaceProjectName(url, isPathBased, projectName, redirectToSlug, pinnedDeploymentId);
+			analytics.setData({
+				requestType: 'slug_redirect',
+				status: 302,
+				requestTime: performance.now() - startTime,
+			});
+			analytics.write();
+			return Response.redirect(location.toString(), 302);
 		}
 
 		const result = await this.env.RATE_LIMIT_PROJECT.limit({ key: projectId });
 		if (!result.success) {
-			return new Response('Rate limit exceeded', { status: 429 });
+			return errorResponse('rate_limited');
 		}
 
 		// Verify project exists and is ready to serve
 		const project = await getProject(projectId, this.env.KV_PROJECTS);
 		if (!project) {
-			const response = new Response('Project not found', { status: 404 });
+			const response = await errorResponse('project_not_found');
 			analytics.setData({
 				requestType: 'project_not_found',
 				status: 404,
@@ -246,8 +657,40 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 			return response;
 		}
 
+		// Errors before a deployment is resolved use the error pages of the active deployment
+		const projectErrorPages: ErrorPageSource = {
+			projectId,
+			deploymentId: project.activeDeploymentId,
+			config: project.config,
+			errorPages: project.errorPages,
+		};
+
+		// Maintenance mode takes the project offline, except for allowed IPs and holders of the bypass cookie
+		const now = Date.now();
+		if (project.maintenance && isMaintenanceActive(project.maintenance, now)) {
+			const bypassRedirect = await createMaintenanceBypassRedirect(request, projectId, project.maintenance);
+			if (bypassRedirect) {
+				return bypassRedirect;
+			}
+
+			if (!(await canBypassMaintenance(request, projectId, project.maintenance))) {
+				const retryAfter = getMaintenanceRetryAfter(project.maintenance, now);
+				const response = await errorResponse('maintenance', {
+					source: getMaintenancePageSource(projectErrorPages, project.maintenance),
+					headers: retryAfter === undefined ? {} : { 'Retry-After': String(retryAfter) },
+				});
+				analytics.setData({
+					requestType: 'maintenance',
+					status: 503,
+					requestTime: performance.now() - startTime,
+				});
+				analytics.write();
+				return response;
+			}
+		}
+
 		if (project.status !== 'READY') {
-			const response = new Response('Project not ready', { status: 503 });
+			const response = await errorResponse('project_not_ready', { source: projectErrorPages });
 			analytics.setData({
 				requestType: 'project_not_ready',
 				status: 503,
@@ -257,14 +700,30 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 			return response;
 		}
 
+		// Resolve the deployment to serve: the active one, or a pinned preview deployment
+		const deployment = await resolveServingDeployment(project, pinnedDeploymentId, this.env.KV_PROJECTS);
+		if (!deployment) {
+			const response = await errorResponse('deployment_not_found', { source: projectErrorPages });
+			analytics.setData({
+				requestType: 'deployment_not_found',
+				status: 404,
+				requestTime: performance.now() - startTime,
+			});
+			analytics.write();
+			return response;
+		}
+
+		const deploymentId = deployment.id;
+		const deploymentErrorPages: ErrorPageSource = { projectId, deploymentId, config: deployment.config, errorPages: deployment.errorPages };
+
 		// Rewrite request URL if using path-based routing
 		let rewrittenRequest = request;
 		if (isPathBased) {
-			rewrittenRequest = rewriteRequestUrl(request, projectId);
+			rewrittenRequest = rewriteRequestUrl(request, projectName, pinnedDeploymentId);
 		}
 
-		// Prefetch server-side code manifest in parallel with asset lookup when project has server-side code
-		const manifestPromise = project.hasServerSideCode ? getServerSideCodeManifest(projectId) : undefined;
+		// Prefetch server-side code manifest in parallel with asset lookup when deployment has server-side code
+		const manifestPromise = deployment.hasServerSideCode ? getServerSideCodeManifest(projectId, deploymentId) : undefined;
 
 		// Helper to run server-side code with common parameters
 		const executeServerSideCode = async () => {
@@ -273,16 +732,20 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 				const prefetchedManifest = manifestPromise ? await manifestPromise : undefined;
 				const response = await runServerSideCode(
 					projectId,
+					deploymentId,
 					rewrittenRequest,
 					{
-						ASSETS: this.ctx.exports.AssetBinding({ props: { projectId, config: project.config } }),
+						ASSETS: this.ctx.exports.AssetBinding({ props: { projectId, deploymentId, config: deployment.config } }),
+						KV: this.ctx.exports.KvBinding({ props: { projectId } }),
 					},
+					(policy) => this.ctx.exports.OutboundGateway({ props: { projectId, policy } }),
+					this.ctx.exports.LogTail({ props: { projectId, deploymentId } }),
 					prefetchedManifest,
 				);
 				// Apply path rewriting for path-based routing
 				// JS rewriting handles dynamic import() paths in JS responses
 				// HTML rewriting handles attributes + inline scripts in HTML responses
-				const rewritten = isPathBased ? await rewritePathBasedResponse(response, projectId) : response;
+				const rewritten = isPathBased ? await rewritePathBasedResponse(response, projectName, pinnedDeploymentId) : response;
 				analytics.setData({
 					status: rewritten.status,
 					requestTime: performance.now() - startTime,
@@ -291,7 +754,14 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 				return rewritten;
 			} catch (error) {
 				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-				const response = new Response(`SSR Error: ${errorMessage}`, { status: 500 });
+				// Debug detail is the stack trace, at original positions when source maps were uploaded
+				let detail = errorMessage;
+				if (deployment.config?.debug && error instanceof Error && error.stack) {
+					const manifest = await manifestPromise?.catch(() => {});
+					const sourceMaps = manifest ? await loadSourceMaps(projectId, manifest, [error.stack], this.env.KV_SERVER_SIDE_CODE) : new Map();
+					detail = applySourceMaps(error.stack, sourceMaps);
+				}
+				const response = await errorResponse('server_error', { source: deploymentErrorPages, detail });
 				analytics.setData({
 					error: errorMessage,
 					status: 500,
@@ -304,9 +774,9 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 
 		// Decide whether to check assets first or run worker first based on config
 		const rewrittenUrl = new URL(rewrittenRequest.url);
-		const runWorkerFirst = shouldRunWorkerFirst(project.run_worker_first, rewrittenUrl.pathname);
+		const runWorkerFirst = shouldRunWorkerFirst(deployment.run_worker_first, rewrittenUrl.pathname);
 
-		if (runWorkerFirst && project.hasServerSideCode) {
+		if (runWorkerFirst && deployment.hasServerSideCode) {
 			// Run server-side code first, let it handle everything including static files
 			const response = await executeServerSideCode();
 			// Add header to indicate asset lookup was skipped due to run_worker_first
@@ -321,15 +791,20 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 		try {
 			// Clone the request because canFetch (RPC) might consume/read the body,
 			// rendering rewrittenRequest unusable for executeServerSideCode later.
-			const canServeAsset = await assets.canFetch(rewrittenRequest.clone(), projectId, project.config);
+			const canServeAsset = await assets.canFetch(rewrittenRequest.clone(), projectId, deployment.config, deploymentId);
 
 			if (canServeAsset) {
 				analytics.setData({ requestType: 'asset' });
-				const assetResponse = await assets.serveAsset(rewrittenRequest, projectId, project.config);
-				const response = isPathBased ? await rewritePathBasedResponse(assetResponse, projectId) : assetResponse;
-
-				// Add header to indicate asset was found
-				const finalResponse = new Response(response.body, response);
+				const assetResponse = await assets.serveAsset(rewrittenRequest, projectId, deployment.config, deploymentId);
+				const response = isPathBased ? await rewritePathBasedResponse(assetResponse, projectName, pinnedDeploymentId) : assetResponse;
+
+				// Add header to indicate asset was found. Precompressed variants must be sent as-is.
+				const finalResponse = new Response(response.body, {
+					status: response.status,
+					statusText: response.statusText,
+					headers: response.headers,
+					encodeBody: response.headers.has('Content-Encoding') ? 'manual' : 'automatic',
+				});
 				finalResponse.headers.set('X-Asset-Lookup', 'HIT');
 
 				analytics.setData({
@@ -340,8 +815,8 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 				return finalResponse;
 			}
 
-			// If no asset found and project has server-side code, run dynamic worker
-			if (project.hasServerSideCode) {
+			// If no asset found and deployment has server-side code, run dynamic worker
+			if (deployment.hasServerSideCode) {
 				const response = await executeServerSideCode();
 				// Add header to indicate asset lookup was attempted but missed
 				const newResponse = new Response(response.body, response);
@@ -349,7 +824,7 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 				return newResponse;
 			}
 
-			const response = new Response('Not found', { status: 404 });
+			const response = await errorResponse('not_found', { source: deploymentErrorPages });
 			analytics.setData({
 				requestType: 'not_found',
 				status: 404,
@@ -359,7 +834,10 @@ export default class AssetManager extends WorkerEntrypoint<Env> {
 			return response;
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-			const response = new Response(`Error: ${errorMessage}`, { status: 500 });
+			const response = await errorResponse('server_error', {
+				source: deploymentErrorPages,
+				detail: error instanceof Error ? (error.stack ?? errorMessage) : errorMessage,
+			});
 			analytics.setData({
 				requestType: 'error',
 				error: errorMessage,
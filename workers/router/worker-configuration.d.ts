@@ -4,10 +4,15 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/worker");
+		durableNamespaces: "ProjectLogs" | "DeploymentSequence" | "ProjectDataQuota";
 	}
 	interface Env {
 		KV_PROJECTS: KVNamespace;
 		KV_SERVER_SIDE_CODE: KVNamespace;
+		KV_PROJECT_DATA: KVNamespace;
+		PROJECT_LOGS: DurableObjectNamespace<import("./src/worker").ProjectLogs>;
+		DEPLOYMENT_SEQUENCE: DurableObjectNamespace<import("./src/worker").DeploymentSequence>;
+		PROJECT_DATA_QUOTA: DurableObjectNamespace<import("./src/worker").ProjectDataQuota>;
 		ANALYTICS: AnalyticsEngineDataset;
 		RATE_LIMIT_API: RateLimit;
 		RATE_LIMIT_PROJECT: RateLimit;
@@ -16,6 +21,7 @@ declare namespace Cloudflare {
 		ASSETS: Fetcher;
 		API_TOKEN: string;
 		JWT_SECRET: string;
+		SECRETS_ENCRYPTION_KEY: string;
 		ASSET_WORKER: Service<typeof import("../asset-service/src/worker").default>;
 	}
 }
@@ -24,7 +30,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "API_TOKEN" | "JWT_SECRET">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "API_TOKEN" | "JWT_SECRET" | "SECRETS_ENCRYPTION_KEY">> {}
 }
 
 // Begin runtime types